@@ -0,0 +1,210 @@
+import { useState, useEffect } from 'react'
+import { ShieldCheck, Trash2, Plus, Pencil } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { lifecycleService, type ApprovalWorkflow } from '../services/lifecycleService'
+
+interface ApprovalWorkflowSettingsProps {
+  organizationId: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface WorkflowForm {
+  id?: string
+  folderPath: string
+  documentType: string
+  reviewers: string
+  approvers: string
+}
+
+const emptyForm: WorkflowForm = { folderPath: '', documentType: '', reviewers: '', approvers: '' }
+
+const splitEntries = (value: string) =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean)
+
+export function ApprovalWorkflowSettings({ organizationId, isOpen, onClose }: ApprovalWorkflowSettingsProps) {
+  const [workflows, setWorkflows] = useState<ApprovalWorkflow[]>([])
+  const [loading, setLoading] = useState(false)
+  const [form, setForm] = useState<WorkflowForm>(emptyForm)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadWorkflows = async () => {
+    setLoading(true)
+    try {
+      setWorkflows(await lifecycleService.listWorkflows(organizationId))
+    } catch (error) {
+      console.error('Error loading approval workflows:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      loadWorkflows()
+      setForm(emptyForm)
+      setError(null)
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleEdit = (workflow: ApprovalWorkflow) => {
+    setForm({
+      id: workflow.id,
+      folderPath: workflow.folderPath || '',
+      documentType: workflow.documentType || '',
+      reviewers: workflow.reviewers.join(', '),
+      approvers: workflow.approvers.join(', ')
+    })
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    const approvers = splitEntries(form.approvers)
+    if (approvers.length === 0) {
+      setError('Add at least one approver.')
+      return
+    }
+
+    try {
+      await lifecycleService.saveWorkflow({
+        id: form.id,
+        organizationId,
+        folderPath: form.folderPath.trim() || undefined,
+        documentType: form.documentType.trim().toUpperCase() || undefined,
+        reviewers: splitEntries(form.reviewers),
+        approvers
+      })
+      setForm(emptyForm)
+      setError(null)
+      await loadWorkflows()
+    } catch (error) {
+      console.error('Error saving approval workflow:', error)
+      setError('Could not save the workflow.')
+    }
+  }
+
+  const handleDelete = async (workflow: ApprovalWorkflow) => {
+    if (!confirm('Delete this approval workflow?')) return
+    try {
+      await lifecycleService.deleteWorkflow(workflow.id)
+      if (form.id === workflow.id) setForm(emptyForm)
+      await loadWorkflows()
+    } catch (error) {
+      console.error('Error deleting approval workflow:', error)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ShieldCheck className="w-5 h-5" />
+            <span>Approval Workflows</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Reviewers can return drafts for changes; approvers can approve, make effective and obsolete.
+          The most specific rule for a document's folder and type applies. Documents without a rule cannot be approved,
+          and nobody can approve a version they uploaded.
+        </p>
+
+        <div className="space-y-2">
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading workflows...</div>
+          ) : workflows.length === 0 ? (
+            <div className="text-sm text-gray-500">No workflows configured</div>
+          ) : (
+            workflows.map(workflow => (
+              <div key={workflow.id} className="border rounded-lg p-3 flex items-start justify-between">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">{workflow.folderPath || 'All folders'}</Badge>
+                    <Badge variant="outline">{workflow.documentType || 'All types'}</Badge>
+                  </div>
+                  <p className="text-gray-600">
+                    Reviewers: {workflow.reviewers.length > 0 ? workflow.reviewers.join(', ') : 'anyone'}
+                  </p>
+                  <p className="text-gray-600">Approvers: {workflow.approvers.join(', ')}</p>
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(workflow)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(workflow)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-semibold">{form.id ? 'Edit workflow' : 'Add workflow'}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="workflow-folder">Folder</Label>
+              <Input
+                id="workflow-folder"
+                value={form.folderPath}
+                onChange={(e) => setForm({ ...form, folderPath: e.target.value })}
+                placeholder="/Policies (blank for all)"
+              />
+            </div>
+            <div>
+              <Label htmlFor="workflow-type">Document type</Label>
+              <Input
+                id="workflow-type"
+                value={form.documentType}
+                onChange={(e) => setForm({ ...form, documentType: e.target.value })}
+                placeholder="PDF, DOC... (blank for all)"
+              />
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="workflow-reviewers">Reviewers</Label>
+            <Input
+              id="workflow-reviewers"
+              value={form.reviewers}
+              onChange={(e) => setForm({ ...form, reviewers: e.target.value })}
+              placeholder="Comma-separated emails or user IDs"
+            />
+          </div>
+          <div>
+            <Label htmlFor="workflow-approvers">Approvers</Label>
+            <Input
+              id="workflow-approvers"
+              value={form.approvers}
+              onChange={(e) => setForm({ ...form, approvers: e.target.value })}
+              placeholder="Comma-separated emails or user IDs"
+            />
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex items-center space-x-2">
+            <Button size="sm" onClick={handleSave} className="flex items-center space-x-1">
+              <Plus className="w-4 h-4" />
+              <span>{form.id ? 'Save workflow' : 'Add workflow'}</span>
+            </Button>
+            {form.id && (
+              <Button variant="ghost" size="sm" onClick={() => setForm(emptyForm)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,5 +1,5 @@
 import React, { useState, useEffect } from 'react'
-import { Clock, User, FileText, Upload, RotateCcw, Trash2, Share2, Brain, Zap } from 'lucide-react'
+import { Clock, User, FileText, Upload, RotateCcw, Trash2, Share2, Brain, Zap, Lock, Unlock, ShieldAlert, ShieldCheck, Gavel, FileCheck, ListChecks } from 'lucide-react'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Badge } from './ui/badge'
 import { Separator } from './ui/separator'
@@ -37,6 +37,32 @@ const getActionIcon = (action: string) => {
       return <Trash2 className="w-4 h-4 text-red-600" />
     case 'share':
       return <Share2 className="w-4 h-4 text-purple-600" />
+    case 'check_out':
+      return <Lock className="w-4 h-4 text-amber-600" />
+    case 'check_in':
+      return <Unlock className="w-4 h-4 text-green-600" />
+    case 'lock_break':
+      return <ShieldAlert className="w-4 h-4 text-red-600" />
+    case 'lifecycle_transition':
+      return <ShieldCheck className="w-4 h-4 text-indigo-600" />
+    case 'trash':
+      return <Trash2 className="w-4 h-4 text-gray-600" />
+    case 'trash_restore':
+      return <RotateCcw className="w-4 h-4 text-green-600" />
+    case 'purge':
+    case 'version_prune':
+      return <Trash2 className="w-4 h-4 text-red-600" />
+    case 'legal_hold_placed':
+    case 'legal_hold_released':
+      return <Gavel className="w-4 h-4 text-red-600" />
+    case 'retention_block':
+      return <ShieldAlert className="w-4 h-4 text-amber-600" />
+    case 'document_verified':
+      return <FileCheck className="w-4 h-4 text-teal-600" />
+    case 'bulk_metadata_edit':
+      return <ListChecks className="w-4 h-4 text-blue-600" />
+    case 'bulk_metadata_undone':
+      return <RotateCcw className="w-4 h-4 text-gray-600" />
     default:
       return <Clock className="w-4 h-4 text-gray-600" />
   }
@@ -54,6 +80,33 @@ const getActionColor = (action: string) => {
       return 'bg-red-50 border-red-200'
     case 'share':
       return 'bg-purple-50 border-purple-200'
+    case 'check_out':
+      return 'bg-amber-50 border-amber-200'
+    case 'check_in':
+      return 'bg-green-50 border-green-200'
+    case 'lock_break':
+      return 'bg-red-50 border-red-200'
+    case 'lifecycle_transition':
+      return 'bg-indigo-50 border-indigo-200'
+    case 'trash':
+      return 'bg-gray-50 border-gray-300'
+    case 'trash_restore':
+      return 'bg-green-50 border-green-200'
+    case 'purge':
+    case 'version_prune':
+      return 'bg-red-50 border-red-200'
+    case 'legal_hold_placed':
+      return 'bg-red-50 border-red-200'
+    case 'legal_hold_released':
+      return 'bg-gray-50 border-gray-300'
+    case 'retention_block':
+      return 'bg-amber-50 border-amber-200'
+    case 'document_verified':
+      return 'bg-teal-50 border-teal-200'
+    case 'bulk_metadata_edit':
+      return 'bg-blue-50 border-blue-200'
+    case 'bulk_metadata_undone':
+      return 'bg-gray-50 border-gray-300'
     default:
       return 'bg-gray-50 border-gray-200'
   }
@@ -169,9 +222,24 @@ export function AuditTrail({ fileId, fileName, isOpen, onClose }: AuditTrailProp
                               {detailedChanges.newVersion && (
                                 <p><strong>Version:</strong> {detailedChanges.previousVersion} → {detailedChanges.newVersion}</p>
                               )}
+                              {detailedChanges.restoredFrom && (
+                                <p><strong>Restored from:</strong> {detailedChanges.restoredFrom}</p>
+                              )}
+                              {detailedChanges.versionBump && (
+                                <p><strong>Bump:</strong> {detailedChanges.versionBump}{detailedChanges.bumpRequirement ? ` (${detailedChanges.bumpRequirement})` : ''}</p>
+                              )}
                               {detailedChanges.versionLabel && !detailedChanges.newVersion && (
                                 <p><strong>Version:</strong> {detailedChanges.versionLabel}</p>
                               )}
+                              {detailedChanges.fromState && detailedChanges.toState && (
+                                <p><strong>State:</strong> {detailedChanges.fromState} → {detailedChanges.toState}</p>
+                              )}
+                              {detailedChanges.reason && (
+                                <p><strong>Reason:</strong> {detailedChanges.reason}</p>
+                              )}
+                              {detailedChanges.comment && (
+                                <p><strong>Comment:</strong> {detailedChanges.comment}</p>
+                              )}
                               {detailedChanges.documentReference && (
                                 <p><strong>Doc Ref:</strong> {detailedChanges.documentReference}</p>
                               )}
@@ -181,6 +249,11 @@ export function AuditTrail({ fileId, fileName, isOpen, onClose }: AuditTrailProp
                                   <span>Metadata embedded ({detailedChanges.embeddingMethod})</span>
                                 </div>
                               )}
+                              {detailedChanges.metadataEmbedded === false && detailedChanges.embeddingError && (
+                                <p className="text-amber-700">
+                                  <strong>Metadata not embedded:</strong> {detailedChanges.embeddingError}
+                                </p>
+                              )}
                             </div>
                           )}
                         </div>
@@ -0,0 +1,328 @@
+import { useState, useEffect } from 'react'
+import { ListChecks, Plus, Trash2, Eye, RotateCcw } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Badge } from './ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import {
+  bulkMetadataService,
+  BULK_EDIT_ACTIONS,
+  BULK_EDIT_ACTION_LABELS,
+  type BulkEditAction,
+  type BulkEditBatch,
+  type BulkEditOperation,
+  type BulkEditPreview
+} from '../services/bulkMetadataService'
+import type { MetadataFieldDefinition } from '../services/metadataSchemaService'
+import { retentionService } from '../services/retentionService'
+
+interface BulkMetadataEditorProps {
+  organizationId: string
+  user: any
+  files: any[]
+  metadataFields: MetadataFieldDefinition[]
+  isOpen: boolean
+  onClose: () => void
+  onChange?: () => void
+}
+
+const emptyOperation: BulkEditOperation = { target: 'tags', action: 'add', value: '' }
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString()
+
+export function BulkMetadataEditor({ organizationId, user, files, metadataFields, isOpen, onClose, onChange }: BulkMetadataEditorProps) {
+  const [operations, setOperations] = useState<BulkEditOperation[]>([emptyOperation])
+  const [previews, setPreviews] = useState<BulkEditPreview[] | null>(null)
+  const [batches, setBatches] = useState<(BulkEditBatch & { summary: string })[]>([])
+  const [working, setWorking] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+
+  // One target per key; type-specific copies of a field share the key
+  const fieldTargets = metadataFields.filter((field, index) =>
+    metadataFields.findIndex(other => other.key === field.key) === index)
+
+  const loadBatches = async () => {
+    setBatches(await bulkMetadataService.listBatches(organizationId))
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      setOperations([emptyOperation])
+      setPreviews(null)
+      setMessage(null)
+      loadBatches()
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const updateOperation = (index: number, changes: Partial<BulkEditOperation>) => {
+    setOperations(operations.map((operation, i) => i === index ? { ...operation, ...changes } : operation))
+    setPreviews(null)
+  }
+
+  const handleTargetChange = (index: number, value: string) => {
+    const [target, fieldKey] = value.split(':') as [BulkEditOperation['target'], string | undefined]
+    updateOperation(index, { target, fieldKey, action: BULK_EDIT_ACTIONS[target][0], value: '', find: '', replaceWith: '' })
+  }
+
+  const handlePreview = async () => {
+    try {
+      const holds = await retentionService.listHolds(organizationId)
+      setPreviews(bulkMetadataService.preview(files, operations, metadataFields, user.id, holds))
+      setMessage(null)
+    } catch (error) {
+      console.error('Error previewing bulk edit:', error)
+      alert('Could not preview the bulk edit.')
+    }
+  }
+
+  const handleApply = async () => {
+    if (!previews) return
+    setWorking(true)
+    try {
+      const result = await bulkMetadataService.apply(organizationId, operations, previews, metadataFields, user)
+      setMessage(
+        `Updated ${result.applied} file(s).` +
+        (result.conflicts.length > 0 ? ` Skipped ${result.conflicts.join(', ')} because they changed or were put on hold since the preview.` : '')
+      )
+      setPreviews(null)
+      await loadBatches()
+      onChange?.()
+    } catch (error) {
+      console.error('Error applying bulk edit:', error)
+      alert('Could not apply the bulk edit.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const handleUndo = async (batch: BulkEditBatch) => {
+    if (!confirm(`Undo this bulk edit on ${batch.entries.length} file(s)?`)) return
+    setWorking(true)
+    try {
+      const result = await bulkMetadataService.undo(batch, user)
+      setMessage(
+        `Restored ${result.applied} file(s).` +
+        (result.conflicts.length > 0 ? ` Left ${result.conflicts.join(', ')} alone because they were edited again or are on hold.` : '')
+      )
+      await loadBatches()
+      onChange?.()
+    } catch (error) {
+      console.error('Error undoing bulk edit:', error)
+      alert(error instanceof Error ? error.message : 'Could not undo the bulk edit.')
+    } finally {
+      setWorking(false)
+    }
+  }
+
+  const renderValueInput = (operation: BulkEditOperation, index: number) => {
+    if (operation.action === 'clear') return null
+    if (operation.action === 'replace') {
+      return (
+        <>
+          <Input
+            value={operation.find || ''}
+            onChange={(e) => updateOperation(index, { find: e.target.value })}
+            placeholder="Find"
+          />
+          <Input
+            value={operation.replaceWith || ''}
+            onChange={(e) => updateOperation(index, { replaceWith: e.target.value })}
+            placeholder="Replace with"
+          />
+        </>
+      )
+    }
+
+    const field = operation.target === 'field'
+      ? fieldTargets.find(candidate => candidate.key === operation.fieldKey)
+      : undefined
+    if (field?.type === 'enum') {
+      return (
+        <select
+          value={operation.value || ''}
+          onChange={(e) => updateOperation(index, { value: e.target.value })}
+          className="w-full h-10 border rounded-md px-3 text-sm"
+        >
+          <option value="">Select...</option>
+          {field.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      )
+    }
+    return (
+      <Input
+        type={field?.type === 'date' ? 'date' : 'text'}
+        value={operation.value || ''}
+        onChange={(e) => updateOperation(index, { value: e.target.value })}
+        placeholder={operation.target === 'tags' ? 'Comma separated tags' : operation.target === 'folder' ? '/Quality/Procedures' : 'Value'}
+      />
+    )
+  }
+
+  const changedCount = previews?.filter(preview => !preview.skipped && preview.changes.length > 0).length || 0
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-4xl max-h-[85vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ListChecks className="w-5 h-5" />
+            <span>Bulk Edit Metadata</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {message && <p className="text-sm text-green-700">{message}</p>}
+
+        <Tabs defaultValue={files.length > 0 ? 'edit' : 'history'}>
+          <TabsList>
+            <TabsTrigger value="edit" disabled={files.length === 0}>Edit {files.length} file(s)</TabsTrigger>
+            <TabsTrigger value="history">Recent bulk edits</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="edit" className="space-y-4">
+            {operations.map((operation, index) => (
+              <div key={index} className="flex items-center space-x-2">
+                <select
+                  value={operation.target === 'field' ? `field:${operation.fieldKey}` : operation.target}
+                  onChange={(e) => handleTargetChange(index, e.target.value)}
+                  className="h-10 border rounded-md px-3 text-sm"
+                >
+                  <option value="tags">Tags</option>
+                  <option value="folder">Folder</option>
+                  {fieldTargets.map(field => (
+                    <option key={field.key} value={`field:${field.key}`}>{field.label}</option>
+                  ))}
+                </select>
+                <select
+                  value={operation.action}
+                  onChange={(e) => updateOperation(index, { action: e.target.value as BulkEditAction })}
+                  className="h-10 border rounded-md px-3 text-sm"
+                >
+                  {BULK_EDIT_ACTIONS[operation.target].map(action => (
+                    <option key={action} value={action}>{BULK_EDIT_ACTION_LABELS[action]}</option>
+                  ))}
+                </select>
+                <div className="flex-1 flex items-center space-x-2">
+                  {renderValueInput(operation, index)}
+                </div>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  disabled={operations.length === 1}
+                  onClick={() => {
+                    setOperations(operations.filter((_, i) => i !== index))
+                    setPreviews(null)
+                  }}
+                >
+                  <Trash2 className="w-4 h-4 text-red-600" />
+                </Button>
+              </div>
+            ))}
+
+            <div className="flex items-center space-x-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  setOperations([...operations, emptyOperation])
+                  setPreviews(null)
+                }}
+                className="flex items-center space-x-1"
+              >
+                <Plus className="w-4 h-4" />
+                <span>Add change</span>
+              </Button>
+              <Button size="sm" onClick={handlePreview} className="flex items-center space-x-1">
+                <Eye className="w-4 h-4" />
+                <span>Preview</span>
+              </Button>
+            </div>
+
+            {previews && (
+              <div className="border-t pt-4 space-y-3">
+                <p className="text-sm text-gray-600">
+                  {changedCount} of {previews.length} file(s) will change
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1">File</th>
+                      <th className="py-1">Changes</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {previews.map(preview => (
+                      <tr key={preview.fileId} className="border-t align-top">
+                        <td className="py-1 pr-2">{preview.fileName}</td>
+                        <td className="py-1">
+                          {preview.skipped ? (
+                            <span className="text-amber-700">Skipped: {preview.skipped}</span>
+                          ) : preview.changes.length === 0 ? (
+                            <span className="text-gray-400">No change</span>
+                          ) : (
+                            preview.changes.map(change => (
+                              <div key={change.label}>
+                                <span className="font-medium">{change.label}</span>{' '}
+                                <span className="text-gray-500 line-through">{change.from || '(empty)'}</span>{' → '}
+                                <span>{change.to || '(empty)'}</span>
+                              </div>
+                            ))
+                          )}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                <Button onClick={handleApply} disabled={working || changedCount === 0}>
+                  {working ? 'Applying...' : `Apply to ${changedCount} file(s)`}
+                </Button>
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="history" className="space-y-2">
+            {batches.length === 0 ? (
+              <p className="text-sm text-gray-500">No bulk edits yet</p>
+            ) : (
+              batches.map(batch => (
+                <div key={batch.id} className="border rounded-lg p-3 flex items-start justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{batch.summary}</p>
+                    <p className="text-xs text-gray-500">
+                      {batch.entries.length} file(s) by {batch.performedBy} on {formatDate(batch.createdAt)}
+                    </p>
+                    {batch.undoneAt && (
+                      <Badge variant="outline" className="text-xs mt-1">
+                        Undone by {batch.undoneBy} on {formatDate(batch.undoneAt)}
+                      </Badge>
+                    )}
+                  </div>
+                  {!batch.undoneAt && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      disabled={working}
+                      onClick={() => handleUndo(batch)}
+                      className="flex items-center space-x-1"
+                    >
+                      <RotateCcw className="w-4 h-4" />
+                      <span>Undo</span>
+                    </Button>
+                  )}
+                </div>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,148 @@
+import { useState, useEffect } from 'react'
+import { FileSpreadsheet, Download } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { coverSheetService, type CoverSheetData } from '../services/coverSheetService'
+import { documentVerificationService } from '../services/documentVerificationService'
+import { LIFECYCLE_LABELS } from '../services/lifecycleService'
+import type { MetadataFieldDefinition } from '../services/metadataSchemaService'
+
+interface CoverSheetProps {
+  file: any
+  organizationId: string
+  organizationName: string
+  user: any
+  metadataFields: MetadataFieldDefinition[]
+  isOpen: boolean
+  onClose: () => void
+}
+
+const saveBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  document.body.appendChild(link)
+  link.click()
+  document.body.removeChild(link)
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
+
+const baseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '')
+
+export function CoverSheet({ file, organizationId, organizationName, user, metadataFields, isOpen, onClose }: CoverSheetProps) {
+  const [loading, setLoading] = useState(false)
+  const [data, setData] = useState<CoverSheetData | null>(null)
+  const [sheet, setSheet] = useState<Uint8Array | null>(null)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [downloading, setDownloading] = useState(false)
+
+  const isPdf = (file.file_type || '').includes('pdf') || /\.pdf$/i.test(file.name)
+
+  useEffect(() => {
+    if (!isOpen) return
+    let url: string | null = null
+    const load = async () => {
+      setLoading(true)
+      try {
+        const template = await coverSheetService.getTemplate(organizationId)
+        const sheetData = await coverSheetService.buildData(file, organizationName, metadataFields)
+        const bytes = await coverSheetService.render(sheetData, template)
+        url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }))
+        setData(sheetData)
+        setSheet(bytes)
+        setPreviewUrl(url)
+      } catch (error) {
+        console.error('Error generating cover sheet:', error)
+      } finally {
+        setLoading(false)
+      }
+    }
+    load()
+    return () => {
+      if (url) URL.revokeObjectURL(url)
+    }
+  }, [isOpen, file, organizationId, organizationName, metadataFields])
+
+  const handleDownloadSheet = () => {
+    if (!sheet) return
+    saveBlob(new Blob([sheet], { type: 'application/pdf' }), `${baseName(file.name)}_cover_sheet.pdf`)
+  }
+
+  const handleDownloadWithSheet = async () => {
+    if (!sheet || !data) return
+    setDownloading(true)
+    try {
+      const response = await fetch(file.file_path)
+      if (!response.ok) {
+        throw new Error(`Failed to download ${file.name} (${response.status})`)
+      }
+      const bytes = await coverSheetService.prependTo(await response.arrayBuffer(), sheet)
+      const copy = new Blob([bytes], { type: 'application/pdf' })
+      // The combined copy differs from every stored rendition, so register it for verification
+      await documentVerificationService.recordIssuedCopy(copy, 'cover_sheet', {
+        fileId: file.id,
+        versionId: data.versionId,
+        organizationId
+      }, user)
+      saveBlob(copy, `${baseName(file.name)}_${data.revision}.pdf`)
+    } catch (error) {
+      console.error('Error adding cover sheet:', error)
+      alert(error instanceof Error ? error.message : 'Could not add the cover sheet.')
+    } finally {
+      setDownloading(false)
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            <span>Cover Sheet - {file.name}</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="text-sm text-gray-500">Generating cover sheet...</div>
+        ) : !data || !previewUrl ? (
+          <div className="text-sm text-gray-500">The cover sheet could not be generated.</div>
+        ) : (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center gap-2 text-sm">
+              <span className="font-medium">{data.documentReference || 'No reference'}</span>
+              <Badge variant="outline">{data.revision}</Badge>
+              <Badge variant="outline">{LIFECYCLE_LABELS[data.state]}</Badge>
+              <span className="text-gray-500">
+                {data.approvals.length} approvals, {data.history.length} revisions
+              </span>
+            </div>
+            <iframe
+              src={previewUrl}
+              title="Cover sheet preview"
+              className="w-full h-[60vh] border rounded"
+            />
+          </div>
+        )}
+
+        <div className="flex justify-end space-x-2 pt-4 border-t">
+          <Button variant="outline" onClick={handleDownloadSheet} disabled={!sheet}>
+            <Download className="w-4 h-4 mr-2" />
+            Download Cover Sheet
+          </Button>
+          {isPdf && (
+            <Button onClick={handleDownloadWithSheet} disabled={!sheet || downloading}>
+              <Download className="w-4 h-4 mr-2" />
+              {downloading ? 'Preparing...' : 'Download PDF with Cover Sheet'}
+            </Button>
+          )}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,203 @@
+import { useState, useEffect } from 'react'
+import { FileSpreadsheet, Eye } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import {
+  coverSheetService,
+  COVER_SHEET_LAYOUT_LABELS,
+  DEFAULT_COVER_SHEET_TEMPLATE,
+  type CoverSheetData,
+  type CoverSheetLayout,
+  type CoverSheetPageSize,
+  type CoverSheetTemplate
+} from '../services/coverSheetService'
+
+interface CoverSheetSettingsProps {
+  organizationId: string
+  organizationName: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+// Shown in the preview so the layout can be judged without picking a document
+const SAMPLE_DATA: CoverSheetData = {
+  title: 'Sample Work Instruction.pdf',
+  documentReference: 'WI-0001',
+  revision: 'v2.1.0',
+  state: 'effective',
+  effectiveDate: new Date().toISOString().slice(0, 10),
+  organizationName: '',
+  fields: [{ label: 'Department', value: 'Quality' }],
+  approvals: [
+    { name: 'approver@example.com', role: 'Approved', date: new Date().toISOString().slice(0, 10) }
+  ],
+  history: [
+    { versionLabel: 'v2.1.0', state: 'effective', date: new Date().toISOString().slice(0, 10), author: 'author@example.com', notes: 'Updated torque values in step 4' },
+    { versionLabel: 'v2.0.0', state: 'superseded', date: '2025-03-01', author: 'author@example.com', notes: 'Reworked for the new assembly line' },
+    { versionLabel: 'v1.0.0', state: 'superseded', date: '2024-06-12', author: 'author@example.com', notes: 'Initial release' }
+  ]
+}
+
+export function CoverSheetSettings({ organizationId, organizationName, isOpen, onClose }: CoverSheetSettingsProps) {
+  const [template, setTemplate] = useState<CoverSheetTemplate>(DEFAULT_COVER_SHEET_TEMPLATE)
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null)
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      coverSheetService.getTemplate(organizationId).then(setTemplate)
+      setSaved(false)
+    }
+  }, [isOpen, organizationId])
+
+  useEffect(() => {
+    return () => {
+      if (previewUrl) URL.revokeObjectURL(previewUrl)
+    }
+  }, [previewUrl])
+
+  const update = (changes: Partial<CoverSheetTemplate>) => {
+    setTemplate({ ...template, ...changes })
+    setSaved(false)
+  }
+
+  const handlePreview = async () => {
+    try {
+      const bytes = await coverSheetService.render({ ...SAMPLE_DATA, organizationName }, template)
+      setPreviewUrl(URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' })))
+    } catch (error) {
+      console.error('Error rendering cover sheet preview:', error)
+      alert('Could not render the preview.')
+    }
+  }
+
+  const handleSave = async () => {
+    try {
+      await coverSheetService.setTemplate(organizationId, {
+        ...template,
+        maxHistoryRows: Math.max(1, Math.round(template.maxHistoryRows) || DEFAULT_COVER_SHEET_TEMPLATE.maxHistoryRows)
+      })
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving cover sheet template:', error)
+      alert('Could not save the cover sheet template.')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileSpreadsheet className="w-5 h-5" />
+            <span>Cover Sheet Template</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="cover-layout">Layout</Label>
+              <select
+                id="cover-layout"
+                value={template.layout}
+                onChange={(e) => update({ layout: e.target.value as CoverSheetLayout })}
+                className="w-full h-10 border rounded-md px-3 text-sm"
+              >
+                {(Object.keys(COVER_SHEET_LAYOUT_LABELS) as CoverSheetLayout[]).map(layout => (
+                  <option key={layout} value={layout}>{COVER_SHEET_LAYOUT_LABELS[layout]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="cover-page-size">Page size</Label>
+              <select
+                id="cover-page-size"
+                value={template.pageSize}
+                onChange={(e) => update({ pageSize: e.target.value as CoverSheetPageSize })}
+                className="w-full h-10 border rounded-md px-3 text-sm"
+              >
+                <option value="a4">A4</option>
+                <option value="letter">Letter</option>
+              </select>
+            </div>
+          </div>
+          <div>
+            <Label htmlFor="cover-heading">Heading</Label>
+            <Input
+              id="cover-heading"
+              value={template.heading}
+              onChange={(e) => update({ heading: e.target.value })}
+            />
+          </div>
+          <div>
+            <Label htmlFor="cover-footer">Footer</Label>
+            <Input
+              id="cover-footer"
+              value={template.footerText}
+              onChange={(e) => update({ footerText: e.target.value })}
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={template.showApprovers}
+                onCheckedChange={(checked) => update({ showApprovers: checked === true })}
+              />
+              <span>Show approvers</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={template.showCustomFields}
+                onCheckedChange={(checked) => update({ showCustomFields: checked === true })}
+              />
+              <span>Show metadata fields</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={template.showRevisionHistory}
+                onCheckedChange={(checked) => update({ showRevisionHistory: checked === true })}
+              />
+              <span>Show revision history</span>
+            </label>
+            <div className="flex items-center space-x-2 text-sm">
+              <Label htmlFor="cover-history-rows">History rows</Label>
+              <Input
+                id="cover-history-rows"
+                type="number"
+                min={1}
+                className="w-20"
+                value={template.maxHistoryRows}
+                disabled={!template.showRevisionHistory}
+                onChange={(e) => update({ maxHistoryRows: Number(e.target.value) })}
+              />
+            </div>
+          </div>
+        </div>
+
+        {previewUrl && (
+          <iframe
+            src={previewUrl}
+            title="Cover sheet template preview"
+            className="w-full h-[50vh] border rounded"
+          />
+        )}
+
+        <div className="flex items-center justify-end space-x-2 pt-4 border-t">
+          {saved && <span className="text-xs text-green-600">Saved</span>}
+          <Button variant="outline" onClick={handlePreview}>
+            <Eye className="w-4 h-4 mr-2" />
+            Preview
+          </Button>
+          <Button onClick={handleSave}>Save Template</Button>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
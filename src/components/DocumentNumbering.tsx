@@ -0,0 +1,474 @@
+import { useState, useEffect } from 'react'
+import { Hash, Trash2, Plus, Pencil } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import {
+  documentNumberingService,
+  type DocumentNumber,
+  type NumberingScheme,
+  type NumberRange
+} from '../services/documentNumberingService'
+
+interface DocumentNumberingProps {
+  organizationId: string
+  user: any
+  isAdmin: boolean
+  isOpen: boolean
+  onClose: () => void
+}
+
+const emptyScheme = { id: '', prefix: '', name: '', documentType: '', width: '4', nextNumber: '1', isDefault: false }
+const emptyReservation = { schemeId: '', count: '1', note: '' }
+const emptyRange = { schemeId: '', start: '', end: '', note: '' }
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleDateString()
+
+export function DocumentNumbering({ organizationId, user, isAdmin, isOpen, onClose }: DocumentNumberingProps) {
+  const [schemes, setSchemes] = useState<NumberingScheme[]>([])
+  const [reservations, setReservations] = useState<DocumentNumber[]>([])
+  const [ranges, setRanges] = useState<NumberRange[]>([])
+  const [schemeForm, setSchemeForm] = useState(emptyScheme)
+  const [reservationForm, setReservationForm] = useState(emptyReservation)
+  const [rangeForm, setRangeForm] = useState(emptyRange)
+  const [reserved, setReserved] = useState<string[]>([])
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAll = async () => {
+    try {
+      const [loadedSchemes, loadedReservations, loadedRanges] = await Promise.all([
+        documentNumberingService.listSchemes(organizationId),
+        documentNumberingService.listReservations(organizationId),
+        documentNumberingService.listRanges(organizationId)
+      ])
+      setSchemes(loadedSchemes)
+      setReservations(loadedReservations)
+      setRanges(loadedRanges)
+    } catch (error) {
+      console.error('Error loading document numbering:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      loadAll()
+      setSchemeForm(emptyScheme)
+      setReservationForm(emptyReservation)
+      setRangeForm(emptyRange)
+      setReserved([])
+      setError(null)
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const schemeLabel = (schemeId: string) => {
+    const scheme = schemes.find(candidate => candidate.id === schemeId)
+    return scheme ? `${scheme.prefix} - ${scheme.name}` : 'Deleted scheme'
+  }
+
+  const handleReserve = async () => {
+    const schemeId = reservationForm.schemeId || schemes[0]?.id
+    try {
+      const references = await documentNumberingService.reserve(
+        organizationId,
+        schemeId,
+        Number(reservationForm.count),
+        user,
+        reservationForm.note.trim() || undefined
+      )
+      setReserved(references)
+      setReservationForm({ ...emptyReservation, schemeId: schemeId || '' })
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error reserving document numbers:', error)
+      setError(error instanceof Error ? error.message : 'Could not reserve numbers.')
+    }
+  }
+
+  const handleCancelReservation = async (reservation: DocumentNumber) => {
+    if (!confirm(`Release ${reservation.reference} so it can be issued again?`)) return
+    try {
+      await documentNumberingService.cancelReservation(organizationId, reservation.reference)
+      await loadAll()
+    } catch (error) {
+      console.error('Error cancelling reservation:', error)
+    }
+  }
+
+  const handleSaveScheme = async () => {
+    try {
+      await documentNumberingService.saveScheme({
+        id: schemeForm.id || undefined,
+        organizationId,
+        prefix: schemeForm.prefix,
+        name: schemeForm.name,
+        documentType: schemeForm.documentType.trim().toUpperCase() || undefined,
+        width: Number(schemeForm.width),
+        nextNumber: Number(schemeForm.nextNumber) || 1,
+        isDefault: schemeForm.isDefault
+      })
+      setSchemeForm(emptyScheme)
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error saving numbering scheme:', error)
+      setError(error instanceof Error ? error.message : 'Could not save the numbering scheme.')
+    }
+  }
+
+  const handleEditScheme = (scheme: NumberingScheme) => {
+    setSchemeForm({
+      id: scheme.id,
+      prefix: scheme.prefix,
+      name: scheme.name,
+      documentType: scheme.documentType || '',
+      width: String(scheme.width),
+      nextNumber: String(scheme.nextNumber),
+      isDefault: scheme.isDefault
+    })
+  }
+
+  const handleDeleteScheme = async (scheme: NumberingScheme) => {
+    if (!confirm(`Delete the ${scheme.prefix} numbering scheme?`)) return
+    try {
+      await documentNumberingService.deleteScheme(scheme.id)
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error deleting numbering scheme:', error)
+      setError(error instanceof Error ? error.message : 'Could not delete the numbering scheme.')
+    }
+  }
+
+  const handleImportRange = async () => {
+    const schemeId = rangeForm.schemeId || schemes[0]?.id
+    if (!schemeId) {
+      setError('Add a numbering scheme before importing ranges.')
+      return
+    }
+    try {
+      await documentNumberingService.importRange(
+        organizationId,
+        schemeId,
+        Number(rangeForm.start),
+        Number(rangeForm.end || rangeForm.start),
+        user,
+        rangeForm.note.trim() || undefined
+      )
+      setRangeForm({ ...emptyRange, schemeId })
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error importing number range:', error)
+      setError(error instanceof Error ? error.message : 'Could not import the range.')
+    }
+  }
+
+  const handleDeleteRange = async (range: NumberRange) => {
+    if (!confirm('Remove this imported range? Its numbers may then be issued again.')) return
+    try {
+      await documentNumberingService.deleteRange(range.id)
+      await loadAll()
+    } catch (error) {
+      console.error('Error deleting number range:', error)
+    }
+  }
+
+  const formatRange = (range: NumberRange) => {
+    const scheme = schemes.find(candidate => candidate.id === range.schemeId)
+    if (!scheme) return `${range.start} to ${range.end}`
+    return `${documentNumberingService.formatReference(scheme, range.start)} to ${documentNumberingService.formatReference(scheme, range.end)}`
+  }
+
+  const renderSchemeSelect = (id: string, value: string, onChange: (schemeId: string) => void) => (
+    <select
+      id={id}
+      value={value || schemes[0]?.id || ''}
+      onChange={(e) => onChange(e.target.value)}
+      className="w-full h-10 border rounded-md px-3 text-sm"
+    >
+      {schemes.length === 0 && <option value="">Default (DOC)</option>}
+      {schemes.map(scheme => (
+        <option key={scheme.id} value={scheme.id}>{scheme.prefix} - {scheme.name}</option>
+      ))}
+    </select>
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Hash className="w-5 h-5" />
+            <span>Document Numbers</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <Tabs defaultValue="reserve">
+          <TabsList>
+            <TabsTrigger value="reserve">Reservations</TabsTrigger>
+            {isAdmin && <TabsTrigger value="schemes">Schemes</TabsTrigger>}
+            {isAdmin && <TabsTrigger value="ranges">Imported ranges</TabsTrigger>}
+          </TabsList>
+
+          <TabsContent value="reserve" className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="reserve-scheme">Scheme</Label>
+                {renderSchemeSelect('reserve-scheme', reservationForm.schemeId, (schemeId) =>
+                  setReservationForm({ ...reservationForm, schemeId }))}
+              </div>
+              <div>
+                <Label htmlFor="reserve-count">How many</Label>
+                <Input
+                  id="reserve-count"
+                  type="number"
+                  min={1}
+                  max={100}
+                  value={reservationForm.count}
+                  onChange={(e) => setReservationForm({ ...reservationForm, count: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="reserve-note">Note</Label>
+                <Input
+                  id="reserve-note"
+                  value={reservationForm.note}
+                  onChange={(e) => setReservationForm({ ...reservationForm, note: e.target.value })}
+                  placeholder="What the numbers are for"
+                />
+              </div>
+              <div className="col-span-3 flex items-center space-x-3">
+                <Button size="sm" onClick={handleReserve} className="flex items-center space-x-1">
+                  <Hash className="w-4 h-4" />
+                  <span>Reserve</span>
+                </Button>
+                {reserved.length > 0 && (
+                  <span className="text-sm text-green-700">Reserved {reserved.join(', ')}</span>
+                )}
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <h4 className="text-sm font-semibold mb-2">Reserved numbers</h4>
+              {reservations.length === 0 ? (
+                <p className="text-sm text-gray-500">No numbers are reserved</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1">Reference</th>
+                      <th className="py-1">Reserved by</th>
+                      <th className="py-1">Note</th>
+                      <th className="py-1">Date</th>
+                      <th className="py-1"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reservations.map(reservation => (
+                      <tr key={reservation.id} className="border-t">
+                        <td className="py-1 font-medium">{reservation.reference}</td>
+                        <td className="py-1 text-gray-600">{reservation.reservedBy}</td>
+                        <td className="py-1 text-gray-600">{reservation.note}</td>
+                        <td className="py-1 text-gray-600">{formatDate(reservation.createdAt)}</td>
+                        <td className="py-1 text-right">
+                          <Button variant="ghost" size="sm" onClick={() => handleCancelReservation(reservation)}>
+                            <Trash2 className="w-4 h-4 text-red-600" />
+                          </Button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </TabsContent>
+
+          {isAdmin && (
+            <TabsContent value="schemes" className="space-y-4">
+              {schemes.length === 0 ? (
+                <p className="text-sm text-gray-500">
+                  No numbering schemes yet. New documents are numbered DOC-0001, DOC-0002... until one is added.
+                </p>
+              ) : (
+                schemes.map(scheme => (
+                  <div key={scheme.id} className="border rounded-lg p-3 flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{scheme.prefix}</span>
+                      <span>{scheme.name}</span>
+                      {scheme.documentType && <Badge variant="outline">{scheme.documentType} files</Badge>}
+                      {scheme.isDefault && <Badge variant="outline">Default</Badge>}
+                      <span className="text-gray-500">
+                        next {documentNumberingService.formatReference(scheme, scheme.nextNumber)}
+                      </span>
+                    </div>
+                    <div className="flex items-center">
+                      <Button variant="ghost" size="sm" onClick={() => handleEditScheme(scheme)}>
+                        <Pencil className="w-4 h-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" onClick={() => handleDeleteScheme(scheme)}>
+                        <Trash2 className="w-4 h-4 text-red-600" />
+                      </Button>
+                    </div>
+                  </div>
+                ))
+              )}
+
+              <div className="border-t pt-4 grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="scheme-prefix">Prefix</Label>
+                  <Input
+                    id="scheme-prefix"
+                    value={schemeForm.prefix}
+                    onChange={(e) => setSchemeForm({ ...schemeForm, prefix: e.target.value.toUpperCase() })}
+                    placeholder="QP"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="scheme-name">Name</Label>
+                  <Input
+                    id="scheme-name"
+                    value={schemeForm.name}
+                    onChange={(e) => setSchemeForm({ ...schemeForm, name: e.target.value })}
+                    placeholder="Quality procedure"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="scheme-type">Document type</Label>
+                  <Input
+                    id="scheme-type"
+                    value={schemeForm.documentType}
+                    onChange={(e) => setSchemeForm({ ...schemeForm, documentType: e.target.value })}
+                    placeholder="PDF, DOC... (blank to choose at upload)"
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <Label htmlFor="scheme-width">Digits</Label>
+                    <Input
+                      id="scheme-width"
+                      type="number"
+                      min={1}
+                      max={10}
+                      value={schemeForm.width}
+                      onChange={(e) => setSchemeForm({ ...schemeForm, width: e.target.value })}
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="scheme-next">Next number</Label>
+                    <Input
+                      id="scheme-next"
+                      type="number"
+                      min={1}
+                      value={schemeForm.nextNumber}
+                      onChange={(e) => setSchemeForm({ ...schemeForm, nextNumber: e.target.value })}
+                    />
+                  </div>
+                </div>
+                <label className="col-span-2 flex items-center space-x-2 text-sm">
+                  <Checkbox
+                    checked={schemeForm.isDefault}
+                    onCheckedChange={(checked) => setSchemeForm({ ...schemeForm, isDefault: checked === true })}
+                  />
+                  <span>Use for documents no other scheme covers</span>
+                </label>
+                <div className="col-span-2 flex items-center space-x-2">
+                  <Button size="sm" onClick={handleSaveScheme} className="flex items-center space-x-1">
+                    <Plus className="w-4 h-4" />
+                    <span>{schemeForm.id ? 'Save scheme' : 'Add scheme'}</span>
+                  </Button>
+                  {schemeForm.id && (
+                    <Button variant="outline" size="sm" onClick={() => setSchemeForm(emptyScheme)}>
+                      Cancel
+                    </Button>
+                  )}
+                </div>
+              </div>
+            </TabsContent>
+          )}
+
+          {isAdmin && (
+            <TabsContent value="ranges" className="space-y-4">
+              <p className="text-sm text-gray-600">
+                Numbers already used in a previous register are skipped when new numbers are issued.
+              </p>
+              {ranges.length === 0 ? (
+                <p className="text-sm text-gray-500">No ranges imported</p>
+              ) : (
+                ranges.map(range => (
+                  <div key={range.id} className="border rounded-lg p-3 flex items-center justify-between text-sm">
+                    <div className="flex items-center space-x-2">
+                      <span className="font-medium">{formatRange(range)}</span>
+                      <Badge variant="outline">{schemeLabel(range.schemeId)}</Badge>
+                      {range.note && <span className="text-gray-600">{range.note}</span>}
+                      <span className="text-xs text-gray-500">imported by {range.importedBy}</span>
+                    </div>
+                    <Button variant="ghost" size="sm" onClick={() => handleDeleteRange(range)}>
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))
+              )}
+
+              <div className="border-t pt-4 grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="range-scheme">Scheme</Label>
+                  {renderSchemeSelect('range-scheme', rangeForm.schemeId, (schemeId) =>
+                    setRangeForm({ ...rangeForm, schemeId }))}
+                </div>
+                <div>
+                  <Label htmlFor="range-note">Note</Label>
+                  <Input
+                    id="range-note"
+                    value={rangeForm.note}
+                    onChange={(e) => setRangeForm({ ...rangeForm, note: e.target.value })}
+                    placeholder="Legacy paper register"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="range-start">From</Label>
+                  <Input
+                    id="range-start"
+                    type="number"
+                    min={1}
+                    value={rangeForm.start}
+                    onChange={(e) => setRangeForm({ ...rangeForm, start: e.target.value })}
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="range-end">To</Label>
+                  <Input
+                    id="range-end"
+                    type="number"
+                    min={1}
+                    value={rangeForm.end}
+                    onChange={(e) => setRangeForm({ ...rangeForm, end: e.target.value })}
+                    placeholder="Same as From for a single number"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Button size="sm" onClick={handleImportRange} className="flex items-center space-x-1">
+                    <Plus className="w-4 h-4" />
+                    <span>Import range</span>
+                  </Button>
+                </div>
+              </div>
+            </TabsContent>
+          )}
+        </Tabs>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
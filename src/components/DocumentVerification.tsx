@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback, type DragEvent } from 'react'
+import { FileCheck, Upload, CheckCircle, AlertTriangle, XCircle, HelpCircle } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { METADATA_SOURCE_LABELS } from '../services/documentMetadataService'
+import { LIFECYCLE_LABELS } from '../services/lifecycleService'
+import {
+  documentVerificationService,
+  VERIFICATION_STATUS_LABELS,
+  type DocumentVerification as VerificationResult,
+  type VerificationStatus,
+  type VerifiedRevision
+} from '../services/documentVerificationService'
+
+interface DocumentVerificationProps {
+  organizationId: string
+  user: any
+  isOpen: boolean
+  onClose: () => void
+}
+
+const STATUS_STYLES: Record<VerificationStatus, string> = {
+  current: 'bg-green-50 border-green-200 text-green-800',
+  superseded: 'bg-amber-50 border-amber-200 text-amber-800',
+  obsolete: 'bg-red-50 border-red-200 text-red-800',
+  not_released: 'bg-amber-50 border-amber-200 text-amber-800',
+  modified: 'bg-red-50 border-red-200 text-red-800',
+  unknown_revision: 'bg-red-50 border-red-200 text-red-800',
+  not_found: 'bg-gray-50 border-gray-200 text-gray-800'
+}
+
+const getStatusIcon = (status: VerificationStatus) => {
+  switch (status) {
+    case 'current':
+      return <CheckCircle className="w-5 h-5 text-green-600" />
+    case 'superseded':
+    case 'not_released':
+      return <AlertTriangle className="w-5 h-5 text-amber-600" />
+    case 'not_found':
+      return <HelpCircle className="w-5 h-5 text-gray-600" />
+    default:
+      return <XCircle className="w-5 h-5 text-red-600" />
+  }
+}
+
+const formatDate = (dateString?: string) => {
+  if (!dateString) return 'Unknown'
+  return new Date(dateString).toLocaleDateString()
+}
+
+const isSameRevision = (a: VerifiedRevision, b?: VerifiedRevision) =>
+  Boolean(b) && a.fileId === b!.fileId && a.versionId === b!.versionId
+
+export function DocumentVerification({ organizationId, user, isOpen, onClose }: DocumentVerificationProps) {
+  const [checking, setChecking] = useState(false)
+  const [isDragOver, setIsDragOver] = useState(false)
+  const [fileName, setFileName] = useState<string | null>(null)
+  const [result, setResult] = useState<VerificationResult | null>(null)
+
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null)
+      setResult(null)
+    }
+  }, [isOpen])
+
+  const handleFile = async (file: File) => {
+    setChecking(true)
+    setFileName(file.name)
+    setResult(null)
+    try {
+      setResult(await documentVerificationService.verifyDocument(file, organizationId, user))
+    } catch (error) {
+      console.error('Error verifying document:', error)
+      alert('Could not verify the document.')
+    } finally {
+      setChecking(false)
+    }
+  }
+
+  const handleDrop = (e: DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+    const file = e.dataTransfer.files[0]
+    if (file) handleFile(file)
+  }
+
+  const handleDragOver = useCallback((e: DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(true)
+  }, [])
+
+  const handleDragLeave = useCallback((e: DragEvent) => {
+    e.preventDefault()
+    setIsDragOver(false)
+  }, [])
+
+  const renderRevision = (label: string, revision: VerifiedRevision) => (
+    <div className="flex items-center justify-between text-sm">
+      <span className="text-gray-600">{label}</span>
+      <span className="flex items-center space-x-2">
+        <span className="font-medium">{revision.versionLabel}</span>
+        <Badge variant="outline">{LIFECYCLE_LABELS[revision.state]}</Badge>
+        <span className="text-gray-500">{formatDate(revision.approvedAt || revision.createdAt)}</span>
+      </span>
+    </div>
+  )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <FileCheck className="w-5 h-5" />
+            <span>Verify Document</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <div
+          className={`border-2 border-dashed rounded-lg p-6 text-center transition-colors ${
+            isDragOver ? 'border-black bg-gray-50' : 'border-gray-300 hover:border-gray-400'
+          }`}
+          onDrop={handleDrop}
+          onDragOver={handleDragOver}
+          onDragLeave={handleDragLeave}
+        >
+          <Upload className="w-8 h-8 mx-auto mb-2 text-gray-400" />
+          <p className="text-sm text-gray-600 mb-3">
+            Drop a copy of a document to check whether it is the current revision
+          </p>
+          <input
+            type="file"
+            className="hidden"
+            id="verify-upload"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) handleFile(file)
+              e.target.value = ''
+            }}
+          />
+          <Button asChild variant="outline" size="sm" disabled={checking}>
+            <label htmlFor="verify-upload" className="cursor-pointer">
+              Choose File
+            </label>
+          </Button>
+        </div>
+
+        {checking && (
+          <div className="text-sm text-gray-500">Checking {fileName}...</div>
+        )}
+
+        {result && (
+          <div className="space-y-4">
+            <div className={`border rounded-lg p-4 ${STATUS_STYLES[result.status]}`}>
+              <div className="flex items-center space-x-2 font-medium">
+                {getStatusIcon(result.status)}
+                <span>{VERIFICATION_STATUS_LABELS[result.status]}</span>
+              </div>
+              <p className="text-sm mt-2">{result.summary}</p>
+            </div>
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">File checked</span>
+                <span className="font-medium">{fileName}</span>
+              </div>
+              {result.documentReference && (
+                <div className="flex items-center justify-between text-sm">
+                  <span className="text-gray-600">Document reference</span>
+                  <span className="font-medium">{result.documentReference}</span>
+                </div>
+              )}
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600">Matched by</span>
+                <span>
+                  {result.matchedBy === 'hash'
+                    ? 'Identical content'
+                    : result.matchedBy === 'reference'
+                      ? 'Embedded reference'
+                      : 'No match'}
+                </span>
+              </div>
+              {result.revision && renderRevision('This copy', result.revision)}
+              {result.supersededBy[0] && renderRevision('Superseded by', result.supersededBy[0])}
+              {result.current && !isSameRevision(result.current, result.revision) &&
+                renderRevision('Current revision', result.current)}
+              <div className="text-xs text-gray-500 font-mono break-all">SHA-256 {result.contentHash}</div>
+            </div>
+
+            {(result.embeddedReference || result.embeddedRevision) && (
+              <div className="border rounded-lg p-3 text-sm space-y-1">
+                <div className="font-medium">Embedded in the copy</div>
+                {result.embedded.documentReference && (
+                  <div className="text-gray-600">
+                    Reference {result.embedded.documentReference.value}
+                    <span className="text-xs text-gray-400"> ({METADATA_SOURCE_LABELS[result.embedded.documentReference.source]})</span>
+                  </div>
+                )}
+                {result.embeddedRevision && (
+                  <div className="text-gray-600">Revision {result.embeddedRevision}</div>
+                )}
+                {result.embedded.modifiedBy && (
+                  <div className="text-gray-600">Modified by {result.embedded.modifiedBy.value}</div>
+                )}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -1,14 +1,38 @@
-import React, { useState, useCallback } from 'react'
-import { Upload, X, AlertTriangle, FileText, Image, Video, Music, Archive, File, Brain, Zap } from 'lucide-react'
+import React, { useState, useCallback, useEffect, useRef } from 'react'
+import { Upload, X, AlertTriangle, FileText, Image, Video, Music, Archive, File, Brain, Zap, Copy, Lock } from 'lucide-react'
 import { Button } from './ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Input } from './ui/input'
 import { Textarea } from './ui/textarea'
 import { Badge } from './ui/badge'
 import { Progress } from './ui/progress'
+import { Checkbox } from './ui/checkbox'
 import { blink } from '../blink/client'
 import { aiSimilarityService, type SimilarityResult, type FileAnalysis } from '../services/aiSimilarityService'
-import { documentMetadataService, type DocumentMetadata } from '../services/documentMetadataService'
+import {
+  documentMetadataService,
+  DEFAULT_EMBEDDING_POLICY,
+  DEFAULT_IMAGE_STAMP,
+  METADATA_FIELD_LABELS,
+  METADATA_SOURCE_LABELS,
+  type DocumentMetadata,
+  type EmbeddingPolicy,
+  type ExtractedField,
+  type MetadataExtraction,
+  type MetadataField,
+  type StampPosition
+} from '../services/documentMetadataService'
+import type { ImageStampOptions } from '../services/imageMetadataService'
+import { contentHashService, type DuplicateMatch } from '../services/contentHashService'
+import { fileLockService } from '../services/fileLockService'
+import { similarityIndexService } from '../services/similarityIndexService'
+import { similarityFeedbackService } from '../services/similarityFeedbackService'
+import { similarityService } from '../services/similarityService'
+import { perceptualHashService } from '../services/perceptualHashService'
+import { lifecycleService } from '../services/lifecycleService'
+import { metadataSchemaService, type CustomMetadataValues, type MetadataFieldDefinition } from '../services/metadataSchemaService'
+import { documentNumberingService, type DocumentNumber, type NumberingScheme } from '../services/documentNumberingService'
+import { versionFormatService, DEFAULT_VERSION_POLICY, type VersionBump, type VersionPolicy, type BumpRequirement } from '../services/versionFormatService'
 
 interface FileUploadProps {
   organizationId: string
@@ -20,12 +44,29 @@ interface UploadFile {
   file: File
   id: string
   progress: number
-  status: 'pending' | 'analyzing' | 'uploading' | 'complete' | 'error'
+  status: 'pending' | 'analyzing' | 'uploading' | 'complete' | 'skipped' | 'error'
+  errorMessage?: string
+  contentHash?: string
+  duplicates?: DuplicateMatch[]
   similarFiles?: SimilarityResult[]
+  // Rendering of the upload shown next to similar images and drawings
+  thumbnail?: string
   versionLabel?: string
+  customVersionLabel?: string
+  versionBump?: VersionBump
+  bumpReason?: string
   versionNotes?: string
   fileAnalysis?: FileAnalysis
   documentMetadata?: DocumentMetadata
+  metadataExtraction?: MetadataExtraction
+  customMetadata?: CustomMetadataValues
+  metadataErrors?: Record<string, string>
+  // Held in the queue until the organization's metadata fields are filled in
+  awaitingMetadata?: boolean
+  metadataReviewed?: boolean
+  targetFileId?: string
+  // '' for the scheme matching the file type, `scheme:<id>` or `reserved:<reference>`
+  numbering?: string
   aiProcessing?: boolean
 }
 
@@ -52,71 +93,42 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
   const [uploadFiles, setUploadFiles] = useState<UploadFile[]>([])
   const [showSimilarDialog, setShowSimilarDialog] = useState(false)
   const [selectedFile, setSelectedFile] = useState<UploadFile | null>(null)
+  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false)
+  const [duplicateFile, setDuplicateFile] = useState<UploadFile | null>(null)
+  const [versionPolicy, setVersionPolicy] = useState<VersionPolicy>(DEFAULT_VERSION_POLICY)
+  const [currentUserId, setCurrentUserId] = useState<string | null>(null)
+  const [metadataFields, setMetadataFields] = useState<MetadataFieldDefinition[]>([])
+  const [embeddingPolicy, setEmbeddingPolicy] = useState<EmbeddingPolicy>(DEFAULT_EMBEDDING_POLICY)
+  const [imageStampSettings, setImageStampSettings] = useState<ImageStampOptions>(DEFAULT_IMAGE_STAMP)
+  const [numberingSchemes, setNumberingSchemes] = useState<NumberingScheme[]>([])
+  const [reservedNumbers, setReservedNumbers] = useState<DocumentNumber[]>([])
+  const [numberingChoice, setNumberingChoice] = useState('')
+  // Files still waiting for analysis; a duplicate or similar-files dialog pauses the queue until it is resolved
+  const analysisQueue = useRef<UploadFile[]>([])
+  const analysisRunning = useRef(false)
 
-  const levenshteinDistance = (str1: string, str2: string): number => {
-    const matrix = []
-    for (let i = 0; i <= str2.length; i++) {
-      matrix[i] = [i]
-    }
-    for (let j = 0; j <= str1.length; j++) {
-      matrix[0][j] = j
-    }
-    for (let i = 1; i <= str2.length; i++) {
-      for (let j = 1; j <= str1.length; j++) {
-        if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
-          matrix[i][j] = matrix[i - 1][j - 1]
-        } else {
-          matrix[i][j] = Math.min(
-            matrix[i - 1][j - 1] + 1,
-            matrix[i][j - 1] + 1,
-            matrix[i - 1][j] + 1
-          )
-        }
-      }
-    }
-    return matrix[str2.length][str1.length]
-  }
+  useEffect(() => {
+    versionFormatService.getPolicy(organizationId).then(setVersionPolicy)
+    documentNumberingService.listSchemes(organizationId).then(setNumberingSchemes)
+    documentNumberingService.listReservations(organizationId).then(setReservedNumbers)
+    metadataSchemaService.listFields(organizationId).then(setMetadataFields)
+    documentMetadataService.getEmbeddingPolicy(organizationId).then(policy => {
+      // The organization's policy is the default; each upload can change it
+      setEmbeddingPolicy(policy)
+      if (policy.imageStamp) setImageStampSettings(policy.imageStamp)
+    })
+  }, [organizationId])
 
-  const calculateSimilarity = (str1: string, str2: string): number => {
-    const longer = str1.length > str2.length ? str1 : str2
-    const shorter = str1.length > str2.length ? str2 : str1
-    const editDistance = levenshteinDistance(longer, shorter)
-    return (longer.length - editDistance) / longer.length
-  }
+  useEffect(() => {
+    blink.auth.me().then(user => setCurrentUserId(user.id)).catch(() => setCurrentUserId(null))
+  }, [])
 
-  const generateFileHash = (file: File): Promise<string> => {
-    return new Promise((resolve) => {
-      const reader = new FileReader()
-      reader.onload = () => {
-        const arrayBuffer = reader.result as ArrayBuffer
-        const bytes = new Uint8Array(arrayBuffer)
-        
-        // Create a simple hash from file metadata and content bytes
-        let hash = 0
-        const str = file.name + file.size + file.lastModified
-        
-        // Hash the filename and metadata
-        for (let i = 0; i < str.length; i++) {
-          const char = str.charCodeAt(i)
-          hash = ((hash << 5) - hash) + char
-          hash = hash & hash // Convert to 32-bit integer
-        }
-        
-        // Add some bytes from file content to the hash
-        for (let i = 0; i < Math.min(bytes.length, 100); i++) {
-          hash = ((hash << 5) - hash) + bytes[i]
-          hash = hash & hash
-        }
-        
-        // Convert to positive hex string
-        const hashStr = Math.abs(hash).toString(16)
-        resolve(hashStr)
-      }
-      reader.readAsArrayBuffer(file.slice(0, 1000)) // Read first 1KB as binary
-    })
-  }
+  const isLockedByOther = (lockedBy?: string) => Boolean(lockedBy && lockedBy !== currentUserId)
 
-  const analyzeAndFindSimilarFiles = async (file: File): Promise<{ analysis: FileAnalysis, similarFiles: SimilarityResult[] }> => {
+  const analyzeAndFindSimilarFiles = async (
+    file: File,
+    contentHash: string
+  ): Promise<{ analysis: FileAnalysis, similarFiles: SimilarityResult[], thumbnail?: string }> => {
     try {
       // Simplified analysis - just basic file info for now
       const analysis: FileAnalysis = {
@@ -135,43 +147,26 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
         }
       }
       
-      // Simple similarity check based on file names
-      const existingFiles = await blink.db.files.list({
-        where: {
-          organization_id: organizationId,
-          is_latest_version: "1"
-        },
-        limit: 10
+      // Name, content and visual signals from the organization-wide index, reviewed by
+      // the AI or, in offline mode, by deterministic rules
+      const matches = await similarityService.findSimilarFiles(file, organizationId, {
+        contentHash,
+        analysis,
+        folderPath: currentPath || '/'
       })
+      // Drafts and rejected revisions have used labels past files.version_label
+      const similarFiles = await Promise.all(matches.map(async similar => ({
+        ...similar,
+        latestVersionLabel: await aiSimilarityService.getLatestVersionLabel(similar.fileId, versionPolicy.versionFormat) || undefined
+      })))
+      // Already rendered for the lookup, so this comes from the cache
+      const visual = await perceptualHashService.compute(file, contentHash)
 
-      const similarFiles: SimilarityResult[] = []
-      const fileName = file.name.toLowerCase()
-      const fileBaseName = fileName.split('.')[0]
-
-      for (const existingFile of existingFiles) {
-        const existingName = existingFile.name.toLowerCase()
-        const existingBaseName = existingName.split('.')[0]
-        
-        // Simple name similarity
-        const nameSimilarity = calculateSimilarity(fileBaseName, existingBaseName)
-        
-        if (nameSimilarity > 0.5) {
-          similarFiles.push({
-            fileId: existingFile.id,
-            fileName: existingFile.name,
-            versionLabel: existingFile.version_label,
-            uploadedBy: existingFile.uploaded_by,
-            createdAt: existingFile.created_at,
-            similarityScore: nameSimilarity,
-            similarityReason: `Similar file name (${Math.round(nameSimilarity * 100)}% match)`,
-            contentSimilarity: nameSimilarity,
-            nameSimilarity: nameSimilarity,
-            aiAnalysis: `File names are similar - this might be an updated version of "${existingFile.name}"`
-          })
-        }
+      return {
+        analysis,
+        similarFiles,
+        thumbnail: visual?.thumbnail
       }
-      
-      return { analysis, similarFiles: similarFiles.sort((a, b) => b.similarityScore - a.similarityScore) }
     } catch (error) {
       console.error('Error analyzing file and finding similar files:', error)
       return { 
@@ -187,75 +182,177 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
     }
   }
 
-  const generateVersionLabel = async (organizationId: string, existingFileId?: string): Promise<string> => {
-    try {
-      if (existingFileId) {
-        // Get existing file to increment version
-        const existingFile = await blink.db.files.list({
-          where: { id: existingFileId }
-        })
-        
-        if (existingFile[0]) {
-          const currentVersion = existingFile[0].version_label
-          // Simple version increment
-          const versionMatch = currentVersion.match(/v(\d+)\.(\d+)\.(\d+)/)
-          if (versionMatch) {
-            const [, major, minor, patch] = versionMatch.map(Number)
-            const prefix = currentVersion.split('-v')[0]
-            return `${prefix}-v${major}.${minor}.${patch + 1}`
-          }
-        }
-      }
+  const generateVersionLabel = async (
+    organizationId: string,
+    existingFileId?: string,
+    fileType?: string,
+    bump: VersionBump = 'patch'
+  ): Promise<string> => {
+    // Numbering follows the organization's version policy
+    return aiSimilarityService.generateVersionLabel(organizationId, existingFileId, bump, fileType)
+  }
 
-      // Get next sequential number for new files
-      const existingFiles = await blink.db.files.list({
-        where: { organization_id: organizationId },
-        orderBy: { sequential_number: 'desc' },
-        limit: 1
-      })
+  const getBumpRequirement = (file: UploadFile, similar?: SimilarityResult): BumpRequirement => {
+    const documentTypes = [
+      aiSimilarityService.getTypePrefix(file.file.type),
+      file.fileAnalysis?.contentType,
+      file.fileAnalysis?.suggestedCategory
+    ].filter((type): type is string => Boolean(type))
+    return versionFormatService.getRequiredBump(versionPolicy, documentTypes, similar?.significantChange)
+  }
 
-      const nextSeq = existingFiles[0]?.sequential_number ? existingFiles[0].sequential_number + 1 : 1
-      return `VT-${nextSeq.toString().padStart(2, '0')}-v1.0.0`
-    } catch (error) {
-      console.error('Error generating version label:', error)
-      return `VT-01-v1.0.0`
+  const getEffectiveBump = (file: UploadFile, similar?: SimilarityResult): VersionBump =>
+    versionFormatService.maxBump(file.versionBump || 'patch', getBumpRequirement(file, similar).bump)
+
+  const previewVersionLabel = (file: UploadFile, similar: SimilarityResult): string =>
+    versionFormatService.increment(similar.latestVersionLabel || similar.versionLabel, getEffectiveBump(file, similar), versionPolicy.versionFormat)
+
+  // A second draft would take over pending_version_id and orphan the first
+  const hasPendingDraft = (similar: SimilarityResult) => Boolean(similar.pendingVersionId)
+
+  const getNumbering = async (versionLabel: string) => {
+    // Keep company_prefix / sequential_number in step with the label that was actually used
+    const policy = await versionFormatService.getPolicy(organizationId)
+    const parsed = versionFormatService.parseAny(versionLabel, policy.versionFormat)
+    return {
+      companyPrefix: parsed?.parts.prefix || policy.companyPrefix,
+      sequentialNumber: parsed?.parts.sequence ?? await aiSimilarityService.getNextSequentialNumber(organizationId)
     }
   }
 
   const uploadFile = async (uploadFile: UploadFile, replaceFileId?: string) => {
+    const fieldsForFile = metadataSchemaService.getFieldsForType(metadataFields, uploadFile.file.type)
+    if (fieldsForFile.length > 0) {
+      const metadataErrors = uploadFile.metadataReviewed
+        ? metadataSchemaService.validate(fieldsForFile, uploadFile.customMetadata || {})
+        : {}
+      if (!uploadFile.metadataReviewed || Object.keys(metadataErrors).length > 0) {
+        setUploadFiles(prev => prev.map(f =>
+          f.id === uploadFile.id ? {
+            ...uploadFile,
+            customMetadata: f.customMetadata,
+            status: 'pending',
+            awaitingMetadata: true,
+            metadataReviewed: false,
+            metadataErrors,
+            targetFileId: replaceFileId
+          } : f
+        ))
+        return
+      }
+    }
+    const customMetadata = metadataSchemaService.normalize(fieldsForFile, uploadFile.customMetadata || {})
+    // Set while a number is held for a document that has not been created yet
+    let allocatedReference: string | null = null
+
     try {
       setUploadFiles(prev => prev.map(f => 
-        f.id === uploadFile.id ? { ...f, status: 'uploading' } : f
+        f.id === uploadFile.id ? { ...f, status: 'uploading', awaitingMetadata: false, metadataErrors: {} } : f
       ))
 
       const user = await blink.auth.me()
-      const fileHash = await generateFileHash(uploadFile.file)
+      const fileHash = uploadFile.contentHash || await contentHashService.computeContentHash(uploadFile.file)
       
       // Generate version label
-      const versionLabel = uploadFile.versionLabel || await generateVersionLabel(organizationId, replaceFileId)
+      const versionLabel = uploadFile.versionLabel ||
+        await generateVersionLabel(organizationId, replaceFileId, uploadFile.file.type, uploadFile.versionBump)
       
+      // Revisions keep the document's reference, so look the document up first
+      const existingFile = replaceFileId
+        ? (await blink.db.files.list({ where: { id: replaceFileId } }))[0]
+        : null
+      if (replaceFileId) {
+        if (!existingFile) {
+          throw new Error('File to replace not found')
+        }
+
+        // Only the user holding the check-out may publish the next version
+        if (fileLockService.isLockedByOther(existingFile, user.id)) {
+          const lock = fileLockService.getLockState(existingFile, user.id)
+          throw new Error(`${existingFile.name} is checked out by ${lock.lockedByName}`)
+        }
+
+        // One draft at a time; it has to be approved or rejected first
+        if (existingFile.pending_version_id) {
+          throw new Error(`${existingFile.name} already has a draft awaiting approval`)
+        }
+      }
+
+      // New documents take the next number from their scheme, or a number reserved for them
+      const fileId = `file_${Date.now()}`
+      const numbering = uploadFile.numbering || ''
+      if (!existingFile) {
+        allocatedReference = numbering.startsWith('reserved:')
+          ? await documentNumberingService.assignReserved(organizationId, numbering.slice('reserved:'.length), fileId)
+          : await documentNumberingService.allocate(organizationId, {
+              schemeId: numbering.startsWith('scheme:') ? numbering.slice('scheme:'.length) : undefined,
+              fileType: uploadFile.file.type,
+              fileId
+            }, user)
+      }
+
       // Create document metadata
       const documentMetadata: DocumentMetadata = {
-        documentReference: `DOC-${Date.now()}`,
+        documentReference: existingFile?.document_reference || allocatedReference || '',
         revisionNumber: versionLabel,
         versionLabel: versionLabel,
         lastModified: new Date().toISOString(),
         modifiedBy: user.email || user.id,
         organizationName: 'Sample Organization',
-        changeNotes: uploadFile.versionNotes || (replaceFileId ? 'Updated version' : 'Initial version')
+        changeNotes: uploadFile.versionNotes || (replaceFileId ? 'Updated version' : 'Initial version'),
+        customFields: customMetadata
       }
 
-      // Upload the file with a simple, clean path
-      const fileName = `${Date.now()}_${uploadFile.file.name}`
-      const { publicUrl } = await blink.storage.upload(
-        uploadFile.file,
-        `files/${fileName}`,
-        { upsert: true }
-      )
-      const finalFileUrl = publicUrl
+      // Write the metadata into the document; the untouched upload is stored next to it
+      const embedding = embeddingPolicy.enabled
+        ? await documentMetadataService.embedMetadataInDocument(uploadFile.file, documentMetadata, organizationId, {
+            stampPosition: embeddingPolicy.stampPosition,
+            imageStamp: embeddingPolicy.imageStamp
+          })
+        : null
+
+      let finalFileUrl: string
+      // Kept with the row so purging can remove exactly what was stored
+      let storagePaths: Record<string, string>
+      if (embedding?.success) {
+        finalFileUrl = embedding.modifiedFileUrl || embedding.originalFileUrl
+        storagePaths = embedding.storagePaths || {}
+      } else {
+        // Upload the file with a simple, clean path
+        const storagePath = `files/${Date.now()}_${uploadFile.file.name}`
+        const { publicUrl } = await blink.storage.upload(
+          uploadFile.file,
+          storagePath,
+          { upsert: true }
+        )
+        finalFileUrl = publicUrl
+        storagePaths = { [publicUrl]: storagePath }
+      }
       
       console.log('File uploaded to:', finalFileUrl) // Debug log
 
+      // Renditions belong to the version they were produced for
+      const renditions = {
+        original_file_path: embedding?.success ? embedding.originalFileUrl : null,
+        stamped_file_path: embedding?.stampedRenditionUrl || null,
+        companion_file_path: embedding?.companionFileUrl || null,
+        embedding_method: embedding?.success ? embedding.embeddingMethod : null,
+        issued_hash: embedding?.modifiedFileHash || null,
+        stamped_hash: embedding?.stampedRenditionHash || null,
+        storage_paths: JSON.stringify(storagePaths)
+      }
+      const embeddingDetails = embedding
+        ? {
+            metadataEmbedded: embedding.success,
+            embeddingMethod: embedding.embeddingMethod,
+            embeddingError: embedding.error,
+            issuedHash: renditions.issued_hash,
+            originalFilePath: renditions.original_file_path,
+            stampedFilePath: renditions.stamped_file_path,
+            companionFilePath: renditions.companion_file_path
+          }
+        : { metadataEmbedded: false }
+
       // Simulate upload progress
       for (let progress = 0; progress <= 100; progress += 20) {
         await new Promise(resolve => setTimeout(resolve, 100))
@@ -264,80 +361,68 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
         ))
       }
 
-      const fileId = `file_${Date.now()}`
       const now = new Date().toISOString()
 
-      if (replaceFileId) {
-        // Get the existing file to update
-        const existingFiles = await blink.db.files.list({ where: { id: replaceFileId } })
-        const existingFile = existingFiles[0]
-        
-        if (!existingFile) {
-          throw new Error('File to replace not found')
-        }
-        
-        // Store the old version in file_versions table first
-        await blink.db.fileVersions.create({
-          id: `version_${Date.now()}_old`,
-          file_id: replaceFileId,
-          version_label: existingFile.version_label,
-          file_path: existingFile.file_path,
-          file_size: Number(existingFile.file_size) || 0,
-          uploaded_by: existingFile.uploaded_by,
-          version_notes: existingFile.version_notes || 'Previous version',
-          is_current: "0",
-          created_at: existingFile.updated_at || existingFile.created_at
-        })
-        
-        // Update the existing file record with new version
-        await blink.db.files.update(replaceFileId, {
-          name: uploadFile.file.name,
-          original_name: uploadFile.file.name,
-          file_path: finalFileUrl,
-          file_size: uploadFile.file.size.toString(),
-          file_type: uploadFile.file.type || 'application/octet-stream',
-          version_label: versionLabel,
-          version_notes: uploadFile.versionNotes || 'Updated version',
-          similarity_hash: fileHash,
-          content_hash: fileHash,
-          revision_sequence: (existingFile.revision_sequence || 0) + 1,
-          updated_at: now
-        })
+      if (replaceFileId && existingFile) {
+        // Files that predate version rows get their current revision recorded first
+        await lifecycleService.ensureCurrentVersionRow(existingFile)
 
-        // Add the new version to version history
+        // The new revision is a draft; the file keeps serving the current
+        // revision until the draft is approved
+        const versionId = `version_${Date.now()}_new`
         await blink.db.fileVersions.create({
-          id: `version_${Date.now()}_new`,
+          id: versionId,
           file_id: replaceFileId,
           version_label: versionLabel,
           file_path: finalFileUrl,
           file_size: uploadFile.file.size,
+          file_name: uploadFile.file.name,
+          file_type: uploadFile.file.type || 'application/octet-stream',
           uploaded_by: user.id,
           version_notes: uploadFile.versionNotes || 'Updated version',
-          is_current: "1",
+          content_hash: fileHash,
+          custom_metadata: JSON.stringify(customMetadata),
+          ...renditions,
+          lifecycle_state: 'draft',
+          is_current: "0",
           created_at: now
         })
 
+        await blink.db.files.update(replaceFileId, {
+          pending_version_id: versionId,
+          updated_at: now
+        })
+
         // Create detailed audit trail
         await blink.db.fileAuditTrail.create({
           id: `audit_${Date.now()}`,
           file_id: replaceFileId,
-          version_id: `version_${Date.now()}_new`,
+          version_id: versionId,
           organization_id: organizationId,
           user_id: user.id,
           action: 'version_update',
-          change_summary: uploadFile.versionNotes || 'File updated with new version',
+          change_summary: uploadFile.versionNotes || 'New draft version uploaded',
           detailed_changes: JSON.stringify({
             previousVersion: existingFile.version_label,
             newVersion: versionLabel,
+            lifecycleState: 'draft',
+            versionBump: uploadFile.versionBump || 'patch',
+            bumpRequirement: uploadFile.bumpReason,
             fileSize: uploadFile.file.size,
             fileName: uploadFile.file.name,
-            fileType: uploadFile.file.type
+            fileType: uploadFile.file.type,
+            contentHash: fileHash,
+            duplicateOf: uploadFile.duplicates?.[0]?.versionLabel,
+            customMetadata,
+            ...embeddingDetails
           }),
           ai_similarity_score: uploadFile.similarFiles?.[0]?.similarityScore || 1.0,
           replaced_file_id: replaceFileId,
           created_at: now
         })
       } else {
+        const { companyPrefix, sequentialNumber } = await getNumbering(versionLabel)
+
         // Create new file
         const newFile = await blink.db.files.create({
           id: fileId,
@@ -353,15 +438,40 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
           version_notes: uploadFile.versionNotes || 'Initial version',
           similarity_hash: fileHash,
           content_hash: fileHash,
+          custom_metadata: JSON.stringify(customMetadata),
+          ...renditions,
           is_latest_version: "1",
           document_reference: documentMetadata.documentReference,
           revision_number: versionLabel,
-          company_prefix: 'VT',
-          sequential_number: 1,
+          company_prefix: companyPrefix,
+          sequential_number: sequentialNumber,
           revision_sequence: 1,
+          lifecycle_state: 'draft',
+          pending_version_id: `version_${fileId}`,
           created_at: now,
           updated_at: now
         })
+        // The number belongs to the document now
+        allocatedReference = null
+
+        // First revision starts as a draft too and becomes current on approval
+        await blink.db.fileVersions.create({
+          id: `version_${fileId}`,
+          file_id: fileId,
+          version_label: versionLabel,
+          file_path: finalFileUrl,
+          file_size: uploadFile.file.size,
+          file_name: uploadFile.file.name,
+          file_type: uploadFile.file.type || 'application/octet-stream',
+          uploaded_by: user.id,
+          version_notes: uploadFile.versionNotes || 'Initial version',
+          content_hash: fileHash,
+          custom_metadata: JSON.stringify(customMetadata),
+          ...renditions,
+          lifecycle_state: 'draft',
+          is_current: "0",
+          created_at: now
+        })
 
         // Create audit trail for new file
         await blink.db.fileAuditTrail.create({
@@ -377,10 +487,25 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
             fileType: uploadFile.file.type,
             versionLabel: versionLabel,
             documentReference: documentMetadata.documentReference,
+            lifecycleState: 'draft',
+            contentHash: fileHash,
+            duplicateOf: uploadFile.duplicates?.[0]?.versionLabel,
+            customMetadata,
+            ...embeddingDetails,
             aiAnalysis: uploadFile.fileAnalysis
           }),
           created_at: now
         })
+
+        // Later revisions replace the entry when they become current, see lifecycleService
+        await similarityIndexService.indexUpload({
+          id: fileId,
+          name: uploadFile.file.name,
+          organization_id: organizationId,
+          file_path: finalFileUrl,
+          file_type: uploadFile.file.type,
+          content_hash: fileHash
+        }, uploadFile.file)
       }
 
       // Log activity (legacy table)
@@ -401,68 +526,168 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
       onUploadComplete()
     } catch (error) {
       console.error('Upload error:', error)
+      if (allocatedReference) {
+        await documentNumberingService.releaseAllocation(organizationId, allocatedReference)
+      }
       setUploadFiles(prev => prev.map(f => 
-        f.id === uploadFile.id ? { ...f, status: 'error' } : f
+        f.id === uploadFile.id ? { ...f, status: 'error', errorMessage: error instanceof Error ? error.message : undefined } : f
       ))
+    } finally {
+      if (!replaceFileId) {
+        // Counters and reservations moved on
+        documentNumberingService.listSchemes(organizationId).then(setNumberingSchemes)
+        documentNumberingService.listReservations(organizationId).then(setReservedNumbers)
+      }
     }
   }
 
-  const handleFiles = async (files: FileList) => {
-    const newFiles: UploadFile[] = []
-    
-    for (let i = 0; i < files.length; i++) {
-      const file = files[i]
-      const fileId = `upload_${Date.now()}_${i}`
-      
-      // Create initial file entry
-      const uploadFile: UploadFile = {
-        file,
+  const linkToExistingFile = async (uploadFile: UploadFile, match: DuplicateMatch) => {
+    try {
+      setUploadFiles(prev => prev.map(f => 
+        f.id === uploadFile.id ? { ...f, status: 'uploading' } : f
+      ))
+
+      const user = await blink.auth.me()
+      const fileId = `file_${Date.now()}`
+      const now = new Date().toISOString()
+
+      // Point a new entry at the stored blob instead of uploading the same bytes again
+      await blink.db.files.create({
         id: fileId,
-        progress: 0,
-        status: 'analyzing',
-        aiProcessing: true,
-        versionNotes: ''
-      }
-      
-      newFiles.push(uploadFile)
+        name: uploadFile.file.name,
+        original_name: uploadFile.file.name,
+        file_path: match.filePath,
+        file_size: uploadFile.file.size.toString(),
+        file_type: uploadFile.file.type || 'application/octet-stream',
+        organization_id: organizationId,
+        folder_path: currentPath || '/',
+        uploaded_by: user.id,
+        version_label: match.versionLabel,
+        version_notes: `Linked to ${match.fileName} (${match.versionLabel})`,
+        similarity_hash: uploadFile.contentHash,
+        content_hash: uploadFile.contentHash,
+        linked_file_id: match.fileId,
+        is_latest_version: "1",
+        created_at: now,
+        updated_at: now
+      })
+
+      await blink.db.fileAuditTrail.create({
+        id: `audit_${Date.now()}`,
+        file_id: fileId,
+        organization_id: organizationId,
+        user_id: user.id,
+        action: 'link',
+        change_summary: `Linked to identical file ${match.fileName}`,
+        detailed_changes: JSON.stringify({
+          fileName: uploadFile.file.name,
+          linkedFileId: match.fileId,
+          linkedVersion: match.versionLabel,
+          contentHash: uploadFile.contentHash
+        }),
+        created_at: now
+      })
+
+      await similarityIndexService.indexUpload({
+        id: fileId,
+        name: uploadFile.file.name,
+        organization_id: organizationId,
+        file_path: match.filePath,
+        file_type: uploadFile.file.type,
+        content_hash: uploadFile.contentHash
+      }, uploadFile.file)
+
+      await blink.db.activityLog.create({
+        id: `activity_${Date.now()}`,
+        organization_id: organizationId,
+        file_id: fileId,
+        user_id: user.id,
+        action: 'link',
+        details: `Linked ${uploadFile.file.name} to ${match.fileName} (${match.versionLabel})`,
+        created_at: now
+      })
+
+      setUploadFiles(prev => prev.map(f => 
+        f.id === uploadFile.id ? { ...f, status: 'complete', progress: 100, versionLabel: match.versionLabel } : f
+      ))
+
+      onUploadComplete()
+    } catch (error) {
+      console.error('Link error:', error)
+      setUploadFiles(prev => prev.map(f => 
+        f.id === uploadFile.id ? { ...f, status: 'error' } : f
+      ))
     }
-    
-    setUploadFiles(prev => [...prev, ...newFiles])
-    
+  }
+
+  // Stays marked as running while a dialog holds the queue, so new drops only join it
+  const processAnalysisQueue = async () => {
+    analysisRunning.current = true
+
+    // Offline organizations never send document text to the AI
+    const { mode: similarityMode } = await similarityService.getSettings(organizationId)
+
     // Process each file with AI analysis
-    for (const uploadFile of newFiles) {
+    while (analysisQueue.current.length > 0) {
+      const [queuedFile] = analysisQueue.current.splice(0, 1)
       try {
+        // Byte-identical content is already in the vault - let the user decide before analysing
+        const contentHash = await contentHashService.computeContentHash(queuedFile.file)
+        const duplicates = await contentHashService.findExactDuplicates(organizationId, contentHash)
+
+        if (duplicates.length > 0) {
+          setUploadFiles(prev => prev.map(f => 
+            f.id === queuedFile.id ? {
+              ...f,
+              status: 'pending',
+              aiProcessing: false,
+              contentHash,
+              duplicates
+            } : f
+          ))
+          setDuplicateFile({ ...queuedFile, contentHash, duplicates })
+          setShowDuplicateDialog(true)
+          return // The rest of the queue resumes once the duplicate dialog is resolved
+        }
+
         // Analyze file and find similar files using AI
-        const { analysis, similarFiles } = await analyzeAndFindSimilarFiles(uploadFile.file)
-        const versionLabel = await generateVersionLabel(organizationId)
+        const { analysis, similarFiles, thumbnail } = await analyzeAndFindSimilarFiles(queuedFile.file, contentHash)
+        const versionLabel = await generateVersionLabel(organizationId, undefined, queuedFile.file.type)
+        // Metadata the file already carries, with AI filling only what is missing
+        const metadataExtraction = await documentMetadataService.extractMetadataFromDocument(queuedFile.file, {
+          useAI: similarityMode !== 'offline'
+        }) || undefined
         
         // Update file with analysis results
         setUploadFiles(prev => prev.map(f => 
-          f.id === uploadFile.id ? {
+          f.id === queuedFile.id ? {
             ...f,
             status: 'pending',
             aiProcessing: false,
+            contentHash,
             similarFiles,
+            thumbnail,
             fileAnalysis: analysis,
+            metadataExtraction,
             versionLabel
           } : f
         ))
         
         // If similar files found, show dialog for the first one
         if (similarFiles.length > 0) {
-          const updatedFile = { ...uploadFile, similarFiles, fileAnalysis: analysis, versionLabel }
+          const updatedFile = { ...queuedFile, contentHash, similarFiles, thumbnail, fileAnalysis: analysis, metadataExtraction, versionLabel }
           setSelectedFile(updatedFile)
           setShowSimilarDialog(true)
-          return // Process one at a time when similar files are found
+          return // The rest of the queue resumes once the similar-files dialog is resolved
         } else {
           // Start uploading immediately if no similar files
-          const updatedFile = { ...uploadFile, similarFiles, fileAnalysis: analysis, versionLabel }
+          const updatedFile = { ...queuedFile, contentHash, similarFiles, thumbnail, fileAnalysis: analysis, metadataExtraction, versionLabel }
           uploadFile(updatedFile)
         }
       } catch (error) {
         console.error('Error processing file:', error)
         setUploadFiles(prev => prev.map(f => 
-          f.id === uploadFile.id ? {
+          f.id === queuedFile.id ? {
             ...f,
             status: 'error',
             aiProcessing: false
@@ -470,6 +695,36 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
         ))
       }
     }
+    analysisRunning.current = false
+  }
+
+  const handleFiles = async (files: FileList) => {
+    const newFiles: UploadFile[] = []
+    
+    for (let i = 0; i < files.length; i++) {
+      const file = files[i]
+      const fileId = `upload_${Date.now()}_${i}`
+      
+      // Create initial file entry
+      const uploadFile: UploadFile = {
+        file,
+        id: fileId,
+        progress: 0,
+        status: 'analyzing',
+        aiProcessing: true,
+        versionNotes: '',
+        // A reserved number can only go to one document, the first of the batch
+        numbering: numberingChoice.startsWith('reserved:') && i > 0 ? '' : numberingChoice
+      }
+      
+      newFiles.push(uploadFile)
+    }
+    
+    setUploadFiles(prev => [...prev, ...newFiles])
+    if (numberingChoice.startsWith('reserved:')) setNumberingChoice('')
+
+    analysisQueue.current.push(...newFiles)
+    if (!analysisRunning.current) processAnalysisQueue()
   }
 
   const handleDrop = (e: React.DragEvent) => {
@@ -495,22 +750,172 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
     setUploadFiles(prev => prev.filter(f => f.id !== fileId))
   }
 
-  const handleReplaceFile = (similarFileId: string) => {
+  const closeSimilarDialog = () => {
+    setShowSimilarDialog(false)
+    setSelectedFile(null)
+    processAnalysisQueue()
+  }
+
+  const handleReplaceFile = (similar: SimilarityResult) => {
     if (selectedFile) {
-      uploadFile(selectedFile, similarFileId)
-      setShowSimilarDialog(false)
-      setSelectedFile(null)
+      similarityFeedbackService.recordDecision(organizationId, currentUserId, selectedFile.file.name, selectedFile.similarFiles || [], similar.fileId)
+      const requirement = getBumpRequirement(selectedFile, similar)
+      uploadFile({
+        ...selectedFile,
+        versionBump: getEffectiveBump(selectedFile, similar),
+        bumpReason: requirement.reason,
+        versionLabel: selectedFile.customVersionLabel || previewVersionLabel(selectedFile, similar)
+      }, similar.fileId)
+      closeSimilarDialog()
     }
   }
 
   const handleUploadAsNew = () => {
     if (selectedFile) {
-      uploadFile(selectedFile)
-      setShowSimilarDialog(false)
-      setSelectedFile(null)
+      similarityFeedbackService.recordDecision(organizationId, currentUserId, selectedFile.file.name, selectedFile.similarFiles || [], null)
+      uploadFile({
+        ...selectedFile,
+        versionLabel: selectedFile.customVersionLabel || selectedFile.versionLabel
+      })
+      closeSimilarDialog()
     }
   }
 
+  const closeDuplicateDialog = () => {
+    setShowDuplicateDialog(false)
+    setDuplicateFile(null)
+    processAnalysisQueue()
+  }
+
+  const handleSkipDuplicate = () => {
+    if (duplicateFile) {
+      setUploadFiles(prev => prev.map(f => 
+        f.id === duplicateFile.id ? { ...f, status: 'skipped' } : f
+      ))
+      closeDuplicateDialog()
+    }
+  }
+
+  const handleLinkDuplicate = (match: DuplicateMatch) => {
+    if (duplicateFile) {
+      linkToExistingFile(duplicateFile, match)
+      closeDuplicateDialog()
+    }
+  }
+
+  const handleForceNewVersion = (match: DuplicateMatch) => {
+    if (duplicateFile) {
+      uploadFile(duplicateFile, match.fileId)
+      closeDuplicateDialog()
+    }
+  }
+
+  const updateCustomMetadata = (fileId: string, key: string, value: string) => {
+    setUploadFiles(prev => prev.map(f =>
+      f.id === fileId ? { ...f, customMetadata: { ...f.customMetadata, [key]: value } } : f
+    ))
+  }
+
+  const renderMetadataForm = (file: UploadFile) => {
+    const fields = metadataSchemaService.getFieldsForType(metadataFields, file.file.type)
+    const values = file.customMetadata || {}
+    const errors = file.metadataErrors || {}
+    return (
+      <div className="mt-3 p-3 bg-gray-50 rounded border space-y-3">
+        <div className="grid grid-cols-2 gap-3">
+          {fields.map(field => (
+            <div key={field.key}>
+              <label htmlFor={`${file.id}-${field.key}`} className="text-xs font-medium text-gray-700">
+                {field.label}{field.required && <span className="text-red-600"> *</span>}
+              </label>
+              {field.type === 'enum' ? (
+                <select
+                  id={`${file.id}-${field.key}`}
+                  value={values[field.key] || ''}
+                  onChange={(e) => updateCustomMetadata(file.id, field.key, e.target.value)}
+                  className="w-full h-9 border rounded-md px-2 text-sm bg-white"
+                >
+                  <option value="">Select...</option>
+                  {field.options.map(option => (
+                    <option key={option} value={option}>{option}</option>
+                  ))}
+                </select>
+              ) : (
+                <Input
+                  id={`${file.id}-${field.key}`}
+                  type={field.type === 'number' ? 'number' : field.type === 'date' ? 'date' : 'text'}
+                  value={values[field.key] || ''}
+                  onChange={(e) => updateCustomMetadata(file.id, field.key, e.target.value)}
+                  placeholder={field.type === 'user' ? 'Email or user ID' : undefined}
+                  className="h-9 text-sm"
+                />
+              )}
+              {errors[field.key] && <p className="text-xs text-red-600 mt-1">{errors[field.key]}</p>}
+            </div>
+          ))}
+        </div>
+        <div className="flex justify-end">
+          <Button size="sm" onClick={() => uploadFile({ ...file, metadataReviewed: true }, file.targetFileId)}>
+            <Upload className="w-4 h-4 mr-1" />
+            Upload
+          </Button>
+        </div>
+      </div>
+    )
+  }
+
+  const renderExtractedFields = (extraction: MetadataExtraction) => {
+    const fields = Object.entries(extraction.fields) as [MetadataField, ExtractedField][]
+    return (
+      <div className="flex flex-wrap gap-1 mt-1">
+        {fields.map(([field, extracted]) => (
+          <span
+            key={field}
+            title={`${METADATA_FIELD_LABELS[field]} from ${METADATA_SOURCE_LABELS[extracted.source]}, ${Math.round(extracted.confidence * 100)}% confidence`}
+            className={`text-xs px-1.5 py-0.5 rounded border ${
+              extracted.confidence >= 0.9 ? 'bg-green-50 border-green-200 text-green-800' :
+              extracted.confidence >= 0.6 ? 'bg-gray-50 border-gray-200 text-gray-700' :
+              'bg-yellow-50 border-yellow-200 text-yellow-800'
+            }`}
+          >
+            {METADATA_FIELD_LABELS[field]}: {field === 'lastModified' ? new Date(extracted.value).toLocaleDateString() : extracted.value}
+            <span className="opacity-70"> · {METADATA_SOURCE_LABELS[extracted.source]} {Math.round(extracted.confidence * 100)}%</span>
+          </span>
+        ))}
+      </div>
+    )
+  }
+
+  const renderBumpSelector = (file: UploadFile, topMatch: SimilarityResult) => {
+    const requirement = getBumpRequirement(file, topMatch)
+    const effectiveBump = getEffectiveBump(file, topMatch)
+    return (
+      <div>
+        <label className="block text-sm font-medium mb-1">Version Bump</label>
+        <div className="flex items-center space-x-2">
+          {(['major', 'minor', 'patch'] as VersionBump[]).map((bump) => (
+            <Button
+              key={bump}
+              variant={effectiveBump === bump ? 'default' : 'outline'}
+              size="sm"
+              disabled={versionFormatService.maxBump(bump, requirement.bump) !== bump}
+              onClick={() => setSelectedFile(prev => prev ? {...prev, versionBump: bump} : null)}
+              className="capitalize"
+            >
+              {bump}
+            </Button>
+          ))}
+          <span className="text-sm text-gray-600 font-mono">
+            {topMatch.versionLabel} → {previewVersionLabel(file, topMatch)}
+          </span>
+        </div>
+        {requirement.reason && (
+          <p className="text-xs text-amber-700 mt-1">{requirement.reason}</p>
+        )}
+      </div>
+    )
+  }
+
   return (
     <>
       <div
@@ -540,6 +945,60 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
         </Button>
       </div>
 
+      <div className="mt-4 flex flex-wrap items-center gap-x-6 gap-y-2 text-sm">
+        <label className="flex items-center space-x-2">
+          <Checkbox
+            checked={embeddingPolicy.enabled}
+            onCheckedChange={(checked) => setEmbeddingPolicy({ ...embeddingPolicy, enabled: checked === true })}
+          />
+          <span>Embed metadata</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span className={embeddingPolicy.enabled ? '' : 'text-gray-400'}>Stamp</span>
+          <select
+            value={embeddingPolicy.stampPosition || 'none'}
+            disabled={!embeddingPolicy.enabled}
+            onChange={(e) => setEmbeddingPolicy({ ...embeddingPolicy, stampPosition: e.target.value as StampPosition })}
+            className="h-8 border rounded-md px-2 text-sm bg-white"
+          >
+            <option value="none">No visible stamp</option>
+            <option value="header">Header</option>
+            <option value="footer">Footer</option>
+          </select>
+        </label>
+        <label className="flex items-center space-x-2">
+          <Checkbox
+            checked={Boolean(embeddingPolicy.imageStamp)}
+            disabled={!embeddingPolicy.enabled}
+            onCheckedChange={(checked) => setEmbeddingPolicy({
+              ...embeddingPolicy,
+              imageStamp: checked === true ? imageStampSettings : undefined
+            })}
+          />
+          <span className={embeddingPolicy.enabled ? '' : 'text-gray-400'}>Stamped copy of images</span>
+        </label>
+        <label className="flex items-center space-x-2">
+          <span>Number new documents</span>
+          <select
+            value={numberingChoice}
+            onChange={(e) => setNumberingChoice(e.target.value)}
+            className="h-8 border rounded-md px-2 text-sm bg-white"
+          >
+            <option value="">By document type</option>
+            {numberingSchemes.map(scheme => (
+              <option key={scheme.id} value={`scheme:${scheme.id}`}>
+                Next {documentNumberingService.formatReference(scheme, scheme.nextNumber)} ({scheme.name})
+              </option>
+            ))}
+            {reservedNumbers.map(number => (
+              <option key={number.id} value={`reserved:${number.reference}`}>
+                Reserved {number.reference}{number.note ? ` - ${number.note}` : ''}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
       {uploadFiles.length > 0 && (
         <div className="mt-6 space-y-3">
           <h4 className="font-medium">Upload Queue</h4>
@@ -558,6 +1017,7 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
                         {uploadFile.fileAnalysis.contentType} • {uploadFile.fileAnalysis.documentPurpose}
                       </p>
                     )}
+                    {uploadFile.metadataExtraction && renderExtractedFields(uploadFile.metadataExtraction)}
                   </div>
                 </div>
                 <div className="flex items-center space-x-2">
@@ -571,6 +1031,7 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
                     uploadFile.status === 'complete' ? 'default' :
                     uploadFile.status === 'error' ? 'destructive' :
                     uploadFile.status === 'uploading' ? 'secondary' :
+                    uploadFile.status === 'skipped' ? 'outline' :
                     uploadFile.status === 'analyzing' ? 'outline' : 'outline'
                   }>
                     {uploadFile.status === 'analyzing' ? 'AI Analysis' : uploadFile.status}
@@ -586,9 +1047,23 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
                   )}
                 </div>
               </div>
+              {uploadFile.awaitingMetadata && uploadFile.status === 'pending' && renderMetadataForm(uploadFile)}
               {uploadFile.status === 'uploading' && (
                 <Progress value={uploadFile.progress} className="w-full" />
               )}
+              {uploadFile.status === 'error' && uploadFile.errorMessage && (
+                <p className="text-xs text-red-600">{uploadFile.errorMessage}</p>
+              )}
+              {uploadFile.duplicates && uploadFile.duplicates.length > 0 && (
+                <div className="mt-2 p-2 bg-red-50 rounded border border-red-200">
+                  <div className="flex items-center space-x-2 text-red-800">
+                    <Copy className="w-4 h-4" />
+                    <span className="text-sm font-medium">
+                      Identical to {uploadFile.duplicates[0].versionLabel} already in the vault
+                    </span>
+                  </div>
+                </div>
+              )}
               {uploadFile.similarFiles && uploadFile.similarFiles.length > 0 && (
                 <div className="mt-2 p-2 bg-yellow-50 rounded border border-yellow-200">
                   <div className="flex items-center space-x-2 text-yellow-800">
@@ -607,7 +1082,7 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
         </div>
       )}
 
-      <Dialog open={showSimilarDialog} onOpenChange={setShowSimilarDialog}>
+      <Dialog open={showSimilarDialog} onOpenChange={(open) => !open && closeSimilarDialog()}>
         <DialogContent className="max-w-2xl">
           <DialogHeader>
             <DialogTitle>Similar Files Found</DialogTitle>
@@ -636,22 +1111,49 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
                         <div>
                           <p className="font-medium">{similar.fileName}</p>
                           <p className="text-sm text-gray-500">
-                            {similar.versionLabel} • {Math.round(similar.similarityScore * 100)}% match
+                            {similar.versionLabel} → {previewVersionLabel(selectedFile, similar)} • {Math.round(similar.similarityScore * 100)}% match
                           </p>
+                          {isLockedByOther(similar.lockedBy) && (
+                            <p className="text-xs text-amber-700 flex items-center space-x-1">
+                              <Lock className="w-3 h-3" />
+                              <span>Checked out by {similar.lockedByName} - replace is blocked</span>
+                            </p>
+                          )}
+                          {hasPendingDraft(similar) && (
+                            <p className="text-xs text-amber-700">
+                              A draft is awaiting approval - approve or reject it before uploading another revision
+                            </p>
+                          )}
                         </div>
                         <Button
                           variant="outline"
                           size="sm"
-                          onClick={() => handleReplaceFile(similar.fileId)}
+                          disabled={isLockedByOther(similar.lockedBy) || hasPendingDraft(similar)}
+                          onClick={() => handleReplaceFile(similar)}
                         >
                           Replace with new version
                         </Button>
                       </div>
+                      {selectedFile.thumbnail && similar.thumbnail && (
+                        <div className="flex items-start space-x-3 mb-2">
+                          <figure className="text-center">
+                            <img src={selectedFile.thumbnail} alt="" className="h-24 w-24 object-contain border rounded bg-white" />
+                            <figcaption className="text-xs text-gray-500 mt-1">Uploading</figcaption>
+                          </figure>
+                          <figure className="text-center">
+                            <img src={similar.thumbnail} alt="" className="h-24 w-24 object-contain border rounded bg-white" />
+                            <figcaption className="text-xs text-gray-500 mt-1">{similar.versionLabel}</figcaption>
+                          </figure>
+                        </div>
+                      )}
                       <div className="text-xs text-gray-600 bg-gray-50 p-2 rounded">
                         <p><strong>AI Analysis:</strong> {similar.aiAnalysis}</p>
                         <p className="mt-1">
                           <strong>Content:</strong> {Math.round(similar.contentSimilarity * 100)}% • 
                           <strong> Name:</strong> {Math.round(similar.nameSimilarity * 100)}%
+                          {similar.visualSimilarity !== undefined && (
+                            <> • <strong>Visual:</strong> {Math.round(similar.visualSimilarity * 100)}%</>
+                          )}
                         </p>
                       </div>
                     </div>
@@ -660,12 +1162,16 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
               </div>
 
               <div className="space-y-3">
+                {selectedFile.similarFiles && selectedFile.similarFiles.length > 0 &&
+                  renderBumpSelector(selectedFile, selectedFile.similarFiles[0])}
                 <div>
                   <label className="block text-sm font-medium mb-1">Version Label</label>
                   <Input
-                    value={selectedFile.versionLabel}
-                    onChange={(e) => setSelectedFile(prev => prev ? {...prev, versionLabel: e.target.value} : null)}
-                    placeholder="e.g., v1.0.1, POL-003 Rev B"
+                    value={selectedFile.customVersionLabel || ''}
+                    onChange={(e) => setSelectedFile(prev => prev ? {...prev, customVersionLabel: e.target.value} : null)}
+                    placeholder={selectedFile.similarFiles?.[0]
+                      ? `${previewVersionLabel(selectedFile, selectedFile.similarFiles[0])} (leave empty to use the preview)`
+                      : 'e.g., v1.0.1, POL-003 Rev B'}
                   />
                 </div>
                 <div>
@@ -683,7 +1189,7 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
                 <Button variant="outline" onClick={handleUploadAsNew}>
                   Upload as New File
                 </Button>
-                <Button onClick={() => setShowSimilarDialog(false)}>
+                <Button onClick={closeSimilarDialog}>
                   Cancel
                 </Button>
               </div>
@@ -691,6 +1197,79 @@ export function FileUpload({ organizationId, currentPath, onUploadComplete }: Fi
           )}
         </DialogContent>
       </Dialog>
+
+      <Dialog open={showDuplicateDialog} onOpenChange={(open) => !open && closeDuplicateDialog()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>Identical File Already in the Vault</DialogTitle>
+          </DialogHeader>
+          {duplicateFile && duplicateFile.duplicates && (
+            <div className="space-y-4">
+              <div className="p-4 bg-red-50 rounded-lg border border-red-200">
+                <div className="flex items-start space-x-3">
+                  <AlertTriangle className="w-5 h-5 text-red-600 mt-0.5" />
+                  <div>
+                    <p className="font-medium">
+                      {duplicateFile.file.name} is identical to {duplicateFile.duplicates[0].versionLabel} already in the vault
+                    </p>
+                    <p className="text-sm text-gray-600">
+                      {formatFileSize(duplicateFile.file.size)} • SHA-256 {duplicateFile.contentHash?.slice(0, 12)}…
+                    </p>
+                  </div>
+                </div>
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-3">Matching content:</h4>
+                <div className="space-y-2 max-h-60 overflow-y-auto">
+                  {duplicateFile.duplicates.map((match) => (
+                    <div key={`${match.fileId}_${match.versionId || 'current'}`} className="p-3 border rounded-lg">
+                      <div className="flex items-center justify-between">
+                        <div>
+                          <p className="font-medium">{match.fileName}</p>
+                          <p className="text-sm text-gray-500">
+                            {match.versionLabel} • {match.folderPath}
+                            {match.isCurrent ? ' • current' : ' • older version'}
+                          </p>
+                          {isLockedByOther(match.lockedBy) && (
+                            <p className="text-xs text-amber-700 flex items-center space-x-1">
+                              <Lock className="w-3 h-3" />
+                              <span>Checked out by {match.lockedByName}</span>
+                            </p>
+                          )}
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => handleLinkDuplicate(match)}
+                          >
+                            Link
+                          </Button>
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            disabled={isLockedByOther(match.lockedBy)}
+                            onClick={() => handleForceNewVersion(match)}
+                          >
+                            Force new version
+                          </Button>
+                        </div>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-3">
+                <Button onClick={handleSkipDuplicate}>
+                  Skip upload
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
     </>
   )
 }
\ No newline at end of file
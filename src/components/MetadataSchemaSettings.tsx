@@ -0,0 +1,423 @@
+import { useState, useEffect } from 'react'
+import { ListChecks, Trash2, Plus, Pencil } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import {
+  metadataSchemaService,
+  METADATA_FIELD_TYPE_LABELS,
+  type MetadataFieldDefinition,
+  type MetadataFieldType
+} from '../services/metadataSchemaService'
+import {
+  documentMetadataService,
+  DEFAULT_EMBEDDING_POLICY,
+  DEFAULT_IMAGE_STAMP,
+  type EmbeddingPolicy,
+  type StampPosition
+} from '../services/documentMetadataService'
+import type { ImageStampOptions, OverlayCorner } from '../services/imageMetadataService'
+
+interface MetadataSchemaSettingsProps {
+  organizationId: string
+  isOpen: boolean
+  onClose: () => void
+  onChange?: () => void
+}
+
+interface FieldForm {
+  id?: string
+  key: string
+  label: string
+  type: MetadataFieldType
+  documentType: string
+  required: boolean
+  pattern: string
+  options: string
+  showInList: boolean
+  sortOrder?: number
+}
+
+const emptyForm: FieldForm = {
+  key: '',
+  label: '',
+  type: 'text',
+  documentType: '',
+  required: false,
+  pattern: '',
+  options: '',
+  showInList: false
+}
+
+const CORNER_LABELS: Record<OverlayCorner, string> = {
+  'top-left': 'Top left',
+  'top-right': 'Top right',
+  'bottom-left': 'Bottom left',
+  'bottom-right': 'Bottom right'
+}
+
+const splitEntries = (value: string) =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean)
+
+export function MetadataSchemaSettings({ organizationId, isOpen, onClose, onChange }: MetadataSchemaSettingsProps) {
+  const [fields, setFields] = useState<MetadataFieldDefinition[]>([])
+  const [loading, setLoading] = useState(false)
+  const [form, setForm] = useState<FieldForm>(emptyForm)
+  const [error, setError] = useState<string | null>(null)
+  const [policy, setPolicy] = useState<EmbeddingPolicy>(DEFAULT_EMBEDDING_POLICY)
+  const [imageStamp, setImageStamp] = useState<ImageStampOptions>(DEFAULT_IMAGE_STAMP)
+  const [policySaved, setPolicySaved] = useState(false)
+
+  const loadFields = async () => {
+    setLoading(true)
+    try {
+      const [loadedFields, loadedPolicy] = await Promise.all([
+        metadataSchemaService.listFields(organizationId),
+        documentMetadataService.getEmbeddingPolicy(organizationId)
+      ])
+      setFields(loadedFields)
+      setPolicy(loadedPolicy)
+      setImageStamp(loadedPolicy.imageStamp || DEFAULT_IMAGE_STAMP)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      loadFields()
+      setForm(emptyForm)
+      setError(null)
+      setPolicySaved(false)
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleEdit = (field: MetadataFieldDefinition) => {
+    setForm({
+      id: field.id,
+      key: field.key,
+      label: field.label,
+      type: field.type,
+      documentType: field.documentType || '',
+      required: field.required,
+      pattern: field.pattern || '',
+      options: field.options.join(', '),
+      showInList: field.showInList,
+      sortOrder: field.sortOrder
+    })
+    setError(null)
+  }
+
+  const handleSave = async () => {
+    try {
+      await metadataSchemaService.saveField({
+        id: form.id,
+        organizationId,
+        key: form.key.trim(),
+        label: form.label.trim(),
+        type: form.type,
+        documentType: form.documentType.trim().toUpperCase() || undefined,
+        required: form.required,
+        pattern: form.pattern.trim() || undefined,
+        options: form.type === 'enum' ? splitEntries(form.options) : [],
+        showInList: form.showInList,
+        sortOrder: form.sortOrder ?? Math.max(0, ...fields.map(field => field.sortOrder)) + 1
+      })
+      setForm(emptyForm)
+      setError(null)
+      await loadFields()
+      onChange?.()
+    } catch (error) {
+      console.error('Error saving metadata field:', error)
+      setError(error instanceof Error ? error.message : 'Could not save the field.')
+    }
+  }
+
+  const handleDelete = async (field: MetadataFieldDefinition) => {
+    if (!confirm(`Delete the field "${field.label}"? Values already stored on documents are kept.`)) return
+    try {
+      await metadataSchemaService.deleteField(field.id)
+      if (form.id === field.id) setForm(emptyForm)
+      await loadFields()
+      onChange?.()
+    } catch (error) {
+      console.error('Error deleting metadata field:', error)
+    }
+  }
+
+  const handleSavePolicy = async () => {
+    try {
+      await documentMetadataService.setEmbeddingPolicy(organizationId, {
+        ...policy,
+        imageStamp: policy.imageStamp ? imageStamp : undefined
+      })
+      setPolicySaved(true)
+    } catch (error) {
+      console.error('Error saving embedding policy:', error)
+      alert('Could not save the embedding defaults.')
+    }
+  }
+
+  const updateImageStamp = (update: Partial<ImageStampOptions>) => {
+    const next = { ...imageStamp, ...update }
+    setImageStamp(next)
+    if (policy.imageStamp) setPolicy({ ...policy, imageStamp: next })
+    setPolicySaved(false)
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <ListChecks className="w-5 h-5" />
+            <span>Document Metadata</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          Fields are asked for on upload, searchable, and embedded in documents once embedding is turned on below.
+          A field for a document type replaces an organization-wide field with the same key.
+        </p>
+
+        <div className="space-y-2">
+          {loading ? (
+            <div className="text-sm text-gray-500">Loading fields...</div>
+          ) : fields.length === 0 ? (
+            <div className="text-sm text-gray-500">No custom fields defined</div>
+          ) : (
+            fields.map(field => (
+              <div key={field.id} className="border rounded-lg p-3 flex items-start justify-between">
+                <div className="space-y-1 text-sm">
+                  <div className="flex items-center space-x-2">
+                    <span className="font-medium">{field.label}</span>
+                    <span className="text-xs text-gray-500 font-mono">{field.key}</span>
+                  </div>
+                  <div className="flex flex-wrap items-center gap-1">
+                    <Badge variant="outline">{METADATA_FIELD_TYPE_LABELS[field.type]}</Badge>
+                    <Badge variant="outline">{field.documentType || 'All types'}</Badge>
+                    {field.required && <Badge variant="secondary">Required</Badge>}
+                    {field.showInList && <Badge variant="secondary">List column</Badge>}
+                  </div>
+                  {field.type === 'enum' && (
+                    <p className="text-gray-600">Options: {field.options.join(', ')}</p>
+                  )}
+                  {field.pattern && (
+                    <p className="text-gray-600">Format: <code>{field.pattern}</code></p>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  <Button variant="ghost" size="sm" onClick={() => handleEdit(field)}>
+                    <Pencil className="w-4 h-4" />
+                  </Button>
+                  <Button variant="ghost" size="sm" onClick={() => handleDelete(field)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-semibold">{form.id ? 'Edit field' : 'Add field'}</h4>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="field-label">Label</Label>
+              <Input
+                id="field-label"
+                value={form.label}
+                onChange={(e) => setForm({ ...form, label: e.target.value })}
+                placeholder="Project number"
+              />
+            </div>
+            <div>
+              <Label htmlFor="field-key">Key</Label>
+              <Input
+                id="field-key"
+                value={form.key}
+                onChange={(e) => setForm({ ...form, key: e.target.value })}
+                placeholder="ProjectNumber"
+              />
+            </div>
+            <div>
+              <Label htmlFor="field-type">Type</Label>
+              <select
+                id="field-type"
+                value={form.type}
+                onChange={(e) => setForm({ ...form, type: e.target.value as MetadataFieldType })}
+                className="w-full h-10 border rounded-md px-3 text-sm"
+              >
+                {(Object.keys(METADATA_FIELD_TYPE_LABELS) as MetadataFieldType[]).map(type => (
+                  <option key={type} value={type}>{METADATA_FIELD_TYPE_LABELS[type]}</option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="field-document-type">Document type</Label>
+              <Input
+                id="field-document-type"
+                value={form.documentType}
+                onChange={(e) => setForm({ ...form, documentType: e.target.value })}
+                placeholder="PDF, DOC... (blank for all)"
+              />
+            </div>
+          </div>
+          {form.type === 'enum' && (
+            <div>
+              <Label htmlFor="field-options">Options</Label>
+              <Input
+                id="field-options"
+                value={form.options}
+                onChange={(e) => setForm({ ...form, options: e.target.value })}
+                placeholder="Public, Internal, Confidential"
+              />
+            </div>
+          )}
+          {form.type !== 'enum' && form.type !== 'date' && (
+            <div>
+              <Label htmlFor="field-pattern">Format (regular expression)</Label>
+              <Input
+                id="field-pattern"
+                value={form.pattern}
+                onChange={(e) => setForm({ ...form, pattern: e.target.value })}
+                placeholder="P-\d{5}"
+              />
+            </div>
+          )}
+          <div className="flex items-center space-x-6">
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={form.required}
+                onCheckedChange={(checked) => setForm({ ...form, required: checked === true })}
+              />
+              <span>Required</span>
+            </label>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={form.showInList}
+                onCheckedChange={(checked) => setForm({ ...form, showInList: checked === true })}
+              />
+              <span>Show as list column</span>
+            </label>
+          </div>
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex items-center space-x-2">
+            <Button size="sm" onClick={handleSave} className="flex items-center space-x-1">
+              <Plus className="w-4 h-4" />
+              <span>{form.id ? 'Save field' : 'Add field'}</span>
+            </Button>
+            {form.id && (
+              <Button variant="ghost" size="sm" onClick={() => setForm(emptyForm)}>
+                Cancel
+              </Button>
+            )}
+          </div>
+        </div>
+
+        <div className="border-t pt-4 space-y-3">
+          <h4 className="text-sm font-semibold">Embedding defaults</h4>
+          <p className="text-xs text-gray-500">
+            Off until turned on here. Applied to every upload unless the uploader changes them; the untouched original is always kept.
+          </p>
+          <label className="flex items-center space-x-2 text-sm">
+            <Checkbox
+              checked={policy.enabled}
+              onCheckedChange={(checked) => {
+                setPolicy({ ...policy, enabled: checked === true })
+                setPolicySaved(false)
+              }}
+            />
+            <span>Embed metadata into uploaded documents</span>
+          </label>
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="policy-stamp">Visible stamp on PDF and Word</Label>
+              <select
+                id="policy-stamp"
+                value={policy.stampPosition || 'none'}
+                onChange={(e) => {
+                  setPolicy({ ...policy, stampPosition: e.target.value as StampPosition })
+                  setPolicySaved(false)
+                }}
+                className="w-full h-10 border rounded-md px-3 text-sm"
+              >
+                <option value="none">None</option>
+                <option value="header">Header</option>
+                <option value="footer">Footer</option>
+              </select>
+            </div>
+            <div className="flex items-end pb-2">
+              <label className="flex items-center space-x-2 text-sm">
+                <Checkbox
+                  checked={Boolean(policy.imageStamp)}
+                  onCheckedChange={(checked) => {
+                    setPolicy({ ...policy, imageStamp: checked === true ? imageStamp : undefined })
+                    setPolicySaved(false)
+                  }}
+                />
+                <span>Stamped copy of images</span>
+              </label>
+            </div>
+          </div>
+          {policy.imageStamp && (
+            <div className="grid grid-cols-3 gap-3">
+              <div>
+                <Label htmlFor="stamp-corner">Corner</Label>
+                <select
+                  id="stamp-corner"
+                  value={imageStamp.position}
+                  onChange={(e) => updateImageStamp({ position: e.target.value as OverlayCorner })}
+                  className="w-full h-10 border rounded-md px-3 text-sm"
+                >
+                  {(Object.keys(CORNER_LABELS) as OverlayCorner[]).map(corner => (
+                    <option key={corner} value={corner}>{CORNER_LABELS[corner]}</option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="stamp-scale">Size</Label>
+                <Input
+                  id="stamp-scale"
+                  type="number"
+                  min={0.5}
+                  max={3}
+                  step={0.1}
+                  value={imageStamp.scale}
+                  onChange={(e) => updateImageStamp({ scale: Number(e.target.value) || 1 })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="stamp-opacity">Background opacity</Label>
+                <Input
+                  id="stamp-opacity"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.1}
+                  value={imageStamp.opacity}
+                  onChange={(e) => updateImageStamp({ opacity: Number(e.target.value) })}
+                />
+              </div>
+            </div>
+          )}
+          <div className="flex items-center space-x-2">
+            <Button size="sm" variant="outline" onClick={handleSavePolicy}>
+              Save defaults
+            </Button>
+            {policySaved && <span className="text-xs text-green-600">Saved</span>}
+          </div>
+        </div>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,363 @@
+import { useState, useEffect } from 'react'
+import { Archive, Gavel, Trash2, Plus } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Checkbox } from './ui/checkbox'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import {
+  retentionService,
+  RETENTION_TRIGGER_LABELS,
+  type LegalHold,
+  type RetentionReport,
+  type RetentionRule,
+  type RetentionTrigger
+} from '../services/retentionService'
+
+interface RetentionSettingsProps {
+  organizationId: string
+  user: any
+  files: { id: string, name: string, folder_path: string }[]
+  isOpen: boolean
+  onClose: () => void
+  onChange?: () => void
+}
+
+const emptyRule = { folderPath: '', documentType: '', retainYears: '10', trigger: 'obsolete' as RetentionTrigger }
+const emptyHold = { name: '', reason: '', folderPath: '', fileIds: [] as string[] }
+
+const formatDate = (dateString?: string) =>
+  dateString ? new Date(dateString).toLocaleDateString() : 'Indefinitely'
+
+export function RetentionSettings({ organizationId, user, files, isOpen, onClose, onChange }: RetentionSettingsProps) {
+  const [rules, setRules] = useState<RetentionRule[]>([])
+  const [holds, setHolds] = useState<LegalHold[]>([])
+  const [report, setReport] = useState<RetentionReport>({ holds: [], retained: [] })
+  const [ruleForm, setRuleForm] = useState(emptyRule)
+  const [holdForm, setHoldForm] = useState(emptyHold)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAll = async () => {
+    try {
+      const [loadedRules, loadedHolds, loadedReport] = await Promise.all([
+        retentionService.listRules(organizationId),
+        retentionService.listHolds(organizationId),
+        retentionService.getReport(organizationId)
+      ])
+      setRules(loadedRules)
+      setHolds(loadedHolds)
+      setReport(loadedReport)
+    } catch (error) {
+      console.error('Error loading retention settings:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      loadAll()
+      setRuleForm(emptyRule)
+      setHoldForm(emptyHold)
+      setError(null)
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleAddRule = async () => {
+    const retainYears = Number(ruleForm.retainYears)
+    if (!(retainYears > 0)) {
+      setError('Retention must be a positive number of years.')
+      return
+    }
+    try {
+      await retentionService.saveRule({
+        organizationId,
+        folderPath: ruleForm.folderPath.trim() || undefined,
+        documentType: ruleForm.documentType.trim().toUpperCase() || undefined,
+        retainYears,
+        trigger: ruleForm.trigger
+      })
+      setRuleForm(emptyRule)
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error saving retention rule:', error)
+      setError('Could not save the retention rule.')
+    }
+  }
+
+  const handleDeleteRule = async (rule: RetentionRule) => {
+    if (!confirm('Delete this retention rule?')) return
+    try {
+      await retentionService.deleteRule(rule.id)
+      await loadAll()
+    } catch (error) {
+      console.error('Error deleting retention rule:', error)
+    }
+  }
+
+  const handlePlaceHold = async () => {
+    if (!holdForm.name.trim() || !holdForm.reason.trim()) {
+      setError('A legal hold needs a name and a reason.')
+      return
+    }
+    if (!holdForm.folderPath.trim() && holdForm.fileIds.length === 0) {
+      setError('Choose a folder or at least one file to hold.')
+      return
+    }
+    try {
+      await retentionService.placeHold({
+        organizationId,
+        name: holdForm.name.trim(),
+        reason: holdForm.reason.trim(),
+        folderPath: holdForm.folderPath.trim() || undefined,
+        fileIds: holdForm.fileIds
+      }, user)
+      setHoldForm(emptyHold)
+      setError(null)
+      await loadAll()
+      onChange?.()
+    } catch (error) {
+      console.error('Error placing legal hold:', error)
+      setError('Could not place the legal hold.')
+    }
+  }
+
+  const handleReleaseHold = async (hold: LegalHold) => {
+    if (!confirm(`Release legal hold "${hold.name}"?`)) return
+    try {
+      await retentionService.releaseHold(hold, user)
+      await loadAll()
+      onChange?.()
+    } catch (error) {
+      console.error('Error releasing legal hold:', error)
+    }
+  }
+
+  const toggleHoldFile = (fileId: string) => {
+    setHoldForm(prev => ({
+      ...prev,
+      fileIds: prev.fileIds.includes(fileId)
+        ? prev.fileIds.filter(id => id !== fileId)
+        : [...prev.fileIds, fileId]
+    }))
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Archive className="w-5 h-5" />
+            <span>Retention &amp; Legal Holds</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <Tabs defaultValue="report">
+          <TabsList>
+            <TabsTrigger value="report">Report</TabsTrigger>
+            <TabsTrigger value="rules">Retention rules</TabsTrigger>
+            <TabsTrigger value="holds">Legal holds</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="report" className="space-y-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-2">On legal hold</h4>
+              {report.holds.length === 0 ? (
+                <p className="text-sm text-gray-500">No active legal holds</p>
+              ) : (
+                report.holds.map(({ hold, files: heldFiles }) => (
+                  <div key={hold.id} className="border rounded-lg p-3 mb-2 text-sm">
+                    <div className="flex items-center space-x-2">
+                      <Gavel className="w-4 h-4 text-red-600" />
+                      <span className="font-medium">{hold.name}</span>
+                      <span className="text-xs text-gray-500">placed by {hold.placedBy} on {formatDate(hold.placedAt)}</span>
+                    </div>
+                    <p className="text-gray-600 mt-1">{hold.reason}</p>
+                    <p className="text-xs text-gray-500 mt-1">
+                      {heldFiles.length === 0 ? 'No files currently covered' : heldFiles.map(f => f.name).join(', ')}
+                    </p>
+                  </div>
+                ))
+              )}
+            </div>
+            <div>
+              <h4 className="text-sm font-semibold mb-2">Under retention</h4>
+              {report.retained.length === 0 ? (
+                <p className="text-sm text-gray-500">No documents are under a retention rule</p>
+              ) : (
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1">Document</th>
+                      <th className="py-1">Rule</th>
+                      <th className="py-1">Keep until</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {report.retained.map(entry => (
+                      <tr key={entry.fileId} className="border-t">
+                        <td className="py-1">{entry.fileName} <span className="text-xs text-gray-500">{entry.versionLabel}</span></td>
+                        <td className="py-1 text-gray-600">
+                          {entry.rule.retainYears} years {RETENTION_TRIGGER_LABELS[entry.rule.trigger]}
+                        </td>
+                        <td className="py-1 text-gray-600">{formatDate(entry.retainUntil)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              )}
+            </div>
+          </TabsContent>
+
+          <TabsContent value="rules" className="space-y-4">
+            {rules.length === 0 ? (
+              <p className="text-sm text-gray-500">No retention rules configured</p>
+            ) : (
+              rules.map(rule => (
+                <div key={rule.id} className="border rounded-lg p-3 flex items-center justify-between text-sm">
+                  <div className="flex items-center space-x-2">
+                    <Badge variant="outline">{rule.folderPath || 'All folders'}</Badge>
+                    <Badge variant="outline">{rule.documentType || 'All types'}</Badge>
+                    <span>Keep all revisions {rule.retainYears} years {RETENTION_TRIGGER_LABELS[rule.trigger]}</span>
+                  </div>
+                  <Button variant="ghost" size="sm" onClick={() => handleDeleteRule(rule)}>
+                    <Trash2 className="w-4 h-4 text-red-600" />
+                  </Button>
+                </div>
+              ))
+            )}
+
+            <div className="border-t pt-4 grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="retention-folder">Folder</Label>
+                <Input
+                  id="retention-folder"
+                  value={ruleForm.folderPath}
+                  onChange={(e) => setRuleForm({ ...ruleForm, folderPath: e.target.value })}
+                  placeholder="/Quality (blank for all)"
+                />
+              </div>
+              <div>
+                <Label htmlFor="retention-type">Document type</Label>
+                <Input
+                  id="retention-type"
+                  value={ruleForm.documentType}
+                  onChange={(e) => setRuleForm({ ...ruleForm, documentType: e.target.value })}
+                  placeholder="PDF, DOC... (blank for all)"
+                />
+              </div>
+              <div>
+                <Label htmlFor="retention-years">Years</Label>
+                <Input
+                  id="retention-years"
+                  type="number"
+                  min={1}
+                  value={ruleForm.retainYears}
+                  onChange={(e) => setRuleForm({ ...ruleForm, retainYears: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="retention-trigger">Counted from</Label>
+                <select
+                  id="retention-trigger"
+                  value={ruleForm.trigger}
+                  onChange={(e) => setRuleForm({ ...ruleForm, trigger: e.target.value as RetentionTrigger })}
+                  className="w-full h-10 border rounded-md px-3 text-sm"
+                >
+                  {(Object.keys(RETENTION_TRIGGER_LABELS) as RetentionTrigger[]).map(trigger => (
+                    <option key={trigger} value={trigger}>{RETENTION_TRIGGER_LABELS[trigger]}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="col-span-2">
+                <Button size="sm" onClick={handleAddRule} className="flex items-center space-x-1">
+                  <Plus className="w-4 h-4" />
+                  <span>Add rule</span>
+                </Button>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="holds" className="space-y-4">
+            {holds.length === 0 ? (
+              <p className="text-sm text-gray-500">No active legal holds</p>
+            ) : (
+              holds.map(hold => (
+                <div key={hold.id} className="border rounded-lg p-3 flex items-start justify-between text-sm">
+                  <div>
+                    <p className="font-medium">{hold.name}</p>
+                    <p className="text-gray-600">{hold.reason}</p>
+                    <p className="text-xs text-gray-500">
+                      {hold.folderPath ? `Folder ${hold.folderPath}` : ''}
+                      {hold.folderPath && hold.fileIds.length > 0 ? ' • ' : ''}
+                      {hold.fileIds.length > 0 ? `${hold.fileIds.length} file(s)` : ''}
+                    </p>
+                  </div>
+                  <Button variant="outline" size="sm" onClick={() => handleReleaseHold(hold)}>
+                    Release
+                  </Button>
+                </div>
+              ))
+            )}
+
+            <div className="border-t pt-4 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <Label htmlFor="hold-name">Name</Label>
+                  <Input
+                    id="hold-name"
+                    value={holdForm.name}
+                    onChange={(e) => setHoldForm({ ...holdForm, name: e.target.value })}
+                    placeholder="Matter or case reference"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="hold-folder">Folder</Label>
+                  <Input
+                    id="hold-folder"
+                    value={holdForm.folderPath}
+                    onChange={(e) => setHoldForm({ ...holdForm, folderPath: e.target.value })}
+                    placeholder="Hold everything under a folder"
+                  />
+                </div>
+              </div>
+              <div>
+                <Label htmlFor="hold-reason">Reason</Label>
+                <Input
+                  id="hold-reason"
+                  value={holdForm.reason}
+                  onChange={(e) => setHoldForm({ ...holdForm, reason: e.target.value })}
+                />
+              </div>
+              <div className="max-h-40 overflow-y-auto border rounded p-2 space-y-1">
+                {files.map(file => (
+                  <label key={file.id} className="flex items-center space-x-2 text-sm">
+                    <Checkbox
+                      checked={holdForm.fileIds.includes(file.id)}
+                      onCheckedChange={() => toggleHoldFile(file.id)}
+                    />
+                    <span>{file.name}</span>
+                    <span className="text-xs text-gray-400">{file.folder_path}</span>
+                  </label>
+                ))}
+              </div>
+              <Button size="sm" onClick={handlePlaceHold} className="flex items-center space-x-1">
+                <Gavel className="w-4 h-4" />
+                <span>Place hold</span>
+              </Button>
+            </div>
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex justify-end pt-4 border-t">
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,509 @@
+import { useState, useEffect } from 'react'
+import { SlidersHorizontal, Trash2, Plus, Play } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Badge } from './ui/badge'
+import { Tabs, TabsContent, TabsList, TabsTrigger } from './ui/tabs'
+import {
+  similarityService,
+  DEFAULT_SIMILARITY_SETTINGS,
+  type SimilarityMode,
+  type SimilarityPairingRule,
+  type SimilarityReplay,
+  type SimilaritySettings
+} from '../services/similarityService'
+import {
+  FILE_FAMILY_NAMES,
+  SIMILARITY_SIGNAL_LABELS,
+  type SimilaritySignal
+} from '../services/similarityProviders'
+import {
+  similarityFeedbackService,
+  type SimilarityCalibration,
+  type SimilarityMetrics
+} from '../services/similarityFeedbackService'
+import type { SimilarityResult } from '../services/aiSimilarityService'
+
+interface SimilarityTuningProps {
+  organizationId: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface ScoringForm {
+  mode: SimilarityMode
+  minScore: string
+  significantChange: string
+  maxSuggestions: string
+  weights: Record<SimilaritySignal, string>
+}
+
+const SIGNALS = Object.keys(SIMILARITY_SIGNAL_LABELS) as SimilaritySignal[]
+
+const toForm = (settings: SimilaritySettings): ScoringForm => ({
+  mode: settings.mode,
+  minScore: String(settings.thresholds.minScore),
+  significantChange: String(settings.thresholds.significantChange),
+  maxSuggestions: String(settings.thresholds.maxSuggestions),
+  weights: Object.fromEntries(SIGNALS.map(signal => [signal, String(settings.weights[signal])])) as Record<SimilaritySignal, string>
+})
+
+const emptyRule: SimilarityPairingRule = { existingType: '', uploadType: '' }
+
+const formatDate = (dateString: string) => new Date(dateString).toLocaleString()
+
+const percent = (value: number) => `${Math.round(value * 100)}%`
+
+export function SimilarityTuning({ organizationId, isOpen, onClose }: SimilarityTuningProps) {
+  const [form, setForm] = useState<ScoringForm>(toForm(DEFAULT_SIMILARITY_SETTINGS))
+  const [excludedFolders, setExcludedFolders] = useState<string[]>([])
+  const [folderInput, setFolderInput] = useState('')
+  const [pairingRules, setPairingRules] = useState<SimilarityPairingRule[]>([])
+  const [ruleForm, setRuleForm] = useState(emptyRule)
+  const [replays, setReplays] = useState<SimilarityReplay[] | null>(null)
+  const [replaying, setReplaying] = useState(false)
+  const [calibration, setCalibration] = useState<SimilarityCalibration | null>(null)
+  const [saved, setSaved] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadAll = async () => {
+    try {
+      const settings = await similarityService.getSettings(organizationId)
+      setForm(toForm(settings))
+      setExcludedFolders(settings.excludedFolders)
+      setPairingRules(settings.pairingRules)
+      setCalibration(await similarityFeedbackService.calibrate(organizationId, settings))
+    } catch (error) {
+      console.error('Error loading similarity settings:', error)
+    }
+  }
+
+  useEffect(() => {
+    if (isOpen) {
+      loadAll()
+      setFolderInput('')
+      setRuleForm(emptyRule)
+      setReplays(null)
+      setSaved(false)
+      setError(null)
+    }
+  }, [isOpen, organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const toSettings = (): SimilaritySettings => ({
+    mode: form.mode,
+    weights: Object.fromEntries(SIGNALS.map(signal => [signal, Number(form.weights[signal])])) as Record<SimilaritySignal, number>,
+    thresholds: {
+      minScore: Number(form.minScore),
+      significantChange: Number(form.significantChange),
+      maxSuggestions: Number(form.maxSuggestions)
+    },
+    excludedFolders,
+    pairingRules
+  })
+
+  const updateForm = (update: Partial<ScoringForm>) => {
+    setForm({ ...form, ...update })
+    setSaved(false)
+  }
+
+  const handleSave = async () => {
+    try {
+      await similarityService.setSettings(organizationId, toSettings())
+      setSaved(true)
+      setError(null)
+      await loadAll()
+    } catch (error) {
+      console.error('Error saving similarity settings:', error)
+      setError(error instanceof Error ? error.message : 'Could not save the similarity settings.')
+    }
+  }
+
+  const handleAddFolder = () => {
+    const folder = folderInput.trim()
+    if (!folder) return
+    setExcludedFolders([...excludedFolders.filter(existing => existing !== folder), folder])
+    setFolderInput('')
+    setSaved(false)
+  }
+
+  const handleAddRule = () => {
+    if (!ruleForm.existingType.trim() || !ruleForm.uploadType.trim()) {
+      setError('Enter both file types for the pairing rule.')
+      return
+    }
+    setPairingRules([...pairingRules, ruleForm])
+    setRuleForm(emptyRule)
+    setSaved(false)
+    setError(null)
+  }
+
+  const handleUseRecommendation = () => {
+    if (!calibration?.recommended) return
+    const { weights, minScore } = calibration.recommended
+    updateForm({
+      minScore: String(minScore),
+      weights: Object.fromEntries(SIGNALS.map(signal => [signal, String(weights[signal])])) as Record<SimilaritySignal, string>
+    })
+  }
+
+  const handleDryRun = async () => {
+    setReplaying(true)
+    try {
+      setReplays(await similarityService.dryRun(organizationId, toSettings()))
+      setError(null)
+    } catch (error) {
+      console.error('Error replaying uploads:', error)
+      setError(error instanceof Error ? error.message : 'Could not replay recent uploads.')
+    } finally {
+      setReplaying(false)
+    }
+  }
+
+  const replayed = (replays || []).filter(replay => !replay.error)
+  const versions = replayed.filter(replay => replay.outcome === 'new_version')
+  const newFiles = replayed.filter(replay => replay.outcome === 'new_file')
+  const foundFirst = (key: 'current' | 'proposed') =>
+    versions.filter(replay => replay[key][0]?.fileId === replay.fileId).length
+  const prompted = (key: 'current' | 'proposed') =>
+    newFiles.filter(replay => replay[key].length > 0).length
+
+  const metricRows: { label: string, value: (metrics: SimilarityMetrics) => string }[] = [
+    { label: 'Precision', value: metrics => metrics.suggested > 0 ? percent(metrics.precision) : '-' },
+    { label: 'Recall', value: metrics => percent(metrics.recall) },
+    { label: 'F1', value: metrics => percent(metrics.f1) },
+    { label: 'Picked file first', value: metrics => percent(metrics.topOneAccuracy) },
+    { label: 'Suggestions (picked)', value: metrics => `${metrics.suggested} (${metrics.accepted})` }
+  ]
+
+  const renderSuggestions = (replay: SimilarityReplay, suggestions: SimilarityResult[]) =>
+    suggestions.length === 0 ? (
+      <p className="text-xs text-gray-500">No suggestions</p>
+    ) : (
+      <ul className="space-y-0.5">
+        {suggestions.slice(0, 3).map(suggestion => (
+          <li
+            key={suggestion.fileId}
+            className={`text-xs ${replay.outcome === 'new_version' && suggestion.fileId === replay.fileId ? 'font-semibold text-green-700' : 'text-gray-700'}`}
+          >
+            {suggestion.fileName} ({percent(suggestion.similarityScore)})
+          </li>
+        ))}
+        {suggestions.length > 3 && <li className="text-xs text-gray-500">and {suggestions.length - 3} more</li>}
+      </ul>
+    )
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-3xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <SlidersHorizontal className="w-5 h-5" />
+            <span>Similarity Matching</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <Tabs defaultValue="scoring">
+          <TabsList>
+            <TabsTrigger value="scoring">Scoring</TabsTrigger>
+            <TabsTrigger value="exclusions">Exclusions</TabsTrigger>
+            <TabsTrigger value="dry-run">Dry run</TabsTrigger>
+            <TabsTrigger value="feedback">Feedback</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="scoring" className="space-y-4">
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <Label htmlFor="similarity-mode">Review</Label>
+                <select
+                  id="similarity-mode"
+                  value={form.mode}
+                  onChange={(e) => updateForm({ mode: e.target.value as SimilarityMode })}
+                  className="w-full h-10 border rounded-md px-3 text-sm"
+                >
+                  <option value="ai">AI review of the best matches</option>
+                  <option value="offline">Offline rules (no AI calls)</option>
+                </select>
+              </div>
+              <div>
+                <Label htmlFor="similarity-min-score">Suggest from score</Label>
+                <Input
+                  id="similarity-min-score"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={form.minScore}
+                  onChange={(e) => updateForm({ minScore: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label htmlFor="similarity-significant">Significant change below</Label>
+                <Input
+                  id="similarity-significant"
+                  type="number"
+                  min={0}
+                  max={1}
+                  step={0.05}
+                  value={form.significantChange}
+                  onChange={(e) => updateForm({ significantChange: e.target.value })}
+                />
+                <p className="text-xs text-gray-500 mt-1">Share of text or picture kept, used by the offline review</p>
+              </div>
+              <div>
+                <Label htmlFor="similarity-max">Suggestions shown</Label>
+                <Input
+                  id="similarity-max"
+                  type="number"
+                  min={1}
+                  max={50}
+                  value={form.maxSuggestions}
+                  onChange={(e) => updateForm({ maxSuggestions: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <h4 className="text-sm font-semibold mb-1">Signal weights</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                The score is the weighted average of the signals that apply to a file; 0 turns a signal off.
+              </p>
+              <div className="grid grid-cols-4 gap-3">
+                {SIGNALS.map(signal => (
+                  <div key={signal}>
+                    <Label htmlFor={`similarity-weight-${signal}`}>{SIMILARITY_SIGNAL_LABELS[signal]}</Label>
+                    <Input
+                      id={`similarity-weight-${signal}`}
+                      type="number"
+                      min={0}
+                      step={0.1}
+                      value={form.weights[signal]}
+                      onChange={(e) => updateForm({ weights: { ...form.weights, [signal]: e.target.value } })}
+                    />
+                  </div>
+                ))}
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="exclusions" className="space-y-4">
+            <div>
+              <h4 className="text-sm font-semibold mb-1">Excluded folders</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Files in these folders and their subfolders are never suggested, and uploads to them get no suggestions.
+              </p>
+              {excludedFolders.length === 0 ? (
+                <p className="text-sm text-gray-500">No folders excluded</p>
+              ) : (
+                <div className="flex flex-wrap gap-2">
+                  {excludedFolders.map(folder => (
+                    <Badge key={folder} variant="outline" className="flex items-center space-x-1">
+                      <span>{folder}</span>
+                      <button
+                        type="button"
+                        onClick={() => {
+                          setExcludedFolders(excludedFolders.filter(existing => existing !== folder))
+                          setSaved(false)
+                        }}
+                      >
+                        <Trash2 className="w-3 h-3 text-red-600" />
+                      </button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              <div className="flex items-center space-x-2 mt-2">
+                <Input
+                  value={folderInput}
+                  onChange={(e) => setFolderInput(e.target.value)}
+                  placeholder="/Archive"
+                />
+                <Button size="sm" onClick={handleAddFolder} className="flex items-center space-x-1">
+                  <Plus className="w-4 h-4" />
+                  <span>Exclude</span>
+                </Button>
+              </div>
+            </div>
+
+            <div className="border-t pt-4">
+              <h4 className="text-sm font-semibold mb-1">File type pairing rules</h4>
+              <p className="text-xs text-gray-500 mb-2">
+                Use an extension, * for any file, or one of: {FILE_FAMILY_NAMES.join(', ')}.
+              </p>
+              {pairingRules.length === 0 ? (
+                <p className="text-sm text-gray-500">Any file type can follow any other</p>
+              ) : (
+                pairingRules.map((rule, i) => (
+                  <div key={i} className="border rounded-lg p-3 mb-2 flex items-center justify-between text-sm">
+                    <span>
+                      Never suggest a <Badge variant="outline">{rule.existingType.toUpperCase()}</Badge> file as the previous
+                      version of a <Badge variant="outline">{rule.uploadType.toUpperCase()}</Badge> upload
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => {
+                        setPairingRules(pairingRules.filter((_, index) => index !== i))
+                        setSaved(false)
+                      }}
+                    >
+                      <Trash2 className="w-4 h-4 text-red-600" />
+                    </Button>
+                  </div>
+                ))
+              )}
+              <div className="grid grid-cols-2 gap-3 mt-2">
+                <div>
+                  <Label htmlFor="pairing-existing">Existing file</Label>
+                  <Input
+                    id="pairing-existing"
+                    value={ruleForm.existingType}
+                    onChange={(e) => setRuleForm({ ...ruleForm, existingType: e.target.value })}
+                    placeholder="pdf"
+                  />
+                </div>
+                <div>
+                  <Label htmlFor="pairing-upload">Upload</Label>
+                  <Input
+                    id="pairing-upload"
+                    value={ruleForm.uploadType}
+                    onChange={(e) => setRuleForm({ ...ruleForm, uploadType: e.target.value })}
+                    placeholder="docx"
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Button size="sm" onClick={handleAddRule} className="flex items-center space-x-1">
+                    <Plus className="w-4 h-4" />
+                    <span>Add rule</span>
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </TabsContent>
+
+          <TabsContent value="dry-run" className="space-y-4">
+            <div className="flex items-center justify-between">
+              <p className="text-xs text-gray-500">
+                Replays the most recent uploads with the settings on the other tabs, before they are saved.
+                {form.mode === 'ai' && ' Each upload is sent to the AI review.'}
+              </p>
+              <Button size="sm" onClick={handleDryRun} disabled={replaying} className="flex items-center space-x-1">
+                <Play className="w-4 h-4" />
+                <span>{replaying ? 'Replaying...' : 'Run'}</span>
+              </Button>
+            </div>
+
+            {replays && (
+              replays.length === 0 ? (
+                <p className="text-sm text-gray-500">No uploads to replay yet</p>
+              ) : (
+                <>
+                  <div className="grid grid-cols-2 gap-3 text-sm">
+                    <div className="border rounded-lg p-3">
+                      <p className="text-xs text-gray-500">New versions with the right file suggested first</p>
+                      <p>Saved settings: {foundFirst('current')} of {versions.length}</p>
+                      <p>These settings: {foundFirst('proposed')} of {versions.length}</p>
+                    </div>
+                    <div className="border rounded-lg p-3">
+                      <p className="text-xs text-gray-500">New files that would have shown suggestions</p>
+                      <p>Saved settings: {prompted('current')} of {newFiles.length}</p>
+                      <p>These settings: {prompted('proposed')} of {newFiles.length}</p>
+                    </div>
+                  </div>
+
+                  {replays.map(replay => (
+                    <div key={replay.auditId} className="border rounded-lg p-3 text-sm">
+                      <div className="flex items-center justify-between mb-2">
+                        <span className="font-medium">{replay.fileName}</span>
+                        <div className="flex items-center space-x-2">
+                          <Badge variant="outline">{replay.outcome === 'new_version' ? 'New version' : 'New file'}</Badge>
+                          <span className="text-xs text-gray-500">{formatDate(replay.uploadedAt)}</span>
+                        </div>
+                      </div>
+                      {replay.error ? (
+                        <p className="text-xs text-red-600">{replay.error}</p>
+                      ) : (
+                        <div className="grid grid-cols-2 gap-3">
+                          <div>
+                            <p className="text-xs text-gray-500 mb-1">Saved settings</p>
+                            {renderSuggestions(replay, replay.current)}
+                          </div>
+                          <div>
+                            <p className="text-xs text-gray-500 mb-1">These settings</p>
+                            {renderSuggestions(replay, replay.proposed)}
+                          </div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                </>
+              )
+            )}
+          </TabsContent>
+
+          <TabsContent value="feedback" className="space-y-4">
+            <p className="text-xs text-gray-500">
+              Every choice between "Replace with new version" and "Upload as New File" is kept with the scores that were shown.
+              The figures below only cover suggestions that were shown.
+            </p>
+            {!calibration || calibration.decisions === 0 ? (
+              <p className="text-sm text-gray-500">No decisions recorded yet</p>
+            ) : (
+              <>
+                <p className="text-sm">
+                  {calibration.decisions} decisions, {calibration.replacements} of them replacements
+                </p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="py-1">Metric</th>
+                      <th className="py-1">Saved settings</th>
+                      {calibration.recommended && <th className="py-1">Recommended</th>}
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {metricRows.map(row => (
+                      <tr key={row.label} className="border-t">
+                        <td className="py-1">{row.label}</td>
+                        <td className="py-1 text-gray-600">{row.value(calibration.current)}</td>
+                        {calibration.recommended && (
+                          <td className="py-1 text-gray-600">{row.value(calibration.recommended.metrics)}</td>
+                        )}
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {calibration.recommended ? (
+                  <div className="border rounded-lg p-3 text-sm flex items-center justify-between">
+                    <span>
+                      Suggest from {calibration.recommended.minScore}, weights{' '}
+                      {SIGNALS.map(signal => `${SIMILARITY_SIGNAL_LABELS[signal]} ${calibration.recommended!.weights[signal]}`).join(', ')}
+                    </span>
+                    <Button size="sm" variant="outline" onClick={handleUseRecommendation}>
+                      Use recommendation
+                    </Button>
+                  </div>
+                ) : (
+                  <p className="text-xs text-gray-500">{calibration.note}</p>
+                )}
+              </>
+            )}
+          </TabsContent>
+        </Tabs>
+
+        <div className="flex items-center justify-end space-x-2 pt-4 border-t">
+          {saved && <span className="text-xs text-green-700">Saved</span>}
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+          <Button onClick={handleSave}>
+            Save settings
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,149 @@
+import { useState, useEffect } from 'react'
+import { RotateCcw, Trash2 } from 'lucide-react'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { trashService } from '../services/trashService'
+
+interface TrashBinProps {
+  organizationId: string
+  user: any
+  isAdmin: boolean
+  onChange?: () => void
+}
+
+const formatDate = (dateString?: string | null) => {
+  if (!dateString) return 'Unknown'
+  return new Date(dateString).toLocaleDateString()
+}
+
+export function TrashBin({ organizationId, user, isAdmin, onChange }: TrashBinProps) {
+  const [items, setItems] = useState<any[]>([])
+  const [loading, setLoading] = useState(false)
+  const [retentionDays, setRetentionDays] = useState('')
+
+  const loadTrash = async () => {
+    setLoading(true)
+    try {
+      setItems(await trashService.listTrash(organizationId))
+      setRetentionDays(String(await trashService.getRetentionDays(organizationId)))
+    } catch (error) {
+      console.error('Error loading trash:', error)
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadTrash()
+  }, [organizationId]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const handleRestore = async (file: any) => {
+    try {
+      await trashService.restoreFromTrash(file, user)
+      await loadTrash()
+      onChange?.()
+    } catch (error) {
+      console.error('Error restoring file from trash:', error)
+      alert(error instanceof Error ? error.message : 'Could not restore file.')
+    }
+  }
+
+  const handlePurge = async (file: any) => {
+    if (!confirm(`Permanently delete ${file.name} and all of its versions? This cannot be undone.`)) return
+    try {
+      await trashService.purge(file, user, isAdmin)
+      await loadTrash()
+    } catch (error) {
+      console.error('Error purging file:', error)
+      alert(error instanceof Error ? error.message : 'Could not delete file.')
+    }
+  }
+
+  const handleSaveRetention = async () => {
+    const days = Number(retentionDays)
+    if (!Number.isInteger(days) || days < 1) {
+      alert('Enter a whole number of days.')
+      return
+    }
+    try {
+      await trashService.setRetentionDays(organizationId, days)
+    } catch (error) {
+      console.error('Error saving trash retention:', error)
+      alert('Could not save the retention period.')
+    }
+  }
+
+  return (
+    <div className="space-y-4">
+      {isAdmin && (
+        <div className="flex items-center space-x-2 text-sm text-gray-600">
+          <span>Permanently delete items after</span>
+          <Input
+            type="number"
+            min={1}
+            value={retentionDays}
+            onChange={(e) => setRetentionDays(e.target.value)}
+            className="w-20 h-8"
+          />
+          <span>days in trash</span>
+          <Button variant="outline" size="sm" onClick={handleSaveRetention}>
+            Save
+          </Button>
+        </div>
+      )}
+
+      {loading ? (
+        <div className="text-center py-12 text-gray-500">Loading trash...</div>
+      ) : items.length === 0 ? (
+        <div className="text-center py-12">
+          <Trash2 className="w-12 h-12 text-gray-300 mx-auto mb-4" />
+          <p className="text-gray-500">Trash is empty</p>
+        </div>
+      ) : (
+        <div className="border border-gray-200 rounded-lg overflow-hidden">
+          <table className="w-full">
+            <thead className="bg-gray-50 border-b border-gray-200">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Name</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Deleted</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">Purged on</th>
+                <th className="relative px-6 py-3">
+                  <span className="sr-only">Actions</span>
+                </th>
+              </tr>
+            </thead>
+            <tbody className="bg-white divide-y divide-gray-200">
+              {items.map(file => (
+                <tr key={file.id}>
+                  <td className="px-6 py-4 text-sm font-medium text-black">
+                    {file.name}
+                    <div className="text-xs text-gray-500">{file.version_label}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">
+                    <div>{formatDate(file.deleted_at)}</div>
+                    <div className="text-xs">by {file.deleted_by_name || file.deleted_by}</div>
+                  </td>
+                  <td className="px-6 py-4 text-sm text-gray-500">{formatDate(file.purge_after)}</td>
+                  <td className="px-6 py-4 text-right">
+                    <div className="flex items-center justify-end space-x-2">
+                      <Button variant="outline" size="sm" onClick={() => handleRestore(file)} className="flex items-center space-x-1">
+                        <RotateCcw className="w-4 h-4" />
+                        <span>Restore</span>
+                      </Button>
+                      {isAdmin && (
+                        <Button variant="outline" size="sm" onClick={() => handlePurge(file)} className="flex items-center space-x-1 text-red-600">
+                          <Trash2 className="w-4 h-4" />
+                          <span>Delete forever</span>
+                        </Button>
+                      )}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  )
+}
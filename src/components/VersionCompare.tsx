@@ -0,0 +1,265 @@
+import { useState, useEffect } from 'react'
+import { ArrowLeft, GitCompare } from 'lucide-react'
+import { Button } from './ui/button'
+import { Badge } from './ui/badge'
+import { Slider } from './ui/slider'
+import { Tabs, TabsList, TabsTrigger } from './ui/tabs'
+import { versionDiffService, DIFF_TOO_LARGE, type DiffLine, type PageDiff } from '../services/versionDiffService'
+import { textExtractionService } from '../services/textExtractionService'
+import { getSourceFilePath } from '../lib/utils'
+
+export interface CompareVersion {
+  id: string
+  version_label: string
+  file_path: string
+  original_file_path?: string | null
+  content_hash?: string | null
+}
+
+interface VersionCompareProps {
+  fileName: string
+  fileType?: string | null
+  oldVersion: CompareVersion
+  newVersion: CompareVersion
+  onBack: () => void
+}
+
+type ImageMode = 'side-by-side' | 'swipe' | 'onion-skin'
+
+const lineClassName = (line: DiffLine) => {
+  switch (line.type) {
+    case 'added':
+      return 'bg-green-50 text-green-900'
+    case 'removed':
+      return 'bg-red-50 text-red-900'
+    default:
+      return 'text-gray-700'
+  }
+}
+
+const pageLabel = (page: PageDiff) =>
+  page.newPageNumber === undefined ? `${page.oldPageNumber} (removed)` : String(page.newPageNumber)
+
+const pageTitle = (page: PageDiff) => {
+  if (page.oldPageNumber === undefined) return `Page ${page.newPageNumber} • added`
+  if (page.newPageNumber === undefined) return `Page ${page.oldPageNumber} • removed`
+  const moved = page.oldPageNumber !== page.newPageNumber ? ` (was ${page.oldPageNumber})` : ''
+  return `Page ${page.newPageNumber}${moved} ${page.changed ? '• changed' : '• unchanged'}`
+}
+
+function DiffTable({ lines }: { lines: DiffLine[] }) {
+  if (lines.length === 0) {
+    return <div className="text-sm text-gray-500 p-3">No differences</div>
+  }
+
+  return (
+    <div className="border rounded overflow-x-auto">
+      <table className="w-full text-xs font-mono">
+        <tbody>
+          {lines.map((line, index) => (
+            <tr key={index} className={lineClassName(line)}>
+              <td className="w-10 px-2 text-right text-gray-400 select-none">{line.oldLineNumber ?? ''}</td>
+              <td className="w-10 px-2 text-right text-gray-400 select-none">{line.newLineNumber ?? ''}</td>
+              <td className="w-4 px-1 select-none">
+                {line.type === 'added' ? '+' : line.type === 'removed' ? '-' : ' '}
+              </td>
+              <td className="px-2 whitespace-pre">{line.text}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  )
+}
+
+export function VersionCompare({ fileName, fileType, oldVersion, newVersion, onBack }: VersionCompareProps) {
+  const mode = versionDiffService.getCompareMode(fileName, fileType)
+  // Compare what was uploaded; the served copies differ in their revision stamp and header
+  const oldPath = getSourceFilePath(oldVersion)
+  const newPath = getSourceFilePath(newVersion)
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [textDiff, setTextDiff] = useState<DiffLine[]>([])
+  const [pageDiffs, setPageDiffs] = useState<PageDiff[]>([])
+  const [showUnchangedPages, setShowUnchangedPages] = useState(false)
+  const [imageMode, setImageMode] = useState<ImageMode>('side-by-side')
+  const [overlay, setOverlay] = useState(50)
+
+  const loadDiff = async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      if (mode === 'text') {
+        const [oldText, newText] = await Promise.all([
+          versionDiffService.loadText(oldPath, fileName),
+          versionDiffService.loadText(newPath, fileName)
+        ])
+        setTextDiff(versionDiffService.diffLines(oldText, newText))
+      } else if (mode === 'document') {
+        const [oldText, newText] = await Promise.all([
+          textExtractionService.extractFromUrl(oldPath, fileName, fileType, oldVersion.content_hash),
+          textExtractionService.extractFromUrl(newPath, fileName, fileType, newVersion.content_hash)
+        ])
+        if (oldText.error || newText.error) throw new Error(oldText.error || newText.error)
+        setTextDiff(versionDiffService.diffLines(oldText.text, newText.text))
+      } else if (mode === 'pdf') {
+        // Page text is cached by content hash, so versions compared before skip the download
+        const [oldText, newText] = await Promise.all([
+          textExtractionService.extractFromUrl(oldPath, fileName, fileType, oldVersion.content_hash),
+          textExtractionService.extractFromUrl(newPath, fileName, fileType, newVersion.content_hash)
+        ])
+        if (oldText.error || newText.error) throw new Error(oldText.error || newText.error)
+        setPageDiffs(versionDiffService.diffPages(
+          oldText.sections.map(section => section.text),
+          newText.sections.map(section => section.text)
+        ))
+      }
+    } catch (error) {
+      console.error('Error comparing versions:', error)
+      setError(error instanceof Error && error.message === DIFF_TOO_LARGE
+        ? DIFF_TOO_LARGE
+        : 'Could not load both versions for comparison.')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  useEffect(() => {
+    loadDiff()
+  }, [oldVersion.id, newVersion.id]) // eslint-disable-line react-hooks/exhaustive-deps
+
+  const stats = versionDiffService.getStats(
+    mode === 'pdf' ? pageDiffs.flatMap(page => page.lines) : textDiff
+  )
+  const changedPages = pageDiffs.filter(page => page.changed)
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between">
+        <div className="flex items-center space-x-2">
+          <GitCompare className="w-4 h-4" />
+          <Badge variant="outline">{oldVersion.version_label}</Badge>
+          <span className="text-gray-400">→</span>
+          <Badge variant="default">{newVersion.version_label}</Badge>
+          {(mode === 'text' || mode === 'document' || mode === 'pdf') && !loading && !error && (
+            <span className="text-xs text-gray-600">
+              <span className="text-green-700">+{stats.added}</span>{' '}
+              <span className="text-red-700">-{stats.removed}</span>
+              {mode === 'pdf' && ` • ${changedPages.length} of ${pageDiffs.length} pages changed`}
+            </span>
+          )}
+        </div>
+        <Button variant="outline" size="sm" onClick={onBack} className="flex items-center space-x-1">
+          <ArrowLeft className="w-4 h-4" />
+          <span>Back</span>
+        </Button>
+      </div>
+
+      {loading ? (
+        <div className="flex items-center justify-center py-8">
+          <div className="text-gray-500">Comparing versions...</div>
+        </div>
+      ) : error ? (
+        <div className="text-sm text-red-600 bg-red-50 p-3 rounded">{error}</div>
+      ) : mode === 'text' || mode === 'document' ? (
+        <DiffTable lines={textDiff} />
+      ) : mode === 'pdf' ? (
+        <div className="space-y-3">
+          <div className="flex flex-wrap items-center gap-1">
+            {pageDiffs.map(page => (
+              <a key={page.pageNumber} href={`#compare-page-${page.pageNumber}`}>
+                <Badge
+                  variant={page.changed ? 'destructive' : 'outline'}
+                  className="text-xs"
+                >
+                  p.{pageLabel(page)}
+                </Badge>
+              </a>
+            ))}
+            <Button
+              variant="ghost"
+              size="sm"
+              className="text-xs"
+              onClick={() => setShowUnchangedPages(!showUnchangedPages)}
+            >
+              {showUnchangedPages ? 'Hide unchanged pages' : 'Show unchanged pages'}
+            </Button>
+          </div>
+          {pageDiffs
+            .filter(page => page.changed || showUnchangedPages)
+            .map(page => (
+              <div
+                key={page.pageNumber}
+                id={`compare-page-${page.pageNumber}`}
+                className={`border rounded-lg p-3 ${page.changed ? 'border-yellow-300 bg-yellow-50' : ''}`}
+              >
+                <h5 className="text-xs font-semibold mb-2">
+                  {pageTitle(page)}
+                </h5>
+                {page.changed && <DiffTable lines={page.lines} />}
+              </div>
+            ))}
+          {changedPages.length === 0 && (
+            <div className="text-sm text-gray-500">The extracted text is identical on every page.</div>
+          )}
+        </div>
+      ) : mode === 'image' ? (
+        <div className="space-y-3">
+          <Tabs value={imageMode} onValueChange={(value) => setImageMode(value as ImageMode)}>
+            <TabsList>
+              <TabsTrigger value="side-by-side">Side by side</TabsTrigger>
+              <TabsTrigger value="swipe">Swipe</TabsTrigger>
+              <TabsTrigger value="onion-skin">Onion skin</TabsTrigger>
+            </TabsList>
+          </Tabs>
+
+          {imageMode === 'side-by-side' ? (
+            <div className="grid grid-cols-2 gap-3">
+              <div>
+                <p className="text-xs text-gray-500 mb-1">{oldVersion.version_label}</p>
+                <img src={oldPath} alt={oldVersion.version_label} className="w-full border rounded" />
+              </div>
+              <div>
+                <p className="text-xs text-gray-500 mb-1">{newVersion.version_label}</p>
+                <img src={newPath} alt={newVersion.version_label} className="w-full border rounded" />
+              </div>
+            </div>
+          ) : (
+            <div className="space-y-3">
+              <div className="relative border rounded overflow-hidden">
+                <img src={oldPath} alt={oldVersion.version_label} className="w-full block" />
+                <img
+                  src={newPath}
+                  alt={newVersion.version_label}
+                  className="absolute inset-0 w-full h-full object-contain"
+                  style={imageMode === 'swipe'
+                    ? { clipPath: `inset(0 0 0 ${overlay}%)` }
+                    : { opacity: overlay / 100 }}
+                />
+                {imageMode === 'swipe' && (
+                  <div className="absolute inset-y-0 w-px bg-black" style={{ left: `${overlay}%` }} />
+                )}
+              </div>
+              <div className="flex items-center space-x-3 text-xs text-gray-600">
+                <span>{oldVersion.version_label}</span>
+                <Slider
+                  value={[overlay]}
+                  min={0}
+                  max={100}
+                  step={1}
+                  onValueChange={([value]) => setOverlay(value)}
+                  className="flex-1"
+                />
+                <span>{newVersion.version_label}</span>
+              </div>
+            </div>
+          )}
+        </div>
+      ) : (
+        <div className="text-sm text-gray-500 bg-gray-50 p-3 rounded">
+          Comparison is available for text, Markdown, CSV, JSON, Word, Excel, PowerPoint, RTF, HTML, images and PDFs.
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,30 +1,67 @@
 import React, { useState, useEffect } from 'react'
-import { Clock, Download, RotateCcw, User, FileText, Eye } from 'lucide-react'
+import { Clock, Download, RotateCcw, User, FileText, Eye, GitCompare, ShieldCheck, Trash2 } from 'lucide-react'
 import { Button } from './ui/button'
 import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
 import { Badge } from './ui/badge'
 import { Separator } from './ui/separator'
+import { Checkbox } from './ui/checkbox'
+import { Textarea } from './ui/textarea'
+import { VersionCompare } from './VersionCompare'
 import { blink } from '../blink/client'
+import { aiSimilarityService } from '../services/aiSimilarityService'
+import { trashService } from '../services/trashService'
+import { versionRestoreService } from '../services/versionRestoreService'
+import {
+  lifecycleService,
+  LIFECYCLE_ACTIONS,
+  LIFECYCLE_LABELS,
+  type ApprovalWorkflow,
+  type LifecycleAction,
+  type LifecycleState
+} from '../services/lifecycleService'
 
 interface VersionHistoryProps {
   fileId: string
   fileName: string
+  fileType?: string | null
+  organizationId: string
+  folderPath?: string
   isOpen: boolean
   onClose: () => void
   onRestore?: (versionId: string) => void
+  onLifecycleChange?: () => void
 }
 
 interface FileVersion {
   id: string
   version_label: string
   file_path: string
+  original_file_path?: string | null
   file_size: number
   uploaded_by: string
   created_at: string
   version_notes: string
   is_current: string
+  lifecycle_state?: string | null
+  approved_by?: string | null
+  restored_from_label?: string | null
+  content_hash?: string | null
+  // Legacy revisions kept as files rows cannot be pruned
+  fromVersionTable?: boolean
 }
 
+const lifecycleBadgeClass: Record<LifecycleState, string> = {
+  draft: 'bg-gray-100 text-gray-700 border-gray-300',
+  in_review: 'bg-amber-50 text-amber-800 border-amber-300',
+  approved: 'bg-blue-50 text-blue-800 border-blue-300',
+  effective: 'bg-green-50 text-green-800 border-green-300',
+  superseded: 'bg-gray-50 text-gray-500 border-gray-200',
+  obsolete: 'bg-red-50 text-red-700 border-red-200'
+}
+
+// Approvals and withdrawals must say why
+const COMMENT_REQUIRED: LifecycleAction[] = ['approve', 'reject', 'obsolete']
+
 const formatFileSize = (bytes: number) => {
   if (bytes === 0) return '0 Bytes'
   const k = 1024
@@ -38,10 +75,30 @@ const formatDate = (dateString: string) => {
   return date.toLocaleDateString() + ' at ' + date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
 }
 
-export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }: VersionHistoryProps) {
+export function VersionHistory({
+  fileId,
+  fileName,
+  fileType,
+  organizationId,
+  folderPath,
+  isOpen,
+  onClose,
+  onRestore,
+  onLifecycleChange
+}: VersionHistoryProps) {
   const [versions, setVersions] = useState<FileVersion[]>([])
   const [loading, setLoading] = useState(false)
   const [currentUser, setCurrentUser] = useState<any>(null)
+  const [compareMode, setCompareMode] = useState(false)
+  const [compareSelection, setCompareSelection] = useState<string[]>([])
+  const [showCompare, setShowCompare] = useState(false)
+  const [workflow, setWorkflow] = useState<ApprovalWorkflow | null>(null)
+  const [pendingAction, setPendingAction] = useState<{ versionId: string, action: LifecycleAction } | null>(null)
+  const [actionComment, setActionComment] = useState('')
+  const [actionError, setActionError] = useState<string | null>(null)
+  const [actionInProgress, setActionInProgress] = useState(false)
+
+  const documentType = aiSimilarityService.getTypePrefix(fileType || '')
 
   const loadCurrentUser = async () => {
     try {
@@ -76,30 +133,43 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
       const allVersions: FileVersion[] = []
 
       // Add file versions
-      fileVersions.forEach(version => {
+      fileVersions.forEach((version: any) => {
         allVersions.push({
           id: version.id,
           version_label: version.version_label,
           file_path: version.file_path,
+          original_file_path: version.original_file_path,
           file_size: version.file_size,
           uploaded_by: version.uploaded_by,
           created_at: version.created_at,
           version_notes: version.version_notes || '',
-          is_current: version.is_current
+          is_current: version.is_current,
+          lifecycle_state: version.lifecycle_state,
+          approved_by: version.approved_by,
+          restored_from_label: version.restored_from_label,
+          content_hash: version.content_hash,
+          fromVersionTable: true
         })
       })
 
       // Add original file and its versions
-      originalFile.forEach(file => {
+      originalFile.forEach((file: any) => {
+        // The file record mirrors one of its version rows once those exist
+        if (file.id === fileId && fileVersions.some((v: any) => v.version_label === file.version_label)) {
+          return
+        }
         allVersions.push({
           id: file.id,
           version_label: file.version_label,
           file_path: file.file_path,
+          original_file_path: file.original_file_path,
           file_size: file.file_size,
           uploaded_by: file.uploaded_by,
           created_at: file.created_at,
           version_notes: file.version_notes || '',
-          is_current: file.is_latest_version
+          is_current: file.is_latest_version,
+          lifecycle_state: file.lifecycle_state,
+          content_hash: file.content_hash
         })
       })
 
@@ -120,9 +190,27 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
     if (isOpen && fileId) {
       loadVersions()
       loadCurrentUser()
+      lifecycleService.resolveWorkflow(organizationId, folderPath, documentType).then(setWorkflow)
+      setPendingAction(null)
+      setCompareMode(false)
+      setCompareSelection([])
+      setShowCompare(false)
     }
   }, [isOpen, fileId]) // eslint-disable-line react-hooks/exhaustive-deps
 
+  const toggleCompareSelection = (versionId: string) => {
+    setCompareSelection(prev => {
+      if (prev.includes(versionId)) return prev.filter(id => id !== versionId)
+      // Keep the two most recent picks
+      return [...prev, versionId].slice(-2)
+    })
+  }
+
+  // Older version on the left, newer on the right
+  const compareVersions = versions
+    .filter(v => compareSelection.includes(v.id))
+    .sort((a, b) => new Date(a.created_at).getTime() - new Date(b.created_at).getTime())
+
   const handleDownload = (version: FileVersion) => {
     console.log('Downloading version:', version.file_path) // Debug log
     
@@ -151,41 +239,90 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
   }
 
   const handleRestore = async (version: FileVersion) => {
-    if (!onRestore) return
+    if (!onRestore || !currentUser) return
+    if (!confirm(`Restore ${version.version_label} as a new draft of ${fileName}? It becomes current once approved.`)) return
 
     try {
-      // Mark all versions as not current
-      await Promise.all(
-        versions.map(v => 
-          blink.db.fileVersions.update(v.id, { is_current: "0" })
-        )
-      )
-
-      // Mark selected version as current
-      await blink.db.fileVersions.update(version.id, { is_current: "1" })
-
-      // Update the main file record
-      await blink.db.files.update(fileId, {
-        version_label: version.version_label,
-        file_path: version.file_path,
-        file_size: version.file_size,
-        updated_at: new Date().toISOString()
-      })
+      const result = await versionRestoreService.restoreVersion(fileId, version.id, organizationId, currentUser)
 
       // Log activity
       await blink.db.activityLog.create({
         id: `activity_${Date.now()}`,
-        organization_id: 'org_sample', // This should come from props
+        organization_id: organizationId,
         file_id: fileId,
-        user_id: currentUser?.id || 'unknown',
+        user_id: currentUser.id,
         action: 'restore',
-        details: `Restored to version ${version.version_label}`
+        details: `Restored ${result.restoredFrom} as draft ${result.versionLabel}`
       })
 
-      onRestore(version.id)
+      onRestore(result.versionId)
       onClose()
     } catch (error) {
       console.error('Error restoring version:', error)
+      alert(error instanceof Error ? error.message : 'Could not restore version.')
+    }
+  }
+
+  const handlePrune = async (version: FileVersion) => {
+    if (!currentUser) return
+    if (!confirm(`Permanently delete ${version.version_label} of ${fileName}? This cannot be undone.`)) return
+
+    try {
+      await trashService.pruneVersion(fileId, version.id, currentUser)
+
+      await blink.db.activityLog.create({
+        id: `activity_${Date.now()}`,
+        organization_id: organizationId,
+        file_id: fileId,
+        user_id: currentUser.id,
+        action: 'version_prune',
+        details: `Deleted version ${version.version_label}`
+      })
+
+      await loadVersions()
+      onLifecycleChange?.()
+    } catch (error) {
+      console.error('Error deleting version:', error)
+      alert(error instanceof Error ? error.message : 'Could not delete version.')
+    }
+  }
+
+  const startLifecycleAction = (version: FileVersion, action: LifecycleAction) => {
+    setPendingAction({ versionId: version.id, action })
+    setActionComment('')
+    setActionError(null)
+  }
+
+  const handleLifecycleAction = async (version: FileVersion) => {
+    if (!pendingAction || !currentUser) return
+    if (COMMENT_REQUIRED.includes(pendingAction.action) && !actionComment.trim()) {
+      setActionError('A comment is required for this step.')
+      return
+    }
+
+    setActionInProgress(true)
+    try {
+      await lifecycleService.transition(
+        {
+          fileId,
+          fileName,
+          organizationId,
+          folderPath,
+          documentType,
+          versionId: version.id
+        },
+        pendingAction.action,
+        currentUser,
+        actionComment.trim()
+      )
+      setPendingAction(null)
+      await loadVersions()
+      onLifecycleChange?.()
+    } catch (error) {
+      console.error('Error changing lifecycle state:', error)
+      setActionError(error instanceof Error ? error.message : 'Could not change the document state.')
+    } finally {
+      setActionInProgress(false)
     }
   }
 
@@ -204,8 +341,51 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
           </DialogTitle>
         </DialogHeader>
 
+        <div className="flex items-center justify-between">
+          {compareMode && !showCompare ? (
+            <p className="text-sm text-gray-600">
+              Select two versions to compare ({compareSelection.length}/2)
+            </p>
+          ) : (
+            <span />
+          )}
+          {!showCompare && versions.length > 1 && (
+            <div className="flex items-center space-x-2">
+              {compareMode && (
+                <Button
+                  size="sm"
+                  disabled={compareSelection.length !== 2}
+                  onClick={() => setShowCompare(true)}
+                >
+                  Compare selected
+                </Button>
+              )}
+              <Button
+                variant={compareMode ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => {
+                  setCompareMode(!compareMode)
+                  setCompareSelection([])
+                }}
+                className="flex items-center space-x-1"
+              >
+                <GitCompare className="w-4 h-4" />
+                <span>{compareMode ? 'Cancel compare' : 'Compare'}</span>
+              </Button>
+            </div>
+          )}
+        </div>
+
         <div className="flex-1 overflow-y-auto">
-          {loading ? (
+          {showCompare && compareVersions.length === 2 ? (
+            <VersionCompare
+              fileName={fileName}
+              fileType={fileType}
+              oldVersion={compareVersions[0]}
+              newVersion={compareVersions[1]}
+              onBack={() => setShowCompare(false)}
+            />
+          ) : loading ? (
             <div className="flex items-center justify-center py-8">
               <div className="text-gray-500">Loading versions...</div>
             </div>
@@ -218,6 +398,13 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
               {versions.map((version, index) => (
                 <div key={version.id} className="border rounded-lg p-4 hover:bg-gray-50 transition-colors">
                   <div className="flex items-start justify-between">
+                    {compareMode && (
+                      <Checkbox
+                        checked={compareSelection.includes(version.id)}
+                        onCheckedChange={() => toggleCompareSelection(version.id)}
+                        className="mt-1 mr-3"
+                      />
+                    )}
                     <div className="flex-1">
                       <div className="flex items-center space-x-3 mb-2">
                         <Badge 
@@ -226,6 +413,11 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
                         >
                           {version.version_label}
                         </Badge>
+                        {version.restored_from_label && (
+                          <span className="text-xs text-gray-500">
+                            (restored from {version.restored_from_label})
+                          </span>
+                        )}
                         {Number(version.is_current) > 0 && (
                           <Badge variant="secondary" className="text-xs">
                             Current
@@ -236,6 +428,15 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
                             Latest
                           </Badge>
                         )}
+                        <Badge variant="outline" className={`text-xs ${lifecycleBadgeClass[lifecycleService.getState(version)]}`}>
+                          {LIFECYCLE_LABELS[lifecycleService.getState(version)]}
+                        </Badge>
+                        {version.approved_by && (
+                          <span className="flex items-center space-x-1 text-xs text-gray-500">
+                            <ShieldCheck className="w-3 h-3" />
+                            <span>Approved by {version.approved_by}</span>
+                          </span>
+                        )}
                       </div>
 
                       <div className="flex items-center space-x-4 text-sm text-gray-600 mb-2">
@@ -258,6 +459,55 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
                           <strong>Notes:</strong> {version.version_notes}
                         </div>
                       )}
+
+                      {!compareMode && currentUser && (
+                        <div className="flex flex-wrap items-center gap-2 mt-2">
+                          {lifecycleService.getAvailableActions(lifecycleService.getState(version))
+                            .filter(action => lifecycleService.canPerform(action, currentUser, workflow, version.uploaded_by))
+                            .map(action => (
+                              <Button
+                                key={action}
+                                variant={action === 'approve' ? 'default' : 'outline'}
+                                size="sm"
+                                className="text-xs"
+                                onClick={() => startLifecycleAction(version, action)}
+                              >
+                                {LIFECYCLE_ACTIONS[action].label}
+                              </Button>
+                            ))}
+                          {lifecycleService.getState(version) === 'in_review' && !workflow && (
+                            <span className="text-xs text-amber-700">
+                              Needs an approval workflow with approvers before it can be approved
+                            </span>
+                          )}
+                        </div>
+                      )}
+
+                      {pendingAction?.versionId === version.id && (
+                        <div className="mt-3 space-y-2">
+                          <Textarea
+                            value={actionComment}
+                            onChange={(e) => setActionComment(e.target.value)}
+                            placeholder={COMMENT_REQUIRED.includes(pendingAction.action) ? 'Comment (required)' : 'Comment (optional)'}
+                            rows={2}
+                          />
+                          {actionError && (
+                            <p className="text-xs text-red-600">{actionError}</p>
+                          )}
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              size="sm"
+                              disabled={actionInProgress}
+                              onClick={() => handleLifecycleAction(version)}
+                            >
+                              {LIFECYCLE_ACTIONS[pendingAction.action].label}
+                            </Button>
+                            <Button variant="ghost" size="sm" onClick={() => setPendingAction(null)}>
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </div>
 
                     <div className="flex items-center space-x-2 ml-4">
@@ -281,7 +531,8 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
                         <span>Download</span>
                       </Button>
 
-                      {Number(version.is_current) === 0 && onRestore && (
+                      {Number(version.is_current) === 0 && onRestore &&
+                        !['draft', 'in_review'].includes(lifecycleService.getState(version)) && (
                         <Button
                           variant="outline"
                           size="sm"
@@ -292,6 +543,20 @@ export function VersionHistory({ fileId, fileName, isOpen, onClose, onRestore }:
                           <span>Restore</span>
                         </Button>
                       )}
+
+                      {version.fromVersionTable && currentUser && Number(version.is_current) === 0 &&
+                        ['superseded', 'obsolete'].includes(lifecycleService.getState(version)) &&
+                        lifecycleService.canPerform('obsolete', currentUser, workflow) && (
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => handlePrune(version)}
+                          className="flex items-center space-x-1 text-red-600 hover:text-red-700"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                          <span>Delete</span>
+                        </Button>
+                      )}
                     </div>
                   </div>
 
@@ -0,0 +1,158 @@
+import { useState, useEffect } from 'react'
+import { Tag } from 'lucide-react'
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from './ui/dialog'
+import { Button } from './ui/button'
+import { Input } from './ui/input'
+import { Label } from './ui/label'
+import { Checkbox } from './ui/checkbox'
+import { versionFormatService, DEFAULT_VERSION_POLICY } from '../services/versionFormatService'
+
+interface VersionPolicySettingsProps {
+  organizationId: string
+  isOpen: boolean
+  onClose: () => void
+}
+
+interface PolicyForm {
+  companyPrefix: string
+  versionFormat: string
+  majorBumpDocumentTypes: string
+  majorBumpOnSignificantChange: boolean
+}
+
+const splitEntries = (value: string) =>
+  value.split(',').map(entry => entry.trim()).filter(Boolean)
+
+export function VersionPolicySettings({ organizationId, isOpen, onClose }: VersionPolicySettingsProps) {
+  const [form, setForm] = useState<PolicyForm>({
+    ...DEFAULT_VERSION_POLICY,
+    majorBumpDocumentTypes: ''
+  })
+  const [saved, setSaved] = useState(false)
+
+  useEffect(() => {
+    if (isOpen) {
+      versionFormatService.getPolicy(organizationId).then(policy => setForm({
+        ...policy,
+        majorBumpDocumentTypes: policy.majorBumpDocumentTypes.join(', ')
+      }))
+      setSaved(false)
+    }
+  }, [isOpen, organizationId])
+
+  const update = (changes: Partial<PolicyForm>) => {
+    setForm({ ...form, ...changes })
+    setSaved(false)
+  }
+
+  const templateErrors = versionFormatService.validateTemplate(form.versionFormat)
+  const previewPolicy = {
+    ...form,
+    companyPrefix: form.companyPrefix.trim() || DEFAULT_VERSION_POLICY.companyPrefix,
+    majorBumpDocumentTypes: splitEntries(form.majorBumpDocumentTypes)
+  }
+  const firstLabel = templateErrors.length === 0
+    ? versionFormatService.createInitialLabel(previewPolicy, 1, 'DOC')
+    : null
+
+  const handleSave = async () => {
+    try {
+      await versionFormatService.setPolicy(organizationId, previewPolicy)
+      setSaved(true)
+    } catch (error) {
+      console.error('Error saving version policy:', error)
+      alert(error instanceof Error ? error.message : 'Could not save the version policy.')
+    }
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center space-x-2">
+            <Tag className="w-5 h-5" />
+            <span>Version Labels</span>
+          </DialogTitle>
+        </DialogHeader>
+
+        <p className="text-sm text-gray-600">
+          New documents are labelled with this template. Existing labels keep the format they were created with.
+        </p>
+
+        <div className="space-y-3">
+          <div className="grid grid-cols-3 gap-3">
+            <div>
+              <Label htmlFor="version-prefix">Company prefix</Label>
+              <Input
+                id="version-prefix"
+                value={form.companyPrefix}
+                onChange={(e) => update({ companyPrefix: e.target.value })}
+              />
+            </div>
+            <div className="col-span-2">
+              <Label htmlFor="version-format">Label template</Label>
+              <Input
+                id="version-format"
+                value={form.versionFormat}
+                onChange={(e) => update({ versionFormat: e.target.value })}
+                className="font-mono"
+              />
+            </div>
+          </div>
+          <p className="text-xs text-gray-500">
+            Tokens: {'{prefix}'}, {'{seq}'}, {'{seq:03d}'}, {'{XXX}'}, {'{major}'}, {'{minor}'}, {'{patch}'},
+            {' '}{'{rev}'}, {'{a-z}'}, {'{date:YYYY-MM-DD}'}, {'{type}'}
+          </p>
+          {templateErrors.length > 0 ? (
+            <div className="text-sm text-red-600 space-y-1">
+              {templateErrors.map(error => <p key={error}>{error}</p>)}
+            </div>
+          ) : firstLabel && (
+            <div className="text-sm text-gray-700 bg-gray-50 border rounded p-2 space-y-1">
+              <p>First label: <span className="font-mono">{firstLabel}</span></p>
+              <p>
+                Next revisions:{' '}
+                <span className="font-mono">{versionFormatService.increment(firstLabel, 'patch', form.versionFormat)}</span>
+                {' · '}
+                <span className="font-mono">{versionFormatService.increment(firstLabel, 'minor', form.versionFormat)}</span>
+                {' · '}
+                <span className="font-mono">{versionFormatService.increment(firstLabel, 'major', form.versionFormat)}</span>
+              </p>
+            </div>
+          )}
+
+          <div className="border-t pt-3 space-y-3">
+            <h4 className="text-sm font-semibold">Major version policy</h4>
+            <div>
+              <Label htmlFor="version-major-types">Document types that always take a major version</Label>
+              <Input
+                id="version-major-types"
+                value={form.majorBumpDocumentTypes}
+                onChange={(e) => update({ majorBumpDocumentTypes: e.target.value })}
+                placeholder="e.g. PDF, contract, policy"
+              />
+              <p className="text-xs text-gray-500 mt-1">
+                Comma separated file type prefixes (PDF, IMG, DOC...) or AI content types and categories.
+              </p>
+            </div>
+            <label className="flex items-center space-x-2 text-sm">
+              <Checkbox
+                checked={form.majorBumpOnSignificantChange}
+                onCheckedChange={(checked) => update({ majorBumpOnSignificantChange: checked === true })}
+              />
+              <span>Require a major version when AI flags a significant change</span>
+            </label>
+          </div>
+        </div>
+
+        <div className="flex items-center justify-end space-x-2 pt-4 border-t">
+          {saved && <span className="text-xs text-green-600">Saved</span>}
+          <Button onClick={handleSave} disabled={templateErrors.length > 0}>Save Policy</Button>
+          <Button variant="outline" onClick={onClose}>
+            Close
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  )
+}
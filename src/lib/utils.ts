@@ -3,4 +3,63 @@ import { twMerge } from 'tailwind-merge'
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-} 
\ No newline at end of file
+} 
+/**
+ * Where the uploaded bytes are kept. file_path serves the copy with metadata
+ * written in or stamped on when embedding was on; the untouched upload is
+ * what content_hash was computed from.
+ */
+export function getSourceFilePath(row: { file_path: string, original_file_path?: string | null }): string {
+  return row.original_file_path || row.file_path
+}
+
+/**
+ * Read a list column stored either as a JSON array or a comma separated string
+ */
+export function parseList(value: unknown): string[] {
+  if (Array.isArray(value)) return value.map(String)
+  if (typeof value !== 'string' || value.trim() === '') return []
+  try {
+    const parsed = JSON.parse(value)
+    if (Array.isArray(parsed)) return parsed.map(String)
+  } catch {
+    // Plain comma separated list
+  }
+  return value.split(',').map(item => item.trim()).filter(Boolean)
+}
+
+export interface ScopedRule {
+  folderPath?: string
+  documentType?: string
+}
+
+const folderDepth = (rule: ScopedRule) => (rule.folderPath || '').replace(/\/$/, '').length
+
+/**
+ * Most specific rule for a document: folder and type, then folder, then type, then org-wide.
+ * Among folder rules the deepest matching folder wins.
+ */
+export function findMostSpecificRule<T extends ScopedRule>(rules: T[], folderPath?: string, documentType?: string): T | null {
+  const type = documentType?.toLowerCase()
+  const inFolder = (rule: T) =>
+    Boolean(rule.folderPath && folderPath && (folderPath === rule.folderPath || folderPath.startsWith(`${rule.folderPath.replace(/\/$/, '')}/`)))
+  const ofType = (rule: T) => Boolean(rule.documentType && type && rule.documentType.toLowerCase() === type)
+  const deepest = (matches: T[]) => matches.reduce<T | undefined>((best, rule) =>
+    !best || folderDepth(rule) > folderDepth(best) ? rule : best, undefined)
+
+  return (
+    deepest(rules.filter(rule => inFolder(rule) && ofType(rule))) ||
+    deepest(rules.filter(rule => inFolder(rule) && !rule.documentType)) ||
+    rules.find(rule => ofType(rule) && !rule.folderPath) ||
+    rules.find(rule => !rule.folderPath && !rule.documentType) ||
+    null
+  )
+}
+
+/**
+ * Replace characters the standard PDF fonts cannot encode; they only cover
+ * WinAnsi and anything else makes pdf-lib's drawText throw
+ */
+export function toWinAnsi(value: string): string {
+  return value.replace(/[^\x20-\x7e\xa0-\xff]/g, '?')
+}
@@ -22,11 +22,24 @@ import {
   Download,
   Share2,
   Trash2,
-  Clock
+  Clock,
+  Lock,
+  Unlock,
+  ShieldAlert,
+  ShieldCheck,
+  Gavel,
+  ListChecks,
+  FileCheck,
+  FileSpreadsheet,
+  Hash,
+  SlidersHorizontal,
+  Tag,
+  X
 } from 'lucide-react'
 import { Button } from '../components/ui/button'
 import { Input } from '../components/ui/input'
 import { Badge } from '../components/ui/badge'
+import { Checkbox } from '../components/ui/checkbox'
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -37,6 +50,25 @@ import {
 import { FileUpload } from '../components/FileUpload'
 import { VersionHistory } from '../components/VersionHistory'
 import { AuditTrail } from '../components/AuditTrail'
+import { ApprovalWorkflowSettings } from '../components/ApprovalWorkflowSettings'
+import { TrashBin } from '../components/TrashBin'
+import { RetentionSettings } from '../components/RetentionSettings'
+import { MetadataSchemaSettings } from '../components/MetadataSchemaSettings'
+import { DocumentVerification } from '../components/DocumentVerification'
+import { CoverSheet } from '../components/CoverSheet'
+import { CoverSheetSettings } from '../components/CoverSheetSettings'
+import { SimilarityTuning } from '../components/SimilarityTuning'
+import { VersionPolicySettings } from '../components/VersionPolicySettings'
+import { DocumentNumbering } from '../components/DocumentNumbering'
+import { BulkMetadataEditor } from '../components/BulkMetadataEditor'
+import { fileLockService } from '../services/fileLockService'
+import { trashService } from '../services/trashService'
+import { retentionService, type LegalHold } from '../services/retentionService'
+import { lifecycleService, LIFECYCLE_LABELS } from '../services/lifecycleService'
+import { metadataSchemaService, type MetadataFieldDefinition } from '../services/metadataSchemaService'
+import { textExtractionService } from '../services/textExtractionService'
+import { similarityIndexService } from '../services/similarityIndexService'
+import { parseList } from '../lib/utils'
 
 interface DashboardProps {
   user: any
@@ -57,6 +89,19 @@ interface FileItem {
   is_latest_version: string
   version_label: string
   version_notes: string
+  locked_by?: string | null
+  locked_by_name?: string | null
+  locked_at?: string | null
+  lock_expires_at?: string | null
+  lifecycle_state?: string | null
+  pending_version_id?: string | null
+  original_file_path?: string | null
+  stamped_file_path?: string | null
+  deleted_at?: string | null
+  custom_metadata?: string | null
+  tags?: string | null
+  content_hash?: string | null
+  similarity_indexed_hash?: string | null
 }
 
 export default function Dashboard({ user }: DashboardProps) {
@@ -68,6 +113,22 @@ export default function Dashboard({ user }: DashboardProps) {
   const [selectedFile, setSelectedFile] = useState<FileItem | null>(null)
   const [showVersionHistory, setShowVersionHistory] = useState(false)
   const [showAuditTrail, setShowAuditTrail] = useState(false)
+  const [showWorkflowSettings, setShowWorkflowSettings] = useState(false)
+  const [activeView, setActiveView] = useState<'files' | 'trash'>('files')
+  const [showRetention, setShowRetention] = useState(false)
+  const [legalHolds, setLegalHolds] = useState<LegalHold[]>([])
+  const [showMetadataSchema, setShowMetadataSchema] = useState(false)
+  const [showVerify, setShowVerify] = useState(false)
+  const [showCoverSheet, setShowCoverSheet] = useState(false)
+  const [showCoverSheetSettings, setShowCoverSheetSettings] = useState(false)
+  const [showSimilarityTuning, setShowSimilarityTuning] = useState(false)
+  const [showVersionPolicy, setShowVersionPolicy] = useState(false)
+  const [showNumbering, setShowNumbering] = useState(false)
+  const [selectedIds, setSelectedIds] = useState<string[]>([])
+  const [showBulkEdit, setShowBulkEdit] = useState(false)
+  // Files whose extracted text matches the search, see textExtractionService
+  const [contentMatches, setContentMatches] = useState<string[]>([])
+  const [metadataFields, setMetadataFields] = useState<MetadataFieldDefinition[]>([])
 
   // Mock organization data - in real app this would come from user's organizations
   const currentOrg = {
@@ -86,7 +147,12 @@ export default function Dashboard({ user }: DashboardProps) {
         },
         orderBy: { updated_at: 'desc' }
       })
-      setFiles(fileList)
+      const visibleFiles = fileList.filter((file: FileItem) => !trashService.isTrashed(file))
+      setFiles(visibleFiles)
+      // Files from before the similarity index existed are added in the background
+      similarityIndexService.indexMissing(visibleFiles)
+      setLegalHolds(await retentionService.listHolds(currentOrg.id))
+      setMetadataFields(await metadataSchemaService.listFields(currentOrg.id))
     } catch (error) {
       console.error('Error loading files:', error)
     } finally {
@@ -95,6 +161,25 @@ export default function Dashboard({ user }: DashboardProps) {
   }
 
   useEffect(() => {
+    const query = searchQuery.trim()
+    if (query.length < 3) {
+      setContentMatches([])
+      return
+    }
+    let cancelled = false
+    const timer = setTimeout(async () => {
+      const matches = await textExtractionService.searchFiles(files, query)
+      if (!cancelled) setContentMatches(matches)
+    }, 300)
+    return () => {
+      cancelled = true
+      clearTimeout(timer)
+    }
+  }, [searchQuery, files])
+
+  useEffect(() => {
+    // Clear out anything that has sat in the trash past the retention period
+    trashService.purgeExpired(currentOrg.id)
     loadFiles()
   }, []) // eslint-disable-line react-hooks/exhaustive-deps
 
@@ -146,12 +231,12 @@ export default function Dashboard({ user }: DashboardProps) {
     return date.toLocaleDateString()
   }
 
-  const handleDownload = (file: FileItem) => {
-    console.log('Downloading file:', file.file_path) // Debug log
+  const handleDownload = (file: FileItem, filePath: string = file.file_path) => {
+    console.log('Downloading file:', filePath) // Debug log
     
     // Check if the URL is valid
-    if (!file.file_path || file.file_path === '' || file.file_path === 'null') {
-      console.error('Invalid file path:', file.file_path)
+    if (!filePath || filePath === '' || filePath === 'null') {
+      console.error('Invalid file path:', filePath)
       alert('File path is invalid. Please re-upload the file.')
       return
     }
@@ -160,7 +245,7 @@ export default function Dashboard({ user }: DashboardProps) {
     try {
       // Create a temporary link element to trigger download
       const link = document.createElement('a')
-      link.href = file.file_path
+      link.href = filePath
       link.download = file.name
       link.target = '_blank'
       document.body.appendChild(link)
@@ -169,13 +254,13 @@ export default function Dashboard({ user }: DashboardProps) {
     } catch (error) {
       console.error('Download error:', error)
       // Fallback to opening in new tab
-      window.open(file.file_path, '_blank')
+      window.open(filePath, '_blank')
     }
   }
 
   const handleDelete = async (file: FileItem) => {
     try {
-      await blink.db.files.delete(file.id)
+      await trashService.moveToTrash(file, user)
       
       // Log activity
       await blink.db.activityLog.create({
@@ -184,20 +269,135 @@ export default function Dashboard({ user }: DashboardProps) {
         file_id: file.id,
         user_id: user.id,
         action: 'delete',
-        details: `Deleted ${file.name}`
+        details: `Moved ${file.name} to trash`
       })
       
       loadFiles() // Refresh the file list
     } catch (error) {
       console.error('Error deleting file:', error)
+      alert(error instanceof Error ? error.message : 'Could not delete file.')
+    }
+  }
+
+  const isAdmin = currentOrg.role === 'Admin'
+
+  const handleCheckOut = async (file: FileItem) => {
+    try {
+      await fileLockService.checkOut(file, user)
+      loadFiles()
+    } catch (error) {
+      console.error('Error checking out file:', error)
+      alert(error instanceof Error ? error.message : 'Could not check out file.')
+    }
+  }
+
+  const handleCheckIn = async (file: FileItem) => {
+    try {
+      await fileLockService.checkIn(file, user)
+      loadFiles()
+    } catch (error) {
+      console.error('Error checking in file:', error)
+      alert(error instanceof Error ? error.message : 'Could not check in file.')
+    }
+  }
+
+  const handleBreakLock = async (file: FileItem) => {
+    const lock = fileLockService.getLockState(file, user.id)
+    const reason = window.prompt(`Break ${lock.lockedByName}'s lock on ${file.name}? Enter a reason:`)
+    if (reason === null) return
+
+    try {
+      await fileLockService.breakLock(file, user, isAdmin, reason)
+      loadFiles()
+    } catch (error) {
+      console.error('Error breaking lock:', error)
+      alert(error instanceof Error ? error.message : 'Could not break lock.')
     }
   }
 
+  const renderLockBadge = (file: FileItem) => {
+    const lock = fileLockService.getLockState(file, user.id)
+    if (!lock.locked) return null
+    return (
+      <Badge
+        variant={lock.ownedByCurrentUser ? 'secondary' : 'destructive'}
+        className="text-xs"
+        title={lock.expiresAt ? `Lock expires ${new Date(lock.expiresAt).toLocaleString()}` : undefined}
+      >
+        <Lock className="w-3 h-3 mr-1" />
+        {lock.ownedByCurrentUser ? 'Checked out by you' : `Checked out by ${lock.lockedByName}`}
+      </Badge>
+    )
+  }
+
+  const renderLifecycleBadges = (file: FileItem) => {
+    const state = lifecycleService.getState(file)
+    return (
+      <>
+        {state !== 'effective' && (
+          <Badge variant={state === 'obsolete' ? 'destructive' : 'secondary'} className="text-xs">
+            {LIFECYCLE_LABELS[state]}
+          </Badge>
+        )}
+        {file.pending_version_id && state === 'effective' && (
+          <Badge variant="outline" className="text-xs">
+            Pending revision
+          </Badge>
+        )}
+      </>
+    )
+  }
+
+  const renderHoldBadge = (file: FileItem) => {
+    const holds = retentionService.getHoldsForFile(file, legalHolds)
+    if (holds.length === 0) return null
+    return (
+      <Badge variant="destructive" className="text-xs" title={holds.map(hold => `${hold.name}: ${hold.reason}`).join('\n')}>
+        <Gavel className="w-3 h-3 mr-1" />
+        Legal hold
+      </Badge>
+    )
+  }
+
+  const renderLockMenuItems = (file: FileItem) => {
+    const lock = fileLockService.getLockState(file, user.id)
+    if (!lock.locked) {
+      return (
+        <DropdownMenuItem onClick={() => handleCheckOut(file)}>
+          <Lock className="w-4 h-4 mr-2" />
+          Check Out
+        </DropdownMenuItem>
+      )
+    }
+    if (lock.ownedByCurrentUser) {
+      return (
+        <DropdownMenuItem onClick={() => handleCheckIn(file)}>
+          <Unlock className="w-4 h-4 mr-2" />
+          Check In
+        </DropdownMenuItem>
+      )
+    }
+    if (isAdmin) {
+      return (
+        <DropdownMenuItem onClick={() => handleBreakLock(file)}>
+          <ShieldAlert className="w-4 h-4 mr-2" />
+          Break Lock
+        </DropdownMenuItem>
+      )
+    }
+    return null
+  }
+
   const handleVersionHistory = (file: FileItem) => {
     setSelectedFile(file)
     setShowVersionHistory(true)
   }
 
+  const handleCoverSheet = (file: FileItem) => {
+    setSelectedFile(file)
+    setShowCoverSheet(true)
+  }
+
   const handleAuditTrail = (file: FileItem) => {
     setSelectedFile(file)
     setShowAuditTrail(true)
@@ -205,9 +405,33 @@ export default function Dashboard({ user }: DashboardProps) {
 
   const filteredFiles = files.filter(file =>
     file.name.toLowerCase().includes(searchQuery.toLowerCase()) ||
-    file.version_label.toLowerCase().includes(searchQuery.toLowerCase())
+    file.version_label.toLowerCase().includes(searchQuery.toLowerCase()) ||
+    (searchQuery.trim() !== '' && metadataSchemaService.matchesSearch(file, searchQuery)) ||
+    (searchQuery.trim() !== '' && parseList(file.tags).some(tag => tag.toLowerCase().includes(searchQuery.trim().toLowerCase()))) ||
+    contentMatches.includes(file.id)
   )
 
+  // Only files still listed count, so a refresh or search never edits hidden files
+  const selectedFiles = filteredFiles.filter(file => selectedIds.includes(file.id))
+  const allSelected = filteredFiles.length > 0 && selectedFiles.length === filteredFiles.length
+
+  const toggleSelected = (fileId: string) => {
+    setSelectedIds(prev => prev.includes(fileId) ? prev.filter(id => id !== fileId) : [...prev, fileId])
+  }
+
+  const toggleAllSelected = () => {
+    setSelectedIds(allSelected ? [] : filteredFiles.map(file => file.id))
+  }
+
+  const renderTags = (file: FileItem) =>
+    parseList(file.tags).map(tag => (
+      <Badge key={tag} variant="secondary" className="text-xs">
+        {tag}
+      </Badge>
+    ))
+
+  const metadataColumns = metadataSchemaService.getListColumns(metadataFields)
+
   return (
     <div className="min-h-screen bg-white">
       {/* Header */}
@@ -253,7 +477,7 @@ export default function Dashboard({ user }: DashboardProps) {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 w-4 h-4 text-gray-400" />
                 <Input
-                  placeholder="Search files and versions..."
+                  placeholder="Search files, metadata and document text..."
                   value={searchQuery}
                   onChange={(e) => setSearchQuery(e.target.value)}
                   className="pl-10 w-80"
@@ -283,6 +507,42 @@ export default function Dashboard({ user }: DashboardProps) {
                     </div>
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowWorkflowSettings(true)}>
+                      <ShieldCheck className="w-4 h-4 mr-2" />
+                      Approval Workflows
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowRetention(true)}>
+                      <Gavel className="w-4 h-4 mr-2" />
+                      Retention &amp; Legal Holds
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowMetadataSchema(true)}>
+                      <ListChecks className="w-4 h-4 mr-2" />
+                      Document Metadata
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowCoverSheetSettings(true)}>
+                      <FileSpreadsheet className="w-4 h-4 mr-2" />
+                      Cover Sheet Template
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowSimilarityTuning(true)}>
+                      <SlidersHorizontal className="w-4 h-4 mr-2" />
+                      Similarity Matching
+                    </DropdownMenuItem>
+                  )}
+                  {isAdmin && (
+                    <DropdownMenuItem onClick={() => setShowVersionPolicy(true)}>
+                      <Tag className="w-4 h-4 mr-2" />
+                      Version Labels
+                    </DropdownMenuItem>
+                  )}
                   <DropdownMenuItem>
                     <Settings className="w-4 h-4 mr-2" />
                     Settings
@@ -312,7 +572,11 @@ export default function Dashboard({ user }: DashboardProps) {
           </div>
 
           <nav className="px-6 space-y-1">
-            <a href="#" className="flex items-center px-3 py-2 text-sm font-medium text-black bg-gray-100 rounded-lg">
+            <a
+              href="#"
+              onClick={() => setActiveView('files')}
+              className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg ${activeView === 'files' ? 'text-black bg-gray-100' : 'text-gray-600 hover:text-black hover:bg-gray-50'}`}
+            >
               <Folder className="w-4 h-4 mr-3" />
               All Files
             </a>
@@ -324,6 +588,30 @@ export default function Dashboard({ user }: DashboardProps) {
               <Clock className="w-4 h-4 mr-3" />
               Recent Activity
             </a>
+            <a
+              href="#"
+              onClick={() => setActiveView('trash')}
+              className={`flex items-center px-3 py-2 text-sm font-medium rounded-lg ${activeView === 'trash' ? 'text-black bg-gray-100' : 'text-gray-600 hover:text-black hover:bg-gray-50'}`}
+            >
+              <Trash2 className="w-4 h-4 mr-3" />
+              Trash
+            </a>
+            <a
+              href="#"
+              onClick={() => setShowVerify(true)}
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 hover:text-black hover:bg-gray-50 rounded-lg"
+            >
+              <FileCheck className="w-4 h-4 mr-3" />
+              Verify Document
+            </a>
+            <a
+              href="#"
+              onClick={() => setShowNumbering(true)}
+              className="flex items-center px-3 py-2 text-sm font-medium text-gray-600 hover:text-black hover:bg-gray-50 rounded-lg"
+            >
+              <Hash className="w-4 h-4 mr-3" />
+              Document Numbers
+            </a>
           </nav>
 
           <div className="px-6 mt-8">
@@ -363,13 +651,32 @@ export default function Dashboard({ user }: DashboardProps) {
           <div className="mb-6">
             <div className="flex items-center justify-between">
               <div>
-                <h2 className="text-xl font-semibold text-black">All Files</h2>
+                <h2 className="text-xl font-semibold text-black">{activeView === 'trash' ? 'Trash' : 'All Files'}</h2>
                 <p className="text-sm text-gray-600 mt-1">
-                  {loading ? 'Loading...' : `${filteredFiles.length} items`}
+                  {activeView === 'trash'
+                    ? 'Deleted files can be restored until they are purged'
+                    : loading ? 'Loading...' : `${filteredFiles.length} items`}
                 </p>
               </div>
 
               <div className="flex items-center space-x-2">
+                {activeView === 'files' && selectedFiles.length > 0 && (
+                  <>
+                    <span className="text-sm text-gray-600">{selectedFiles.length} selected</span>
+                    <Button variant="outline" size="sm" onClick={toggleAllSelected}>
+                      {allSelected ? 'Deselect all' : 'Select all'}
+                    </Button>
+                    <Button variant="ghost" size="icon" onClick={() => setSelectedIds([])}>
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </>
+                )}
+                {activeView === 'files' && (
+                  <Button variant="outline" size="sm" onClick={() => setShowBulkEdit(true)}>
+                    <ListChecks className="w-4 h-4 mr-2" />
+                    {selectedFiles.length > 0 ? 'Edit Metadata' : 'Bulk Edits'}
+                  </Button>
+                )}
                 <Button
                   variant={viewMode === 'grid' ? 'default' : 'ghost'}
                   size="icon"
@@ -389,7 +696,14 @@ export default function Dashboard({ user }: DashboardProps) {
           </div>
 
           {/* File Grid/List */}
-          {loading ? (
+          {activeView === 'trash' ? (
+            <TrashBin
+              organizationId={currentOrg.id}
+              user={user}
+              isAdmin={isAdmin}
+              onChange={loadFiles}
+            />
+          ) : loading ? (
             <div className="flex items-center justify-center py-12">
               <div className="text-gray-500">Loading files...</div>
             </div>
@@ -411,7 +725,14 @@ export default function Dashboard({ user }: DashboardProps) {
                   className="border border-gray-200 rounded-lg p-4 hover:border-gray-300 hover:shadow-sm transition-all cursor-pointer group"
                 >
                   <div className="flex items-start justify-between mb-3">
-                    {getFileIcon(file.file_type)}
+                    <div className="flex items-center space-x-2">
+                      <Checkbox
+                        checked={selectedIds.includes(file.id)}
+                        onCheckedChange={() => toggleSelected(file.id)}
+                        aria-label={`Select ${file.name}`}
+                      />
+                      {getFileIcon(file.file_type)}
+                    </div>
                     <DropdownMenu>
                       <DropdownMenuTrigger asChild>
                         <Button variant="ghost" size="icon" className="opacity-0 group-hover:opacity-100 transition-opacity">
@@ -423,6 +744,18 @@ export default function Dashboard({ user }: DashboardProps) {
                           <Download className="w-4 h-4 mr-2" />
                           Download
                         </DropdownMenuItem>
+                        {file.original_file_path && (
+                          <DropdownMenuItem onClick={() => handleDownload(file, file.original_file_path!)}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Download Original
+                          </DropdownMenuItem>
+                        )}
+                        {file.stamped_file_path && (
+                          <DropdownMenuItem onClick={() => handleDownload(file, file.stamped_file_path!)}>
+                            <Download className="w-4 h-4 mr-2" />
+                            Download Stamped Copy
+                          </DropdownMenuItem>
+                        )}
                         <DropdownMenuItem onClick={() => handleVersionHistory(file)}>
                           <History className="w-4 h-4 mr-2" />
                           Version History
@@ -431,6 +764,11 @@ export default function Dashboard({ user }: DashboardProps) {
                           <FileText className="w-4 h-4 mr-2" />
                           Audit Trail
                         </DropdownMenuItem>
+                        <DropdownMenuItem onClick={() => handleCoverSheet(file)}>
+                          <FileSpreadsheet className="w-4 h-4 mr-2" />
+                          Cover Sheet
+                        </DropdownMenuItem>
+                        {renderLockMenuItems(file)}
                         <DropdownMenuItem>
                           <Share2 className="w-4 h-4 mr-2" />
                           Share
@@ -441,7 +779,7 @@ export default function Dashboard({ user }: DashboardProps) {
                           onClick={() => handleDelete(file)}
                         >
                           <Trash2 className="w-4 h-4 mr-2" />
-                          Delete
+                          Move to Trash
                         </DropdownMenuItem>
                       </DropdownMenuContent>
                     </DropdownMenu>
@@ -455,9 +793,23 @@ export default function Dashboard({ user }: DashboardProps) {
                     <p>{formatFileSize(file.file_size)}</p>
                     <p>Modified {formatDate(file.updated_at)}</p>
                     <p>by {file.uploaded_by}</p>
-                    <Badge variant="outline" className="text-xs">
-                      {file.version_label}
-                    </Badge>
+                    {metadataColumns.map(field => {
+                      const value = metadataSchemaService.parseValues(file)[field.key]
+                      return value ? (
+                        <p key={field.key} className="truncate">
+                          {field.label}: {metadataSchemaService.formatValue(field, value)}
+                        </p>
+                      ) : null
+                    })}
+                    <div className="flex flex-wrap items-center gap-1">
+                      <Badge variant="outline" className="text-xs">
+                        {file.version_label}
+                      </Badge>
+                      {renderLifecycleBadges(file)}
+                      {renderHoldBadge(file)}
+                      {renderLockBadge(file)}
+                      {renderTags(file)}
+                    </div>
                   </div>
                 </div>
               ))}
@@ -467,6 +819,13 @@ export default function Dashboard({ user }: DashboardProps) {
               <table className="w-full">
                 <thead className="bg-gray-50 border-b border-gray-200">
                   <tr>
+                    <th className="pl-6 py-3 w-4">
+                      <Checkbox
+                        checked={allSelected}
+                        onCheckedChange={toggleAllSelected}
+                        aria-label="Select all files"
+                      />
+                    </th>
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Name
                     </th>
@@ -479,6 +838,11 @@ export default function Dashboard({ user }: DashboardProps) {
                     <th className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                       Version
                     </th>
+                    {metadataColumns.map(field => (
+                      <th key={field.key} className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                        {field.label}
+                      </th>
+                    ))}
                     <th className="relative px-6 py-3">
                       <span className="sr-only">Actions</span>
                     </th>
@@ -487,6 +851,13 @@ export default function Dashboard({ user }: DashboardProps) {
                 <tbody className="bg-white divide-y divide-gray-200">
                   {filteredFiles.map((file) => (
                     <tr key={file.id} className="hover:bg-gray-50 cursor-pointer">
+                      <td className="pl-6 py-4">
+                        <Checkbox
+                          checked={selectedIds.includes(file.id)}
+                          onCheckedChange={() => toggleSelected(file.id)}
+                          aria-label={`Select ${file.name}`}
+                        />
+                      </td>
                       <td className="px-6 py-4 whitespace-nowrap">
                         <div className="flex items-center">
                           {getFileIcon(file.file_type)}
@@ -494,6 +865,12 @@ export default function Dashboard({ user }: DashboardProps) {
                             <div className="text-sm font-medium text-black">
                               {file.name}
                             </div>
+                            <div className="flex flex-wrap items-center gap-1">
+                              {renderLifecycleBadges(file)}
+                              {renderHoldBadge(file)}
+                              {renderLockBadge(file)}
+                              {renderTags(file)}
+                            </div>
                           </div>
                         </div>
                       </td>
@@ -511,6 +888,11 @@ export default function Dashboard({ user }: DashboardProps) {
                           {file.version_label}
                         </Badge>
                       </td>
+                      {metadataColumns.map(field => (
+                        <td key={field.key} className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
+                          {metadataSchemaService.formatValue(field, metadataSchemaService.parseValues(file)[field.key])}
+                        </td>
+                      ))}
                       <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                         <DropdownMenu>
                           <DropdownMenuTrigger asChild>
@@ -523,6 +905,18 @@ export default function Dashboard({ user }: DashboardProps) {
                               <Download className="w-4 h-4 mr-2" />
                               Download
                             </DropdownMenuItem>
+                            {file.original_file_path && (
+                              <DropdownMenuItem onClick={() => handleDownload(file, file.original_file_path!)}>
+                                <Download className="w-4 h-4 mr-2" />
+                                Download Original
+                              </DropdownMenuItem>
+                            )}
+                            {file.stamped_file_path && (
+                              <DropdownMenuItem onClick={() => handleDownload(file, file.stamped_file_path!)}>
+                                <Download className="w-4 h-4 mr-2" />
+                                Download Stamped Copy
+                              </DropdownMenuItem>
+                            )}
                             <DropdownMenuItem onClick={() => handleVersionHistory(file)}>
                               <History className="w-4 h-4 mr-2" />
                               Version History
@@ -531,6 +925,11 @@ export default function Dashboard({ user }: DashboardProps) {
                               <FileText className="w-4 h-4 mr-2" />
                               Audit Trail
                             </DropdownMenuItem>
+                            <DropdownMenuItem onClick={() => handleCoverSheet(file)}>
+                              <FileSpreadsheet className="w-4 h-4 mr-2" />
+                              Cover Sheet
+                            </DropdownMenuItem>
+                            {renderLockMenuItems(file)}
                             <DropdownMenuItem>
                               <Share2 className="w-4 h-4 mr-2" />
                               Share
@@ -541,7 +940,7 @@ export default function Dashboard({ user }: DashboardProps) {
                               onClick={() => handleDelete(file)}
                             >
                               <Trash2 className="w-4 h-4 mr-2" />
-                              Delete
+                              Move to Trash
                             </DropdownMenuItem>
                           </DropdownMenuContent>
                         </DropdownMenu>
@@ -560,6 +959,9 @@ export default function Dashboard({ user }: DashboardProps) {
         <VersionHistory
           fileId={selectedFile.id}
           fileName={selectedFile.name}
+          fileType={selectedFile.file_type}
+          organizationId={currentOrg.id}
+          folderPath={selectedFile.folder_path}
           isOpen={showVersionHistory}
           onClose={() => {
             setShowVersionHistory(false)
@@ -568,6 +970,7 @@ export default function Dashboard({ user }: DashboardProps) {
           onRestore={() => {
             loadFiles() // Refresh files after restore
           }}
+          onLifecycleChange={loadFiles}
         />
       )}
 
@@ -583,6 +986,96 @@ export default function Dashboard({ user }: DashboardProps) {
           }}
         />
       )}
+
+      {/* Approval Workflow Settings */}
+      <ApprovalWorkflowSettings
+        organizationId={currentOrg.id}
+        isOpen={showWorkflowSettings}
+        onClose={() => setShowWorkflowSettings(false)}
+      />
+
+      {/* Retention and Legal Holds */}
+      <RetentionSettings
+        organizationId={currentOrg.id}
+        user={user}
+        files={files}
+        isOpen={showRetention}
+        onClose={() => setShowRetention(false)}
+        onChange={loadFiles}
+      />
+
+      {/* Metadata Fields and Embedding Defaults */}
+      <MetadataSchemaSettings
+        organizationId={currentOrg.id}
+        isOpen={showMetadataSchema}
+        onClose={() => setShowMetadataSchema(false)}
+        onChange={loadFiles}
+      />
+
+      {selectedFile && (
+        <CoverSheet
+          file={selectedFile}
+          organizationId={currentOrg.id}
+          organizationName={currentOrg.name}
+          user={user}
+          metadataFields={metadataFields}
+          isOpen={showCoverSheet}
+          onClose={() => {
+            setShowCoverSheet(false)
+            setSelectedFile(null)
+          }}
+        />
+      )}
+
+      {/* Cover sheet layout for the organization */}
+      <CoverSheetSettings
+        organizationId={currentOrg.id}
+        organizationName={currentOrg.name}
+        isOpen={showCoverSheetSettings}
+        onClose={() => setShowCoverSheetSettings(false)}
+      />
+
+      {/* Version suggestion thresholds, exclusions and dry run */}
+      <SimilarityTuning
+        organizationId={currentOrg.id}
+        isOpen={showSimilarityTuning}
+        onClose={() => setShowSimilarityTuning(false)}
+      />
+
+      {/* Label template and major version policy */}
+      <VersionPolicySettings
+        organizationId={currentOrg.id}
+        isOpen={showVersionPolicy}
+        onClose={() => setShowVersionPolicy(false)}
+      />
+
+      {/* Check a copy against the stored revisions */}
+      <DocumentVerification
+        organizationId={currentOrg.id}
+        user={user}
+        isOpen={showVerify}
+        onClose={() => setShowVerify(false)}
+      />
+
+      {/* Metadata, tags and folder changes across the selected files */}
+      <BulkMetadataEditor
+        organizationId={currentOrg.id}
+        user={user}
+        files={selectedFiles}
+        metadataFields={metadataFields}
+        isOpen={showBulkEdit}
+        onClose={() => setShowBulkEdit(false)}
+        onChange={loadFiles}
+      />
+
+      {/* Reference numbering schemes, reservations and imported ranges */}
+      <DocumentNumbering
+        organizationId={currentOrg.id}
+        user={user}
+        isAdmin={isAdmin}
+        isOpen={showNumbering}
+        onClose={() => setShowNumbering(false)}
+      />
     </div>
   )
 }
\ No newline at end of file
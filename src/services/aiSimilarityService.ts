@@ -1,4 +1,7 @@
 import { blink } from '../blink/client'
+import { versionFormatService, DEFAULT_VERSION_POLICY, type VersionBump } from './versionFormatService'
+import { textExtractionService } from './textExtractionService'
+import type { SimilaritySignal } from './similarityProviders'
 
 export interface SimilarityResult {
   fileId: string
@@ -10,7 +13,19 @@ export interface SimilarityResult {
   similarityReason: string
   contentSimilarity: number
   nameSimilarity: number
+  // Perceptual hash and colour similarity when both files are images or PDFs
+  visualSimilarity?: number
+  // Every signal that scored the pair, recorded with the uploader's decision
+  signals?: Partial<Record<SimilaritySignal, number>>
+  thumbnail?: string
   aiAnalysis: string
+  significantChange?: boolean
+  lockedBy?: string
+  lockedByName?: string
+  // Set while a new revision of the file awaits approval
+  pendingVersionId?: string
+  // Highest label including drafts, which the next revision increments
+  latestVersionLabel?: string
 }
 
 export interface FileAnalysis {
@@ -90,164 +105,63 @@ export class AISimilarityService {
     }
   }
 
-  /**
-   * Find similar files using AI-powered content analysis
-   */
-  async findSimilarFiles(
-    file: File, 
-    organizationId: string, 
-    fileAnalysis: FileAnalysis
-  ): Promise<SimilarityResult[]> {
-    try {
-      // Get existing files from the organization
-      const existingFiles = await blink.db.files.list({
-        where: {
-          organization_id: organizationId,
-          is_latest_version: "1"
-        },
-        limit: 20
-      })
-
-      if (existingFiles.length === 0) {
-        return []
-      }
-
-      // Use AI to compare the new file with existing files
-      const { object: similarityAnalysis } = await blink.ai.generateObject({
-        prompt: `Analyze file similarity for smart version control:
-
-        NEW FILE:
-        - Name: ${file.name}
-        - Type: ${file.type}
-        - Content Type: ${fileAnalysis.contentType}
-        - Purpose: ${fileAnalysis.documentPurpose}
-        - Key Terms: ${fileAnalysis.keyTerms.join(', ')}
-
-        EXISTING FILES:
-        ${existingFiles.map((f, i) => `${i + 1}. ${f.name} (${f.version_label}) - ${f.file_type}`).join('\n')}
-
-        For each existing file, determine:
-        1. Content similarity (0-1): How similar is the content/purpose?
-        2. Name similarity (0-1): How similar are the file names?
-        3. Overall similarity (0-1): Combined similarity score
-        4. Reason: Why they are similar or different
-        5. Is this likely the same document type that should be versioned together?
-
-        Only include files with overall similarity > 0.3`,
-        schema: {
-          type: 'object',
-          properties: {
-            similarities: {
-              type: 'array',
-              items: {
-                type: 'object',
-                properties: {
-                  fileIndex: { type: 'number' },
-                  contentSimilarity: { type: 'number' },
-                  nameSimilarity: { type: 'number' },
-                  overallSimilarity: { type: 'number' },
-                  reason: { type: 'string' },
-                  shouldVersion: { type: 'boolean' }
-                },
-                required: ['fileIndex', 'contentSimilarity', 'nameSimilarity', 'overallSimilarity', 'reason', 'shouldVersion']
-              }
-            }
-          },
-          required: ['similarities']
-        }
-      })
-
-      // Convert AI analysis to SimilarityResult format
-      const results: SimilarityResult[] = []
-      
-      for (const similarity of similarityAnalysis.similarities) {
-        if (similarity.overallSimilarity > 0.3 && similarity.shouldVersion) {
-          const existingFile = existingFiles[similarity.fileIndex]
-          if (existingFile) {
-            results.push({
-              fileId: existingFile.id,
-              fileName: existingFile.name,
-              versionLabel: existingFile.version_label,
-              uploadedBy: existingFile.uploaded_by,
-              createdAt: existingFile.created_at,
-              similarityScore: similarity.overallSimilarity,
-              similarityReason: similarity.reason,
-              contentSimilarity: similarity.contentSimilarity,
-              nameSimilarity: similarity.nameSimilarity,
-              aiAnalysis: `AI determined this is likely the same document type. ${similarity.reason}`
-            })
-          }
-        }
-      }
-
-      return results.sort((a, b) => b.similarityScore - a.similarityScore)
-    } catch (error) {
-      console.error('Error finding similar files:', error)
-      return []
-    }
-  }
-
   /**
    * Generate version label based on organization policy
    */
   async generateVersionLabel(
     organizationId: string, 
     existingFileId?: string,
-    incrementType: 'major' | 'minor' | 'patch' = 'patch'
+    incrementType: VersionBump = 'patch',
+    fileType?: string
   ): Promise<string> {
     try {
-      // Get organization policy
-      const policies = await blink.db.organizationPolicies.list({
-        where: { organization_id: organizationId }
-      })
-      
-      const policy = policies[0] || {
-        company_prefix: 'VT',
-        version_format: '{prefix}-{seq:02d}-v{major}.{minor}.{patch}'
-      }
+      const policy = await versionFormatService.getPolicy(organizationId)
 
       if (existingFileId) {
-        // Get existing file to increment version
-        const existingFile = await blink.db.files.list({
-          where: { id: existingFileId }
-        })
-        
-        if (existingFile[0]) {
-          const currentVersion = existingFile[0].version_label
-          const newVersion = this.incrementVersion(currentVersion, incrementType)
-          return newVersion
+        const latestVersion = await this.getLatestVersionLabel(existingFileId, policy.versionFormat)
+        if (latestVersion) {
+          return this.incrementVersion(latestVersion, incrementType, policy.versionFormat)
         }
       }
 
-      // Get next sequential number for new files
-      const existingFiles = await blink.db.files.list({
-        where: { organization_id: organizationId },
-        orderBy: { sequential_number: 'desc' },
-        limit: 1
-      })
-
-      const nextSeq = existingFiles[0]?.sequential_number ? existingFiles[0].sequential_number + 1 : 1
-      
-      // Format: VT-01-v1.0.0
-      return policy.version_format
-        .replace('{prefix}', policy.company_prefix)
-        .replace('{seq:02d}', nextSeq.toString().padStart(2, '0'))
-        .replace('{major}', '1')
-        .replace('{minor}', '0')
-        .replace('{patch}', '0')
+      const nextSeq = await this.getNextSequentialNumber(organizationId)
+      return versionFormatService.createInitialLabel(
+        policy,
+        nextSeq,
+        fileType ? this.getTypePrefix(fileType) : undefined
+      )
     } catch (error) {
       console.error('Error generating version label:', error)
-      return 'VT-01-v1.0.0'
+      return versionFormatService.createInitialLabel(DEFAULT_VERSION_POLICY, 1)
     }
   }
 
   /**
-   * Generate unique document reference
+   * Highest label the file has used, counting drafts and rejected revisions;
+   * files.version_label only moves on approval and would hand out a label twice
    */
-  generateDocumentReference(organizationId: string, fileType: string): string {
-    const timestamp = Date.now()
-    const typePrefix = this.getTypePrefix(fileType)
-    return `DOC-${typePrefix}-${timestamp}`
+  async getLatestVersionLabel(fileId: string, versionFormat?: string): Promise<string | null> {
+    const [files, versions] = await Promise.all([
+      blink.db.files.list({ where: { id: fileId } }),
+      blink.db.fileVersions.list({ where: { file_id: fileId } })
+    ])
+    const labels = [files[0]?.version_label, ...versions.map((version: any) => version.version_label)]
+      .filter((label): label is string => Boolean(label))
+    if (labels.length === 0) return null
+    return labels.reduce((latest, label) => versionFormatService.compare(label, latest, versionFormat) > 0 ? label : latest)
+  }
+
+  /**
+   * Next sequential number for a new document in the organization
+   */
+  async getNextSequentialNumber(organizationId: string): Promise<number> {
+    const existingFiles = await blink.db.files.list({
+      where: { organization_id: organizationId },
+      orderBy: { sequential_number: 'desc' },
+      limit: 1
+    })
+
+    return existingFiles[0]?.sequential_number ? Number(existingFiles[0].sequential_number) + 1 : 1
   }
 
   /**
@@ -255,11 +169,12 @@ export class AISimilarityService {
    */
   private async extractTextFromFile(file: File): Promise<string> {
     try {
-      if (file.type.startsWith('text/')) {
-        return await file.text()
+      const { text } = await textExtractionService.extract(file)
+      if (text) {
+        return text
       }
-      
-      // For other file types, use file name and basic metadata
+
+      // Images, archives and unreadable files only have their name and basic metadata
       return `${file.name} ${file.type} ${file.size} bytes`
     } catch (error) {
       console.error('Error extracting text from file:', error)
@@ -270,40 +185,15 @@ export class AISimilarityService {
   /**
    * Increment version number based on type
    */
-  private incrementVersion(currentVersion: string, incrementType: 'major' | 'minor' | 'patch'): string {
-    // Extract version parts (e.g., "VT-01-v1.2.3" -> "1.2.3")
-    const versionMatch = currentVersion.match(/v(\d+)\.(\d+)\.(\d+)/)
-    if (!versionMatch) {
-      return currentVersion + '.1'
-    }
-
-    let [, major, minor, patch] = versionMatch.map(Number)
-
-    switch (incrementType) {
-      case 'major':
-        major++
-        minor = 0
-        patch = 0
-        break
-      case 'minor':
-        minor++
-        patch = 0
-        break
-      case 'patch':
-      default:
-        patch++
-        break
-    }
-
-    // Preserve the prefix format
-    const prefix = currentVersion.split('-v')[0]
-    return `${prefix}-v${major}.${minor}.${patch}`
+  private incrementVersion(currentVersion: string, incrementType: VersionBump, versionFormat: string): string {
+    // Parses the label with the org format (or a built-in one) so any scheme keeps its shape
+    return versionFormatService.increment(currentVersion, incrementType, versionFormat)
   }
 
   /**
    * Get type prefix for document reference
    */
-  private getTypePrefix(fileType: string): string {
+  getTypePrefix(fileType: string): string {
     if (fileType.startsWith('image/')) return 'IMG'
     if (fileType.includes('pdf')) return 'PDF'
     if (fileType.includes('document')) return 'DOC'
@@ -0,0 +1,430 @@
+import { blink } from '../blink/client'
+import { parseList } from '../lib/utils'
+import { fileLockService } from './fileLockService'
+import { metadataSchemaService, type CustomMetadataValues, type MetadataFieldDefinition } from './metadataSchemaService'
+import { retentionService, type LegalHold } from './retentionService'
+import { trashService } from './trashService'
+
+export type BulkEditTarget = 'field' | 'tags' | 'folder'
+
+// add and remove only apply to tags
+export type BulkEditAction = 'set' | 'clear' | 'replace' | 'add' | 'remove'
+
+export interface BulkEditOperation {
+  target: BulkEditTarget
+  fieldKey?: string
+  action: BulkEditAction
+  value?: string
+  find?: string
+  replaceWith?: string
+}
+
+export interface BulkEditSnapshot {
+  customMetadata: CustomMetadataValues
+  tags: string[]
+  folderPath: string
+}
+
+export interface BulkEditChange {
+  label: string
+  from: string
+  to: string
+}
+
+export interface BulkEditPreview {
+  fileId: string
+  fileName: string
+  before: BulkEditSnapshot
+  after: BulkEditSnapshot
+  changes: BulkEditChange[]
+  // Why the file is left alone; it is then not part of the batch
+  skipped?: string
+}
+
+export interface BulkEditBatch {
+  id: string
+  organizationId: string
+  operations: BulkEditOperation[]
+  entries: { fileId: string, fileName: string, before: BulkEditSnapshot, after: BulkEditSnapshot }[]
+  performedBy: string
+  createdAt: string
+  undoneAt?: string
+  undoneBy?: string
+}
+
+export interface BulkEditResult {
+  batch: BulkEditBatch | null
+  applied: number
+  // Files changed by someone else since the preview or before the undo
+  conflicts: string[]
+}
+
+export interface BulkEditUser {
+  id: string
+  email?: string
+}
+
+export const BULK_EDIT_ACTION_LABELS: Record<BulkEditAction, string> = {
+  set: 'Set to',
+  clear: 'Clear',
+  replace: 'Find and replace',
+  add: 'Add',
+  remove: 'Remove'
+}
+
+export const BULK_EDIT_ACTIONS: Record<BulkEditTarget, BulkEditAction[]> = {
+  field: ['set', 'clear', 'replace'],
+  tags: ['add', 'remove', 'set', 'clear', 'replace'],
+  folder: ['set', 'clear', 'replace']
+}
+
+export class BulkMetadataService {
+  private static instance: BulkMetadataService
+
+  static getInstance(): BulkMetadataService {
+    if (!BulkMetadataService.instance) {
+      BulkMetadataService.instance = new BulkMetadataService()
+    }
+    return BulkMetadataService.instance
+  }
+
+  getSnapshot(file: { custom_metadata?: string | null, tags?: string | null, folder_path?: string | null }): BulkEditSnapshot {
+    return {
+      customMetadata: metadataSchemaService.parseValues(file),
+      tags: parseList(file.tags),
+      folderPath: file.folder_path || '/'
+    }
+  }
+
+  describeOperation(operation: BulkEditOperation, fields: MetadataFieldDefinition[]): string {
+    const target = this.targetLabel(operation, fields)
+    switch (operation.action) {
+      case 'clear':
+        return `Clear ${target}`
+      case 'replace':
+        return `Replace "${operation.find || ''}" with "${operation.replaceWith || ''}" in ${target}`
+      case 'add':
+        return `Add ${target} ${operation.value || ''}`
+      case 'remove':
+        return `Remove ${target} ${operation.value || ''}`
+      default:
+        return `Set ${target} to ${operation.value || ''}`
+    }
+  }
+
+  /**
+   * What the operations would do to each file, without saving anything.
+   * Values are checked against the schema fields for each file's type.
+   * Files under legal hold are left as they are; holds follow the folder,
+   * so moving a file out would release it.
+   */
+  preview(
+    files: any[],
+    operations: BulkEditOperation[],
+    fields: MetadataFieldDefinition[],
+    userId: string,
+    holds: LegalHold[]
+  ): BulkEditPreview[] {
+    return files.map(file => {
+      const before = this.getSnapshot(file)
+      const base = { fileId: file.id, fileName: file.name, before, after: before, changes: [] }
+
+      if (fileLockService.isLockedByOther(file, userId)) {
+        const lock = fileLockService.getLockState(file, userId)
+        return { ...base, skipped: `Checked out by ${lock.lockedByName}` }
+      }
+
+      const fileHolds = retentionService.getHoldsForFile(file, holds)
+      if (fileHolds.length > 0) {
+        return { ...base, skipped: `Under legal hold "${fileHolds[0].name}"` }
+      }
+
+      const typeFields = metadataSchemaService.getFieldsForType(fields, file.file_type)
+      const after: BulkEditSnapshot = { ...before, customMetadata: { ...before.customMetadata }, tags: [...before.tags] }
+      const problems: string[] = []
+
+      for (const operation of operations) {
+        if (operation.target === 'field') {
+          const field = typeFields.find(candidate => candidate.key === operation.fieldKey)
+          if (!field) {
+            problems.push(`${this.targetLabel(operation, fields)} does not apply to this document type`)
+            continue
+          }
+          const value = this.applyText(after.customMetadata[field.key] || '', operation)
+          if (value) {
+            after.customMetadata[field.key] = value
+          } else {
+            delete after.customMetadata[field.key]
+          }
+          const error = metadataSchemaService.validate([field], after.customMetadata)[field.key]
+          if (error) problems.push(error)
+        } else if (operation.target === 'tags') {
+          after.tags = this.applyTags(after.tags, operation)
+        } else {
+          after.folderPath = this.normalizeFolder(this.applyText(after.folderPath, operation))
+        }
+      }
+
+      if (problems.length > 0) {
+        return { ...base, skipped: problems.join('; ') }
+      }
+      return { ...base, after, changes: this.diff(before, after, fields) }
+    })
+  }
+
+  /**
+   * Save the previewed changes as one batch that can be undone together
+   */
+  async apply(
+    organizationId: string,
+    operations: BulkEditOperation[],
+    previews: BulkEditPreview[],
+    fields: MetadataFieldDefinition[],
+    user: BulkEditUser
+  ): Promise<BulkEditResult> {
+    const batchId = `bulk_${Date.now()}`
+    const entries: BulkEditBatch['entries'] = []
+    const conflicts: string[] = []
+    // A hold placed since the preview still applies
+    const holds = await retentionService.listHolds(organizationId)
+
+    for (const preview of previews) {
+      if (preview.skipped || preview.changes.length === 0) continue
+
+      const current = await this.reload(preview.fileId)
+      if (
+        !current ||
+        trashService.isTrashed(current) ||
+        !this.sameSnapshot(this.getSnapshot(current), preview.before) ||
+        retentionService.getHoldsForFile(current, holds).length > 0
+      ) {
+        conflicts.push(preview.fileName)
+        continue
+      }
+
+      await this.write(current, preview.after)
+      entries.push({ fileId: preview.fileId, fileName: preview.fileName, before: preview.before, after: preview.after })
+      await this.logEvent(current, user.id, 'bulk_metadata_edit',
+        `Bulk edit: ${preview.changes.map(change => `${change.label} ${change.from || '(empty)'} → ${change.to || '(empty)'}`).join('; ')}`,
+        { batchId, changes: preview.changes, before: preview.before, after: preview.after })
+    }
+
+    if (entries.length === 0) {
+      return { batch: null, applied: 0, conflicts }
+    }
+
+    const batch: BulkEditBatch = {
+      id: batchId,
+      organizationId,
+      operations,
+      entries,
+      performedBy: user.email || user.id,
+      createdAt: new Date().toISOString()
+    }
+    await blink.db.bulkEdits.create({
+      id: batch.id,
+      organization_id: organizationId,
+      operations: JSON.stringify(operations),
+      summary: operations.map(operation => this.describeOperation(operation, fields)).join('; '),
+      entries: JSON.stringify(entries),
+      file_count: entries.length,
+      performed_by: batch.performedBy,
+      created_at: batch.createdAt
+    })
+    return { batch, applied: entries.length, conflicts }
+  }
+
+  async listBatches(organizationId: string, limit = 20): Promise<(BulkEditBatch & { summary: string })[]> {
+    try {
+      const rows = await blink.db.bulkEdits.list({
+        where: { organization_id: organizationId },
+        orderBy: { created_at: 'desc' },
+        limit
+      })
+      return rows.map((row: any) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        operations: this.parseJson(row.operations, []),
+        entries: this.parseJson(row.entries, []),
+        summary: row.summary || '',
+        performedBy: row.performed_by,
+        createdAt: row.created_at,
+        undoneAt: row.undone_at || undefined,
+        undoneBy: row.undone_by || undefined
+      }))
+    } catch (error) {
+      console.error('Error loading bulk edits:', error)
+      return []
+    }
+  }
+
+  /**
+   * Put every file of a batch back to its values from before the batch.
+   * Files edited again since then are left alone and reported as conflicts.
+   */
+  async undo(batch: BulkEditBatch, user: BulkEditUser): Promise<BulkEditResult> {
+    if (batch.undoneAt) {
+      throw new Error('This bulk edit was already undone')
+    }
+
+    const conflicts: string[] = []
+    let applied = 0
+    const holds = await retentionService.listHolds(batch.organizationId)
+    for (const entry of batch.entries) {
+      const current = await this.reload(entry.fileId)
+      if (
+        !current ||
+        !this.sameSnapshot(this.getSnapshot(current), entry.after) ||
+        retentionService.getHoldsForFile(current, holds).length > 0
+      ) {
+        conflicts.push(entry.fileName)
+        continue
+      }
+      await this.write(current, entry.before)
+      applied++
+      await this.logEvent(current, user.id, 'bulk_metadata_undone', 'Bulk edit undone',
+        { batchId: batch.id, before: entry.after, after: entry.before })
+    }
+
+    const now = new Date().toISOString()
+    await blink.db.bulkEdits.update(batch.id, { undone_at: now, undone_by: user.email || user.id })
+    return { batch: { ...batch, undoneAt: now, undoneBy: user.email || user.id }, applied, conflicts }
+  }
+
+  private applyText(value: string, operation: BulkEditOperation): string {
+    switch (operation.action) {
+      case 'set':
+        return (operation.value || '').trim()
+      case 'clear':
+        return ''
+      case 'replace':
+        return operation.find ? value.split(operation.find).join(operation.replaceWith || '').trim() : value
+      default:
+        return value
+    }
+  }
+
+  private applyTags(tags: string[], operation: BulkEditOperation): string[] {
+    const given = parseList(operation.value || '')
+    let next: string[]
+    switch (operation.action) {
+      case 'add':
+        next = [...tags, ...given]
+        break
+      case 'remove': {
+        const removed = new Set(given.map(tag => tag.toLowerCase()))
+        next = tags.filter(tag => !removed.has(tag.toLowerCase()))
+        break
+      }
+      case 'set':
+        next = given
+        break
+      case 'clear':
+        next = []
+        break
+      default:
+        next = tags.map(tag => this.applyText(tag, operation))
+    }
+
+    // Tags compare without case, keeping the first spelling
+    const seen = new Set<string>()
+    return next.filter(tag => {
+      const key = tag.toLowerCase()
+      if (!tag || seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  private normalizeFolder(folderPath: string): string {
+    const trimmed = folderPath.trim().replace(/\/{2,}/g, '/').replace(/\/$/, '')
+    if (!trimmed) return '/'
+    return trimmed.startsWith('/') ? trimmed : `/${trimmed}`
+  }
+
+  private diff(before: BulkEditSnapshot, after: BulkEditSnapshot, fields: MetadataFieldDefinition[]): BulkEditChange[] {
+    const changes: BulkEditChange[] = []
+    const keys = new Set([...Object.keys(before.customMetadata), ...Object.keys(after.customMetadata)])
+    for (const key of keys) {
+      const from = before.customMetadata[key] || ''
+      const to = after.customMetadata[key] || ''
+      if (from !== to) {
+        changes.push({ label: fields.find(field => field.key === key)?.label || key, from, to })
+      }
+    }
+    if (before.tags.join(', ') !== after.tags.join(', ')) {
+      changes.push({ label: 'Tags', from: before.tags.join(', '), to: after.tags.join(', ') })
+    }
+    if (before.folderPath !== after.folderPath) {
+      changes.push({ label: 'Folder', from: before.folderPath, to: after.folderPath })
+    }
+    return changes
+  }
+
+  private sameSnapshot(a: BulkEditSnapshot, b: BulkEditSnapshot): boolean {
+    const sortedValues = (values: CustomMetadataValues) =>
+      JSON.stringify(Object.keys(values).sort().map(key => [key, values[key]]))
+    return sortedValues(a.customMetadata) === sortedValues(b.customMetadata) &&
+      a.tags.join('\n') === b.tags.join('\n') &&
+      a.folderPath === b.folderPath
+  }
+
+  private targetLabel(operation: BulkEditOperation, fields: MetadataFieldDefinition[]): string {
+    if (operation.target === 'tags') return 'tags'
+    if (operation.target === 'folder') return 'folder'
+    return fields.find(field => field.key === operation.fieldKey)?.label || operation.fieldKey || 'field'
+  }
+
+  private async reload(fileId: string): Promise<any | null> {
+    const rows = await blink.db.files.list({ where: { id: fileId } })
+    return rows[0] || null
+  }
+
+  private async write(file: any, snapshot: BulkEditSnapshot): Promise<void> {
+    const customMetadata = JSON.stringify(snapshot.customMetadata)
+    await blink.db.files.update(file.id, {
+      custom_metadata: customMetadata,
+      tags: JSON.stringify(snapshot.tags),
+      folder_path: snapshot.folderPath,
+      updated_at: new Date().toISOString()
+    })
+
+    // Keep the current revision in step so cover sheets and later transitions see the new values
+    const currentVersions = await blink.db.fileVersions.list({
+      where: file.current_version_id ? { id: file.current_version_id } : { file_id: file.id, is_current: "1" }
+    })
+    for (const version of currentVersions) {
+      await blink.db.fileVersions.update(version.id, { custom_metadata: customMetadata })
+    }
+  }
+
+  private parseJson<T>(value: unknown, fallback: T): T {
+    if (typeof value !== 'string' || !value) return fallback
+    try {
+      return JSON.parse(value)
+    } catch {
+      return fallback
+    }
+  }
+
+  private async logEvent(
+    file: any,
+    userId: string,
+    action: string,
+    summary: string,
+    details: Record<string, unknown>
+  ): Promise<void> {
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}_${file.id}`,
+      file_id: file.id,
+      organization_id: file.organization_id,
+      user_id: userId,
+      action,
+      change_summary: summary,
+      detailed_changes: JSON.stringify({ fileName: file.name, ...details }),
+      created_at: new Date().toISOString()
+    })
+  }
+}
+
+export const bulkMetadataService = BulkMetadataService.getInstance()
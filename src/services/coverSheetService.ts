@@ -0,0 +1,500 @@
+import { PDFDocument, PageSizes, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import { blink } from '../blink/client'
+import { toWinAnsi } from '../lib/utils'
+import { LIFECYCLE_LABELS, lifecycleService, type LifecycleState } from './lifecycleService'
+import { metadataSchemaService, type MetadataFieldDefinition } from './metadataSchemaService'
+
+export type CoverSheetLayout = 'cover_page' | 'title_block'
+export type CoverSheetPageSize = 'a4' | 'letter'
+
+export interface CoverSheetTemplate {
+  // A full cover page, or a drawing-style title block in the bottom right corner
+  layout: CoverSheetLayout
+  pageSize: CoverSheetPageSize
+  heading: string
+  footerText: string
+  showApprovers: boolean
+  showRevisionHistory: boolean
+  maxHistoryRows: number
+  showCustomFields: boolean
+}
+
+export interface CoverSheetApproval {
+  name: string
+  role: string
+  date: string
+}
+
+export interface CoverSheetRevision {
+  versionLabel: string
+  state: LifecycleState
+  date: string
+  author: string
+  notes: string
+}
+
+export interface CoverSheetData {
+  title: string
+  documentReference: string
+  revision: string
+  state: LifecycleState
+  effectiveDate?: string
+  organizationName: string
+  fields: { label: string, value: string }[]
+  approvals: CoverSheetApproval[]
+  // Newest first
+  history: CoverSheetRevision[]
+  // Version row of the current revision; absent for files that predate fileVersions rows
+  versionId?: string
+}
+
+export const COVER_SHEET_LAYOUT_LABELS: Record<CoverSheetLayout, string> = {
+  cover_page: 'Cover page',
+  title_block: 'Title block'
+}
+
+export const DEFAULT_COVER_SHEET_TEMPLATE: CoverSheetTemplate = {
+  layout: 'cover_page',
+  pageSize: 'a4',
+  heading: 'Controlled Document',
+  footerText: 'Uncontrolled when printed. Verify the revision before use.',
+  showApprovers: true,
+  showRevisionHistory: true,
+  maxHistoryRows: 15,
+  showCustomFields: true
+}
+
+const PAGE_SIZES: Record<CoverSheetPageSize, [number, number]> = {
+  a4: PageSizes.A4,
+  letter: PageSizes.Letter
+}
+
+const MARGIN = 48
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+const RULE_COLOR = rgb(0.75, 0.75, 0.75)
+const HEADER_FILL = rgb(0.93, 0.93, 0.93)
+
+interface Column {
+  header: string
+  // Share of the table width
+  width: number
+}
+
+// Where drawing continues; pages are added when a table runs past the footer
+interface Cursor {
+  pdfDoc: PDFDocument
+  page: PDFPage
+  y: number
+  font: PDFFont
+  bold: PDFFont
+  size: [number, number]
+  footerText: string
+}
+
+const formatDate = (value?: string | null) => {
+  if (!value) return ''
+  const date = new Date(value)
+  return isNaN(date.getTime()) ? value : date.toISOString().slice(0, 10)
+}
+
+export class CoverSheetService {
+  private static instance: CoverSheetService
+
+  static getInstance(): CoverSheetService {
+    if (!CoverSheetService.instance) {
+      CoverSheetService.instance = new CoverSheetService()
+    }
+    return CoverSheetService.instance
+  }
+
+  async getTemplate(organizationId: string): Promise<CoverSheetTemplate> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const stored = policies[0]?.cover_sheet_template
+      if (!stored) return DEFAULT_COVER_SHEET_TEMPLATE
+      return { ...DEFAULT_COVER_SHEET_TEMPLATE, ...JSON.parse(stored) }
+    } catch (error) {
+      console.error('Error loading cover sheet template:', error)
+      return DEFAULT_COVER_SHEET_TEMPLATE
+    }
+  }
+
+  async setTemplate(organizationId: string, template: CoverSheetTemplate): Promise<void> {
+    const policies = await blink.db.organizationPolicies.list({
+      where: { organization_id: organizationId }
+    })
+    const now = new Date().toISOString()
+    const data = {
+      cover_sheet_template: JSON.stringify(template),
+      updated_at: now
+    }
+    if (policies[0]) {
+      await blink.db.organizationPolicies.update(policies[0].id, data)
+    } else {
+      await blink.db.organizationPolicies.create({
+        id: `policy_${Date.now()}`,
+        organization_id: organizationId,
+        ...data,
+        created_at: now
+      })
+    }
+  }
+
+  /**
+   * Collect what the sheet shows for the revision a file currently serves:
+   * approvals from the lifecycle audit trail and history from fileVersions
+   */
+  async buildData(file: any, organizationName: string, schemaFields: MetadataFieldDefinition[] = []): Promise<CoverSheetData> {
+    const versions = await blink.db.fileVersions.list({
+      where: { file_id: file.id },
+      orderBy: { created_at: 'desc' }
+    })
+    const current = versions.find((version: any) => version.id === file.current_version_id) ||
+      versions.find((version: any) => Number(version.is_current) > 0)
+
+    const approvals: CoverSheetApproval[] = []
+    if (current) {
+      const entries = await blink.db.fileAuditTrail.list({
+        where: { file_id: file.id, version_id: current.id, action: 'lifecycle_transition' },
+        orderBy: { created_at: 'asc' }
+      })
+      for (const entry of entries) {
+        let details: any = {}
+        try {
+          details = JSON.parse(entry.detailed_changes || '{}')
+        } catch {
+          continue
+        }
+        if (details.toState === 'approved' || details.toState === 'effective') {
+          approvals.push({
+            name: details.actedBy || entry.user_id,
+            role: details.toState === 'approved' ? 'Approved' : 'Made effective',
+            date: formatDate(entry.created_at)
+          })
+        }
+      }
+      // Revisions approved before transitions were audited only carry the approver on the row
+      if (approvals.length === 0 && current.approved_by) {
+        approvals.push({ name: current.approved_by, role: 'Approved', date: formatDate(current.approved_at) })
+      }
+    }
+
+    const history: CoverSheetRevision[] = versions.length > 0
+      ? versions.map((version: any) => ({
+          versionLabel: version.version_label,
+          state: lifecycleService.getState(version),
+          date: formatDate(version.approved_at || version.created_at),
+          author: version.uploaded_by || '',
+          notes: version.version_notes || ''
+        }))
+      : [{
+          versionLabel: file.version_label,
+          state: lifecycleService.getState(file),
+          date: formatDate(file.updated_at || file.created_at),
+          author: file.uploaded_by || '',
+          notes: file.version_notes || ''
+        }]
+
+    const values = metadataSchemaService.parseValues(current?.custom_metadata ? current : file)
+    const fields = metadataSchemaService.getFieldsForType(schemaFields, file.file_type)
+      .map(field => ({ label: field.label, value: metadataSchemaService.formatValue(field, values[field.key]) }))
+      .filter(field => field.value)
+
+    const state = lifecycleService.getState(current || file)
+    return {
+      title: file.name,
+      documentReference: file.document_reference || '',
+      revision: current?.version_label || file.version_label,
+      state,
+      effectiveDate: state === 'effective' || state === 'approved'
+        ? formatDate(current?.approved_at || file.updated_at)
+        : undefined,
+      organizationName,
+      fields,
+      approvals,
+      history,
+      versionId: current?.id
+    }
+  }
+
+  /**
+   * Render the sheet as a standalone PDF
+   */
+  async render(data: CoverSheetData, template: CoverSheetTemplate = DEFAULT_COVER_SHEET_TEMPLATE): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.create()
+    pdfDoc.setTitle(`${data.documentReference || data.title} ${data.revision} cover sheet`)
+    pdfDoc.setSubject(`${data.documentReference} ${data.revision}`)
+
+    const size = PAGE_SIZES[template.pageSize] || PAGE_SIZES.a4
+    const cursor: Cursor = {
+      pdfDoc,
+      page: pdfDoc.addPage(size),
+      y: size[1] - MARGIN,
+      font: await pdfDoc.embedFont(StandardFonts.Helvetica),
+      bold: await pdfDoc.embedFont(StandardFonts.HelveticaBold),
+      size,
+      footerText: template.footerText
+    }
+
+    if (template.layout === 'title_block') {
+      this.renderTitleBlockLayout(cursor, data, template)
+    } else {
+      this.renderCoverPageLayout(cursor, data, template)
+    }
+
+    const pages = pdfDoc.getPages()
+    pages.forEach((page, index) => this.drawFooter(cursor, page, index + 1, pages.length))
+    return pdfDoc.save()
+  }
+
+  /**
+   * Put the sheet in front of an existing PDF, keeping its metadata
+   */
+  async prependTo(pdfBytes: ArrayBuffer | Uint8Array, coverBytes: Uint8Array): Promise<Uint8Array> {
+    const pdfDoc = await PDFDocument.load(pdfBytes, { updateMetadata: false })
+    const cover = await PDFDocument.load(coverBytes)
+    const pages = await pdfDoc.copyPages(cover, cover.getPageIndices())
+    pages.forEach((page, index) => pdfDoc.insertPage(index, page))
+    return pdfDoc.save()
+  }
+
+  private renderCoverPageLayout(cursor: Cursor, data: CoverSheetData, template: CoverSheetTemplate): void {
+    const width = cursor.size[0] - MARGIN * 2
+
+    this.drawText(cursor, template.heading.toUpperCase(), MARGIN, cursor.y, 10, cursor.bold, MUTED_COLOR)
+    this.drawText(cursor, data.organizationName, MARGIN, cursor.y - 14, 10, cursor.font, MUTED_COLOR)
+    cursor.y -= 48
+
+    for (const line of this.wrap(data.title, cursor.bold, 20, width)) {
+      this.drawText(cursor, line, MARGIN, cursor.y, 20, cursor.bold)
+      cursor.y -= 26
+    }
+    cursor.y -= 6
+    this.drawRule(cursor, MARGIN, cursor.y, width)
+    cursor.y -= 24
+
+    const rows: [string, string][] = [
+      ['Document reference', data.documentReference || '-'],
+      ['Revision', data.revision],
+      ['Status', LIFECYCLE_LABELS[data.state]],
+      ['Effective', data.effectiveDate || '-'],
+      ...(template.showCustomFields ? data.fields.map(field => [field.label, field.value] as [string, string]) : [])
+    ]
+    for (const [label, value] of rows) {
+      this.drawText(cursor, label, MARGIN, cursor.y, 10, cursor.font, MUTED_COLOR)
+      const lines = this.wrap(value, cursor.bold, 11, width - 150)
+      lines.forEach((line, index) => this.drawText(cursor, line, MARGIN + 150, cursor.y - index * 14, 11, cursor.bold))
+      cursor.y -= Math.max(1, lines.length) * 14 + 6
+    }
+
+    if (template.showApprovers) {
+      this.drawSection(cursor, 'Approvals')
+      this.drawTable(
+        cursor,
+        [{ header: 'Name', width: 0.5 }, { header: 'Role', width: 0.3 }, { header: 'Date', width: 0.2 }],
+        data.approvals.length > 0
+          ? data.approvals.map(approval => [approval.name, approval.role, approval.date])
+          : [['Not approved', '', '']],
+        width
+      )
+    }
+
+    if (template.showRevisionHistory) {
+      this.drawSection(cursor, 'Revision history')
+      this.drawTable(cursor, this.historyColumns(), this.historyRows(data, template), width)
+    }
+  }
+
+  private renderTitleBlockLayout(cursor: Cursor, data: CoverSheetData, template: CoverSheetTemplate): void {
+    const width = cursor.size[0] - MARGIN * 2
+
+    this.drawText(cursor, template.heading.toUpperCase(), MARGIN, cursor.y, 10, cursor.bold, MUTED_COLOR)
+    cursor.y -= 20
+
+    // The block has a fixed place at the bottom of the first page, so the history must stop above it
+    const blockHeight = 150
+    const blockTop = MARGIN + 30 + blockHeight
+    const firstPage = cursor.page
+
+    if (template.showRevisionHistory) {
+      this.drawSection(cursor, 'Revision history')
+      this.drawTable(cursor, this.historyColumns(), this.historyRows(data, template), width, blockTop + 12)
+    }
+
+    const blockWidth = Math.min(width, 340)
+    const x = cursor.size[0] - MARGIN - blockWidth
+    const approvers = template.showApprovers
+      ? data.approvals.map(approval => `${approval.name} (${approval.date})`).join(', ') || 'Not approved'
+      : ''
+    const cells: [string, string][] = [
+      ['Organization', data.organizationName],
+      ['Title', data.title],
+      ['Reference', data.documentReference || '-'],
+      ['Revision', `${data.revision}  ${LIFECYCLE_LABELS[data.state]}`],
+      ...(template.showApprovers ? [['Approved by', approvers] as [string, string]] : []),
+      ['Effective', data.effectiveDate || '-'],
+      ...(template.showCustomFields ? data.fields.slice(0, 3).map(field => [field.label, field.value] as [string, string]) : [])
+    ]
+    const rowHeight = blockHeight / cells.length
+
+    firstPage.drawRectangle({ x, y: blockTop - blockHeight, width: blockWidth, height: blockHeight, borderColor: TEXT_COLOR, borderWidth: 1 })
+    cells.forEach(([label, value], index) => {
+      const top = blockTop - index * rowHeight
+      if (index > 0) {
+        firstPage.drawLine({ start: { x, y: top }, end: { x: x + blockWidth, y: top }, thickness: 0.5, color: TEXT_COLOR })
+      }
+      const labelY = top - rowHeight / 2 - 3
+      firstPage.drawText(toWinAnsi(label.toUpperCase()), { x: x + 6, y: labelY, size: 7, font: cursor.font, color: MUTED_COLOR })
+      const line = this.wrap(value, cursor.bold, 9, blockWidth - 96)[0] || ''
+      firstPage.drawText(line, { x: x + 90, y: labelY, size: 9, font: cursor.bold, color: TEXT_COLOR })
+    })
+    firstPage.drawLine({ start: { x: x + 84, y: blockTop }, end: { x: x + 84, y: blockTop - blockHeight }, thickness: 0.5, color: TEXT_COLOR })
+  }
+
+  private historyColumns(): Column[] {
+    return [
+      { header: 'Rev', width: 0.1 },
+      { header: 'Date', width: 0.13 },
+      { header: 'Status', width: 0.13 },
+      { header: 'Author', width: 0.26 },
+      { header: 'Notes', width: 0.38 }
+    ]
+  }
+
+  private historyRows(data: CoverSheetData, template: CoverSheetTemplate): string[][] {
+    const limit = Math.max(1, template.maxHistoryRows || DEFAULT_COVER_SHEET_TEMPLATE.maxHistoryRows)
+    const rows = data.history.slice(0, limit).map(revision => [
+      revision.versionLabel,
+      revision.date,
+      LIFECYCLE_LABELS[revision.state],
+      revision.author,
+      revision.notes
+    ])
+    if (data.history.length > limit) {
+      rows.push(['', '', '', '', `${data.history.length - limit} earlier revisions not shown`])
+    }
+    return rows
+  }
+
+  private drawSection(cursor: Cursor, title: string): void {
+    this.ensureSpace(cursor, 60)
+    cursor.y -= 18
+    this.drawText(cursor, title, MARGIN, cursor.y, 12, cursor.bold)
+    cursor.y -= 10
+  }
+
+  /**
+   * Bordered table with wrapped cells; rows that do not fit above `bottom`
+   * continue on a new page under a repeated header
+   */
+  private drawTable(cursor: Cursor, columns: Column[], rows: string[][], width: number, bottom = MARGIN + 30): void {
+    const fontSize = 8.5
+    const lineHeight = 11
+    const padding = 4
+    const widths = columns.map(column => column.width * width)
+
+    const drawRow = (cells: string[], font: PDFFont, fill?: ReturnType<typeof rgb>) => {
+      const wrapped = cells.map((cell, index) => this.wrap(cell, font, fontSize, widths[index] - padding * 2))
+      const height = Math.max(1, ...wrapped.map(lines => lines.length)) * lineHeight + padding * 2
+      if (cursor.y - height < bottom) {
+        this.newPage(cursor)
+        bottom = MARGIN + 30
+        if (fill === undefined) drawRow(columns.map(column => column.header), cursor.bold, HEADER_FILL)
+      }
+
+      let x = MARGIN
+      wrapped.forEach((lines, index) => {
+        cursor.page.drawRectangle({
+          x,
+          y: cursor.y - height,
+          width: widths[index],
+          height,
+          color: fill,
+          borderColor: RULE_COLOR,
+          borderWidth: 0.5
+        })
+        lines.forEach((line, lineIndex) => {
+          cursor.page.drawText(line, {
+            x: x + padding,
+            y: cursor.y - padding - (lineIndex + 1) * lineHeight + 2.5,
+            size: fontSize,
+            font,
+            color: TEXT_COLOR
+          })
+        })
+        x += widths[index]
+      })
+      cursor.y -= height
+    }
+
+    drawRow(columns.map(column => column.header), cursor.bold, HEADER_FILL)
+    rows.forEach(row => drawRow(row, cursor.font))
+  }
+
+  private drawFooter(cursor: Cursor, page: PDFPage, pageNumber: number, pageCount: number): void {
+    const y = MARGIN - 18
+    this.drawRule(cursor, MARGIN, y + 12, cursor.size[0] - MARGIN * 2, page)
+    const footer = this.wrap(cursor.footerText, cursor.font, 7.5, cursor.size[0] - MARGIN * 2 - 80)[0] || ''
+    page.drawText(footer, { x: MARGIN, y, size: 7.5, font: cursor.font, color: MUTED_COLOR })
+    const label = `Page ${pageNumber} of ${pageCount}`
+    page.drawText(label, {
+      x: cursor.size[0] - MARGIN - cursor.font.widthOfTextAtSize(label, 7.5),
+      y,
+      size: 7.5,
+      font: cursor.font,
+      color: MUTED_COLOR
+    })
+  }
+
+  private ensureSpace(cursor: Cursor, height: number): void {
+    if (cursor.y - height < MARGIN + 30) {
+      this.newPage(cursor)
+    }
+  }
+
+  private newPage(cursor: Cursor): void {
+    cursor.page = cursor.pdfDoc.addPage(cursor.size)
+    cursor.y = cursor.size[1] - MARGIN
+  }
+
+  private drawText(cursor: Cursor, text: string, x: number, y: number, size: number, font: PDFFont, color = TEXT_COLOR): void {
+    cursor.page.drawText(toWinAnsi(text), { x, y, size, font, color })
+  }
+
+  private drawRule(cursor: Cursor, x: number, y: number, width: number, page: PDFPage = cursor.page): void {
+    page.drawLine({ start: { x, y }, end: { x: x + width, y }, thickness: 0.5, color: RULE_COLOR })
+  }
+
+  /**
+   * Break text into lines that fit the width, splitting words longer than a line
+   */
+  private wrap(text: string, font: PDFFont, size: number, width: number): string[] {
+    const lines: string[] = []
+    for (const paragraph of toWinAnsi(text.replace(/\r\n?/g, '\n').replace(/\t/g, ' ')).split('\n')) {
+      let line = ''
+      for (const word of paragraph.split(' ').filter(Boolean)) {
+        let candidate = line ? `${line} ${word}` : word
+        if (font.widthOfTextAtSize(candidate, size) <= width) {
+          line = candidate
+          continue
+        }
+        if (line) lines.push(line)
+        candidate = word
+        while (font.widthOfTextAtSize(candidate, size) > width && candidate.length > 1) {
+          let fit = candidate.length - 1
+          while (fit > 1 && font.widthOfTextAtSize(candidate.slice(0, fit), size) > width) fit--
+          lines.push(candidate.slice(0, fit))
+          candidate = candidate.slice(fit)
+        }
+        line = candidate
+      }
+      lines.push(line)
+    }
+    return lines
+  }
+}
+
+export const coverSheetService = CoverSheetService.getInstance()
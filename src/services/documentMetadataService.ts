@@ -1,4 +1,10 @@
+import { PDFDict, PDFDocument, PDFName, PDFHexString, PDFRawStream, PDFString, StandardFonts, decodePDFRawStream, rgb, type PDFPage } from 'pdf-lib'
 import { blink } from '../blink/client'
+import { toWinAnsi } from '../lib/utils'
+import { contentHashService } from './contentHashService'
+import { imageMetadataService, type ImageStampOptions } from './imageMetadataService'
+import { officeMetadataService, type OfficeFormat } from './officeMetadataService'
+import { textExtractionService } from './textExtractionService'
 
 export interface DocumentMetadata {
   documentReference: string
@@ -8,16 +14,136 @@ export interface DocumentMetadata {
   modifiedBy: string
   organizationName: string
   changeNotes: string
+  // Organization-defined fields by key, see metadataSchemaService
+  customFields?: Record<string, string>
 }
 
 export interface MetadataEmbedding {
   success: boolean
   modifiedFileUrl?: string
+  // SHA-256 of the copy at modifiedFileUrl, which is what gets downloaded and passed around
+  modifiedFileHash?: string
   originalFileUrl: string
+  // Visible overlay copy, only produced when EmbeddingOptions.imageStamp is set
+  stampedRenditionUrl?: string
+  stampedRenditionHash?: string
+  // JSON sidecar for formats with nowhere to put metadata; the document itself is unchanged
+  companionFileUrl?: string
+  // Storage path of every uploaded copy by its public URL, so purging removes what was stored
+  storagePaths?: Record<string, string>
   metadata: DocumentMetadata
   embeddingMethod: string
+  error?: string
 }
 
+interface StoredBlob {
+  url: string
+  path: string
+}
+
+export type MetadataField = Exclude<keyof DocumentMetadata, 'customFields'>
+
+export type MetadataSource = 'pdf_info' | 'xmp' | 'office_core' | 'office_custom' | 'exif' | 'png_text' | 'text_header' | 'ai'
+
+export interface ExtractedField {
+  value: string
+  source: MetadataSource
+  // 1 for fields we wrote ourselves, lower for standard fields mapped onto ours and AI guesses
+  confidence: number
+}
+
+export type ExtractedFields = Partial<Record<MetadataField, ExtractedField>>
+
+export interface MetadataExtraction {
+  metadata: DocumentMetadata
+  fields: ExtractedFields
+}
+
+export const METADATA_SOURCE_LABELS: Record<MetadataSource, string> = {
+  pdf_info: 'PDF Info',
+  xmp: 'XMP',
+  office_core: 'Office core properties',
+  office_custom: 'Office custom properties',
+  exif: 'EXIF',
+  png_text: 'PNG text',
+  text_header: 'Text header',
+  ai: 'AI'
+}
+
+export const METADATA_FIELD_LABELS: Record<MetadataField, string> = {
+  documentReference: 'Reference',
+  revisionNumber: 'Revision',
+  versionLabel: 'Version',
+  lastModified: 'Modified',
+  modifiedBy: 'Modified by',
+  organizationName: 'Organization',
+  changeNotes: 'Changes'
+}
+
+export type StampPosition = 'none' | 'header' | 'footer'
+
+export interface EmbeddingOptions {
+  // Draw the revision block from generateMetadataText on every PDF page, or
+  // add DOCPROPERTY fields to the header/footer of Word documents
+  stampPosition?: StampPosition
+  // Also produce a JPEG/PNG copy with the revision block drawn on the image
+  imageStamp?: ImageStampOptions
+}
+
+export interface EmbeddingPolicy extends EmbeddingOptions {
+  enabled: boolean
+}
+
+export const DEFAULT_EMBEDDING_POLICY: EmbeddingPolicy = {
+  enabled: false,
+  stampPosition: 'none'
+}
+
+export const DEFAULT_IMAGE_STAMP: ImageStampOptions = {
+  position: 'bottom-right',
+  scale: 1,
+  opacity: 0.7
+}
+
+// Custom XMP namespace for the fields DocumentMetadata adds on top of Dublin Core
+const XMP_NAMESPACE = 'http://ns.cloudvault.app/document/1.0/'
+// Organization-defined fields go in their own namespace so keys cannot clash with ours
+const XMP_CUSTOM_NAMESPACE = 'http://ns.cloudvault.app/custom/1.0/'
+
+// Names used for our fields in PDF Info, XMP, Office custom properties and PNG text chunks
+const OWN_FIELD_NAMES: Record<string, MetadataField> = {
+  DocumentReference: 'documentReference',
+  RevisionNumber: 'revisionNumber',
+  VersionLabel: 'versionLabel',
+  ModifiedBy: 'modifiedBy',
+  Organization: 'organizationName',
+  ChangeNotes: 'changeNotes'
+}
+
+export const BUILT_IN_METADATA_KEYS = Object.keys(OWN_FIELD_NAMES)
+
+const AI_EXTRACTABLE_FIELDS: MetadataField[] = ['documentReference', 'revisionNumber', 'versionLabel', 'lastModified', 'modifiedBy', 'changeNotes']
+
+const AI_FIELD_DESCRIPTIONS: Record<MetadataField, string> = {
+  documentReference: 'document reference or control number',
+  revisionNumber: 'revision number',
+  versionLabel: 'version label',
+  lastModified: 'date the document was last changed, ISO 8601',
+  modifiedBy: 'author or person who last changed it',
+  organizationName: 'organization that owns the document',
+  changeNotes: 'summary of the latest changes or revision history entry'
+}
+
+const AI_TEXT_LIMIT = 12000
+const AI_MAX_CONFIDENCE = 0.7
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;')
+
+// Formats where a text header cannot corrupt the file
+const PLAIN_TEXT_TYPES = ['text/plain', 'text/markdown', 'text/x-markdown']
+const PLAIN_TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'log']
+
 export class DocumentMetadataService {
   private static instance: DocumentMetadataService
   
@@ -28,25 +154,78 @@ export class DocumentMetadataService {
     return DocumentMetadataService.instance
   }
 
+  async getEmbeddingPolicy(organizationId: string): Promise<EmbeddingPolicy> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const policy = policies[0]
+      if (!policy) return DEFAULT_EMBEDDING_POLICY
+
+      let imageStamp: ImageStampOptions | undefined
+      if (policy.image_stamp) {
+        try {
+          imageStamp = { ...DEFAULT_IMAGE_STAMP, ...JSON.parse(policy.image_stamp) }
+        } catch {
+          imageStamp = undefined
+        }
+      }
+      return {
+        enabled: policy.embed_metadata === undefined || policy.embed_metadata === null
+          ? DEFAULT_EMBEDDING_POLICY.enabled
+          : Number(policy.embed_metadata) > 0,
+        stampPosition: ['header', 'footer'].includes(policy.metadata_stamp_position) ? policy.metadata_stamp_position : 'none',
+        imageStamp
+      }
+    } catch (error) {
+      console.error('Error loading embedding policy:', error)
+      return DEFAULT_EMBEDDING_POLICY
+    }
+  }
+
+  async setEmbeddingPolicy(organizationId: string, policy: EmbeddingPolicy): Promise<void> {
+    const policies = await blink.db.organizationPolicies.list({
+      where: { organization_id: organizationId }
+    })
+    const now = new Date().toISOString()
+    const data = {
+      embed_metadata: policy.enabled ? 1 : 0,
+      metadata_stamp_position: policy.stampPosition || 'none',
+      image_stamp: policy.imageStamp ? JSON.stringify(policy.imageStamp) : null,
+      updated_at: now
+    }
+    if (policies[0]) {
+      await blink.db.organizationPolicies.update(policies[0].id, data)
+    } else {
+      await blink.db.organizationPolicies.create({
+        id: `policy_${Date.now()}`,
+        organization_id: organizationId,
+        ...data,
+        created_at: now
+      })
+    }
+  }
+
   /**
    * Embed metadata into document based on file type
    */
   async embedMetadataInDocument(
     file: File,
     metadata: DocumentMetadata,
-    organizationId: string
+    organizationId: string,
+    options: EmbeddingOptions = {}
   ): Promise<MetadataEmbedding> {
     try {
       const fileType = file.type.toLowerCase()
-      
-      // For now, we'll create a metadata overlay/watermark approach
-      // In a full implementation, you'd use specific libraries for each file type
+      const officeFormat = officeMetadataService.getFormat(fileType, file.name)
       
       if (fileType.includes('pdf')) {
-        return await this.embedInPDF(file, metadata, organizationId)
+        return await this.embedInPDF(file, metadata, organizationId, options)
+      } else if (officeFormat) {
+        return await this.embedInOfficeDocument(file, metadata, organizationId, officeFormat, options)
       } else if (fileType.startsWith('image/')) {
-        return await this.embedInImage(file, metadata, organizationId)
-      } else if (fileType.includes('document') || fileType.includes('text')) {
+        return await this.embedInImage(file, metadata, organizationId, options)
+      } else if (this.isPlainText(fileType, file.name)) {
         return await this.embedInDocument(file, metadata, organizationId)
       } else {
         // For other file types, create a companion metadata file
@@ -58,53 +237,47 @@ export class DocumentMetadataService {
         success: false,
         originalFileUrl: URL.createObjectURL(file),
         metadata,
-        embeddingMethod: 'none'
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
       }
     }
   }
 
   /**
-   * Extract metadata from existing document
+   * Read metadata the file already carries, then ask the AI only for the
+   * fields nothing in the file resolved, giving it the document text.
+   * With useAI false only the file itself is read.
    */
-  async extractMetadataFromDocument(fileUrl: string): Promise<DocumentMetadata | null> {
+  async extractMetadataFromDocument(file: File, options: { useAI?: boolean } = {}): Promise<MetadataExtraction | null> {
     try {
-      // This would use AI to extract metadata from the document
-      const { object: extractedData } = await blink.ai.generateObject({
-        prompt: `Extract document metadata from this file if present. Look for:
-        - Document reference numbers
-        - Version/revision numbers
-        - Last modified dates
-        - Author information
-        - Change notes or revision history
-        
-        File URL: ${fileUrl}`,
-        schema: {
-          type: 'object',
-          properties: {
-            documentReference: { type: 'string' },
-            revisionNumber: { type: 'string' },
-            versionLabel: { type: 'string' },
-            lastModified: { type: 'string' },
-            modifiedBy: { type: 'string' },
-            changeNotes: { type: 'string' },
-            hasMetadata: { type: 'boolean' }
-          },
-          required: ['hasMetadata']
+      const { fields, text } = await this.extractLocally(file)
+
+      const unresolved = AI_EXTRACTABLE_FIELDS.filter(field => !fields[field])
+      if (options.useAI !== false && unresolved.length > 0 && text.trim()) {
+        // What the file carries is still worth returning when the AI is unavailable
+        try {
+          Object.assign(fields, await this.extractWithAI(file.name, text, unresolved))
+        } catch (error) {
+          console.error('Error extracting metadata with AI:', error)
         }
-      })
+      }
 
-      if (!extractedData.hasMetadata) {
+      if (Object.keys(fields).length === 0) {
         return null
       }
 
+      const value = (field: MetadataField) => fields[field]?.value || ''
       return {
-        documentReference: extractedData.documentReference || '',
-        revisionNumber: extractedData.revisionNumber || '',
-        versionLabel: extractedData.versionLabel || '',
-        lastModified: extractedData.lastModified || new Date().toISOString(),
-        modifiedBy: extractedData.modifiedBy || '',
-        organizationName: '',
-        changeNotes: extractedData.changeNotes || ''
+        metadata: {
+          documentReference: value('documentReference'),
+          revisionNumber: value('revisionNumber'),
+          versionLabel: value('versionLabel'),
+          lastModified: value('lastModified') || new Date().toISOString(),
+          modifiedBy: value('modifiedBy'),
+          organizationName: value('organizationName'),
+          changeNotes: value('changeNotes')
+        },
+        fields
       }
     } catch (error) {
       console.error('Error extracting metadata:', error)
@@ -112,6 +285,202 @@ export class DocumentMetadataService {
     }
   }
 
+  /**
+   * Metadata the file itself carries, without asking the AI
+   */
+  async readEmbeddedMetadata(file: File): Promise<ExtractedFields> {
+    try {
+      return (await this.extractLocally(file)).fields
+    } catch (error) {
+      console.error('Error reading embedded metadata:', error)
+      return {}
+    }
+  }
+
+  /**
+   * Parse PDF Info/XMP, Office properties, EXIF/XMP and our text headers
+   */
+  private async extractLocally(file: File): Promise<{ fields: ExtractedFields, text: string }> {
+    const fileType = file.type.toLowerCase()
+    const fields: ExtractedFields = {}
+    // Several places in one file can carry the same field; the most reliable wins
+    const set = (field: MetadataField, value: string | undefined | null, source: MetadataSource, confidence: number) => {
+      const trimmed = value?.trim()
+      if (!trimmed) return
+      if (!fields[field] || fields[field]!.confidence < confidence) {
+        fields[field] = { value: trimmed, source, confidence }
+      }
+    }
+    const setOwn = (values: Record<string, string | undefined>, source: MetadataSource) => {
+      for (const [key, field] of Object.entries(OWN_FIELD_NAMES)) {
+        set(field, values[key], source, 1)
+      }
+    }
+    const setXmp = (xmp: string | undefined) => {
+      if (!xmp) return
+      const parsed = this.parseXmp(xmp)
+      setOwn(parsed.own, 'xmp')
+      set('documentReference', parsed.identifier, 'xmp', 0.8)
+      set('versionLabel', parsed.versionId, 'xmp', 0.8)
+      set('modifiedBy', parsed.creator, 'xmp', 0.6)
+      set('lastModified', this.toIsoDate(parsed.modifyDate), 'xmp', 0.9)
+    }
+
+    const officeFormat = officeMetadataService.getFormat(fileType, file.name)
+    const imageFormat = imageMetadataService.getFormat(fileType, file.name)
+    let text = ''
+
+    if (fileType.includes('pdf') || file.name.toLowerCase().endsWith('.pdf')) {
+      const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false, ignoreEncryption: true })
+      const info = pdfDoc.context.lookupMaybe(pdfDoc.context.trailerInfo.Info, PDFDict)
+      if (info) {
+        const own: Record<string, string> = {}
+        for (const key of Object.keys(OWN_FIELD_NAMES)) {
+          const value = info.lookup(PDFName.of(key))
+          if (value instanceof PDFString || value instanceof PDFHexString) own[key] = value.decodeText()
+        }
+        setOwn(own, 'pdf_info')
+      }
+      set('modifiedBy', pdfDoc.getAuthor(), 'pdf_info', 0.6)
+      set('lastModified', pdfDoc.getModificationDate()?.toISOString(), 'pdf_info', 0.9)
+
+      const stream = pdfDoc.catalog.lookup(PDFName.of('Metadata'))
+      if (stream instanceof PDFRawStream) {
+        setXmp(new TextDecoder().decode(decodePDFRawStream(stream).decode()))
+      }
+
+      text = (await textExtractionService.extract(file)).text
+    } else if (officeFormat) {
+      const properties = officeMetadataService.readProperties(new Uint8Array(await file.arrayBuffer()), officeFormat)
+      setOwn(properties.custom, 'office_custom')
+      set('documentReference', properties.core.identifier, 'office_core', 0.8)
+      set('versionLabel', properties.core.version, 'office_core', 0.8)
+      set('revisionNumber', properties.core.revision, 'office_core', 0.5)
+      set('modifiedBy', properties.core.lastModifiedBy, 'office_core', 0.8)
+      set('lastModified', this.toIsoDate(properties.core.modified), 'office_core', 0.9)
+      text = (await textExtractionService.extract(file)).text || properties.text
+    } else if (imageFormat) {
+      const properties = imageMetadataService.readMetadata(new Uint8Array(await file.arrayBuffer()), imageFormat)
+      setOwn(properties.text, 'png_text')
+      setXmp(properties.xmp)
+      set('modifiedBy', properties.exif.Artist, 'exif', 0.7)
+      set('organizationName', properties.exif.Copyright, 'exif', 0.5)
+      // EXIF dates are "YYYY:MM:DD HH:MM:SS" in camera local time
+      set('lastModified', this.toIsoDate(properties.exif.DateTime?.replace(/^(\d{4}):(\d{2}):(\d{2}) /, '$1-$2-$3T')), 'exif', 0.7)
+    } else if (this.isPlainText(fileType, file.name)) {
+      const content = await file.text()
+      const header = this.parseTextHeader(content)
+      if (header) {
+        setOwn(header.own, 'text_header')
+        // Written with toLocaleDateString, so only the day is certain
+        set('lastModified', this.toIsoDate(header.lastModified), 'text_header', 0.6)
+      }
+      text = header ? header.body : content
+    } else {
+      // RTF, HTML and the like carry no metadata we read, only text
+      text = (await textExtractionService.extract(file)).text
+    }
+
+    return { fields, text }
+  }
+
+  private async extractWithAI(fileName: string, text: string, fields: MetadataField[]): Promise<ExtractedFields> {
+    const fieldSchema = {
+      type: 'object',
+      properties: {
+        value: { type: 'string' },
+        confidence: { type: 'number' }
+      },
+      required: ['value', 'confidence']
+    }
+    const { object } = await blink.ai.generateObject({
+      prompt: `Extract document metadata from the text of "${fileName}". Only fill a field when the text states it; leave the value empty otherwise. Give a confidence between 0 and 1 for each value.
+
+Fields:
+${fields.map(field => `- ${field}: ${AI_FIELD_DESCRIPTIONS[field]}`).join('\n')}
+
+Document text:
+${text.slice(0, AI_TEXT_LIMIT)}`,
+      schema: {
+        type: 'object',
+        properties: Object.fromEntries(fields.map(field => [field, fieldSchema]))
+      }
+    })
+
+    const extracted: ExtractedFields = {}
+    for (const field of fields) {
+      const result = object?.[field]
+      const value = field === 'lastModified' ? this.toIsoDate(result?.value) : result?.value?.trim()
+      if (value) {
+        // A guess from text never outranks a value the file declares
+        const confidence = Math.min(AI_MAX_CONFIDENCE, Math.max(0, Number(result.confidence) || 0))
+        extracted[field] = { value, source: 'ai', confidence }
+      }
+    }
+    return extracted
+  }
+
+  private parseXmp(xmp: string): { own: Record<string, string>, identifier?: string, versionId?: string, creator?: string, modifyDate?: string } {
+    const doc = new DOMParser().parseFromString(xmp.replace(/<\?xpacket[^?]*\?>/g, '').trim(), 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      return { own: {} }
+    }
+    // Values can be elements or attributes on rdf:Description
+    const read = (ns: string, name: string) => {
+      const element = doc.getElementsByTagNameNS(ns, name)[0]
+      if (element) return element.textContent?.trim() || undefined
+      const description = Array.from(doc.getElementsByTagNameNS('http://www.w3.org/1999/02/22-rdf-syntax-ns#', 'Description'))
+        .find(d => d.hasAttributeNS(ns, name))
+      return description?.getAttributeNS(ns, name) || undefined
+    }
+
+    const own: Record<string, string> = {}
+    for (const key of Object.keys(OWN_FIELD_NAMES)) {
+      const value = read(XMP_NAMESPACE, key)
+      if (value) own[key] = value
+    }
+    return {
+      own,
+      identifier: read('http://purl.org/dc/elements/1.1/', 'identifier'),
+      versionId: read('http://ns.adobe.com/xap/1.0/mm/', 'VersionID'),
+      creator: read('http://purl.org/dc/elements/1.1/', 'creator'),
+      modifyDate: read('http://ns.adobe.com/xap/1.0/', 'ModifyDate')
+    }
+  }
+
+  /**
+   * Split off the header embedInDocument writes
+   */
+  private parseTextHeader(content: string): { own: Record<string, string>, lastModified?: string, body: string } | null {
+    const match = content.match(/^\s*=== DOCUMENT METADATA ===\r?\n([\s\S]*?)\r?\n=+\r?\n\r?\n?/)
+    if (!match) return null
+
+    const own: Record<string, string> = {}
+    let lastModified: string | undefined
+    for (const line of match[1].split(/\r?\n/)) {
+      const revision = line.match(/^Revision: (.*) \| Version: (.*)$/)
+      if (revision) {
+        own.RevisionNumber = revision[1]
+        own.VersionLabel = revision[2]
+        continue
+      }
+      const [label, ...rest] = line.split(': ')
+      const value = rest.join(': ')
+      if (label === 'Document Reference') own.DocumentReference = value
+      else if (label === 'Modified By') own.ModifiedBy = value
+      else if (label === 'Organization') own.Organization = value
+      else if (label === 'Changes') own.ChangeNotes = value
+      else if (label === 'Last Modified') lastModified = value
+    }
+    return { own, lastModified, body: content.slice(match[0].length) }
+  }
+
+  private toIsoDate(value: string | undefined): string | undefined {
+    if (!value) return undefined
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? undefined : date.toISOString()
+  }
+
   /**
    * Generate metadata footer/header text
    */
@@ -123,98 +492,363 @@ Last Modified: ${new Date(metadata.lastModified).toLocaleDateString()}
 Modified By: ${metadata.modifiedBy}
 Organization: ${metadata.organizationName}
 ${metadata.changeNotes ? `Changes: ${metadata.changeNotes}` : ''}
+${Object.entries(metadata.customFields || {}).map(([key, value]) => `${key}: ${value}`).join('\n')}
     `.trim()
   }
 
   /**
-   * Create metadata overlay for images
+   * Write metadata into EXIF/XMP (JPEG, TIFF), iTXt (PNG) or XMP (SVG)
+   * without re-encoding the pixels. A visibly stamped copy is only produced
+   * when asked for, as a separate rendition.
    */
   private async embedInImage(
     file: File,
     metadata: DocumentMetadata,
-    organizationId: string
+    organizationId: string,
+    options: EmbeddingOptions
   ): Promise<MetadataEmbedding> {
+    const format = imageMetadataService.getFormat(file.type.toLowerCase(), file.name)
+    if (!format) {
+      // GIF, WebP and friends have no metadata slot we write to
+      return this.createCompanionMetadata(file, metadata, organizationId)
+    }
+
     try {
-      // Create a canvas to add metadata overlay
-      const canvas = document.createElement('canvas')
-      const ctx = canvas.getContext('2d')
-      const img = new Image()
-      
-      return new Promise((resolve) => {
-        img.onload = async () => {
-          canvas.width = img.width
-          canvas.height = img.height
-          
-          // Draw original image
-          ctx!.drawImage(img, 0, 0)
-          
-          // Add metadata overlay in bottom right
-          ctx!.fillStyle = 'rgba(0, 0, 0, 0.7)'
-          ctx!.fillRect(canvas.width - 300, canvas.height - 100, 300, 100)
-          
-          ctx!.fillStyle = 'white'
-          ctx!.font = '12px Arial'
-          ctx!.fillText(`Doc: ${metadata.documentReference}`, canvas.width - 290, canvas.height - 80)
-          ctx!.fillText(`Rev: ${metadata.revisionNumber}`, canvas.width - 290, canvas.height - 65)
-          ctx!.fillText(`Ver: ${metadata.versionLabel}`, canvas.width - 290, canvas.height - 50)
-          ctx!.fillText(`Modified: ${new Date(metadata.lastModified).toLocaleDateString()}`, canvas.width - 290, canvas.height - 35)
-          ctx!.fillText(`By: ${metadata.modifiedBy}`, canvas.width - 290, canvas.height - 20)
-          
-          // Convert to blob and upload
-          canvas.toBlob(async (blob) => {
-            if (blob) {
-              const { publicUrl } = await blink.storage.upload(
-                blob,
-                `organizations/${organizationId}/files/metadata_${file.name}`,
-                { upsert: true }
-              )
-              
-              resolve({
-                success: true,
-                modifiedFileUrl: publicUrl,
-                originalFileUrl: URL.createObjectURL(file),
-                metadata,
-                embeddingMethod: 'image_overlay'
-              })
-            } else {
-              resolve({
-                success: false,
-                originalFileUrl: URL.createObjectURL(file),
-                metadata,
-                embeddingMethod: 'none'
-              })
-            }
-          }, file.type)
+      const xmp = this.generateXmpPacket(metadata, file.name, file.type || `image/${format}`)
+      const bytes = imageMetadataService.writeMetadata(new Uint8Array(await file.arrayBuffer()), format, metadata, xmp)
+
+      const timestamp = Date.now()
+      const original = await this.storeOriginal(file, organizationId, timestamp)
+      const modified = await this.storeRendition(new Blob([bytes], { type: file.type }), 'metadata', file.name, organizationId, timestamp)
+
+      let stamped: (StoredBlob & { hash: string }) | undefined
+      if (options.imageStamp && (format === 'jpeg' || format === 'png')) {
+        const stampedImage = await this.stampImage(file, metadata, options.imageStamp)
+        if (stampedImage) {
+          // The canvas drops everything but pixels, so write the metadata again
+          const stampedBytes = imageMetadataService.writeMetadata(new Uint8Array(await stampedImage.arrayBuffer()), format, metadata, xmp)
+          stamped = await this.storeRendition(new Blob([stampedBytes], { type: file.type }), 'stamped', file.name, organizationId, timestamp)
         }
-        
-        img.src = URL.createObjectURL(file)
-      })
+      }
+
+      const method = format === 'png' ? 'png_itxt_xmp' : format === 'svg' ? 'svg_xmp' : `${format}_exif_xmp`
+      return {
+        success: true,
+        modifiedFileUrl: modified.url,
+        modifiedFileHash: modified.hash,
+        originalFileUrl: original.url,
+        stampedRenditionUrl: stamped?.url,
+        stampedRenditionHash: stamped?.hash,
+        storagePaths: this.storagePaths(original, modified, stamped),
+        metadata,
+        embeddingMethod: stamped ? `${method}_stamped` : method
+      }
     } catch (error) {
       console.error('Error embedding in image:', error)
       return {
         success: false,
         originalFileUrl: URL.createObjectURL(file),
         metadata,
-        embeddingMethod: 'none'
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
       }
     }
   }
 
   /**
-   * Embed metadata in PDF (simplified approach)
+   * Draw the revision block in a corner, sized relative to the image so it
+   * reads the same on a thumbnail and a full-resolution scan
+   */
+  private async stampImage(file: File, metadata: DocumentMetadata, stamp: ImageStampOptions): Promise<Blob | null> {
+    const img = new Image()
+    const objectUrl = URL.createObjectURL(file)
+    try {
+      await new Promise<void>((resolve, reject) => {
+        img.onload = () => resolve()
+        img.onerror = () => reject(new Error(`Could not decode ${file.name}`))
+        img.src = objectUrl
+      })
+
+      const canvas = document.createElement('canvas')
+      canvas.width = img.naturalWidth
+      canvas.height = img.naturalHeight
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return null
+      ctx.drawImage(img, 0, 0)
+
+      const lines = [
+        `Doc: ${metadata.documentReference}`,
+        `Rev: ${metadata.revisionNumber}`,
+        `Ver: ${metadata.versionLabel}`,
+        `Modified: ${new Date(metadata.lastModified).toLocaleDateString()}`,
+        `By: ${metadata.modifiedBy}`
+      ]
+      const fontSize = Math.max(8, Math.round(Math.min(canvas.width, canvas.height) * 0.02 * stamp.scale))
+      const lineHeight = Math.round(fontSize * 1.3)
+      const padding = Math.round(fontSize * 0.75)
+      ctx.font = `${fontSize}px Arial`
+      const boxWidth = Math.min(canvas.width, Math.max(...lines.map(line => ctx.measureText(line).width)) + padding * 2)
+      const boxHeight = Math.min(canvas.height, lines.length * lineHeight + padding * 2)
+      const x = stamp.position.endsWith('left') ? padding : canvas.width - boxWidth - padding
+      const y = stamp.position.startsWith('top') ? padding : canvas.height - boxHeight - padding
+
+      ctx.fillStyle = `rgba(0, 0, 0, ${Math.min(1, Math.max(0, stamp.opacity))})`
+      ctx.fillRect(x, y, boxWidth, boxHeight)
+      ctx.fillStyle = 'white'
+      ctx.textBaseline = 'top'
+      lines.forEach((line, index) => {
+        ctx.fillText(line, x + padding, y + padding + index * lineHeight)
+      })
+
+      return await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, file.type, 0.92))
+    } finally {
+      URL.revokeObjectURL(objectUrl)
+    }
+  }
+
+  /**
+   * Write metadata into the PDF Info dictionary and XMP packet, optionally
+   * stamping a revision block on every page. The untouched original is kept
+   * as its own rendition.
    */
   private async embedInPDF(
     file: File,
     metadata: DocumentMetadata,
-    organizationId: string
+    organizationId: string,
+    options: EmbeddingOptions
   ): Promise<MetadataEmbedding> {
-    // For now, create a companion metadata file
-    // In a full implementation, you'd use PDF-lib or similar
-    return await this.createCompanionMetadata(file, metadata, organizationId)
+    try {
+      const stampPosition = options.stampPosition || 'none'
+      const pdfDoc = await PDFDocument.load(await file.arrayBuffer(), { updateMetadata: false })
+
+      this.writePdfInfo(pdfDoc, metadata, file.name)
+      this.writePdfXmp(pdfDoc, metadata, file.name)
+      if (stampPosition !== 'none') {
+        await this.stampPdfPages(pdfDoc, metadata, stampPosition)
+      }
+
+      const bytes = await pdfDoc.save()
+      // Refuse to store output that no longer parses
+      await PDFDocument.load(bytes, { updateMetadata: false })
+
+      const timestamp = Date.now()
+      const original = await this.storeOriginal(file, organizationId, timestamp)
+      const modified = await this.storeRendition(new Blob([bytes], { type: 'application/pdf' }), 'metadata', file.name, organizationId, timestamp)
+
+      return {
+        success: true,
+        modifiedFileUrl: modified.url,
+        modifiedFileHash: modified.hash,
+        originalFileUrl: original.url,
+        storagePaths: this.storagePaths(original, modified),
+        metadata,
+        embeddingMethod: stampPosition === 'none' ? 'pdf_info_xmp' : `pdf_info_xmp_${stampPosition}_stamp`
+      }
+    } catch (error) {
+      console.error('Error embedding in PDF:', error)
+      return {
+        success: false,
+        originalFileUrl: URL.createObjectURL(file),
+        metadata,
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  private writePdfInfo(pdfDoc: PDFDocument, metadata: DocumentMetadata, fileName: string): void {
+    pdfDoc.setTitle(pdfDoc.getTitle() || fileName)
+    pdfDoc.setSubject(`${metadata.documentReference} ${metadata.versionLabel}`)
+    pdfDoc.setKeywords([metadata.documentReference, metadata.revisionNumber, metadata.versionLabel])
+    pdfDoc.setModificationDate(new Date(metadata.lastModified))
+
+    // Custom Info keys so other PDF tools show the full record; the setters
+    // above guarantee the trailer has an Info dictionary
+    const info = pdfDoc.context.lookup(pdfDoc.context.trailerInfo.Info, PDFDict)
+    const custom: Record<string, string> = {
+      DocumentReference: metadata.documentReference,
+      RevisionNumber: metadata.revisionNumber,
+      VersionLabel: metadata.versionLabel,
+      ModifiedBy: metadata.modifiedBy,
+      Organization: metadata.organizationName,
+      ChangeNotes: metadata.changeNotes,
+      ...metadata.customFields
+    }
+    for (const [key, value] of Object.entries(custom)) {
+      if (value) info.set(PDFName.of(key), PDFHexString.fromText(value))
+    }
+  }
+
+  private writePdfXmp(pdfDoc: PDFDocument, metadata: DocumentMetadata, fileName: string): void {
+    const xmp = this.generateXmpPacket(metadata, pdfDoc.getTitle() || fileName, 'application/pdf')
+    const stream = pdfDoc.context.stream(new TextEncoder().encode(xmp), {
+      Type: 'Metadata',
+      Subtype: 'XML'
+    })
+    pdfDoc.catalog.set(PDFName.of('Metadata'), pdfDoc.context.register(stream))
+  }
+
+  /**
+   * XMP packet with Dublin Core, XMP basic and our own fields, shared by
+   * every container that can carry XMP
+   */
+  private generateXmpPacket(metadata: DocumentMetadata, title: string, format: string): string {
+    const modified = new Date(metadata.lastModified).toISOString()
+    const keywords = [metadata.documentReference, metadata.revisionNumber, metadata.versionLabel].join(' ')
+    const isPdf = format === 'application/pdf'
+    const fields: [string, string][] = [
+      ['DocumentReference', metadata.documentReference],
+      ['RevisionNumber', metadata.revisionNumber],
+      ['VersionLabel', metadata.versionLabel],
+      ['ModifiedBy', metadata.modifiedBy],
+      ['Organization', metadata.organizationName],
+      ['ChangeNotes', metadata.changeNotes]
+    ]
+
+    return `<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>
+<x:xmpmeta xmlns:x="adobe:ns:meta/">
+  <rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">
+    <rdf:Description rdf:about=""
+        xmlns:dc="http://purl.org/dc/elements/1.1/"
+        xmlns:xmp="http://ns.adobe.com/xap/1.0/"
+        xmlns:xmpMM="http://ns.adobe.com/xap/1.0/mm/"${isPdf ? `
+        xmlns:pdf="http://ns.adobe.com/pdf/1.3/"` : ''}
+        xmlns:cv="${XMP_NAMESPACE}"
+        xmlns:cvx="${XMP_CUSTOM_NAMESPACE}">
+      <dc:format>${escapeXml(format)}</dc:format>
+      <dc:title><rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(title)}</rdf:li></rdf:Alt></dc:title>
+      <dc:identifier>${escapeXml(metadata.documentReference)}</dc:identifier>${metadata.modifiedBy ? `
+      <dc:creator><rdf:Seq><rdf:li>${escapeXml(metadata.modifiedBy)}</rdf:li></rdf:Seq></dc:creator>` : ''}
+      <xmp:ModifyDate>${modified}</xmp:ModifyDate>
+      <xmp:MetadataDate>${new Date().toISOString()}</xmp:MetadataDate>
+      <xmpMM:VersionID>${escapeXml(metadata.versionLabel)}</xmpMM:VersionID>
+      ${isPdf
+        ? `<pdf:Keywords>${escapeXml(keywords)}</pdf:Keywords>`
+        : `<dc:subject><rdf:Bag>${keywords.split(' ').filter(Boolean).map(keyword => `<rdf:li>${escapeXml(keyword)}</rdf:li>`).join('')}</rdf:Bag></dc:subject>`}
+${fields.filter(([, value]) => value).map(([key, value]) => `      <cv:${key}>${escapeXml(value)}</cv:${key}>`).join('\n')}
+${Object.entries(metadata.customFields || {}).filter(([, value]) => value).map(([key, value]) => `      <cvx:${key}>${escapeXml(value)}</cvx:${key}>`).join('\n')}
+    </rdf:Description>
+  </rdf:RDF>
+</x:xmpmeta>
+<?xpacket end="w"?>`
+  }
+
+  private async stampPdfPages(pdfDoc: PDFDocument, metadata: DocumentMetadata, position: 'header' | 'footer'): Promise<void> {
+    const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+    const lines = this.generateMetadataText(metadata).split('\n').map(line => toWinAnsi(line.trim())).filter(Boolean)
+    const fontSize = 7
+    const lineHeight = 8.5
+    const margin = 18
+
+    pdfDoc.getPages().forEach((page: PDFPage) => {
+      const box = page.getCropBox()
+      const blockHeight = lines.length * lineHeight
+      const top = position === 'header' ? box.y + box.height - margin : box.y + margin + blockHeight
+      const width = Math.max(...lines.map(line => font.widthOfTextAtSize(line, fontSize)))
+
+      page.drawRectangle({
+        x: box.x + margin - 4,
+        y: top - blockHeight - 2,
+        width: width + 8,
+        height: blockHeight + 6,
+        color: rgb(1, 1, 1),
+        opacity: 0.85
+      })
+      lines.forEach((line, index) => {
+        page.drawText(line, {
+          x: box.x + margin,
+          y: top - (index + 1) * lineHeight + 2,
+          size: fontSize,
+          font,
+          color: rgb(0.2, 0.2, 0.2)
+        })
+      })
+    })
+  }
+
+  /**
+   * Keep the uploaded bytes unchanged next to the rendition carrying metadata
+   */
+  private async storeOriginal(file: File, organizationId: string, timestamp: number): Promise<StoredBlob> {
+    const path = `organizations/${organizationId}/files/original_${timestamp}_${file.name}`
+    const { publicUrl } = await blink.storage.upload(file, path, { upsert: true })
+    return { url: publicUrl, path }
+  }
+
+  /**
+   * Upload a rendition we produced, with the hash verifyDocument matches copies against
+   */
+  private async storeRendition(
+    blob: Blob,
+    kind: 'metadata' | 'stamped',
+    fileName: string,
+    organizationId: string,
+    timestamp: number
+  ): Promise<StoredBlob & { hash: string }> {
+    const hash = await contentHashService.computeContentHash(blob)
+    const path = `organizations/${organizationId}/files/${kind}_${timestamp}_${fileName}`
+    const { publicUrl } = await blink.storage.upload(blob, path, { upsert: true })
+    return { url: publicUrl, path, hash }
+  }
+
+  private storagePaths(...blobs: Array<StoredBlob | undefined>): Record<string, string> {
+    return Object.fromEntries(blobs.filter((blob): blob is StoredBlob => !!blob).map(blob => [blob.url, blob.path]))
+  }
+
+  /**
+   * Write core and custom document properties into DOCX, XLSX and PPTX packages
+   */
+  private async embedInOfficeDocument(
+    file: File,
+    metadata: DocumentMetadata,
+    organizationId: string,
+    format: OfficeFormat,
+    options: EmbeddingOptions
+  ): Promise<MetadataEmbedding> {
+    try {
+      const fieldPosition = format === 'docx' ? options.stampPosition || 'none' : 'none'
+      const bytes = officeMetadataService.writeProperties(
+        new Uint8Array(await file.arrayBuffer()),
+        metadata,
+        format,
+        fieldPosition
+      )
+      // Refuse to store a package Office would reject
+      officeMetadataService.validate(bytes)
+
+      const timestamp = Date.now()
+      const original = await this.storeOriginal(file, organizationId, timestamp)
+      const modified = await this.storeRendition(new Blob([bytes], { type: file.type }), 'metadata', file.name, organizationId, timestamp)
+
+      return {
+        success: true,
+        modifiedFileUrl: modified.url,
+        modifiedFileHash: modified.hash,
+        originalFileUrl: original.url,
+        storagePaths: this.storagePaths(original, modified),
+        metadata,
+        embeddingMethod: fieldPosition === 'none' ? 'office_properties' : `office_properties_${fieldPosition}_field`
+      }
+    } catch (error) {
+      console.error('Error embedding in Office document:', error)
+      return {
+        success: false,
+        originalFileUrl: URL.createObjectURL(file),
+        metadata,
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
+      }
+    }
+  }
+
+  private isPlainText(fileType: string, fileName: string): boolean {
+    const extension = fileName.split('.').pop()?.toLowerCase() || ''
+    const untyped = !fileType || fileType === 'application/octet-stream'
+    return PLAIN_TEXT_TYPES.includes(fileType) || (untyped && PLAIN_TEXT_EXTENSIONS.includes(extension))
   }
 
   /**
-   * Embed metadata in text documents
+   * Embed metadata in plain-text documents as a header block
    */
   private async embedInDocument(
     file: File,
@@ -222,7 +856,9 @@ ${metadata.changeNotes ? `Changes: ${metadata.changeNotes}` : ''}
     organizationId: string
   ): Promise<MetadataEmbedding> {
     try {
+      // Replace the header of a file that went through here before instead of stacking another
       const content = await file.text()
+      const body = this.parseTextHeader(content)?.body ?? content
       const metadataHeader = `
 === DOCUMENT METADATA ===
 ${this.generateMetadataText(metadata)}
@@ -230,19 +866,19 @@ ${this.generateMetadataText(metadata)}
 
 `
       
-      const modifiedContent = metadataHeader + content
+      const modifiedContent = metadataHeader + body
       const blob = new Blob([modifiedContent], { type: file.type })
       
-      const { publicUrl } = await blink.storage.upload(
-        blob,
-        `organizations/${organizationId}/files/metadata_${file.name}`,
-        { upsert: true }
-      )
+      const timestamp = Date.now()
+      const original = await this.storeOriginal(file, organizationId, timestamp)
+      const modified = await this.storeRendition(blob, 'metadata', file.name, organizationId, timestamp)
       
       return {
         success: true,
-        modifiedFileUrl: publicUrl,
-        originalFileUrl: URL.createObjectURL(file),
+        modifiedFileUrl: modified.url,
+        modifiedFileHash: modified.hash,
+        originalFileUrl: original.url,
+        storagePaths: this.storagePaths(original, modified),
         metadata,
         embeddingMethod: 'text_header'
       }
@@ -252,7 +888,8 @@ ${this.generateMetadataText(metadata)}
         success: false,
         originalFileUrl: URL.createObjectURL(file),
         metadata,
-        embeddingMethod: 'none'
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
       }
     }
   }
@@ -275,18 +912,18 @@ ${this.generateMetadataText(metadata)}
       }, null, 2)
       
       const metadataBlob = new Blob([metadataContent], { type: 'application/json' })
-      const metadataFileName = `${file.name}.metadata.json`
+      const timestamp = Date.now()
+      const metadataFileName = `${timestamp}_${file.name}.metadata.json`
       
-      const { publicUrl } = await blink.storage.upload(
-        metadataBlob,
-        `organizations/${organizationId}/files/${metadataFileName}`,
-        { upsert: true }
-      )
+      const original = await this.storeOriginal(file, organizationId, timestamp)
+      const companionPath = `organizations/${organizationId}/files/${metadataFileName}`
+      const { publicUrl } = await blink.storage.upload(metadataBlob, companionPath, { upsert: true })
       
       return {
         success: true,
-        modifiedFileUrl: publicUrl,
-        originalFileUrl: URL.createObjectURL(file),
+        originalFileUrl: original.url,
+        companionFileUrl: publicUrl,
+        storagePaths: this.storagePaths(original, { url: publicUrl, path: companionPath }),
         metadata,
         embeddingMethod: 'companion_file'
       }
@@ -296,7 +933,8 @@ ${this.generateMetadataText(metadata)}
         success: false,
         originalFileUrl: URL.createObjectURL(file),
         metadata,
-        embeddingMethod: 'none'
+        embeddingMethod: 'none',
+        error: error instanceof Error ? error.message : String(error)
       }
     }
   }
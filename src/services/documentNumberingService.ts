@@ -0,0 +1,450 @@
+import { blink } from '../blink/client'
+import { aiSimilarityService } from './aiSimilarityService'
+
+export interface NumberingScheme {
+  id: string
+  organizationId: string
+  prefix: string
+  name: string
+  // Type prefix from aiSimilarityService.getTypePrefix that picks this scheme automatically
+  documentType?: string
+  width: number
+  nextNumber: number
+  isDefault: boolean
+}
+
+export type DocumentNumberStatus = 'reserved' | 'assigned'
+
+export interface DocumentNumber {
+  id: string
+  organizationId: string
+  schemeId: string
+  reference: string
+  number: number
+  status: DocumentNumberStatus
+  fileId?: string
+  reservedBy?: string
+  note?: string
+  createdAt: string
+}
+
+export interface NumberRange {
+  id: string
+  organizationId: string
+  schemeId: string
+  start: number
+  end: number
+  note?: string
+  importedBy: string
+  createdAt: string
+}
+
+export interface NumberingUser {
+  id: string
+  email?: string
+}
+
+// Used until an organization defines its own schemes
+const DEFAULT_SCHEME = { prefix: 'DOC', name: 'Document', width: 4 }
+
+const PREFIX_PATTERN = /^[A-Z][A-Z0-9]*$/
+const MAX_RESERVATION = 100
+// A crowded counter moves on by one per collision, so this only runs out under heavy contention
+const MAX_ATTEMPTS = 50
+
+// Only a row that already holds the reference means the number is taken; anything else is a real failure
+const isDuplicateKeyError = (error: unknown) => {
+  const status = (error as { status?: number } | null)?.status
+  const message = error instanceof Error ? error.message : String(error)
+  return status === 409 || /unique|duplicate|already exists/i.test(message)
+}
+
+export class DocumentNumberingService {
+  private static instance: DocumentNumberingService
+
+  static getInstance(): DocumentNumberingService {
+    if (!DocumentNumberingService.instance) {
+      DocumentNumberingService.instance = new DocumentNumberingService()
+    }
+    return DocumentNumberingService.instance
+  }
+
+  async listSchemes(organizationId: string): Promise<NumberingScheme[]> {
+    try {
+      const rows = await blink.db.numberingSchemes.list({
+        where: { organization_id: organizationId },
+        orderBy: { prefix: 'asc' }
+      })
+      return rows.map((row: any) => this.toScheme(row))
+    } catch (error) {
+      console.error('Error loading numbering schemes:', error)
+      return []
+    }
+  }
+
+  async saveScheme(scheme: Omit<NumberingScheme, 'id' | 'nextNumber'> & { id?: string, nextNumber?: number }): Promise<void> {
+    const prefix = scheme.prefix.trim().toUpperCase()
+    if (!PREFIX_PATTERN.test(prefix)) {
+      throw new Error('Prefix must start with a letter and contain only letters and digits')
+    }
+    if (!scheme.name.trim()) {
+      throw new Error('Name is required')
+    }
+    if (!(scheme.width >= 1 && scheme.width <= 10)) {
+      throw new Error('Digits must be between 1 and 10')
+    }
+
+    const existing = await this.listSchemes(scheme.organizationId)
+    if (existing.some(other => other.prefix === prefix && other.id !== scheme.id)) {
+      throw new Error(`A scheme with prefix ${prefix} already exists`)
+    }
+
+    const now = new Date().toISOString()
+    const data: Record<string, any> = {
+      organization_id: scheme.organizationId,
+      prefix,
+      name: scheme.name.trim(),
+      document_type: scheme.documentType || null,
+      width: scheme.width,
+      is_default: scheme.isDefault ? 1 : 0,
+      updated_at: now
+    }
+    if (scheme.nextNumber !== undefined) {
+      data.next_number = Math.max(1, Math.floor(scheme.nextNumber))
+    }
+
+    // Only one scheme may catch documents no other scheme claims
+    if (scheme.isDefault) {
+      for (const other of existing) {
+        if (other.isDefault && other.id !== scheme.id) {
+          await blink.db.numberingSchemes.update(other.id, { is_default: 0, updated_at: now })
+        }
+      }
+    }
+
+    if (scheme.id) {
+      await blink.db.numberingSchemes.update(scheme.id, data)
+    } else {
+      await blink.db.numberingSchemes.create({
+        id: `scheme_${Date.now()}`,
+        next_number: 1,
+        ...data,
+        created_at: now
+      })
+    }
+  }
+
+  async deleteScheme(schemeId: string): Promise<void> {
+    const used = await blink.db.documentNumbers.list({ where: { scheme_id: schemeId }, limit: 1 })
+    if (used.length > 0) {
+      throw new Error('Numbers were already issued from this scheme; it can no longer be deleted')
+    }
+    await blink.db.numberingSchemes.delete(schemeId)
+  }
+
+  /**
+   * Scheme for a new document: the one mapped to its type, then the default
+   */
+  resolveScheme(schemes: NumberingScheme[], fileType?: string | null): NumberingScheme | null {
+    const documentType = aiSimilarityService.getTypePrefix(fileType || '').toLowerCase()
+    return schemes.find(scheme => scheme.documentType?.toLowerCase() === documentType) ||
+      schemes.find(scheme => scheme.isDefault) ||
+      null
+  }
+
+  formatReference(scheme: Pick<NumberingScheme, 'prefix' | 'width'>, number: number): string {
+    return `${scheme.prefix}-${number.toString().padStart(scheme.width, '0')}`
+  }
+
+  /**
+   * Next free reference from a scheme, recorded against the file. Each
+   * reference is claimed by creating its registry row under an id derived
+   * from the reference, so two uploads racing for the same number cannot
+   * both succeed; the loser moves on to the next number.
+   */
+  async allocate(
+    organizationId: string,
+    options: { schemeId?: string, fileType?: string | null, fileId?: string },
+    user: NumberingUser
+  ): Promise<string> {
+    const scheme = await this.getScheme(organizationId, options.schemeId, options.fileType)
+    const [number] = await this.claimNumbers(scheme, 1, user, { status: 'assigned', fileId: options.fileId })
+    return number.reference
+  }
+
+  /**
+   * Hold numbers for documents that do not exist yet; without a scheme the
+   * default one is used
+   */
+  async reserve(
+    organizationId: string,
+    schemeId: string | undefined,
+    count: number,
+    user: NumberingUser,
+    note?: string
+  ): Promise<string[]> {
+    if (!(count >= 1 && count <= MAX_RESERVATION)) {
+      throw new Error(`Reserve between 1 and ${MAX_RESERVATION} numbers at a time`)
+    }
+    const scheme = await this.getScheme(organizationId, schemeId)
+    const numbers = await this.claimNumbers(scheme, Math.floor(count), user, { status: 'reserved', note })
+    return numbers.map(number => number.reference)
+  }
+
+  async listReservations(organizationId: string): Promise<DocumentNumber[]> {
+    try {
+      const rows = await blink.db.documentNumbers.list({
+        where: { organization_id: organizationId, status: 'reserved' },
+        orderBy: { created_at: 'asc' }
+      })
+      return rows.map((row: any) => this.toNumber(row))
+    } catch (error) {
+      console.error('Error loading reserved numbers:', error)
+      return []
+    }
+  }
+
+  /**
+   * Give a reserved number to the document being uploaded
+   */
+  async assignReserved(organizationId: string, reference: string, fileId: string): Promise<string> {
+    const row = (await blink.db.documentNumbers.list({
+      where: { id: this.numberId(organizationId, reference) }
+    }))[0]
+    if (!row || row.status !== 'reserved') {
+      throw new Error(`${reference} is not reserved`)
+    }
+    await blink.db.documentNumbers.update(row.id, {
+      status: 'assigned',
+      file_id: fileId,
+      assigned_at: new Date().toISOString()
+    })
+    return reference
+  }
+
+  /**
+   * Undo an allocation whose upload failed: reserved numbers go back to
+   * their reservation, fresh ones become free again
+   */
+  async releaseAllocation(organizationId: string, reference: string): Promise<void> {
+    try {
+      const row = (await blink.db.documentNumbers.list({
+        where: { id: this.numberId(organizationId, reference) }
+      }))[0]
+      if (!row || row.status !== 'assigned') return
+      if (row.reserved_by) {
+        await blink.db.documentNumbers.update(row.id, { status: 'reserved', file_id: null, assigned_at: null })
+      } else {
+        await blink.db.documentNumbers.delete(row.id)
+      }
+    } catch (error) {
+      console.error('Error releasing document number:', error)
+    }
+  }
+
+  /**
+   * Give up a reservation so the number can be issued again
+   */
+  async cancelReservation(organizationId: string, reference: string): Promise<void> {
+    const row = (await blink.db.documentNumbers.list({
+      where: { id: this.numberId(organizationId, reference) }
+    }))[0]
+    if (!row || row.status !== 'reserved') {
+      throw new Error(`${reference} is not reserved`)
+    }
+    await blink.db.documentNumbers.delete(row.id)
+  }
+
+  async listRanges(organizationId: string, schemeId?: string): Promise<NumberRange[]> {
+    try {
+      const rows = await blink.db.documentNumberRanges.list({
+        where: schemeId ? { organization_id: organizationId, scheme_id: schemeId } : { organization_id: organizationId },
+        orderBy: { start_number: 'asc' }
+      })
+      return rows.map((row: any) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        schemeId: row.scheme_id,
+        start: Number(row.start_number),
+        end: Number(row.end_number),
+        note: row.note || undefined,
+        importedBy: row.imported_by,
+        createdAt: row.created_at
+      }))
+    } catch (error) {
+      console.error('Error loading imported number ranges:', error)
+      return []
+    }
+  }
+
+  /**
+   * Mark numbers already used outside the vault, such as a legacy register,
+   * so they are never issued again
+   */
+  async importRange(
+    organizationId: string,
+    schemeId: string,
+    start: number,
+    end: number,
+    user: NumberingUser,
+    note?: string
+  ): Promise<void> {
+    if (!Number.isInteger(start) || !Number.isInteger(end) || start < 1 || end < start) {
+      throw new Error('Enter a range of whole numbers where the first is not above the last')
+    }
+    const scheme = await this.getScheme(organizationId, schemeId)
+    const overlap = (await this.listRanges(organizationId, scheme.id))
+      .find(range => start <= range.end && end >= range.start)
+    if (overlap) {
+      throw new Error(`Overlaps the imported range ${this.formatReference(scheme, overlap.start)} to ${this.formatReference(scheme, overlap.end)}`)
+    }
+
+    await blink.db.documentNumberRanges.create({
+      id: `range_${Date.now()}`,
+      organization_id: organizationId,
+      scheme_id: scheme.id,
+      start_number: start,
+      end_number: end,
+      note: note || null,
+      imported_by: user.email || user.id,
+      created_at: new Date().toISOString()
+    })
+
+    if (scheme.nextNumber >= start && scheme.nextNumber <= end) {
+      await blink.db.numberingSchemes.update(scheme.id, { next_number: end + 1, updated_at: new Date().toISOString() })
+    }
+  }
+
+  async deleteRange(rangeId: string): Promise<void> {
+    await blink.db.documentNumberRanges.delete(rangeId)
+  }
+
+  private async getScheme(organizationId: string, schemeId?: string, fileType?: string | null): Promise<NumberingScheme> {
+    const schemes = await this.listSchemes(organizationId)
+    const scheme = schemeId
+      ? schemes.find(candidate => candidate.id === schemeId)
+      : this.resolveScheme(schemes, fileType)
+    if (scheme) return scheme
+    if (schemeId) {
+      throw new Error('Numbering scheme not found')
+    }
+
+    // Organizations without schemes get a default one so the counter persists
+    const fallback = schemes.find(candidate => candidate.prefix === DEFAULT_SCHEME.prefix)
+    if (fallback) return fallback
+    await this.saveScheme({ organizationId, ...DEFAULT_SCHEME, isDefault: true })
+    const created = (await this.listSchemes(organizationId)).find(candidate => candidate.prefix === DEFAULT_SCHEME.prefix)
+    if (!created) {
+      throw new Error('Could not create the default numbering scheme')
+    }
+    return created
+  }
+
+  private async claimNumbers(
+    scheme: NumberingScheme,
+    count: number,
+    user: NumberingUser,
+    claim: { status: DocumentNumberStatus, fileId?: string, note?: string }
+  ): Promise<DocumentNumber[]> {
+    const ranges = await this.listRanges(scheme.organizationId, scheme.id)
+    const claimed: DocumentNumber[] = []
+    let number = Math.max(1, scheme.nextNumber)
+    let collisions = 0
+
+    while (claimed.length < count) {
+      const range = ranges.find(candidate => number >= candidate.start && number <= candidate.end)
+      if (range) {
+        number = range.end + 1
+        continue
+      }
+
+      const reference = this.formatReference(scheme, number)
+      const row = await this.tryClaim(scheme, number, reference, user, claim)
+      if (row) {
+        claimed.push(row)
+      } else if (++collisions >= MAX_ATTEMPTS) {
+        throw new Error(`Could not allocate a ${scheme.prefix} number; try again`)
+      }
+      number++
+    }
+
+    // Move the counter on; a concurrent allocation may already have moved it further
+    const latest = (await blink.db.numberingSchemes.list({ where: { id: scheme.id } }))[0]
+    if (!latest || Number(latest.next_number) < number) {
+      await blink.db.numberingSchemes.update(scheme.id, { next_number: number, updated_at: new Date().toISOString() })
+    }
+    return claimed
+  }
+
+  private async tryClaim(
+    scheme: NumberingScheme,
+    number: number,
+    reference: string,
+    user: NumberingUser,
+    claim: { status: DocumentNumberStatus, fileId?: string, note?: string }
+  ): Promise<DocumentNumber | null> {
+    // Documents numbered before the registry existed also hold references
+    const inUse = await blink.db.files.list({
+      where: { organization_id: scheme.organizationId, document_reference: reference },
+      limit: 1
+    })
+    if (inUse.length > 0) return null
+
+    const now = new Date().toISOString()
+    const row = {
+      id: this.numberId(scheme.organizationId, reference),
+      organization_id: scheme.organizationId,
+      scheme_id: scheme.id,
+      reference,
+      number,
+      status: claim.status,
+      file_id: claim.fileId || null,
+      reserved_by: claim.status === 'reserved' ? user.email || user.id : null,
+      note: claim.note || null,
+      assigned_at: claim.status === 'assigned' ? now : null,
+      created_at: now
+    }
+    try {
+      // The primary key is the reference itself, so a second claim is rejected
+      await blink.db.documentNumbers.create(row)
+      return this.toNumber(row)
+    } catch (error) {
+      if (isDuplicateKeyError(error)) return null
+      throw error
+    }
+  }
+
+  private numberId(organizationId: string, reference: string): string {
+    return `docnum_${organizationId}_${reference}`
+  }
+
+  private toScheme(row: any): NumberingScheme {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      prefix: row.prefix,
+      name: row.name,
+      documentType: row.document_type || undefined,
+      width: Number(row.width) || DEFAULT_SCHEME.width,
+      nextNumber: Number(row.next_number) || 1,
+      isDefault: Number(row.is_default) > 0
+    }
+  }
+
+  private toNumber(row: any): DocumentNumber {
+    return {
+      id: row.id,
+      organizationId: row.organization_id,
+      schemeId: row.scheme_id,
+      reference: row.reference,
+      number: Number(row.number),
+      status: row.status,
+      fileId: row.file_id || undefined,
+      reservedBy: row.reserved_by || undefined,
+      note: row.note || undefined,
+      createdAt: row.created_at
+    }
+  }
+}
+
+export const documentNumberingService = DocumentNumberingService.getInstance()
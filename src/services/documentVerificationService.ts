@@ -0,0 +1,390 @@
+import { blink } from '../blink/client'
+import { contentHashService } from './contentHashService'
+import { documentMetadataService, type ExtractedFields } from './documentMetadataService'
+import { lifecycleService, LIFECYCLE_LABELS, type LifecycleState } from './lifecycleService'
+
+export type VerificationStatus =
+  | 'current'
+  | 'superseded'
+  | 'obsolete'
+  | 'not_released'
+  | 'modified'
+  | 'unknown_revision'
+  | 'not_found'
+
+export interface VerificationUser {
+  id: string
+  email?: string
+}
+
+export interface VerifiedRevision {
+  fileId: string
+  fileName: string
+  // Absent for files that predate fileVersions rows
+  versionId?: string
+  versionLabel: string
+  state: LifecycleState
+  isCurrent: boolean
+  filePath: string
+  createdAt: string
+  approvedAt?: string
+  approvedBy?: string
+  supersededAt?: string
+}
+
+export interface DocumentVerification {
+  status: VerificationStatus
+  summary: string
+  contentHash: string
+  // What the copy says about itself
+  embedded: ExtractedFields
+  embeddedReference?: string
+  embeddedRevision?: string
+  documentReference?: string
+  matchedBy: 'hash' | 'reference' | null
+  // False when the revision was found but we have no hash of the copy we issued
+  contentVerified: boolean
+  // The revision the copy is, or claims to be when it was modified
+  revision?: VerifiedRevision
+  current?: VerifiedRevision
+  // Releases after the copy's revision, oldest first
+  supersededBy: VerifiedRevision[]
+}
+
+export const VERIFICATION_STATUS_LABELS: Record<VerificationStatus, string> = {
+  current: 'Current revision',
+  superseded: 'Superseded',
+  obsolete: 'Obsolete',
+  not_released: 'Not released',
+  modified: 'Modified after issue',
+  unknown_revision: 'Unknown revision',
+  not_found: 'Not found'
+}
+
+// Every copy we hand out: the upload itself, the copy carrying metadata and the stamped image
+const HASH_COLUMNS = ['content_hash', 'issued_hash', 'stamped_hash'] as const
+
+const RELEASED_STATES: LifecycleState[] = ['approved', 'effective', 'superseded', 'obsolete']
+
+interface Candidate {
+  file: any
+  version?: any
+}
+
+export class DocumentVerificationService {
+  private static instance: DocumentVerificationService
+
+  static getInstance(): DocumentVerificationService {
+    if (!DocumentVerificationService.instance) {
+      DocumentVerificationService.instance = new DocumentVerificationService()
+    }
+    return DocumentVerificationService.instance
+  }
+
+  /**
+   * Work out which revision a copy of a document is and whether it is still
+   * the one in force. Byte-identical copies are matched by hash; otherwise
+   * the reference and revision embedded in the copy are looked up, and a
+   * copy that claims a known revision without matching it was modified.
+   */
+  async verifyDocument(file: File, organizationId: string, user: VerificationUser): Promise<DocumentVerification> {
+    const contentHash = await contentHashService.computeContentHash(file)
+    const embedded = await documentMetadataService.readEmbeddedMetadata(file)
+    const embeddedReference = embedded.documentReference?.value
+    const embeddedRevision = embedded.revisionNumber?.value || embedded.versionLabel?.value
+
+    const base = { contentHash, embedded, embeddedReference, embeddedRevision, supersededBy: [] as VerifiedRevision[] }
+
+    const hashMatches = await this.findByHash(organizationId, contentHash)
+    let candidate: Candidate | undefined
+    let matchedBy: DocumentVerification['matchedBy'] = null
+    let contentVerified = false
+
+    if (hashMatches.length > 0) {
+      // One upload can live in several documents; prefer the one the copy names, then the current revision
+      candidate = hashMatches.find(match => embeddedReference && match.file.document_reference === embeddedReference && this.isCurrent(match)) ||
+        hashMatches.find(match => embeddedReference && match.file.document_reference === embeddedReference) ||
+        hashMatches.find(match => this.isCurrent(match)) ||
+        hashMatches[0]
+      matchedBy = 'hash'
+      contentVerified = true
+    } else if (embeddedReference) {
+      const files = await blink.db.files.list({
+        where: { organization_id: organizationId, document_reference: embeddedReference }
+      })
+      const liveFiles = files.filter((row: any) => !row.deleted_at)
+      if (liveFiles.length === 0) {
+        return this.finish({
+          ...base,
+          status: 'not_found',
+          summary: `No document with reference ${embeddedReference} exists in this organization.`,
+          matchedBy: null,
+          contentVerified: false
+        }, organizationId, user)
+      }
+
+      const revisions = await this.listRevisions(liveFiles)
+      candidate = embeddedRevision
+        ? revisions.find(revision => (revision.version?.version_label || revision.file.version_label) === embeddedRevision)
+        : undefined
+      matchedBy = 'reference'
+
+      if (!candidate) {
+        const current = revisions.find(revision => this.isCurrent(revision))
+        return this.finish({
+          ...base,
+          status: 'unknown_revision',
+          summary: embeddedRevision
+            ? `${embeddedReference} has no revision ${embeddedRevision}.`
+            : `The copy names ${embeddedReference} but no revision.`,
+          documentReference: embeddedReference,
+          matchedBy,
+          contentVerified: false,
+          current: current ? this.toRevision(current) : undefined
+        }, organizationId, user, current?.file.id)
+      }
+    } else {
+      return this.finish({
+        ...base,
+        status: 'not_found',
+        summary: 'The copy matches no stored document and carries no document reference.',
+        matchedBy: null,
+        contentVerified: false
+      }, organizationId, user)
+    }
+
+    // Revisions uploaded before fileVersions existed are separate files rows sharing the reference
+    const documentFiles = candidate.file.document_reference
+      ? (await blink.db.files.list({
+          where: { organization_id: organizationId, document_reference: candidate.file.document_reference }
+        })).filter((row: any) => !row.deleted_at)
+      : [candidate.file]
+    const revisions = await this.listRevisions(documentFiles)
+    const revision = this.toRevision(candidate)
+    const currentCandidate = revisions.find(entry => this.isCurrent(entry))
+    const current = currentCandidate ? this.toRevision(currentCandidate) : undefined
+    const releasedAt = (entry: VerifiedRevision) => new Date(entry.approvedAt || entry.createdAt).getTime()
+    const supersededBy = revisions
+      .map(entry => this.toRevision(entry))
+      .filter(entry =>
+        (entry.fileId !== revision.fileId || entry.versionId !== revision.versionId) &&
+        RELEASED_STATES.includes(entry.state) &&
+        releasedAt(entry) > releasedAt(revision)
+      )
+      .sort((a, b) => releasedAt(a) - releasedAt(b))
+
+    // A reference match is only a modification when we know what the issued bytes were
+    const row = candidate.version || candidate.file
+    const comparable = matchedBy === 'reference' && Boolean(row.issued_hash || (!row.embedding_method && row.content_hash))
+
+    const status: VerificationStatus = comparable ? 'modified' : this.getStatus(revision)
+    return this.finish({
+      ...base,
+      status,
+      summary: this.summarize(status, revision, current, supersededBy, contentVerified),
+      documentReference: candidate.file.document_reference || embeddedReference,
+      matchedBy,
+      contentVerified,
+      revision,
+      current,
+      supersededBy
+    }, organizationId, user, candidate.file.id)
+  }
+
+  /**
+   * Remember the hash of a copy built from a revision so verifyDocument recognises it
+   */
+  async recordIssuedCopy(
+    copy: Blob,
+    kind: string,
+    target: { fileId: string, versionId?: string, organizationId: string },
+    user: VerificationUser
+  ): Promise<string> {
+    const contentHash = await contentHashService.computeContentHash(copy)
+    await blink.db.issuedCopies.create({
+      id: `issued_${Date.now()}`,
+      organization_id: target.organizationId,
+      file_id: target.fileId,
+      version_id: target.versionId || null,
+      content_hash: contentHash,
+      kind,
+      issued_by: user.email || user.id,
+      created_at: new Date().toISOString()
+    })
+    return contentHash
+  }
+
+  private getStatus(revision: VerifiedRevision): VerificationStatus {
+    if (revision.state === 'draft' || revision.state === 'in_review') return 'not_released'
+    if (revision.state === 'obsolete') return 'obsolete'
+    return revision.isCurrent ? 'current' : 'superseded'
+  }
+
+  private summarize(
+    status: VerificationStatus,
+    revision: VerifiedRevision,
+    current: VerifiedRevision | undefined,
+    supersededBy: VerifiedRevision[],
+    contentVerified: boolean
+  ): string {
+    const replacement = supersededBy[0]
+    const unverified = contentVerified ? '' : ' The content could not be checked against the issued copy.'
+    switch (status) {
+      case 'current':
+        return `This is the current revision ${revision.versionLabel} of ${revision.fileName}.${unverified}`
+      case 'superseded':
+        return `Revision ${revision.versionLabel} was superseded` +
+          (replacement ? ` by ${replacement.versionLabel}` : '') +
+          (current ? `; the current revision is ${current.versionLabel}.` : '.') + unverified
+      case 'obsolete':
+        return `Revision ${revision.versionLabel} of ${revision.fileName} is obsolete and must not be used.${unverified}`
+      case 'not_released':
+        return `Revision ${revision.versionLabel} is ${LIFECYCLE_LABELS[revision.state].toLowerCase()} and has not been released.` +
+          (current ? ` The current revision is ${current.versionLabel}.` : '') + unverified
+      case 'modified':
+        return `The copy claims revision ${revision.versionLabel} of ${revision.fileName}, but its content differs from what was issued.` +
+          (current && current.versionLabel !== revision.versionLabel ? ` The current revision is ${current.versionLabel}.` : '')
+      default:
+        return ''
+    }
+  }
+
+  /**
+   * Files and version rows in the organization holding a copy with this hash
+   */
+  private async findByHash(organizationId: string, contentHash: string): Promise<Candidate[]> {
+    const matches: Candidate[] = []
+    const parents = new Map<string, any>()
+
+    for (const column of HASH_COLUMNS) {
+      const files = await blink.db.files.list({
+        where: { organization_id: organizationId, [column]: contentHash }
+      })
+      for (const file of files) {
+        if (file.deleted_at) continue
+        parents.set(file.id, file)
+        // Files with version rows are matched through those rows below
+        const versions = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+        if (versions.length === 0 && !matches.some(match => match.file.id === file.id && !match.version)) {
+          matches.push({ file })
+        }
+      }
+
+      const versions = await blink.db.fileVersions.list({ where: { [column]: contentHash } })
+      for (const version of versions) {
+        if (matches.some(match => match.version?.id === version.id)) continue
+        let parent = parents.get(version.file_id)
+        if (!parent) {
+          parent = (await blink.db.files.list({
+            where: { id: version.file_id, organization_id: organizationId }
+          }))[0]
+          if (!parent) continue
+          parents.set(parent.id, parent)
+        }
+        if (parent.deleted_at) continue
+        matches.push({ file: parent, version })
+      }
+    }
+
+    // Copies assembled on download, such as a PDF with its cover sheet, are registered separately
+    const issued = await blink.db.issuedCopies.list({
+      where: { organization_id: organizationId, content_hash: contentHash }
+    })
+    for (const copy of issued) {
+      if (matches.some(match => match.file.id === copy.file_id && match.version?.id === (copy.version_id || undefined))) continue
+      const parent = parents.get(copy.file_id) || (await blink.db.files.list({ where: { id: copy.file_id } }))[0]
+      if (!parent || parent.deleted_at) continue
+      const version = copy.version_id
+        ? (await blink.db.fileVersions.list({ where: { id: copy.version_id } }))[0]
+        : undefined
+      matches.push({ file: parent, version })
+    }
+
+    return matches
+  }
+
+  /**
+   * Every revision of the given files, from version rows or the file row itself
+   */
+  private async listRevisions(files: any[]): Promise<Candidate[]> {
+    const revisions: Candidate[] = []
+    for (const file of files) {
+      const versions = await blink.db.fileVersions.list({
+        where: { file_id: file.id },
+        orderBy: { created_at: 'asc' }
+      })
+      if (versions.length === 0) {
+        revisions.push({ file })
+      } else {
+        revisions.push(...versions.map((version: any) => ({ file, version })))
+      }
+    }
+    return revisions
+  }
+
+  private isCurrent(candidate: Candidate): boolean {
+    const row = candidate.version || candidate.file
+    const current = Number(candidate.version ? row.is_current : row.is_latest_version) > 0
+    const state = lifecycleService.getState(row)
+    return current && state !== 'draft' && state !== 'in_review'
+  }
+
+  private toRevision(candidate: Candidate): VerifiedRevision {
+    const { file, version } = candidate
+    const row = version || file
+    return {
+      fileId: file.id,
+      fileName: version?.file_name || file.name,
+      versionId: version?.id,
+      versionLabel: row.version_label,
+      state: lifecycleService.getState(row),
+      isCurrent: this.isCurrent(candidate),
+      filePath: row.file_path,
+      createdAt: row.created_at,
+      approvedAt: version?.approved_at || undefined,
+      approvedBy: version?.approved_by || undefined,
+      supersededAt: version?.superseded_at || undefined
+    }
+  }
+
+  /**
+   * Record the check against the document it matched
+   */
+  private async finish(
+    result: DocumentVerification,
+    organizationId: string,
+    user: VerificationUser,
+    fileId?: string
+  ): Promise<DocumentVerification> {
+    if (!fileId) return result
+    try {
+      await blink.db.fileAuditTrail.create({
+        id: `audit_${Date.now()}`,
+        file_id: fileId,
+        version_id: result.revision?.versionId,
+        organization_id: organizationId,
+        user_id: user.id,
+        action: 'document_verified',
+        change_summary: `Copy checked: ${VERIFICATION_STATUS_LABELS[result.status]}`,
+        detailed_changes: JSON.stringify({
+          status: result.status,
+          matchedBy: result.matchedBy,
+          contentHash: result.contentHash,
+          contentVerified: result.contentVerified,
+          embeddedReference: result.embeddedReference,
+          embeddedRevision: result.embeddedRevision,
+          versionLabel: result.revision?.versionLabel,
+          currentVersion: result.current?.versionLabel,
+          supersededBy: result.supersededBy[0]?.versionLabel,
+          verifiedBy: user.email || user.id
+        }),
+        created_at: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Error recording document verification:', error)
+    }
+    return result
+  }
+}
+
+export const documentVerificationService = DocumentVerificationService.getInstance()
@@ -0,0 +1,185 @@
+import { blink } from '../blink/client'
+
+export interface LockableFile {
+  id: string
+  name: string
+  organization_id: string
+  locked_by?: string | null
+  locked_by_name?: string | null
+  locked_at?: string | null
+  lock_expires_at?: string | null
+}
+
+export interface LockState {
+  locked: boolean
+  lockedBy?: string
+  lockedByName?: string
+  lockedAt?: string
+  expiresAt?: string
+  ownedByCurrentUser: boolean
+}
+
+export interface LockUser {
+  id: string
+  email?: string
+}
+
+const DEFAULT_LOCK_HOURS = 24
+
+export class FileLockService {
+  private static instance: FileLockService
+
+  static getInstance(): FileLockService {
+    if (!FileLockService.instance) {
+      FileLockService.instance = new FileLockService()
+    }
+    return FileLockService.instance
+  }
+
+  /**
+   * Current lock on a file. Expired locks count as released.
+   */
+  getLockState(file: LockableFile, userId?: string): LockState {
+    const expired = file.lock_expires_at ? new Date(file.lock_expires_at).getTime() <= Date.now() : false
+    if (!file.locked_by || expired) {
+      return { locked: false, ownedByCurrentUser: false }
+    }
+    return {
+      locked: true,
+      lockedBy: file.locked_by,
+      lockedByName: file.locked_by_name || file.locked_by,
+      lockedAt: file.locked_at || undefined,
+      expiresAt: file.lock_expires_at || undefined,
+      ownedByCurrentUser: file.locked_by === userId
+    }
+  }
+
+  /**
+   * Holder of a live lock, for display next to files
+   */
+  getLockHolder(file: LockableFile): { lockedBy?: string, lockedByName?: string } {
+    const state = this.getLockState(file)
+    return state.locked ? { lockedBy: state.lockedBy, lockedByName: state.lockedByName } : {}
+  }
+
+  /**
+   * True when someone other than the user holds a live lock
+   */
+  isLockedByOther(file: LockableFile, userId: string): boolean {
+    const state = this.getLockState(file, userId)
+    return state.locked && !state.ownedByCurrentUser
+  }
+
+  /**
+   * Lock a file to the user until the org's lock duration runs out
+   */
+  async checkOut(file: LockableFile, user: LockUser): Promise<void> {
+    const current = await this.reload(file)
+    if (this.isLockedByOther(current, user.id)) {
+      const state = this.getLockState(current, user.id)
+      throw new Error(`${file.name} is already checked out by ${state.lockedByName}`)
+    }
+
+    const now = new Date()
+    const hours = await this.getLockDurationHours(file.organization_id)
+    const expiresAt = new Date(now.getTime() + hours * 60 * 60 * 1000).toISOString()
+
+    await blink.db.files.update(file.id, {
+      locked_by: user.id,
+      locked_by_name: user.email || user.id,
+      locked_at: now.toISOString(),
+      lock_expires_at: expiresAt
+    })
+
+    await this.logLockEvent(file, user.id, 'check_out', `Checked out ${file.name}`, {
+      lockedBy: user.email || user.id,
+      expiresAt
+    })
+  }
+
+  /**
+   * Release the user's own lock
+   */
+  async checkIn(file: LockableFile, user: LockUser): Promise<void> {
+    const current = await this.reload(file)
+    const state = this.getLockState(current, user.id)
+    if (state.locked && !state.ownedByCurrentUser) {
+      throw new Error(`${file.name} is checked out by ${state.lockedByName}`)
+    }
+
+    await this.clearLock(file.id)
+    await this.logLockEvent(file, user.id, 'check_in', `Checked in ${file.name}`, {
+      lockedAt: current.locked_at
+    })
+  }
+
+  /**
+   * Admin override: release someone else's lock
+   */
+  async breakLock(file: LockableFile, admin: LockUser, isAdmin: boolean, reason?: string): Promise<void> {
+    if (!isAdmin) {
+      throw new Error('Only administrators can break a lock')
+    }
+
+    const current = await this.reload(file)
+    const state = this.getLockState(current, admin.id)
+
+    await this.clearLock(file.id)
+    await this.logLockEvent(file, admin.id, 'lock_break', `Lock on ${file.name} broken by administrator`, {
+      previousHolder: state.lockedByName,
+      lockedAt: state.lockedAt,
+      expiresAt: state.expiresAt,
+      reason: reason || 'Administrator override'
+    })
+  }
+
+  private async reload(file: LockableFile): Promise<LockableFile> {
+    const files = await blink.db.files.list({ where: { id: file.id } })
+    return files[0] || file
+  }
+
+  private async clearLock(fileId: string): Promise<void> {
+    await blink.db.files.update(fileId, {
+      locked_by: null,
+      locked_by_name: null,
+      locked_at: null,
+      lock_expires_at: null
+    })
+  }
+
+  private async getLockDurationHours(organizationId: string): Promise<number> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const hours = Number(policies[0]?.lock_duration_hours)
+      return hours > 0 ? hours : DEFAULT_LOCK_HOURS
+    } catch (error) {
+      console.error('Error loading lock policy:', error)
+      return DEFAULT_LOCK_HOURS
+    }
+  }
+
+  private async logLockEvent(
+    file: LockableFile,
+    userId: string,
+    action: 'check_out' | 'check_in' | 'lock_break',
+    summary: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    const now = new Date().toISOString()
+
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}`,
+      file_id: file.id,
+      organization_id: file.organization_id,
+      user_id: userId,
+      action,
+      change_summary: summary,
+      detailed_changes: JSON.stringify({ fileName: file.name, ...details }),
+      created_at: now
+    })
+  }
+}
+
+export const fileLockService = FileLockService.getInstance()
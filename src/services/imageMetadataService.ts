@@ -0,0 +1,434 @@
+import { unzlibSync } from 'fflate'
+import type { DocumentMetadata } from './documentMetadataService'
+
+export type ImageFormat = 'jpeg' | 'png' | 'tiff' | 'svg'
+
+export type OverlayCorner = 'top-left' | 'top-right' | 'bottom-left' | 'bottom-right'
+
+export interface ImageStampOptions {
+  position: OverlayCorner
+  // Multiplier on the resolution-based text size
+  scale: number
+  // Background opacity between 0 and 1
+  opacity: number
+}
+
+export interface ImageProperties {
+  // IFD0 text tags by name (ImageDescription, DateTime, Artist, Copyright)
+  exif: Record<string, string>
+  // PNG tEXt/iTXt entries by keyword
+  text: Record<string, string>
+  xmp?: string
+}
+
+interface TiffTag {
+  tag: number
+  type: number
+  count: number
+  data: Uint8Array
+}
+
+const TIFF_ASCII = 2
+const TIFF_BYTE = 1
+const TIFF_TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 6: 1, 7: 1, 8: 2, 9: 4, 10: 8, 11: 4, 12: 8 }
+
+const TAG_IMAGE_DESCRIPTION = 0x010e
+const TAG_DATE_TIME = 0x0132
+const TAG_ARTIST = 0x013b
+const TAG_XMP = 0x02bc
+const TAG_COPYRIGHT = 0x8298
+
+const EXIF_TEXT_TAGS: Record<number, string> = {
+  [TAG_IMAGE_DESCRIPTION]: 'ImageDescription',
+  [TAG_DATE_TIME]: 'DateTime',
+  [TAG_ARTIST]: 'Artist',
+  [TAG_COPYRIGHT]: 'Copyright'
+}
+
+const XMP_APP1_HEADER = 'http://ns.adobe.com/xap/1.0/\0'
+const EXIF_APP1_HEADER = 'Exif\0\0'
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+const PNG_XMP_KEYWORD = 'XML:com.adobe.xmp'
+
+const encoder = new TextEncoder()
+const decoder = new TextDecoder()
+const latin1Decoder = new TextDecoder('latin1')
+
+const latin1 = (value: string) => Uint8Array.from(value, char => char.charCodeAt(0) & 0xff)
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const out = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    out.set(part, offset)
+    offset += part.length
+  }
+  return out
+}
+
+const startsWith = (data: Uint8Array, prefix: string, offset = 0) =>
+  Array.from(prefix).every((char, i) => data[offset + i] === char.charCodeAt(0))
+
+let crcTable: Uint32Array | null = null
+const crc32 = (data: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      crcTable[n] = c >>> 0
+    }
+  }
+  let crc = 0xffffffff
+  for (const byte of data) crc = crcTable[(crc ^ byte) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+export class ImageMetadataService {
+  private static instance: ImageMetadataService
+
+  static getInstance(): ImageMetadataService {
+    if (!ImageMetadataService.instance) {
+      ImageMetadataService.instance = new ImageMetadataService()
+    }
+    return ImageMetadataService.instance
+  }
+
+  getFormat(fileType: string, fileName: string): ImageFormat | null {
+    const type = fileType.toLowerCase()
+    const extension = fileName.split('.').pop()?.toLowerCase() || ''
+    if (type === 'image/jpeg' || type === 'image/jpg' || extension === 'jpg' || extension === 'jpeg') return 'jpeg'
+    if (type === 'image/png' || extension === 'png') return 'png'
+    if (type === 'image/tiff' || extension === 'tif' || extension === 'tiff') return 'tiff'
+    if (type === 'image/svg+xml' || extension === 'svg') return 'svg'
+    return null
+  }
+
+  /**
+   * Write metadata into the container without touching the encoded pixels
+   */
+  writeMetadata(data: Uint8Array, format: ImageFormat, metadata: DocumentMetadata, xmpPacket: string): Uint8Array {
+    switch (format) {
+      case 'jpeg':
+        return this.writeJpeg(data, metadata, xmpPacket)
+      case 'png':
+        return this.writePng(data, metadata, xmpPacket)
+      case 'tiff':
+        return this.upsertTiffTags(data, [...this.getExifTags(metadata), this.byteTag(TAG_XMP, encoder.encode(xmpPacket))])
+      case 'svg':
+        return encoder.encode(this.writeSvg(decoder.decode(data), xmpPacket))
+    }
+  }
+
+  /**
+   * Read the EXIF text tags, PNG text chunks and XMP packet an image carries
+   */
+  readMetadata(data: Uint8Array, format: ImageFormat): ImageProperties {
+    const properties: ImageProperties = { exif: {}, text: {} }
+
+    if (format === 'jpeg') {
+      let offset = 2
+      while (offset + 4 <= data.length && data[offset] === 0xff) {
+        const marker = data[offset + 1]
+        if (marker === 0xda || marker === 0xd9) break
+        const length = (data[offset + 2] << 8) | data[offset + 3]
+        const payload = data.subarray(offset + 4, offset + 2 + length)
+        if (marker === 0xe1 && startsWith(payload, EXIF_APP1_HEADER)) {
+          properties.exif = this.readTiffTags(payload.subarray(EXIF_APP1_HEADER.length)).exif
+        } else if (marker === 0xe1 && startsWith(payload, XMP_APP1_HEADER)) {
+          properties.xmp = decoder.decode(payload.subarray(XMP_APP1_HEADER.length))
+        }
+        offset += 2 + length
+      }
+    } else if (format === 'tiff') {
+      return { ...this.readTiffTags(data), text: {} }
+    } else if (format === 'png') {
+      const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+      let offset = 8
+      while (offset + 12 <= data.length) {
+        const length = view.getUint32(offset)
+        const type = decoder.decode(data.subarray(offset + 4, offset + 8))
+        const body = data.subarray(offset + 8, offset + 8 + length)
+        offset += 12 + length
+        if (type !== 'tEXt' && type !== 'iTXt') continue
+
+        const keywordEnd = body.indexOf(0)
+        const keyword = latin1Decoder.decode(body.subarray(0, keywordEnd))
+        let value: string
+        if (type === 'tEXt') {
+          value = latin1Decoder.decode(body.subarray(keywordEnd + 1))
+        } else {
+          const compressed = body[keywordEnd + 1] === 1
+          const languageEnd = body.indexOf(0, keywordEnd + 3)
+          const textStart = body.indexOf(0, languageEnd + 1) + 1
+          const text = body.subarray(textStart)
+          value = decoder.decode(compressed ? unzlibSync(text) : text)
+        }
+        if (keyword === PNG_XMP_KEYWORD) properties.xmp = value
+        else properties.text[keyword] = value
+      }
+    } else {
+      const doc = new DOMParser().parseFromString(decoder.decode(data), 'image/svg+xml')
+      const packet = Array.from(doc.getElementsByTagName('*')).find(element => element.localName === 'xmpmeta')
+      if (packet) properties.xmp = new XMLSerializer().serializeToString(packet)
+    }
+
+    return properties
+  }
+
+  /**
+   * Replace our XMP APP1 segment and add or extend the EXIF APP1 segment
+   */
+  private writeJpeg(data: Uint8Array, metadata: DocumentMetadata, xmpPacket: string): Uint8Array {
+    if (data[0] !== 0xff || data[1] !== 0xd8) {
+      throw new Error('Not a JPEG file')
+    }
+
+    const segments: Uint8Array[] = []
+    let exif: Uint8Array | null = null
+    let offset = 2
+    // Walk the marker segments up to the start of scan; everything after is copied verbatim
+    while (offset < data.length) {
+      if (data[offset] !== 0xff) throw new Error('Corrupt JPEG marker')
+      const marker = data[offset + 1]
+      if (marker === 0xda || marker === 0xd9) break
+      const length = (data[offset + 2] << 8) | data[offset + 3]
+      const segment = data.subarray(offset, offset + 2 + length)
+      const isApp1 = marker === 0xe1
+      if (isApp1 && startsWith(segment, EXIF_APP1_HEADER, 4) && !exif) {
+        exif = segment.subarray(4 + EXIF_APP1_HEADER.length)
+      } else if (!(isApp1 && startsWith(segment, XMP_APP1_HEADER, 4))) {
+        segments.push(segment)
+      }
+      offset += 2 + length
+    }
+
+    const tiff = this.upsertTiffTags(exif || this.emptyTiff(), this.getExifTags(metadata))
+    const exifSegment = this.app1(concat([latin1(EXIF_APP1_HEADER), tiff]))
+    const xmpSegment = this.app1(concat([latin1(XMP_APP1_HEADER), encoder.encode(xmpPacket)]))
+
+    // APP0 (JFIF) must stay first when present
+    const leading = segments.length > 0 && segments[0][1] === 0xe0 ? [segments.shift()!] : []
+    return concat([data.subarray(0, 2), ...leading, exifSegment, xmpSegment, ...segments, data.subarray(offset)])
+  }
+
+  private app1(payload: Uint8Array): Uint8Array {
+    if (payload.length + 2 > 0xffff) {
+      throw new Error('Metadata does not fit in a JPEG segment')
+    }
+    const header = new Uint8Array([0xff, 0xe1, (payload.length + 2) >> 8, (payload.length + 2) & 0xff])
+    return concat([header, payload])
+  }
+
+  /**
+   * Insert iTXt chunks after IHDR, replacing any we wrote before
+   */
+  private writePng(data: Uint8Array, metadata: DocumentMetadata, xmpPacket: string): Uint8Array {
+    if (!PNG_SIGNATURE.every((byte, i) => data[i] === byte)) {
+      throw new Error('Not a PNG file')
+    }
+
+    const fields = this.getTextFields(metadata)
+    const keywords = new Set([PNG_XMP_KEYWORD, ...Object.keys(fields)])
+    const chunks: Uint8Array[] = []
+    const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+    let offset = 8
+    let inserted = false
+
+    while (offset < data.length) {
+      const length = view.getUint32(offset)
+      const type = decoder.decode(data.subarray(offset + 4, offset + 8))
+      const chunk = data.subarray(offset, offset + 12 + length)
+      offset += 12 + length
+
+      if (type === 'iTXt') {
+        const body = chunk.subarray(8, 8 + length)
+        const keyword = decoder.decode(body.subarray(0, body.indexOf(0)))
+        if (keywords.has(keyword)) continue
+      }
+      chunks.push(chunk)
+      if (type === 'IHDR' && !inserted) {
+        chunks.push(this.itxtChunk(PNG_XMP_KEYWORD, xmpPacket))
+        for (const [keyword, value] of Object.entries(fields)) {
+          if (value) chunks.push(this.itxtChunk(keyword, value))
+        }
+        inserted = true
+      }
+    }
+
+    return concat([data.subarray(0, 8), ...chunks])
+  }
+
+  private itxtChunk(keyword: string, text: string): Uint8Array {
+    // keyword, null, compression flag, compression method, empty language tag, empty translated keyword, UTF-8 text
+    const body = concat([latin1(keyword), new Uint8Array([0, 0, 0, 0, 0]), encoder.encode(text)])
+    const typeAndBody = concat([latin1('iTXt'), body])
+    const out = new Uint8Array(12 + body.length)
+    const view = new DataView(out.buffer)
+    view.setUint32(0, body.length)
+    out.set(typeAndBody, 4)
+    view.setUint32(8 + body.length, crc32(typeAndBody))
+    return out
+  }
+
+  /**
+   * Put the XMP packet in the SVG's <metadata> element
+   */
+  private writeSvg(svg: string, xmpPacket: string): string {
+    const doc = new DOMParser().parseFromString(svg, 'image/svg+xml')
+    if (doc.getElementsByTagName('parsererror').length > 0 || doc.documentElement.localName !== 'svg') {
+      throw new Error('Not a valid SVG file')
+    }
+
+    const svgNs = 'http://www.w3.org/2000/svg'
+    const root = doc.documentElement
+    let metadataElement = Array.from(root.childNodes)
+      .find((node): node is Element => node.nodeType === 1 && (node as Element).localName === 'metadata')
+    if (!metadataElement) {
+      metadataElement = doc.createElementNS(svgNs, 'metadata')
+      root.insertBefore(metadataElement, root.firstChild)
+    }
+
+    // Replace an earlier packet, keep anything else authors put there
+    Array.from(metadataElement.childNodes)
+      .filter(node => node.nodeType === 1 && (node as Element).localName === 'xmpmeta')
+      .forEach(node => metadataElement!.removeChild(node))
+
+    const packet = new DOMParser().parseFromString(
+      xmpPacket.replace(/<\?xpacket[^?]*\?>/g, '').trim(),
+      'application/xml'
+    )
+    metadataElement.appendChild(doc.importNode(packet.documentElement, true))
+    return new XMLSerializer().serializeToString(doc)
+  }
+
+  private getTextFields(metadata: DocumentMetadata): Record<string, string> {
+    return {
+      DocumentReference: metadata.documentReference,
+      RevisionNumber: metadata.revisionNumber,
+      VersionLabel: metadata.versionLabel,
+      ModifiedBy: metadata.modifiedBy,
+      Organization: metadata.organizationName,
+      ChangeNotes: metadata.changeNotes,
+      ...metadata.customFields
+    }
+  }
+
+  private getExifTags(metadata: DocumentMetadata): TiffTag[] {
+    const date = new Date(metadata.lastModified)
+    const pad = (n: number) => String(n).padStart(2, '0')
+    const exifDate = `${date.getFullYear()}:${pad(date.getMonth() + 1)}:${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`
+
+    return [
+      this.asciiTag(TAG_IMAGE_DESCRIPTION, `${metadata.documentReference} ${metadata.versionLabel}`.trim()),
+      this.asciiTag(TAG_DATE_TIME, exifDate),
+      this.asciiTag(TAG_ARTIST, metadata.modifiedBy),
+      this.asciiTag(TAG_COPYRIGHT, metadata.organizationName)
+    ].filter(tag => tag.count > 1)
+  }
+
+  private asciiTag(tag: number, value: string): TiffTag {
+    // EXIF ASCII is 7-bit and NUL terminated
+    const data = latin1(`${value.replace(/[^\x20-\x7e]/g, '?')}\0`)
+    return { tag, type: TIFF_ASCII, count: data.length, data }
+  }
+
+  private byteTag(tag: number, data: Uint8Array): TiffTag {
+    return { tag, type: TIFF_BYTE, count: data.length, data }
+  }
+
+  private emptyTiff(): Uint8Array {
+    // Big-endian header pointing at an IFD with no entries
+    return new Uint8Array([0x4d, 0x4d, 0x00, 0x2a, 0x00, 0x00, 0x00, 0x08, 0x00, 0x00, 0x00, 0x00, 0x00, 0x00])
+  }
+
+  private readTiffTags(tiff: Uint8Array): Pick<ImageProperties, 'exif' | 'xmp'> {
+    const result: Pick<ImageProperties, 'exif' | 'xmp'> = { exif: {} }
+    if (tiff.length < 8) return result
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+    const little = tiff[0] === 0x49
+    const ifdOffset = view.getUint32(4, little)
+    if (ifdOffset + 2 > tiff.length) return result
+    const entryCount = view.getUint16(ifdOffset, little)
+
+    for (let i = 0; i < entryCount; i++) {
+      const start = ifdOffset + 2 + i * 12
+      if (start + 12 > tiff.length) break
+      const tag = view.getUint16(start, little)
+      const type = view.getUint16(start + 2, little)
+      const size = view.getUint32(start + 4, little) * (TIFF_TYPE_SIZES[type] || 1)
+      const valueOffset = size <= 4 ? start + 8 : view.getUint32(start + 8, little)
+      const value = tiff.subarray(valueOffset, valueOffset + size)
+
+      if (tag === TAG_XMP) {
+        result.xmp = decoder.decode(value)
+      } else if (EXIF_TEXT_TAGS[tag] && type === TIFF_ASCII) {
+        const text = latin1Decoder.decode(value).replace(/\0+$/, '').trim()
+        if (text) result.exif[EXIF_TEXT_TAGS[tag]] = text
+      }
+    }
+    return result
+  }
+
+  /**
+   * Write a new IFD0 at the end of a TIFF structure with the given tags
+   * merged in, and point the header at it. Every existing offset stays valid
+   * because nothing before the end of the data moves.
+   */
+  private upsertTiffTags(tiff: Uint8Array, tags: TiffTag[]): Uint8Array {
+    const view = new DataView(tiff.buffer, tiff.byteOffset, tiff.byteLength)
+    const byteOrder = String.fromCharCode(tiff[0], tiff[1])
+    if ((byteOrder !== 'II' && byteOrder !== 'MM') || view.getUint16(2, byteOrder === 'II') !== 42) {
+      throw new Error('Not a TIFF structure')
+    }
+    const little = byteOrder === 'II'
+    const ifdOffset = view.getUint32(4, little)
+    const entryCount = view.getUint16(ifdOffset, little)
+
+    const entries = new Map<number, Uint8Array>()
+    for (let i = 0; i < entryCount; i++) {
+      const start = ifdOffset + 2 + i * 12
+      entries.set(view.getUint16(start, little), tiff.slice(start, start + 12))
+    }
+    const nextIfd = view.getUint32(ifdOffset + 2 + entryCount * 12, little)
+
+    // New IFD goes on a word boundary after the existing data, followed by out-of-line values
+    const base = tiff.length + (tiff.length % 2)
+    const allTags = new Set([...entries.keys(), ...tags.map(tag => tag.tag)])
+    const ifdSize = 2 + allTags.size * 12 + 4
+    const extra: Uint8Array[] = []
+    let dataOffset = base + ifdSize
+
+    for (const tag of tags) {
+      const entry = new Uint8Array(12)
+      const entryView = new DataView(entry.buffer)
+      entryView.setUint16(0, tag.tag, little)
+      entryView.setUint16(2, tag.type, little)
+      entryView.setUint32(4, tag.count, little)
+      const size = tag.count * (TIFF_TYPE_SIZES[tag.type] || 1)
+      if (size <= 4) {
+        entry.set(tag.data.subarray(0, 4), 8)
+      } else {
+        entryView.setUint32(8, dataOffset, little)
+        const padded = tag.data.length % 2 ? concat([tag.data, new Uint8Array(1)]) : tag.data
+        extra.push(padded)
+        dataOffset += padded.length
+      }
+      entries.set(tag.tag, entry)
+    }
+
+    const ifd = new Uint8Array(ifdSize)
+    const ifdView = new DataView(ifd.buffer)
+    ifdView.setUint16(0, allTags.size, little)
+    Array.from(entries.keys()).sort((a, b) => a - b).forEach((tag, index) => {
+      ifd.set(entries.get(tag)!, 2 + index * 12)
+    })
+    ifdView.setUint32(2 + allTags.size * 12, nextIfd, little)
+
+    const out = concat([tiff, new Uint8Array(base - tiff.length), ifd, ...extra])
+    new DataView(out.buffer).setUint32(4, base, little)
+    return out
+  }
+}
+
+export const imageMetadataService = ImageMetadataService.getInstance()
@@ -0,0 +1,349 @@
+import { blink } from '../blink/client'
+import { findMostSpecificRule, parseList } from '../lib/utils'
+import { similarityIndexService } from './similarityIndexService'
+
+export type LifecycleState = 'draft' | 'in_review' | 'approved' | 'effective' | 'superseded' | 'obsolete'
+
+export type LifecycleAction = 'submit' | 'approve' | 'reject' | 'make_effective' | 'obsolete'
+
+export interface ApprovalWorkflow {
+  id: string
+  organizationId: string
+  folderPath?: string
+  documentType?: string
+  reviewers: string[]
+  approvers: string[]
+}
+
+export interface LifecycleUser {
+  id: string
+  email?: string
+}
+
+export interface LifecycleTarget {
+  fileId: string
+  fileName: string
+  organizationId: string
+  folderPath?: string
+  documentType?: string
+  // Version row being transitioned; omitted for files that predate fileVersions rows
+  versionId?: string
+}
+
+export const LIFECYCLE_LABELS: Record<LifecycleState, string> = {
+  draft: 'Draft',
+  in_review: 'In Review',
+  approved: 'Approved',
+  effective: 'Effective',
+  superseded: 'Superseded',
+  obsolete: 'Obsolete'
+}
+
+export const LIFECYCLE_ACTIONS: Record<LifecycleAction, { label: string, from: LifecycleState[], to: LifecycleState }> = {
+  submit: { label: 'Submit for review', from: ['draft'], to: 'in_review' },
+  approve: { label: 'Approve', from: ['in_review'], to: 'approved' },
+  reject: { label: 'Return to draft', from: ['in_review'], to: 'draft' },
+  make_effective: { label: 'Make effective', from: ['approved'], to: 'effective' },
+  obsolete: { label: 'Make obsolete', from: ['draft', 'approved', 'effective', 'superseded'], to: 'obsolete' }
+}
+
+const matchesUser = (list: string[], user: LifecycleUser) =>
+  list.some(entry => entry === user.id || (user.email && entry.toLowerCase() === user.email.toLowerCase()))
+
+export class LifecycleService {
+  private static instance: LifecycleService
+
+  static getInstance(): LifecycleService {
+    if (!LifecycleService.instance) {
+      LifecycleService.instance = new LifecycleService()
+    }
+    return LifecycleService.instance
+  }
+
+  /**
+   * State of a version row. Rows written before lifecycles existed are
+   * treated as effective when current and superseded otherwise.
+   */
+  getState(row: { lifecycle_state?: string | null, is_current?: string | null, is_latest_version?: string | null }): LifecycleState {
+    if (row.lifecycle_state && row.lifecycle_state in LIFECYCLE_LABELS) {
+      return row.lifecycle_state as LifecycleState
+    }
+    const current = Number(row.is_current ?? row.is_latest_version) > 0
+    return current ? 'effective' : 'superseded'
+  }
+
+  /**
+   * Actions available from a state, before permission checks
+   */
+  getAvailableActions(state: LifecycleState): LifecycleAction[] {
+    return (Object.keys(LIFECYCLE_ACTIONS) as LifecycleAction[])
+      .filter(action => LIFECYCLE_ACTIONS[action].from.includes(state))
+  }
+
+  async listWorkflows(organizationId: string): Promise<ApprovalWorkflow[]> {
+    const rows = await blink.db.approvalWorkflows.list({
+      where: { organization_id: organizationId },
+      orderBy: { created_at: 'asc' }
+    })
+    return rows.map((row: any) => ({
+      id: row.id,
+      organizationId: row.organization_id,
+      folderPath: row.folder_path || undefined,
+      documentType: row.document_type || undefined,
+      reviewers: parseList(row.reviewers),
+      approvers: parseList(row.approvers)
+    }))
+  }
+
+  async saveWorkflow(workflow: Omit<ApprovalWorkflow, 'id'> & { id?: string }): Promise<void> {
+    const data = {
+      organization_id: workflow.organizationId,
+      folder_path: workflow.folderPath || null,
+      document_type: workflow.documentType || null,
+      reviewers: JSON.stringify(workflow.reviewers),
+      approvers: JSON.stringify(workflow.approvers),
+      updated_at: new Date().toISOString()
+    }
+    if (workflow.id) {
+      await blink.db.approvalWorkflows.update(workflow.id, data)
+    } else {
+      await blink.db.approvalWorkflows.create({
+        id: `workflow_${Date.now()}`,
+        ...data,
+        created_at: new Date().toISOString()
+      })
+    }
+  }
+
+  async deleteWorkflow(workflowId: string): Promise<void> {
+    await blink.db.approvalWorkflows.delete(workflowId)
+  }
+
+  /**
+   * Workflow that governs a document, picking the most specific rule
+   */
+  async resolveWorkflow(organizationId: string, folderPath?: string, documentType?: string): Promise<ApprovalWorkflow | null> {
+    try {
+      const workflows = await this.listWorkflows(organizationId)
+      return findMostSpecificRule(workflows, folderPath, documentType)
+    } catch (error) {
+      console.error('Error resolving approval workflow:', error)
+      return null
+    }
+  }
+
+  /**
+   * Whether the user may perform an action under the workflow. Approving
+   * needs an approver named in a workflow other than whoever uploaded the
+   * version; without a workflow every member may do everything else.
+   */
+  canPerform(action: LifecycleAction, user: LifecycleUser, workflow: ApprovalWorkflow | null, uploadedBy?: string | null): boolean {
+    if (action === 'submit') return true
+    if (action === 'approve') {
+      const isUploader = Boolean(uploadedBy) && (uploadedBy === user.id || uploadedBy === user.email)
+      return workflow !== null && Boolean(matchesUser(workflow.approvers, user)) && !isUploader
+    }
+    if (!workflow) return true
+
+    const isApprover = workflow.approvers.length === 0 || matchesUser(workflow.approvers, user)
+    const isReviewer = workflow.reviewers.length === 0 || matchesUser(workflow.reviewers, user)
+
+    if (action === 'reject') return isReviewer || isApprover
+    return isApprover
+  }
+
+  /**
+   * Move a version through the lifecycle and record it in the audit trail
+   */
+  async transition(
+    target: LifecycleTarget,
+    action: LifecycleAction,
+    user: LifecycleUser,
+    comment: string
+  ): Promise<LifecycleState> {
+    const definition = LIFECYCLE_ACTIONS[action]
+    const isFileRow = !target.versionId || target.versionId === target.fileId
+
+    const files = await blink.db.files.list({ where: { id: target.fileId } })
+    const file = files[0]
+    if (!file) {
+      throw new Error('File not found')
+    }
+
+    const versions = isFileRow ? [] : await blink.db.fileVersions.list({ where: { id: target.versionId } })
+    const version = versions[0]
+    if (!isFileRow && !version) {
+      throw new Error('Version not found')
+    }
+
+    const fromState = this.getState(isFileRow ? file : version)
+    if (!definition.from.includes(fromState)) {
+      throw new Error(`Cannot ${definition.label.toLowerCase()} a ${LIFECYCLE_LABELS[fromState].toLowerCase()} version`)
+    }
+
+    const workflow = await this.resolveWorkflow(target.organizationId, target.folderPath, target.documentType)
+    const uploadedBy = isFileRow ? file.uploaded_by : version.uploaded_by
+    if (action === 'approve' && !workflow) {
+      throw new Error('Approving needs an approval workflow with approvers for this document')
+    }
+    if (!this.canPerform(action, user, workflow, uploadedBy)) {
+      throw new Error(action === 'approve' && this.canPerform(action, user, workflow)
+        ? 'You cannot approve a version you uploaded'
+        : `You are not allowed to ${definition.label.toLowerCase()} in this workflow`)
+    }
+
+    const now = new Date().toISOString()
+    const toState = definition.to
+    const versionLabel = isFileRow ? file.version_label : version.version_label
+    const supersededVersions: string[] = []
+
+    if (isFileRow) {
+      await blink.db.files.update(file.id, {
+        lifecycle_state: toState,
+        obsoleted_at: toState === 'obsolete' ? now : file.obsoleted_at,
+        updated_at: now
+      })
+    } else {
+      const versionUpdate: Record<string, any> = { lifecycle_state: toState }
+      if (toState === 'obsolete') versionUpdate.obsoleted_at = now
+      if (action === 'approve') {
+        versionUpdate.is_current = "1"
+        versionUpdate.approved_by = user.email || user.id
+        versionUpdate.approved_at = now
+      }
+      await blink.db.fileVersions.update(version.id, versionUpdate)
+
+      if (action === 'approve') {
+        // The approved draft replaces whatever was current
+        const siblings = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+        for (const sibling of siblings) {
+          if (sibling.id === version.id) continue
+          const siblingState = this.getState(sibling)
+          const update: Record<string, any> = {}
+          if (Number(sibling.is_current) > 0) update.is_current = "0"
+          if (siblingState === 'approved' || siblingState === 'effective') {
+            update.lifecycle_state = 'superseded'
+            update.superseded_at = now
+            supersededVersions.push(sibling.version_label)
+          }
+          if (Object.keys(update).length > 0) {
+            await blink.db.fileVersions.update(sibling.id, update)
+          }
+        }
+
+        await blink.db.files.update(file.id, {
+          name: version.file_name || file.name,
+          original_name: version.file_name || file.original_name,
+          file_type: version.file_type || file.file_type,
+          file_path: version.file_path,
+          file_size: String(version.file_size),
+          version_label: version.version_label,
+          version_notes: version.version_notes,
+          revision_number: version.version_label,
+          content_hash: version.content_hash || file.content_hash,
+          custom_metadata: version.custom_metadata ?? file.custom_metadata ?? null,
+          original_file_path: version.original_file_path || null,
+          stamped_file_path: version.stamped_file_path || null,
+          companion_file_path: version.companion_file_path || null,
+          embedding_method: version.embedding_method || null,
+          issued_hash: version.issued_hash || null,
+          stamped_hash: version.stamped_hash || null,
+          storage_paths: version.storage_paths || null,
+          lifecycle_state: toState,
+          current_version_id: version.id,
+          pending_version_id: null,
+          revision_sequence: (Number(file.revision_sequence) || 0) + 1,
+          updated_at: now
+        })
+
+        // Uploads are matched against the content that is now current
+        await similarityIndexService.indexStored({
+          id: file.id,
+          name: version.file_name || file.name,
+          organization_id: file.organization_id,
+          file_path: version.file_path,
+          original_file_path: version.original_file_path || null,
+          file_type: version.file_type || file.file_type,
+          content_hash: version.content_hash || file.content_hash
+        })
+      } else if (Number(version.is_current) > 0 || this.isFirstDraft(file, version.id)) {
+        // Keep the file record's state in step with its current version, or
+        // with its first draft while nothing has been approved yet
+        await blink.db.files.update(file.id, {
+          lifecycle_state: toState,
+          obsoleted_at: toState === 'obsolete' ? now : file.obsoleted_at,
+          pending_version_id: toState === 'obsolete' && file.pending_version_id === version.id ? null : file.pending_version_id,
+          updated_at: now
+        })
+      } else if (toState === 'obsolete' && file.pending_version_id === version.id) {
+        // An abandoned draft is no longer pending
+        await blink.db.files.update(file.id, { pending_version_id: null, updated_at: now })
+      }
+    }
+
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}`,
+      file_id: file.id,
+      version_id: isFileRow ? undefined : version.id,
+      organization_id: target.organizationId,
+      user_id: user.id,
+      action: 'lifecycle_transition',
+      change_summary: `${versionLabel}: ${LIFECYCLE_LABELS[fromState]} → ${LIFECYCLE_LABELS[toState]}`,
+      detailed_changes: JSON.stringify({
+        fileName: target.fileName,
+        versionLabel,
+        fromState,
+        toState,
+        comment,
+        actedBy: user.email || user.id,
+        workflowId: workflow?.id,
+        supersededVersions: supersededVersions.length > 0 ? supersededVersions : undefined
+      }),
+      created_at: now
+    })
+
+    return toState
+  }
+
+  /**
+   * Files that predate version rows get their current revision recorded as
+   * one, so later revisions have something to supersede
+   */
+  async ensureCurrentVersionRow(file: any): Promise<void> {
+    const currentVersions = await blink.db.fileVersions.list({
+      where: { file_id: file.id, is_current: "1" }
+    })
+    if (currentVersions.length > 0) return
+
+    await blink.db.fileVersions.create({
+      id: `version_${Date.now()}_old`,
+      file_id: file.id,
+      version_label: file.version_label,
+      file_path: file.file_path,
+      file_size: Number(file.file_size) || 0,
+      file_name: file.name,
+      file_type: file.file_type,
+      uploaded_by: file.uploaded_by,
+      version_notes: file.version_notes || 'Previous version',
+      content_hash: file.content_hash,
+      custom_metadata: file.custom_metadata || null,
+      original_file_path: file.original_file_path || null,
+      stamped_file_path: file.stamped_file_path || null,
+      companion_file_path: file.companion_file_path || null,
+      embedding_method: file.embedding_method || null,
+      issued_hash: file.issued_hash || null,
+      stamped_hash: file.stamped_hash || null,
+      storage_paths: file.storage_paths || null,
+      lifecycle_state: this.getState(file),
+      is_current: "1",
+      created_at: file.updated_at || file.created_at
+    })
+  }
+
+  private isFirstDraft(file: any, versionId: string): boolean {
+    const fileState = this.getState(file)
+    return file.pending_version_id === versionId && (fileState === 'draft' || fileState === 'in_review')
+  }
+}
+
+export const lifecycleService = LifecycleService.getInstance()
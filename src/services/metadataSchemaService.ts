@@ -0,0 +1,231 @@
+import { blink } from '../blink/client'
+import { parseList } from '../lib/utils'
+import { aiSimilarityService } from './aiSimilarityService'
+import { BUILT_IN_METADATA_KEYS } from './documentMetadataService'
+
+export type MetadataFieldType = 'text' | 'number' | 'date' | 'enum' | 'user'
+
+export interface MetadataFieldDefinition {
+  id: string
+  organizationId: string
+  // Type prefix from aiSimilarityService.getTypePrefix; absent for every document type
+  documentType?: string
+  key: string
+  label: string
+  type: MetadataFieldType
+  required: boolean
+  pattern?: string
+  options: string[]
+  showInList: boolean
+  sortOrder: number
+}
+
+export type CustomMetadataValues = Record<string, string>
+
+export const METADATA_FIELD_TYPE_LABELS: Record<MetadataFieldType, string> = {
+  text: 'Text',
+  number: 'Number',
+  date: 'Date',
+  enum: 'Choice',
+  user: 'User'
+}
+
+// Keys double as PDF Info keys, XMP element names and Office property names
+const KEY_PATTERN = /^[A-Za-z][A-Za-z0-9_]*$/
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/
+
+export class MetadataSchemaService {
+  private static instance: MetadataSchemaService
+
+  static getInstance(): MetadataSchemaService {
+    if (!MetadataSchemaService.instance) {
+      MetadataSchemaService.instance = new MetadataSchemaService()
+    }
+    return MetadataSchemaService.instance
+  }
+
+  async listFields(organizationId: string): Promise<MetadataFieldDefinition[]> {
+    try {
+      const rows = await blink.db.metadataFields.list({
+        where: { organization_id: organizationId },
+        orderBy: { sort_order: 'asc' }
+      })
+      return rows.map((row: any) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        documentType: row.document_type || undefined,
+        key: row.field_key,
+        label: row.label,
+        type: (row.field_type in METADATA_FIELD_TYPE_LABELS ? row.field_type : 'text') as MetadataFieldType,
+        required: Number(row.required) > 0,
+        pattern: row.pattern || undefined,
+        options: parseList(row.options),
+        showInList: Number(row.show_in_list) > 0,
+        sortOrder: Number(row.sort_order) || 0
+      }))
+    } catch (error) {
+      console.error('Error loading metadata fields:', error)
+      return []
+    }
+  }
+
+  async saveField(field: Omit<MetadataFieldDefinition, 'id'> & { id?: string }): Promise<void> {
+    const problem = this.checkDefinition(field)
+    if (problem) {
+      throw new Error(problem)
+    }
+
+    const data = {
+      organization_id: field.organizationId,
+      document_type: field.documentType || null,
+      field_key: field.key,
+      label: field.label,
+      field_type: field.type,
+      required: field.required ? 1 : 0,
+      pattern: field.pattern || null,
+      options: JSON.stringify(field.options),
+      show_in_list: field.showInList ? 1 : 0,
+      sort_order: field.sortOrder,
+      updated_at: new Date().toISOString()
+    }
+    if (field.id) {
+      await blink.db.metadataFields.update(field.id, data)
+    } else {
+      await blink.db.metadataFields.create({
+        id: `metafield_${Date.now()}`,
+        ...data,
+        created_at: new Date().toISOString()
+      })
+    }
+  }
+
+  async deleteField(fieldId: string): Promise<void> {
+    await blink.db.metadataFields.delete(fieldId)
+  }
+
+  /**
+   * Fields that apply to a file type: org-wide ones plus those for the type,
+   * where a type-specific field replaces an org-wide one with the same key
+   */
+  getFieldsForType(fields: MetadataFieldDefinition[], fileType?: string | null): MetadataFieldDefinition[] {
+    const documentType = aiSimilarityService.getTypePrefix(fileType || '').toLowerCase()
+    const specific = fields.filter(field => field.documentType?.toLowerCase() === documentType)
+    const specificKeys = new Set(specific.map(field => field.key))
+    return fields
+      .filter(field => specific.includes(field) || (!field.documentType && !specificKeys.has(field.key)))
+      .sort((a, b) => a.sortOrder - b.sortOrder)
+  }
+
+  /**
+   * Columns for the file list: one per key, in schema order
+   */
+  getListColumns(fields: MetadataFieldDefinition[]): MetadataFieldDefinition[] {
+    const seen = new Set<string>()
+    return fields.filter(field => {
+      if (!field.showInList || seen.has(field.key)) return false
+      seen.add(field.key)
+      return true
+    })
+  }
+
+  parseValues(row: { custom_metadata?: string | null }): CustomMetadataValues {
+    if (!row.custom_metadata) return {}
+    try {
+      const parsed = JSON.parse(row.custom_metadata)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Error message per field key; empty when the values may be saved
+   */
+  validate(fields: MetadataFieldDefinition[], values: CustomMetadataValues): Record<string, string> {
+    const errors: Record<string, string> = {}
+    for (const field of fields) {
+      const value = (values[field.key] || '').trim()
+      if (!value) {
+        if (field.required) errors[field.key] = `${field.label} is required`
+        continue
+      }
+
+      if (field.type === 'number' && isNaN(Number(value))) {
+        errors[field.key] = `${field.label} must be a number`
+      } else if (field.type === 'date' && (!/^\d{4}-\d{2}-\d{2}$/.test(value) || isNaN(new Date(value).getTime()))) {
+        errors[field.key] = `${field.label} must be a date`
+      } else if (field.type === 'enum' && !field.options.includes(value)) {
+        errors[field.key] = `${field.label} must be one of ${field.options.join(', ')}`
+      } else if (field.type === 'user' && value.includes('@') && !EMAIL_PATTERN.test(value)) {
+        errors[field.key] = `${field.label} must be an email address or user ID`
+      } else if (field.pattern && !this.matchesPattern(field.pattern, value)) {
+        errors[field.key] = `${field.label} does not match the required format`
+      }
+    }
+    return errors
+  }
+
+  /**
+   * Trimmed values for the given fields only, dropping empties
+   */
+  normalize(fields: MetadataFieldDefinition[], values: CustomMetadataValues): CustomMetadataValues {
+    const normalized: CustomMetadataValues = {}
+    for (const field of fields) {
+      const value = (values[field.key] || '').trim()
+      if (value) normalized[field.key] = field.type === 'number' ? String(Number(value)) : value
+    }
+    return normalized
+  }
+
+  formatValue(field: MetadataFieldDefinition, value: string | undefined): string {
+    if (!value) return ''
+    if (field.type === 'date') {
+      const date = new Date(`${value}T00:00:00`)
+      return isNaN(date.getTime()) ? value : date.toLocaleDateString()
+    }
+    return value
+  }
+
+  /**
+   * Whether any custom value of a file contains the search text
+   */
+  matchesSearch(row: { custom_metadata?: string | null }, query: string): boolean {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return true
+    return Object.values(this.parseValues(row)).some(value => String(value).toLowerCase().includes(needle))
+  }
+
+  private checkDefinition(field: Omit<MetadataFieldDefinition, 'id'>): string | null {
+    if (!KEY_PATTERN.test(field.key)) {
+      return 'Key must start with a letter and contain only letters, digits and underscores'
+    }
+    if (BUILT_IN_METADATA_KEYS.some(key => key.toLowerCase() === field.key.toLowerCase())) {
+      return `${field.key} is a built-in metadata field`
+    }
+    if (!field.label.trim()) {
+      return 'Label is required'
+    }
+    if (field.type === 'enum' && field.options.length === 0) {
+      return 'Choice fields need at least one option'
+    }
+    if (field.pattern) {
+      try {
+        new RegExp(field.pattern)
+      } catch {
+        return 'Format is not a valid regular expression'
+      }
+    }
+    return null
+  }
+
+  private matchesPattern(pattern: string, value: string): boolean {
+    try {
+      // The whole value has to match, not just part of it
+      return new RegExp(`^(?:${pattern})$`).test(value)
+    } catch {
+      return true
+    }
+  }
+}
+
+export const metadataSchemaService = MetadataSchemaService.getInstance()
@@ -0,0 +1,408 @@
+import { unzipSync, zipSync, strFromU8, strToU8, type Unzipped } from 'fflate'
+import type { DocumentMetadata } from './documentMetadataService'
+
+export type OfficeFormat = 'docx' | 'xlsx' | 'pptx'
+
+export interface OfficeProperties {
+  // core.xml elements by local name, e.g. identifier, version, lastModifiedBy, modified
+  core: Record<string, string>
+  custom: Record<string, string>
+  text: string
+}
+
+const OFFICE_MIME_TYPES: Record<string, OfficeFormat> = {
+  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': 'docx',
+  'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet': 'xlsx',
+  'application/vnd.openxmlformats-officedocument.presentationml.presentation': 'pptx'
+}
+
+const NS = {
+  cp: 'http://schemas.openxmlformats.org/package/2006/metadata/core-properties',
+  dc: 'http://purl.org/dc/elements/1.1/',
+  dcterms: 'http://purl.org/dc/terms/',
+  xsi: 'http://www.w3.org/2001/XMLSchema-instance',
+  custom: 'http://schemas.openxmlformats.org/officeDocument/2006/custom-properties',
+  vt: 'http://schemas.openxmlformats.org/officeDocument/2006/docPropsVTypes',
+  contentTypes: 'http://schemas.openxmlformats.org/package/2006/content-types',
+  rels: 'http://schemas.openxmlformats.org/package/2006/relationships',
+  w: 'http://schemas.openxmlformats.org/wordprocessingml/2006/main',
+  r: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships'
+}
+
+const REL_TYPES = {
+  core: 'http://schemas.openxmlformats.org/package/2006/relationships/metadata/core-properties',
+  custom: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/custom-properties',
+  header: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/header',
+  footer: 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/footer'
+}
+
+const CONTENT_TYPES = {
+  core: 'application/vnd.openxmlformats-package.core-properties+xml',
+  custom: 'application/vnd.openxmlformats-officedocument.custom-properties+xml',
+  header: 'application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml',
+  footer: 'application/vnd.openxmlformats-officedocument.wordprocessingml.footer+xml'
+}
+
+// Format id every Office application uses for user-defined custom properties
+const CUSTOM_PROPERTY_FMTID = '{D5CDD505-2E9C-101B-9397-08002B2CF9AE}'
+
+const EMPTY_CORE = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<cp:coreProperties xmlns:cp="${NS.cp}" xmlns:dc="${NS.dc}" xmlns:dcterms="${NS.dcterms}" xmlns:xsi="${NS.xsi}"></cp:coreProperties>`
+
+const EMPTY_CUSTOM = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Properties xmlns="${NS.custom}" xmlns:vt="${NS.vt}"></Properties>`
+
+export class OfficeMetadataService {
+  private static instance: OfficeMetadataService
+
+  static getInstance(): OfficeMetadataService {
+    if (!OfficeMetadataService.instance) {
+      OfficeMetadataService.instance = new OfficeMetadataService()
+    }
+    return OfficeMetadataService.instance
+  }
+
+  getFormat(fileType: string, fileName: string): OfficeFormat | null {
+    const byMime = OFFICE_MIME_TYPES[fileType.toLowerCase()]
+    if (byMime) return byMime
+    const extension = fileName.split('.').pop()?.toLowerCase()
+    return extension === 'docx' || extension === 'xlsx' || extension === 'pptx' ? extension : null
+  }
+
+  /**
+   * Write metadata into docProps/core.xml and docProps/custom.xml, and for
+   * Word documents optionally into a header or footer built from DOCPROPERTY fields
+   */
+  writeProperties(
+    data: Uint8Array,
+    metadata: DocumentMetadata,
+    format: OfficeFormat,
+    fieldPosition: 'none' | 'header' | 'footer' = 'none'
+  ): Uint8Array {
+    const entries = unzipSync(data)
+    if (!entries['[Content_Types].xml']) {
+      throw new Error('Not an Office Open XML package')
+    }
+
+    this.writeCoreProperties(entries, metadata)
+    this.writeCustomProperties(entries, this.getCustomProperties(metadata))
+    if (format === 'docx' && fieldPosition !== 'none') {
+      this.writeWordField(entries, metadata, fieldPosition)
+    }
+
+    return zipSync(entries)
+  }
+
+  /**
+   * Re-open a package and check every XML part still parses
+   */
+  validate(data: Uint8Array): void {
+    const entries = unzipSync(data)
+    if (!entries['[Content_Types].xml'] || !entries['_rels/.rels']) {
+      throw new Error('Office package is missing its content types or relationships')
+    }
+    for (const [path, content] of Object.entries(entries)) {
+      if (path.endsWith('.xml') || path.endsWith('.rels')) {
+        this.parse(strFromU8(content), path)
+      }
+    }
+  }
+
+  /**
+   * Read core and custom properties plus the visible text of a package
+   */
+  readProperties(data: Uint8Array, format: OfficeFormat): OfficeProperties {
+    const entries = unzipSync(data)
+    const properties: OfficeProperties = { core: {}, custom: {}, text: '' }
+
+    const corePath = this.findPartByRelType(entries, '_rels/.rels', REL_TYPES.core) || 'docProps/core.xml'
+    if (entries[corePath]) {
+      const core = this.parse(strFromU8(entries[corePath]), corePath)
+      for (const element of Array.from(core.documentElement.childNodes)) {
+        if (element.nodeType === 1 && element.textContent?.trim()) {
+          properties.core[(element as Element).localName] = element.textContent.trim()
+        }
+      }
+    }
+
+    const customPath = this.findPartByRelType(entries, '_rels/.rels', REL_TYPES.custom) || 'docProps/custom.xml'
+    if (entries[customPath]) {
+      const custom = this.parse(strFromU8(entries[customPath]), customPath)
+      for (const property of Array.from(custom.getElementsByTagNameNS(NS.custom, 'property'))) {
+        const name = property.getAttribute('name')
+        const value = property.textContent?.trim()
+        if (name && value) properties.custom[name] = value
+      }
+    }
+
+    properties.text = this.readText(entries, format)
+    return properties
+  }
+
+  /**
+   * Paragraph text of the document body, slides or shared strings
+   */
+  private readText(entries: Unzipped, format: OfficeFormat): string {
+    const paths = Object.keys(entries).filter(path =>
+      format === 'docx' ? path === 'word/document.xml' :
+      format === 'xlsx' ? path === 'xl/sharedStrings.xml' :
+      /^ppt\/slides\/slide\d+\.xml$/.test(path)
+    ).sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+    // w:p and a:p are paragraphs; si is one shared string
+    const blockName = format === 'xlsx' ? 'si' : 'p'
+
+    const lines: string[] = []
+    for (const path of paths) {
+      const doc = this.parse(strFromU8(entries[path]), path)
+      for (const block of Array.from(doc.getElementsByTagName('*')).filter(element => element.localName === blockName)) {
+        const text = Array.from(block.getElementsByTagName('*'))
+          .filter(element => element.localName === 't')
+          .map(element => element.textContent || '')
+          .join('')
+        if (text.trim()) lines.push(text)
+      }
+    }
+    return lines.join('\n')
+  }
+
+  private getCustomProperties(metadata: DocumentMetadata): Record<string, string> {
+    return {
+      DocumentReference: metadata.documentReference,
+      RevisionNumber: metadata.revisionNumber,
+      VersionLabel: metadata.versionLabel,
+      ModifiedBy: metadata.modifiedBy,
+      Organization: metadata.organizationName,
+      ChangeNotes: metadata.changeNotes,
+      ...metadata.customFields
+    }
+  }
+
+  private writeCoreProperties(entries: Unzipped, metadata: DocumentMetadata): void {
+    const path = this.findPartByRelType(entries, '_rels/.rels', REL_TYPES.core) || 'docProps/core.xml'
+    const doc = this.parse(entries[path] ? strFromU8(entries[path]) : EMPTY_CORE, path)
+    const root = doc.documentElement
+
+    const setElement = (ns: string, qualifiedName: string, value: string, w3cdtf = false) => {
+      const localName = qualifiedName.split(':')[1]
+      let element = root.getElementsByTagNameNS(ns, localName)[0]
+      if (!element) {
+        element = doc.createElementNS(ns, qualifiedName)
+        root.appendChild(element)
+      }
+      if (w3cdtf) element.setAttributeNS(NS.xsi, 'xsi:type', 'dcterms:W3CDTF')
+      element.textContent = value
+    }
+
+    setElement(NS.dc, 'dc:identifier', metadata.documentReference)
+    setElement(NS.cp, 'cp:version', metadata.versionLabel)
+    setElement(NS.cp, 'cp:lastModifiedBy', metadata.modifiedBy)
+    setElement(NS.dcterms, 'dcterms:modified', new Date(metadata.lastModified).toISOString().replace(/\.\d{3}Z$/, 'Z'), true)
+
+    entries[path] = strToU8(this.serialize(doc))
+    this.ensureContentType(entries, `/${path}`, CONTENT_TYPES.core)
+    this.ensurePackageRelationship(entries, REL_TYPES.core, path)
+  }
+
+  private writeCustomProperties(entries: Unzipped, values: Record<string, string>): void {
+    const path = this.findPartByRelType(entries, '_rels/.rels', REL_TYPES.custom) || 'docProps/custom.xml'
+    const doc = this.parse(entries[path] ? strFromU8(entries[path]) : EMPTY_CUSTOM, path)
+    const root = doc.documentElement
+    const properties = Array.from(root.getElementsByTagNameNS(NS.custom, 'property'))
+    // pid 0 and 1 are reserved
+    let nextPid = Math.max(1, ...properties.map(p => Number(p.getAttribute('pid')) || 0)) + 1
+
+    for (const [name, value] of Object.entries(values)) {
+      let property = properties.find(p => p.getAttribute('name') === name)
+      if (!property) {
+        property = doc.createElementNS(NS.custom, 'property')
+        property.setAttribute('fmtid', CUSTOM_PROPERTY_FMTID)
+        property.setAttribute('pid', String(nextPid++))
+        property.setAttribute('name', name)
+        root.appendChild(property)
+      }
+      while (property.firstChild) property.removeChild(property.firstChild)
+      const text = doc.createElementNS(NS.vt, 'vt:lpwstr')
+      text.textContent = value
+      property.appendChild(text)
+    }
+
+    entries[path] = strToU8(this.serialize(doc))
+    this.ensureContentType(entries, `/${path}`, CONTENT_TYPES.custom)
+    this.ensurePackageRelationship(entries, REL_TYPES.custom, path)
+  }
+
+  /**
+   * Add a paragraph of DOCPROPERTY fields to the default header or footer of
+   * every section, creating the part where a section has none
+   */
+  private writeWordField(entries: Unzipped, metadata: DocumentMetadata, position: 'header' | 'footer'): void {
+    const documentPath = this.findPartByRelType(entries, '_rels/.rels', 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument') || 'word/document.xml'
+    const directory = documentPath.slice(0, documentPath.lastIndexOf('/') + 1)
+    const relsPath = `${directory}_rels/${documentPath.slice(directory.length)}.rels`
+    const document = this.parse(strFromU8(entries[documentPath]), documentPath)
+    const rels = this.parse(entries[relsPath] ? strFromU8(entries[relsPath]) : `<Relationships xmlns="${NS.rels}"/>`, relsPath)
+    const relationships = Array.from(rels.getElementsByTagNameNS(NS.rels, 'Relationship'))
+    const referenceName = position === 'header' ? 'headerReference' : 'footerReference'
+    const stamped = new Set<string>()
+    let createdId: string | null = null
+
+    for (const sectPr of Array.from(document.getElementsByTagNameNS(NS.w, 'sectPr'))) {
+      const reference = Array.from(sectPr.getElementsByTagNameNS(NS.w, referenceName))
+        .find(ref => (ref.getAttributeNS(NS.w, 'type') || 'default') === 'default')
+
+      if (reference) {
+        const target = relationships.find(rel => rel.getAttribute('Id') === reference.getAttributeNS(NS.r, 'id'))?.getAttribute('Target')
+        const partPath = target ? this.resolvePath(directory, target) : null
+        if (partPath && entries[partPath] && !stamped.has(partPath)) {
+          const part = this.parse(strFromU8(entries[partPath]), partPath)
+          // Replace the block from an earlier revision rather than stacking another
+          Array.from(part.getElementsByTagNameNS(NS.w, 'p'))
+            .filter(p => Array.from(p.getElementsByTagNameNS(NS.w, 'fldSimple'))
+              .some(field => field.getAttributeNS(NS.w, 'instr')?.includes('DOCPROPERTY DocumentReference')))
+            .forEach(p => p.parentNode?.removeChild(p))
+          part.documentElement.appendChild(this.buildFieldParagraph(part, metadata))
+          entries[partPath] = strToU8(this.serialize(part))
+          stamped.add(partPath)
+        }
+        continue
+      }
+
+      if (!createdId) {
+        createdId = this.createWordPart(entries, rels, directory, metadata, position)
+      }
+      const newReference = document.createElementNS(NS.w, `w:${referenceName}`)
+      newReference.setAttributeNS(NS.w, 'w:type', 'default')
+      newReference.setAttributeNS(NS.r, 'r:id', createdId)
+      // Header and footer references must come first in sectPr
+      sectPr.insertBefore(newReference, sectPr.firstChild)
+    }
+
+    entries[documentPath] = strToU8(this.serialize(document))
+    entries[relsPath] = strToU8(this.serialize(rels))
+  }
+
+  private createWordPart(
+    entries: Unzipped,
+    rels: Document,
+    directory: string,
+    metadata: DocumentMetadata,
+    position: 'header' | 'footer'
+  ): string {
+    let index = 1
+    while (entries[`${directory}${position}${index}.xml`]) index++
+    const fileName = `${position}${index}.xml`
+    const rootName = position === 'header' ? 'w:hdr' : 'w:ftr'
+
+    const part = this.parse(`<?xml version="1.0" encoding="UTF-8" standalone="yes"?><${rootName} xmlns:w="${NS.w}" xmlns:r="${NS.r}"/>`, fileName)
+    part.documentElement.appendChild(this.buildFieldParagraph(part, metadata))
+    entries[`${directory}${fileName}`] = strToU8(this.serialize(part))
+    this.ensureContentType(entries, `/${directory}${fileName}`, CONTENT_TYPES[position])
+
+    const existingIds = new Set(Array.from(rels.getElementsByTagNameNS(NS.rels, 'Relationship')).map(rel => rel.getAttribute('Id')))
+    let id = 1
+    while (existingIds.has(`rId${id}`)) id++
+    const relationship = rels.createElementNS(NS.rels, 'Relationship')
+    relationship.setAttribute('Id', `rId${id}`)
+    relationship.setAttribute('Type', REL_TYPES[position])
+    relationship.setAttribute('Target', fileName)
+    rels.documentElement.appendChild(relationship)
+    return `rId${id}`
+  }
+
+  private buildFieldParagraph(doc: Document, metadata: DocumentMetadata): Element {
+    const paragraph = doc.createElementNS(NS.w, 'w:p')
+    const addText = (text: string) => {
+      const run = doc.createElementNS(NS.w, 'w:r')
+      const runProps = doc.createElementNS(NS.w, 'w:rPr')
+      const size = doc.createElementNS(NS.w, 'w:sz')
+      size.setAttributeNS(NS.w, 'w:val', '14')
+      runProps.appendChild(size)
+      run.appendChild(runProps)
+      const t = doc.createElementNS(NS.w, 'w:t')
+      t.setAttributeNS('http://www.w3.org/XML/1998/namespace', 'xml:space', 'preserve')
+      t.textContent = text
+      run.appendChild(t)
+      return run
+    }
+    const addField = (property: string, value: string) => {
+      // Cached value shows immediately; Word refreshes it from the custom property
+      const field = doc.createElementNS(NS.w, 'w:fldSimple')
+      field.setAttributeNS(NS.w, 'w:instr', ` DOCPROPERTY ${property} \\* MERGEFORMAT `)
+      field.appendChild(addText(value))
+      paragraph.appendChild(field)
+    }
+
+    paragraph.appendChild(addText('Doc Ref: '))
+    addField('DocumentReference', metadata.documentReference)
+    paragraph.appendChild(addText(' | Revision: '))
+    addField('RevisionNumber', metadata.revisionNumber)
+    paragraph.appendChild(addText(' | Version: '))
+    addField('VersionLabel', metadata.versionLabel)
+    paragraph.appendChild(addText(' | Modified By: '))
+    addField('ModifiedBy', metadata.modifiedBy)
+    return paragraph
+  }
+
+  private findPartByRelType(entries: Unzipped, relsPath: string, type: string): string | null {
+    if (!entries[relsPath]) return null
+    const rels = this.parse(strFromU8(entries[relsPath]), relsPath)
+    const target = Array.from(rels.getElementsByTagNameNS(NS.rels, 'Relationship'))
+      .find(rel => rel.getAttribute('Type') === type)
+      ?.getAttribute('Target')
+    return target ? target.replace(/^\//, '') : null
+  }
+
+  private ensurePackageRelationship(entries: Unzipped, type: string, target: string): void {
+    const rels = this.parse(entries['_rels/.rels'] ? strFromU8(entries['_rels/.rels']) : `<Relationships xmlns="${NS.rels}"/>`, '_rels/.rels')
+    const relationships = Array.from(rels.getElementsByTagNameNS(NS.rels, 'Relationship'))
+    if (relationships.some(rel => rel.getAttribute('Type') === type)) return
+
+    const ids = new Set(relationships.map(rel => rel.getAttribute('Id')))
+    let id = 1
+    while (ids.has(`rId${id}`)) id++
+    const relationship = rels.createElementNS(NS.rels, 'Relationship')
+    relationship.setAttribute('Id', `rId${id}`)
+    relationship.setAttribute('Type', type)
+    relationship.setAttribute('Target', target)
+    rels.documentElement.appendChild(relationship)
+    entries['_rels/.rels'] = strToU8(this.serialize(rels))
+  }
+
+  private ensureContentType(entries: Unzipped, partName: string, contentType: string): void {
+    const types = this.parse(strFromU8(entries['[Content_Types].xml']), '[Content_Types].xml')
+    const overrides = Array.from(types.getElementsByTagNameNS(NS.contentTypes, 'Override'))
+    if (overrides.some(o => o.getAttribute('PartName')?.toLowerCase() === partName.toLowerCase())) return
+
+    const override = types.createElementNS(NS.contentTypes, 'Override')
+    override.setAttribute('PartName', partName)
+    override.setAttribute('ContentType', contentType)
+    types.documentElement.appendChild(override)
+    entries['[Content_Types].xml'] = strToU8(this.serialize(types))
+  }
+
+  private resolvePath(directory: string, target: string): string {
+    if (target.startsWith('/')) return target.slice(1)
+    const parts = `${directory}${target}`.split('/')
+    const resolved: string[] = []
+    for (const part of parts) {
+      if (part === '..') resolved.pop()
+      else if (part !== '.') resolved.push(part)
+    }
+    return resolved.join('/')
+  }
+
+  private parse(xml: string, path: string): Document {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error(`Invalid XML in ${path}`)
+    }
+    return doc
+  }
+
+  private serialize(doc: Document): string {
+    const xml = new XMLSerializer().serializeToString(doc)
+    return xml.startsWith('<?xml') ? xml : `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`
+  }
+}
+
+export const officeMetadataService = OfficeMetadataService.getInstance()
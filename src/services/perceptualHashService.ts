@@ -0,0 +1,256 @@
+import { versionDiffService } from './versionDiffService'
+
+export interface VisualFingerprint {
+  // 64-bit hashes as 16 hex digits
+  aHash: string
+  dHash: string
+  pHash: string
+  // Share of pixels in each of HISTOGRAM_LEVELS³ RGB bins
+  colorHistogram: number[]
+}
+
+export interface VisualSample extends VisualFingerprint {
+  // Small JPEG data URL for side-by-side comparison
+  thumbnail: string
+}
+
+// Rasters are sampled at this size; the hashes only look at 32×32 or less
+const SAMPLE_SIZE = 256
+const THUMBNAIL_SIZE = 128
+const HISTOGRAM_LEVELS = 4
+const MEMORY_CACHE_SIZE = 20
+const PHASH_SIZE = 32
+const PHASH_LOW_FREQUENCIES = 8
+// Bit differences at which a hash stops saying anything; unrelated images differ in about 32
+const HASH_DISTANCE_CUTOFF = 32
+const HASH_WEIGHTS = { pHash: 0.4, dHash: 0.25, aHash: 0.15, colorHistogram: 0.2 }
+
+// Formats browsers cannot decode, e.g. TIFF and HEIC, are left to the name and text signals
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'image/bmp', 'image/svg+xml']
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg']
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || ''
+
+const COSINES = Array.from({ length: PHASH_LOW_FREQUENCIES }, (_, u) =>
+  Array.from({ length: PHASH_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_SIZE))))
+
+export class PerceptualHashService {
+  private static instance: PerceptualHashService
+  private memoryCache = new Map<string, VisualSample>()
+
+  static getInstance(): PerceptualHashService {
+    if (!PerceptualHashService.instance) {
+      PerceptualHashService.instance = new PerceptualHashService()
+    }
+    return PerceptualHashService.instance
+  }
+
+  /**
+   * Images the browser can decode, and PDFs through their first page
+   */
+  supports(fileType: string | null | undefined, fileName: string): boolean {
+    const type = (fileType || '').toLowerCase()
+    const extension = getExtension(fileName)
+    return IMAGE_TYPES.includes(type) || IMAGE_EXTENSIONS.includes(extension) ||
+      type === 'application/pdf' || extension === 'pdf'
+  }
+
+  /**
+   * Hashes, colour histogram and thumbnail of an image or a PDF's first page.
+   * Returns null for other files and for files that cannot be rendered.
+   */
+  async compute(file: File, contentHash?: string): Promise<VisualSample | null> {
+    if (!this.supports(file.type, file.name)) return null
+    const cached = contentHash ? this.memoryCache.get(contentHash) : undefined
+    if (cached) return cached
+
+    try {
+      const canvas = await this.rasterize(file)
+      const ctx = canvas.getContext('2d')
+      if (!ctx) return null
+      const pixels = ctx.getImageData(0, 0, canvas.width, canvas.height)
+      const sample: VisualSample = {
+        ...this.fingerprint(pixels.data, canvas.width, canvas.height),
+        thumbnail: this.thumbnail(canvas)
+      }
+      if (contentHash) this.remember(contentHash, sample)
+      return sample
+    } catch (error) {
+      console.error(`Error computing perceptual hashes for ${file.name}:`, error)
+      return null
+    }
+  }
+
+  /**
+   * Fingerprint of RGBA pixels; transparent areas count as white so a logo
+   * matches itself whether it was exported with or without a background
+   */
+  fingerprint(rgba: ArrayLike<number>, width: number, height: number): VisualFingerprint {
+    const gray = new Float64Array(width * height)
+    const histogram = new Array<number>(HISTOGRAM_LEVELS ** 3).fill(0)
+    for (let i = 0; i < width * height; i++) {
+      const alpha = rgba[i * 4 + 3] / 255
+      const r = rgba[i * 4] * alpha + 255 * (1 - alpha)
+      const g = rgba[i * 4 + 1] * alpha + 255 * (1 - alpha)
+      const b = rgba[i * 4 + 2] * alpha + 255 * (1 - alpha)
+      gray[i] = 0.299 * r + 0.587 * g + 0.114 * b
+      const bin = (channel: number) => Math.min(HISTOGRAM_LEVELS - 1, Math.floor(channel * HISTOGRAM_LEVELS / 256))
+      histogram[(bin(r) * HISTOGRAM_LEVELS + bin(g)) * HISTOGRAM_LEVELS + bin(b)]++
+    }
+    const total = Math.max(1, width * height)
+
+    return {
+      aHash: this.averageHash(this.resize(gray, width, height, 8, 8)),
+      dHash: this.differenceHash(this.resize(gray, width, height, 9, 8)),
+      pHash: this.dctHash(this.resize(gray, width, height, PHASH_SIZE, PHASH_SIZE)),
+      colorHistogram: histogram.map(count => Math.round((count / total) * 10000) / 10000)
+    }
+  }
+
+  /**
+   * 0 for unrelated images up to 1 for the same picture, combining the three
+   * hashes with the colour histogram
+   */
+  similarity(a: VisualFingerprint, b: VisualFingerprint): number {
+    const histogram = a.colorHistogram.reduce((sum, value, i) => sum + Math.min(value, b.colorHistogram[i] || 0), 0)
+    return HASH_WEIGHTS.pHash * this.hashSimilarity(a.pHash, b.pHash) +
+      HASH_WEIGHTS.dHash * this.hashSimilarity(a.dHash, b.dHash) +
+      HASH_WEIGHTS.aHash * this.hashSimilarity(a.aHash, b.aHash) +
+      HASH_WEIGHTS.colorHistogram * Math.min(1, histogram)
+  }
+
+  hashSimilarity(hash1: string, hash2: string): number {
+    if (hash1.length !== hash2.length) return 0
+    let distance = 0
+    for (let i = 0; i < hash1.length; i++) {
+      let bits = parseInt(hash1[i], 16) ^ parseInt(hash2[i], 16)
+      while (bits) {
+        distance += bits & 1
+        bits >>= 1
+      }
+    }
+    return Math.max(0, 1 - distance / HASH_DISTANCE_CUTOFF)
+  }
+
+  private async rasterize(file: File): Promise<HTMLCanvasElement> {
+    if (file.type === 'application/pdf' || getExtension(file.name) === 'pdf') {
+      return versionDiffService.renderPdfPage(new Uint8Array(await file.arrayBuffer()), 1, SAMPLE_SIZE)
+    }
+
+    const img = new Image()
+    const objectUrl = URL.createObjectURL(file)
+    try {
+      await new Promise<void>((resolve, reject) => {
+        img.onload = () => resolve()
+        img.onerror = () => reject(new Error(`Could not decode ${file.name}`))
+        img.src = objectUrl
+      })
+      const scale = Math.min(1, SAMPLE_SIZE / Math.max(img.naturalWidth || 1, img.naturalHeight || 1))
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round((img.naturalWidth || SAMPLE_SIZE) * scale))
+      canvas.height = Math.max(1, Math.round((img.naturalHeight || SAMPLE_SIZE) * scale))
+      const ctx = canvas.getContext('2d')
+      if (!ctx) throw new Error('Canvas is not available')
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height)
+      return canvas
+    } finally {
+      URL.revokeObjectURL(objectUrl)
+    }
+  }
+
+  private thumbnail(source: HTMLCanvasElement): string {
+    const scale = Math.min(1, THUMBNAIL_SIZE / Math.max(source.width, source.height))
+    const canvas = document.createElement('canvas')
+    canvas.width = Math.max(1, Math.round(source.width * scale))
+    canvas.height = Math.max(1, Math.round(source.height * scale))
+    const ctx = canvas.getContext('2d')
+    if (!ctx) return ''
+    // JPEG has no alpha channel; white matches how the hashes see transparency
+    ctx.fillStyle = 'white'
+    ctx.fillRect(0, 0, canvas.width, canvas.height)
+    ctx.drawImage(source, 0, 0, canvas.width, canvas.height)
+    return canvas.toDataURL('image/jpeg', 0.7)
+  }
+
+  /**
+   * Area-average downscale; upscales of tiny images repeat pixels
+   */
+  private resize(gray: Float64Array, width: number, height: number, targetWidth: number, targetHeight: number): Float64Array {
+    const result = new Float64Array(targetWidth * targetHeight)
+    for (let ty = 0; ty < targetHeight; ty++) {
+      const y0 = Math.floor((ty * height) / targetHeight)
+      const y1 = Math.max(y0 + 1, Math.floor(((ty + 1) * height) / targetHeight))
+      for (let tx = 0; tx < targetWidth; tx++) {
+        const x0 = Math.floor((tx * width) / targetWidth)
+        const x1 = Math.max(x0 + 1, Math.floor(((tx + 1) * width) / targetWidth))
+        let sum = 0
+        for (let y = y0; y < y1; y++) {
+          for (let x = x0; x < x1; x++) {
+            sum += gray[Math.min(y, height - 1) * width + Math.min(x, width - 1)]
+          }
+        }
+        result[ty * targetWidth + tx] = sum / ((y1 - y0) * (x1 - x0))
+      }
+    }
+    return result
+  }
+
+  private averageHash(pixels: Float64Array): string {
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length
+    return this.toHex(Array.from(pixels, value => value > mean))
+  }
+
+  private differenceHash(pixels: Float64Array): string {
+    const bits: boolean[] = []
+    for (let y = 0; y < 8; y++) {
+      for (let x = 0; x < 8; x++) {
+        bits.push(pixels[y * 9 + x] < pixels[y * 9 + x + 1])
+      }
+    }
+    return this.toHex(bits)
+  }
+
+  /**
+   * Signs of the lowest 8×8 DCT frequencies against their median
+   */
+  private dctHash(pixels: Float64Array): string {
+    const rows = new Float64Array(PHASH_SIZE * PHASH_LOW_FREQUENCIES)
+    for (let y = 0; y < PHASH_SIZE; y++) {
+      for (let v = 0; v < PHASH_LOW_FREQUENCIES; v++) {
+        let sum = 0
+        for (let x = 0; x < PHASH_SIZE; x++) sum += pixels[y * PHASH_SIZE + x] * COSINES[v][x]
+        rows[y * PHASH_LOW_FREQUENCIES + v] = sum
+      }
+    }
+    const coefficients: number[] = []
+    for (let u = 0; u < PHASH_LOW_FREQUENCIES; u++) {
+      for (let v = 0; v < PHASH_LOW_FREQUENCIES; v++) {
+        let sum = 0
+        for (let y = 0; y < PHASH_SIZE; y++) sum += rows[y * PHASH_LOW_FREQUENCIES + v] * COSINES[u][y]
+        coefficients.push(sum)
+      }
+    }
+    // The DC term is the overall brightness and would dominate the median
+    const sorted = coefficients.slice(1).sort((a, b) => a - b)
+    const median = (sorted[31] + sorted[32]) / 2
+    return this.toHex(coefficients.map(value => value > median))
+  }
+
+  private toHex(bits: boolean[]): string {
+    let hex = ''
+    for (let i = 0; i < bits.length; i += 4) {
+      hex += ((bits[i] ? 8 : 0) | (bits[i + 1] ? 4 : 0) | (bits[i + 2] ? 2 : 0) | (bits[i + 3] ? 1 : 0)).toString(16)
+    }
+    return hex
+  }
+
+  private remember(contentHash: string, sample: VisualSample): void {
+    this.memoryCache.delete(contentHash)
+    this.memoryCache.set(contentHash, sample)
+    if (this.memoryCache.size > MEMORY_CACHE_SIZE) {
+      this.memoryCache.delete(this.memoryCache.keys().next().value as string)
+    }
+  }
+}
+
+export const perceptualHashService = PerceptualHashService.getInstance()
@@ -0,0 +1,342 @@
+import { blink } from '../blink/client'
+import { findMostSpecificRule, parseList } from '../lib/utils'
+import { aiSimilarityService } from './aiSimilarityService'
+import { lifecycleService } from './lifecycleService'
+
+export type RetentionTrigger = 'created' | 'superseded' | 'obsolete'
+
+export type ProtectedOperation = 'delete' | 'restore' | 'prune'
+
+export interface RetentionRule {
+  id: string
+  organizationId: string
+  folderPath?: string
+  documentType?: string
+  retainYears: number
+  trigger: RetentionTrigger
+}
+
+export interface LegalHold {
+  id: string
+  organizationId: string
+  name: string
+  reason: string
+  folderPath?: string
+  fileIds: string[]
+  placedBy: string
+  placedAt: string
+  releasedAt?: string
+  releasedBy?: string
+}
+
+export interface RetentionUser {
+  id: string
+  email?: string
+}
+
+export interface RetentionStatus {
+  rule: RetentionRule
+  // Absent while the trigger event has not happened yet, which keeps the row indefinitely
+  retainUntil?: string
+}
+
+export interface ProtectionCheck {
+  allowed: boolean
+  holds: LegalHold[]
+  retention: RetentionStatus[]
+  reasons: string[]
+}
+
+export interface RetentionReport {
+  holds: { hold: LegalHold, files: { id: string, name: string, folderPath: string }[] }[]
+  retained: { fileId: string, fileName: string, versionLabel: string, rule: RetentionRule, retainUntil?: string }[]
+}
+
+export const RETENTION_TRIGGER_LABELS: Record<RetentionTrigger, string> = {
+  created: 'after creation',
+  superseded: 'after being superseded',
+  obsolete: 'after becoming obsolete'
+}
+
+export class RetentionService {
+  private static instance: RetentionService
+
+  static getInstance(): RetentionService {
+    if (!RetentionService.instance) {
+      RetentionService.instance = new RetentionService()
+    }
+    return RetentionService.instance
+  }
+
+  async listRules(organizationId: string): Promise<RetentionRule[]> {
+    const rows = await blink.db.retentionRules.list({
+      where: { organization_id: organizationId },
+      orderBy: { created_at: 'asc' }
+    })
+    return rows.map((row: any) => ({
+      id: row.id,
+      organizationId: row.organization_id,
+      folderPath: row.folder_path || undefined,
+      documentType: row.document_type || undefined,
+      retainYears: Number(row.retain_years) || 0,
+      trigger: (row.trigger in RETENTION_TRIGGER_LABELS ? row.trigger : 'created') as RetentionTrigger
+    }))
+  }
+
+  async saveRule(rule: Omit<RetentionRule, 'id'> & { id?: string }): Promise<void> {
+    const data = {
+      organization_id: rule.organizationId,
+      folder_path: rule.folderPath || null,
+      document_type: rule.documentType || null,
+      retain_years: rule.retainYears,
+      trigger: rule.trigger,
+      updated_at: new Date().toISOString()
+    }
+    if (rule.id) {
+      await blink.db.retentionRules.update(rule.id, data)
+    } else {
+      await blink.db.retentionRules.create({
+        id: `retention_${Date.now()}`,
+        ...data,
+        created_at: new Date().toISOString()
+      })
+    }
+  }
+
+  async deleteRule(ruleId: string): Promise<void> {
+    await blink.db.retentionRules.delete(ruleId)
+  }
+
+  async listHolds(organizationId: string, includeReleased = false): Promise<LegalHold[]> {
+    const rows = await blink.db.legalHolds.list({
+      where: { organization_id: organizationId },
+      orderBy: { placed_at: 'desc' }
+    })
+    return rows
+      .map((row: any) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        name: row.name,
+        reason: row.reason,
+        folderPath: row.folder_path || undefined,
+        fileIds: parseList(row.file_ids),
+        placedBy: row.placed_by,
+        placedAt: row.placed_at,
+        releasedAt: row.released_at || undefined,
+        releasedBy: row.released_by || undefined
+      }))
+      .filter((hold: LegalHold) => includeReleased || !hold.releasedAt)
+  }
+
+  /**
+   * Place a hold on specific files and/or everything under a folder
+   */
+  async placeHold(
+    hold: { organizationId: string, name: string, reason: string, folderPath?: string, fileIds: string[] },
+    user: RetentionUser
+  ): Promise<LegalHold> {
+    const now = new Date().toISOString()
+    const placed: LegalHold = {
+      id: `hold_${Date.now()}`,
+      ...hold,
+      placedBy: user.email || user.id,
+      placedAt: now
+    }
+
+    await blink.db.legalHolds.create({
+      id: placed.id,
+      organization_id: hold.organizationId,
+      name: hold.name,
+      reason: hold.reason,
+      folder_path: hold.folderPath || null,
+      file_ids: JSON.stringify(hold.fileIds),
+      placed_by: placed.placedBy,
+      placed_at: now
+    })
+
+    const files = await this.getHeldFiles(placed)
+    for (const file of files) {
+      await this.logEvent(file, user.id, 'legal_hold_placed', `Legal hold "${hold.name}" placed`, {
+        holdId: placed.id,
+        holdName: hold.name,
+        reason: hold.reason
+      })
+    }
+    return placed
+  }
+
+  async releaseHold(hold: LegalHold, user: RetentionUser): Promise<void> {
+    const now = new Date().toISOString()
+    await blink.db.legalHolds.update(hold.id, {
+      released_at: now,
+      released_by: user.email || user.id
+    })
+
+    const files = await this.getHeldFiles(hold)
+    for (const file of files) {
+      await this.logEvent(file, user.id, 'legal_hold_released', `Legal hold "${hold.name}" released`, {
+        holdId: hold.id,
+        holdName: hold.name,
+        placedAt: hold.placedAt
+      })
+    }
+  }
+
+  /**
+   * Active holds covering a file, from an already loaded list of holds
+   */
+  getHoldsForFile(file: { id: string, folder_path?: string | null }, holds: LegalHold[]): LegalHold[] {
+    const folderPath = file.folder_path || '/'
+    return holds.filter(hold =>
+      !hold.releasedAt && (
+        hold.fileIds.includes(file.id) ||
+        Boolean(hold.folderPath && (folderPath === hold.folderPath || folderPath.startsWith(`${hold.folderPath.replace(/\/$/, '')}/`)))
+      )
+    )
+  }
+
+  /**
+   * How long a file or version row must be kept under a rule
+   */
+  getRetentionStatus(row: any, rule: RetentionRule): RetentionStatus {
+    const state = lifecycleService.getState(row)
+    let triggeredAt: string | undefined
+    if (rule.trigger === 'created') {
+      triggeredAt = row.created_at
+    } else if (rule.trigger === 'superseded' && (state === 'superseded' || state === 'obsolete')) {
+      triggeredAt = row.superseded_at || row.obsoleted_at || row.updated_at || row.created_at
+    } else if (rule.trigger === 'obsolete' && state === 'obsolete') {
+      triggeredAt = row.obsoleted_at || row.updated_at || row.created_at
+    }
+
+    if (!triggeredAt) return { rule }
+    const retainUntil = new Date(triggeredAt)
+    retainUntil.setFullYear(retainUntil.getFullYear() + rule.retainYears)
+    return { rule, retainUntil: retainUntil.toISOString() }
+  }
+
+  isRetained(status: RetentionStatus): boolean {
+    return !status.retainUntil || new Date(status.retainUntil).getTime() > Date.now()
+  }
+
+  /**
+   * Whether an operation is allowed on a file. Deleting and pruning are
+   * blocked by legal holds and unexpired retention; restoring over the
+   * current revision is blocked by legal holds.
+   */
+  async checkFile(file: any, operation: ProtectedOperation, versionId?: string): Promise<ProtectionCheck> {
+    const [holds, rules] = await Promise.all([
+      this.listHolds(file.organization_id),
+      operation === 'restore' ? Promise.resolve([]) : this.listRules(file.organization_id)
+    ])
+
+    const activeHolds = this.getHoldsForFile(file, holds)
+    const reasons = activeHolds.map(hold => `Legal hold "${hold.name}": ${hold.reason}`)
+
+    const retention: RetentionStatus[] = []
+    const rule = findMostSpecificRule(rules, file.folder_path || '/', aiSimilarityService.getTypePrefix(file.file_type || ''))
+    if (rule) {
+      const versions = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+      const rows = operation === 'prune'
+        ? versions.filter((v: any) => v.id === versionId)
+        : [file, ...versions]
+
+      for (const row of rows) {
+        const status = this.getRetentionStatus(row, rule)
+        if (this.isRetained(status)) retention.push(status)
+      }
+      if (retention.length > 0) {
+        const until = retention.some(status => !status.retainUntil)
+          ? `${rule.retainYears} years ${RETENTION_TRIGGER_LABELS[rule.trigger]}`
+          : `until ${new Date(retention.map(s => s.retainUntil!).sort().pop()!).toLocaleDateString()}`
+        reasons.push(`Retention rule keeps ${operation === 'prune' ? 'this version' : 'this document'} ${until}`)
+      }
+    }
+
+    return { allowed: reasons.length === 0, holds: activeHolds, retention, reasons }
+  }
+
+  /**
+   * Throw, and record the attempt in the audit trail, when an operation is blocked
+   */
+  async assertAllowed(file: any, operation: ProtectedOperation, user: RetentionUser, versionId?: string): Promise<void> {
+    const check = await this.checkFile(file, operation, versionId)
+    if (check.allowed) return
+
+    await this.logEvent(file, user.id, 'retention_block', `Blocked ${operation} of ${file.name}`, {
+      operation,
+      versionId,
+      holds: check.holds.map(hold => hold.name),
+      reason: check.reasons.join('; ')
+    })
+    throw new Error(`${file.name} cannot be ${operation === 'restore' ? 'restored over' : operation === 'prune' ? 'pruned' : 'deleted'}. ${check.reasons.join('. ')}`)
+  }
+
+  /**
+   * Everything that is currently held or retained, and why
+   */
+  async getReport(organizationId: string): Promise<RetentionReport> {
+    try {
+      const [holds, rules] = await Promise.all([
+        this.listHolds(organizationId),
+        this.listRules(organizationId)
+      ])
+      const files = await blink.db.files.list({ where: { organization_id: organizationId } })
+
+      const report: RetentionReport = {
+        holds: holds.map(hold => ({
+          hold,
+          files: files
+            .filter((file: any) => this.getHoldsForFile(file, [hold]).length > 0)
+            .map((file: any) => ({ id: file.id, name: file.name, folderPath: file.folder_path || '/' }))
+        })),
+        retained: []
+      }
+
+      for (const file of files) {
+        const rule = findMostSpecificRule(rules, file.folder_path || '/', aiSimilarityService.getTypePrefix(file.file_type || ''))
+        if (!rule) continue
+        const status = this.getRetentionStatus(file, rule)
+        if (this.isRetained(status)) {
+          report.retained.push({
+            fileId: file.id,
+            fileName: file.name,
+            versionLabel: file.version_label,
+            rule,
+            retainUntil: status.retainUntil
+          })
+        }
+      }
+      return report
+    } catch (error) {
+      console.error('Error building retention report:', error)
+      return { holds: [], retained: [] }
+    }
+  }
+
+  private async getHeldFiles(hold: LegalHold): Promise<any[]> {
+    const files = await blink.db.files.list({ where: { organization_id: hold.organizationId } })
+    return files.filter((file: any) => this.getHoldsForFile(file, [hold]).length > 0)
+  }
+
+  private async logEvent(
+    file: any,
+    userId: string,
+    action: 'legal_hold_placed' | 'legal_hold_released' | 'retention_block',
+    summary: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}_${file.id}`,
+      file_id: file.id,
+      organization_id: file.organization_id,
+      user_id: userId,
+      action,
+      change_summary: summary,
+      detailed_changes: JSON.stringify({ fileName: file.name, ...details }),
+      created_at: new Date().toISOString()
+    })
+  }
+}
+
+export const retentionService = RetentionService.getInstance()
@@ -0,0 +1,250 @@
+import { blink } from '../blink/client'
+import {
+  SIMILARITY_SIGNAL_LABELS,
+  combineSignalScores,
+  type SimilaritySignal,
+  type SimilarityWeights
+} from './similarityProviders'
+import type { SimilarityResult } from './aiSimilarityService'
+import type { SimilaritySettings } from './similarityService'
+
+export type SimilarityDecisionKind = 'replace' | 'new'
+
+export interface SimilarityDecisionSuggestion {
+  fileId: string
+  // Combined score shown in the dialog
+  score: number
+  signals: Partial<Record<SimilaritySignal, number>>
+}
+
+/**
+ * What the uploader did with the suggestions of the similar-files dialog
+ */
+export interface SimilarityDecision {
+  id: string
+  organizationId: string
+  userId?: string
+  uploadName: string
+  decision: SimilarityDecisionKind
+  // The file the upload became a new version of
+  chosenFileId?: string
+  suggestions: SimilarityDecisionSuggestion[]
+  createdAt: string
+}
+
+export interface SimilarityMetrics {
+  // Suggested files the uploader picked, of all files that would be suggested
+  precision: number
+  // Picked files that would be suggested, of all picked files
+  recall: number
+  f1: number
+  // Replacements where the picked file would be the first suggestion
+  topOneAccuracy: number
+  suggested: number
+  accepted: number
+}
+
+export interface SimilarityCalibration {
+  decisions: number
+  replacements: number
+  current: SimilarityMetrics
+  // Weights and threshold that best reproduce the recorded decisions
+  recommended?: { weights: SimilarityWeights, minScore: number, metrics: SimilarityMetrics }
+  // Why nothing is recommended
+  note?: string
+}
+
+const MAX_DECISIONS = 1000
+// Fewer examples than this would fit the noise
+const MIN_DECISIONS = 20
+const MIN_REPLACEMENTS = 5
+const WEIGHT_STEPS = [0, 0.1, 0.2, 0.3, 0.4, 0.5, 0.6, 0.7, 0.8, 0.9, 1]
+const CALIBRATION_ROUNDS = 3
+const SIGNALS = Object.keys(SIMILARITY_SIGNAL_LABELS) as SimilaritySignal[]
+
+export class SimilarityFeedbackService {
+  private static instance: SimilarityFeedbackService
+
+  static getInstance(): SimilarityFeedbackService {
+    if (!SimilarityFeedbackService.instance) {
+      SimilarityFeedbackService.instance = new SimilarityFeedbackService()
+    }
+    return SimilarityFeedbackService.instance
+  }
+
+  /**
+   * Keep a decision from the similar-files dialog as a labelled example.
+   * Never throws; losing an example must not fail the upload.
+   */
+  async recordDecision(
+    organizationId: string,
+    userId: string | null,
+    uploadName: string,
+    suggestions: SimilarityResult[],
+    chosenFileId: string | null
+  ): Promise<void> {
+    if (suggestions.length === 0) return
+    try {
+      await blink.db.similarityDecisions.create({
+        id: `simdecision_${Date.now()}`,
+        organization_id: organizationId,
+        user_id: userId,
+        upload_name: uploadName,
+        decision: chosenFileId ? 'replace' : 'new',
+        chosen_file_id: chosenFileId,
+        suggestions: JSON.stringify(suggestions.map(suggestion => ({
+          fileId: suggestion.fileId,
+          score: suggestion.similarityScore,
+          signals: suggestion.signals || {}
+        }))),
+        created_at: new Date().toISOString()
+      })
+    } catch (error) {
+      console.error('Error recording similarity decision:', error)
+    }
+  }
+
+  async listDecisions(organizationId: string): Promise<SimilarityDecision[]> {
+    try {
+      const rows = await blink.db.similarityDecisions.list({
+        where: { organization_id: organizationId },
+        orderBy: { created_at: 'desc' },
+        limit: MAX_DECISIONS
+      })
+      return rows.map((row: any) => ({
+        id: row.id,
+        organizationId: row.organization_id,
+        userId: row.user_id || undefined,
+        uploadName: row.upload_name,
+        decision: row.decision === 'replace' ? 'replace' : 'new',
+        chosenFileId: row.chosen_file_id || undefined,
+        suggestions: this.parseSuggestions(row.suggestions),
+        createdAt: row.created_at
+      }))
+    } catch (error) {
+      console.error('Error loading similarity decisions:', error)
+      return []
+    }
+  }
+
+  /**
+   * How well weights and a threshold reproduce the recorded decisions. Only
+   * files that were shown were labelled, so a lower threshold cannot raise
+   * recall above what the dialog offered.
+   */
+  evaluate(decisions: SimilarityDecision[], weights: SimilarityWeights, minScore: number): SimilarityMetrics {
+    let suggested = 0
+    let accepted = 0
+    let picked = 0
+    let pickedFirst = 0
+    for (const decision of decisions) {
+      const scored = decision.suggestions
+        .map(suggestion => ({ fileId: suggestion.fileId, score: combineSignalScores(suggestion.signals, weights) }))
+        .sort((a, b) => b.score - a.score)
+      for (const suggestion of scored) {
+        const isPick = suggestion.fileId === decision.chosenFileId
+        if (isPick) picked++
+        if (suggestion.score >= minScore) {
+          suggested++
+          if (isPick) accepted++
+        }
+      }
+      if (decision.chosenFileId && scored[0]?.fileId === decision.chosenFileId && scored[0].score >= minScore) {
+        pickedFirst++
+      }
+    }
+
+    const precision = suggested > 0 ? accepted / suggested : 0
+    const recall = picked > 0 ? accepted / picked : 0
+    const replacements = decisions.filter(decision => decision.chosenFileId).length
+    return {
+      precision,
+      recall,
+      f1: precision + recall > 0 ? (2 * precision * recall) / (precision + recall) : 0,
+      topOneAccuracy: replacements > 0 ? pickedFirst / replacements : 0,
+      suggested,
+      accepted
+    }
+  }
+
+  /**
+   * Search signal weights one at a time, each with its best threshold, for
+   * the highest F1 on the organization's recorded decisions
+   */
+  async calibrate(organizationId: string, settings: SimilaritySettings): Promise<SimilarityCalibration> {
+    const decisions = await this.listDecisions(organizationId)
+    const replacements = decisions.filter(decision => decision.chosenFileId).length
+    const current = this.evaluate(decisions, settings.weights, settings.thresholds.minScore)
+    const calibration: SimilarityCalibration = { decisions: decisions.length, replacements, current }
+
+    if (decisions.length < MIN_DECISIONS || replacements < MIN_REPLACEMENTS) {
+      calibration.note = `Calibration needs at least ${MIN_DECISIONS} decisions, ${MIN_REPLACEMENTS} of them replacements.`
+      return calibration
+    }
+
+    let best = { weights: settings.weights, ...this.bestThreshold(decisions, settings.weights) }
+    for (let round = 0; round < CALIBRATION_ROUNDS; round++) {
+      let improved = false
+      for (const signal of SIGNALS) {
+        for (const step of WEIGHT_STEPS) {
+          const weights = { ...best.weights, [signal]: step }
+          // The review only sees candidates the other signals found
+          if (!(weights.name > 0 || weights.content > 0 || weights.perceptual > 0)) continue
+          const candidate = this.bestThreshold(decisions, weights)
+          if (candidate.f1 > best.f1 + 1e-9) {
+            best = { weights, ...candidate }
+            improved = true
+          }
+        }
+      }
+      if (!improved) break
+    }
+
+    const metrics = this.evaluate(decisions, best.weights, best.minScore)
+    if (metrics.f1 <= current.f1 + 1e-9) {
+      calibration.note = 'The saved settings already match the recorded decisions best.'
+      return calibration
+    }
+    calibration.recommended = { weights: best.weights, minScore: best.minScore, metrics }
+    return calibration
+  }
+
+  /**
+   * Threshold with the highest F1 for the given weights, from a single pass
+   * over the pairs sorted by score
+   */
+  private bestThreshold(decisions: SimilarityDecision[], weights: SimilarityWeights): { minScore: number, f1: number } {
+    const pairs = decisions.flatMap(decision => decision.suggestions.map(suggestion => ({
+      score: combineSignalScores(suggestion.signals, weights),
+      isPick: suggestion.fileId === decision.chosenFileId
+    }))).sort((a, b) => b.score - a.score)
+    const picked = pairs.filter(pair => pair.isPick).length
+
+    let best = { minScore: 1, f1: 0 }
+    let accepted = 0
+    for (let i = 0; i < pairs.length; i++) {
+      if (pairs[i].isPick) accepted++
+      // Only cut between distinct scores
+      if (i + 1 < pairs.length && pairs[i + 1].score === pairs[i].score) continue
+      const f1 = picked > 0 ? (2 * accepted) / (i + 1 + picked) : 0
+      if (f1 > best.f1) {
+        best = { minScore: Math.floor(pairs[i].score * 100) / 100, f1 }
+      }
+    }
+    return best
+  }
+
+  private parseSuggestions(value: unknown): SimilarityDecisionSuggestion[] {
+    if (typeof value !== 'string') return []
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed)
+        ? parsed.filter(suggestion => typeof suggestion?.fileId === 'string' && suggestion.signals)
+        : []
+    } catch {
+      return []
+    }
+  }
+}
+
+export const similarityFeedbackService = SimilarityFeedbackService.getInstance()
@@ -0,0 +1,499 @@
+import { blink } from '../blink/client'
+import { getSourceFilePath } from '../lib/utils'
+import { textExtractionService } from './textExtractionService'
+import { perceptualHashService, type VisualFingerprint, type VisualSample } from './perceptualHashService'
+import {
+  fileNameTokens,
+  type SimilarityCandidate,
+  type SimilarityCandidateSource,
+  type SimilarityDocument
+} from './similarityProviders'
+
+export interface IndexableFile {
+  id: string
+  name: string
+  organization_id: string
+  file_path?: string | null
+  original_file_path?: string | null
+  file_type?: string | null
+  content_hash?: string | null
+  similarity_indexed_hash?: string | null
+}
+
+interface IndexEntry extends SimilarityDocument {
+  buckets: string[]
+}
+
+// MinHash signature of NUM_HASHES values split into BANDS bands of ROWS_PER_BAND.
+// Two documents share a band bucket with a probability that rises steeply
+// around a shingle overlap of (1 / BANDS) ^ (1 / ROWS_PER_BAND), about 50%.
+const NUM_HASHES = 64
+const BANDS = 16
+const ROWS_PER_BAND = NUM_HASHES / BANDS
+const SHINGLE_SIZE = 3
+const MAX_TOKENS = 20_000
+// Fewer words than this are treated as a file without text
+const MIN_TEXT_TOKENS = 5
+// Only the most frequent terms of each document are kept for TF-IDF
+const MAX_TERMS = 150
+// Document frequencies are counted per hashed slot so the organization's
+// statistics stay one small row however large the vocabulary gets
+const DF_SLOTS = 4096
+const MAX_NAME_TOKENS = 6
+const MAX_BUCKET_ROWS = 1000
+const NAME_BUCKET_ROWS = 200
+// Only the files sharing the most buckets are loaded and scored
+const MAX_CANDIDATES = 100
+// Perceptual hashes are split into chunks; hashes within PERCEPTUAL_CHUNKS - 1
+// bits of each other share at least one chunk and so a bucket
+const PERCEPTUAL_CHUNKS = 4
+const BACKFILL_BATCH_SIZE = 10
+// Bump when tokenizing or hashing changes so entries are rebuilt
+const INDEX_VERSION = 2
+
+const STOP_WORDS = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'by', 'for', 'from', 'has', 'have', 'in', 'is', 'it', 'its',
+  'of', 'on', 'or', 'that', 'the', 'this', 'to', 'was', 'were', 'will', 'with', 'not', 'all', 'any', 'can',
+  'shall', 'should', 'must', 'may', 'if', 'no', 'which', 'who', 'when', 'where', 'than', 'then', 'there',
+  'these', 'those', 'they', 'their', 'been', 'but', 'so', 'such', 'into', 'per', 'each', 'other'
+])
+
+const fnv1a = (value: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+// MurmurHash3 finalizer, used to derive the independent MinHash functions
+const mix = (value: number): number => {
+  let h = value >>> 0
+  h ^= h >>> 16
+  h = Math.imul(h, 0x85ebca6b)
+  h ^= h >>> 13
+  h = Math.imul(h, 0xc2b2ae35)
+  h ^= h >>> 16
+  return h >>> 0
+}
+
+const SEEDS = Array.from({ length: NUM_HASHES }, (_, i) => mix(Math.imul(i + 1, 0x9e3779b9)))
+
+export class SimilarityIndexService implements SimilarityCandidateSource {
+  private static instance: SimilarityIndexService
+  private backfilling = false
+
+  static getInstance(): SimilarityIndexService {
+    if (!SimilarityIndexService.instance) {
+      SimilarityIndexService.instance = new SimilarityIndexService()
+    }
+    return SimilarityIndexService.instance
+  }
+
+  /**
+   * Whether the file's index entry is missing or was built from other content
+   */
+  needsIndexing(file: IndexableFile): boolean {
+    return file.similarity_indexed_hash !== this.indexKey(file)
+  }
+
+  /**
+   * Index a file from the bytes just uploaded. Never throws; a file that
+   * cannot be indexed is picked up again by indexMissing.
+   */
+  async indexUpload(file: IndexableFile, upload: File): Promise<boolean> {
+    try {
+      const extracted = await textExtractionService.extract(upload, file.content_hash || undefined)
+      const visual = await perceptualHashService.compute(upload, file.content_hash || undefined)
+      await this.indexFile(file, extracted.error ? '' : extracted.text, visual)
+      return true
+    } catch (error) {
+      console.error(`Error indexing ${file.name}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Index a file from its stored content, downloading only when it has to be
+   * rendered or its text is not cached yet
+   */
+  async indexStored(file: IndexableFile): Promise<boolean> {
+    try {
+      const hasText = Boolean(textExtractionService.getFormat(file.file_type, file.name))
+      const cached = hasText && file.content_hash ? await textExtractionService.getCached(file.content_hash) : null
+      const needsDownload = perceptualHashService.supports(file.file_type, file.name) || (hasText && !cached)
+      if (!file.file_path || !needsDownload) {
+        await this.indexFile(file, cached?.text || '', null)
+        return true
+      }
+
+      return this.indexUpload(file, await this.download({ ...file, file_path: file.file_path }))
+    } catch (error) {
+      console.error(`Error indexing ${file.name}:`, error)
+      return false
+    }
+  }
+
+  /**
+   * Stored content of a file or version as a File, as if it were uploaded
+   * again: the untouched upload, which is what content_hash identifies
+   */
+  async download(file: { name: string, file_path: string, original_file_path?: string | null, file_type?: string | null }): Promise<File> {
+    const response = await fetch(getSourceFilePath(file))
+    if (!response.ok) {
+      throw new Error(`Failed to download ${file.name} (${response.status})`)
+    }
+    const blob = await response.blob()
+    return new File([blob], file.name, { type: file.file_type || blob.type })
+  }
+
+  /**
+   * A file as a candidate with the content of one of its stored revisions
+   * instead of its indexed, current content
+   */
+  async candidateFromRevision(
+    file: any,
+    revision: { file_name?: string | null, file_path: string, original_file_path?: string | null, file_type?: string | null, content_hash?: string | null }
+  ): Promise<SimilarityCandidate> {
+    const content = await this.download({
+      name: revision.file_name || file.name,
+      file_path: revision.file_path,
+      original_file_path: revision.original_file_path,
+      file_type: revision.file_type || file.file_type
+    })
+    const extracted = await textExtractionService.extract(content, revision.content_hash || undefined)
+    const visual = await perceptualHashService.compute(content, revision.content_hash || undefined)
+    const { buckets: _buckets, ...entry } = this.buildEntry(file.name, file.file_type, extracted.error ? '' : extracted.text, visual)
+    return { ...entry, file, thumbnail: visual?.thumbnail }
+  }
+
+  /**
+   * Catch up on files uploaded before the index existed or changed since,
+   * a batch at a time so opening the vault stays quick
+   */
+  async indexMissing(files: IndexableFile[], limit = BACKFILL_BATCH_SIZE): Promise<number> {
+    if (this.backfilling) return 0
+    this.backfilling = true
+    try {
+      let indexed = 0
+      for (const file of files.filter(candidate => this.needsIndexing(candidate)).slice(0, limit)) {
+        if (await this.indexStored(file)) indexed++
+      }
+      return indexed
+    } finally {
+      this.backfilling = false
+    }
+  }
+
+  /**
+   * Drop a file from the index, e.g. when it is moved to the trash or purged
+   */
+  async removeFile(file: { id: string, organization_id: string }): Promise<void> {
+    try {
+      const existing = (await blink.db.similarityIndex.list({ where: { id: this.entryId(file.id) } }))[0]
+      await this.removeBuckets(file.id)
+      if (existing) {
+        await blink.db.similarityIndex.delete(existing.id)
+        await this.adjustStatistics(file.organization_id, this.parseTerms(existing.terms), null)
+      }
+    } catch (error) {
+      console.error('Error removing file from similarity index:', error)
+    }
+  }
+
+  /**
+   * Indexed files of the organization likely to be similar to an upload.
+   * Candidates come from the LSH, perceptual hash and file name buckets, so
+   * the cost depends on how many files share a bucket rather than on the
+   * size of the vault.
+   */
+  async lookup(
+    organizationId: string,
+    upload: File,
+    options: { contentHash?: string, excludeFileIds?: string[] } = {}
+  ): Promise<{ query: SimilarityDocument, candidates: SimilarityCandidate[], idf: (term: string) => number }> {
+    const extracted = await textExtractionService.extract(upload, options.contentHash)
+    const visual = await perceptualHashService.compute(upload, options.contentHash)
+    const query = this.buildEntry(upload.name, upload.type, extracted.error ? '' : extracted.text, visual)
+    const statistics = await this.loadStatistics(organizationId)
+    const idf = (term: string) => {
+      const frequency = statistics.frequencies[fnv1a(term) % DF_SLOTS] || 0
+      return Math.log((statistics.documentCount + 1) / (frequency + 1)) + 1
+    }
+
+    const candidateIds = await this.findCandidates(organizationId, query, options.excludeFileIds || [])
+    if (candidateIds.length === 0) return { query, candidates: [], idf }
+
+    const [entries, files] = await Promise.all([
+      this.loadByIds(blink.db.similarityIndex, candidateIds.map(id => this.entryId(id))),
+      this.loadByIds(blink.db.files, candidateIds)
+    ])
+    const entriesByFile = new Map(entries.map((entry: any) => [entry.file_id, entry]))
+
+    const candidates: SimilarityCandidate[] = []
+    for (const file of files) {
+      if (file.organization_id !== organizationId || file.is_latest_version !== "1" || file.deleted_at) continue
+      const entry = entriesByFile.get(file.id)
+      if (!entry) continue
+      candidates.push({
+        file,
+        name: file.name,
+        fileType: file.file_type,
+        signature: this.parseSignature(entry.signature),
+        terms: this.parseTerms(entry.terms),
+        visual: this.parseVisual(entry),
+        thumbnail: entry.thumbnail || undefined
+      })
+    }
+    return { query, candidates, idf }
+  }
+
+  private async indexFile(file: IndexableFile, text: string, visual: VisualSample | null): Promise<void> {
+    const entry = this.buildEntry(file.name, file.file_type, text, visual)
+    const id = this.entryId(file.id)
+    const now = new Date().toISOString()
+    const existing = (await blink.db.similarityIndex.list({ where: { id } }))[0]
+
+    await this.removeBuckets(file.id)
+    for (let i = 0; i < entry.buckets.length; i++) {
+      await blink.db.similarityBuckets.create({
+        id: `simbucket_${file.id}_${i}`,
+        organization_id: file.organization_id,
+        file_id: file.id,
+        bucket: entry.buckets[i],
+        created_at: now
+      })
+    }
+
+    const data = {
+      organization_id: file.organization_id,
+      file_id: file.id,
+      file_name: file.name,
+      content_hash: file.content_hash || null,
+      signature: JSON.stringify(entry.signature),
+      terms: JSON.stringify(entry.terms),
+      has_text: entry.signature.length > 0 ? 1 : 0,
+      ahash: visual?.aHash || null,
+      dhash: visual?.dHash || null,
+      phash: visual?.pHash || null,
+      color_histogram: visual ? JSON.stringify(visual.colorHistogram) : null,
+      thumbnail: visual?.thumbnail || null,
+      index_version: INDEX_VERSION,
+      indexed_at: now
+    }
+    if (existing) {
+      await blink.db.similarityIndex.update(id, data)
+    } else {
+      await blink.db.similarityIndex.create({ id, ...data })
+    }
+
+    await this.adjustStatistics(file.organization_id, existing ? this.parseTerms(existing.terms) : null, entry.terms)
+    await blink.db.files.update(file.id, { similarity_indexed_hash: this.indexKey(file) })
+  }
+
+  private buildEntry(fileName: string, fileType: string | null | undefined, text: string, visual: VisualFingerprint | null): IndexEntry {
+    const tokens = (text.toLowerCase().match(/[\p{L}\p{N}]+/gu) || [])
+      .filter(token => token.length > 1 && !STOP_WORDS.has(token))
+      .slice(0, MAX_TOKENS)
+
+    const buckets = fileNameTokens(fileName).slice(0, MAX_NAME_TOKENS).map(token => `name:${token}`)
+    if (visual) {
+      const chunkLength = visual.pHash.length / PERCEPTUAL_CHUNKS
+      for (let i = 0; i < PERCEPTUAL_CHUNKS; i++) {
+        for (const [kind, hash] of [['phash', visual.pHash], ['dhash', visual.dHash]]) {
+          const chunk = hash.slice(i * chunkLength, (i + 1) * chunkLength)
+          // Blank margins of scans give uniform chunks that half the vault would share
+          if (/^(0+|f+)$/.test(chunk)) continue
+          buckets.push(`${kind}${i}:${chunk}`)
+        }
+      }
+    }
+    if (tokens.length < MIN_TEXT_TOKENS) {
+      return { name: fileName, fileType, signature: [], terms: {}, visual, buckets }
+    }
+
+    const signature = new Array<number>(NUM_HASHES).fill(0xffffffff)
+    const shingleCount = Math.max(1, tokens.length - SHINGLE_SIZE + 1)
+    for (let i = 0; i < shingleCount; i++) {
+      const shingle = fnv1a(tokens.slice(i, i + SHINGLE_SIZE).join(' '))
+      for (let h = 0; h < NUM_HASHES; h++) {
+        const value = mix(shingle ^ SEEDS[h])
+        if (value < signature[h]) signature[h] = value
+      }
+    }
+
+    for (let band = 0; band < BANDS; band++) {
+      const rows = signature.slice(band * ROWS_PER_BAND, (band + 1) * ROWS_PER_BAND)
+      buckets.push(`band${band}:${fnv1a(rows.join(',')).toString(16)}`)
+    }
+
+    // Page numbers, dates and part numbers say little about what a document is
+    const counts = new Map<string, number>()
+    for (const token of tokens) {
+      if (/^\d+$/.test(token)) continue
+      counts.set(token, (counts.get(token) || 0) + 1)
+    }
+    const terms: Record<string, number> = {}
+    Array.from(counts.entries())
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_TERMS)
+      .forEach(([term, count]) => { terms[term] = count })
+
+    return { name: fileName, fileType, signature, terms, visual, buckets }
+  }
+
+  private async findCandidates(organizationId: string, query: IndexEntry, excludeFileIds: string[]): Promise<string[]> {
+    const hits = new Map<string, number>()
+    const count = (rows: any[], weight: number) => {
+      for (const row of rows) {
+        if (excludeFileIds.includes(row.file_id)) continue
+        hits.set(row.file_id, (hits.get(row.file_id) || 0) + weight)
+      }
+    }
+
+    // Text bands and perceptual hash chunks rarely collide by chance
+    const contentBuckets = query.buckets.filter(bucket => !bucket.startsWith('name:'))
+    if (contentBuckets.length > 0) {
+      count(await blink.db.similarityBuckets.list({
+        where: { organization_id: organizationId, OR: contentBuckets.map(bucket => ({ bucket })) },
+        limit: MAX_BUCKET_ROWS
+      }), 2)
+    }
+
+    // One lookup per name word so a common word cannot crowd out a rare one
+    for (const bucket of query.buckets.filter(candidate => candidate.startsWith('name:'))) {
+      count(await blink.db.similarityBuckets.list({
+        where: { organization_id: organizationId, bucket },
+        orderBy: { created_at: 'desc' },
+        limit: NAME_BUCKET_ROWS
+      }), 1)
+    }
+
+    return Array.from(hits.entries())
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, MAX_CANDIDATES)
+      .map(([fileId]) => fileId)
+  }
+
+  private async loadByIds(table: { list: (options: any) => Promise<any[]> }, ids: string[]): Promise<any[]> {
+    const rows: any[] = []
+    for (let i = 0; i < ids.length; i += 50) {
+      const chunk = ids.slice(i, i + 50)
+      rows.push(...await table.list({ where: { OR: chunk.map(id => ({ id })) } }))
+    }
+    return rows
+  }
+
+  private async removeBuckets(fileId: string): Promise<void> {
+    const buckets = await blink.db.similarityBuckets.list({ where: { file_id: fileId } })
+    for (const bucket of buckets) {
+      await blink.db.similarityBuckets.delete(bucket.id)
+    }
+  }
+
+  private async loadStatistics(organizationId: string): Promise<{ documentCount: number, frequencies: number[] }> {
+    const row = (await blink.db.similarityStatistics.list({ where: { id: this.statisticsId(organizationId) } }))[0]
+    return {
+      documentCount: Number(row?.document_count) || 0,
+      frequencies: this.parseFrequencies(row?.document_frequencies)
+    }
+  }
+
+  /**
+   * Move a document's terms out of and into the organization's document frequencies
+   */
+  private async adjustStatistics(
+    organizationId: string,
+    removed: Record<string, number> | null,
+    added: Record<string, number> | null
+  ): Promise<void> {
+    const hasTerms = (terms: Record<string, number> | null) => Boolean(terms && Object.keys(terms).length > 0)
+    if (!hasTerms(removed) && !hasTerms(added)) return
+
+    const id = this.statisticsId(organizationId)
+    const row = (await blink.db.similarityStatistics.list({ where: { id } }))[0]
+    let documentCount = Number(row?.document_count) || 0
+    const frequencies = this.parseFrequencies(row?.document_frequencies)
+    const apply = (terms: Record<string, number> | null, delta: number) => {
+      if (!hasTerms(terms)) return
+      documentCount = Math.max(0, documentCount + delta)
+      for (const term of Object.keys(terms!)) {
+        const slot = fnv1a(term) % DF_SLOTS
+        frequencies[slot] = Math.max(0, frequencies[slot] + delta)
+      }
+    }
+    apply(removed, -1)
+    apply(added, 1)
+
+    const data = {
+      organization_id: organizationId,
+      document_count: documentCount,
+      document_frequencies: JSON.stringify(frequencies),
+      updated_at: new Date().toISOString()
+    }
+    if (row) {
+      await blink.db.similarityStatistics.update(id, data)
+    } else {
+      await blink.db.similarityStatistics.create({ id, ...data })
+    }
+  }
+
+  private parseSignature(value: unknown): number[] {
+    if (typeof value !== 'string' || !value) return []
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) && parsed.length === NUM_HASHES ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  private parseVisual(entry: any): VisualFingerprint | null {
+    if (!entry.phash || !entry.dhash || !entry.ahash) return null
+    let colorHistogram: number[] = []
+    try {
+      const parsed = JSON.parse(entry.color_histogram || '[]')
+      if (Array.isArray(parsed)) colorHistogram = parsed.map(Number)
+    } catch {
+      // Compared on the hashes alone
+    }
+    return { aHash: entry.ahash, dHash: entry.dhash, pHash: entry.phash, colorHistogram }
+  }
+
+  private parseTerms(value: unknown): Record<string, number> {
+    if (typeof value !== 'string' || !value) return {}
+    try {
+      const parsed = JSON.parse(value)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  private parseFrequencies(value: unknown): number[] {
+    if (typeof value === 'string' && value) {
+      try {
+        const parsed = JSON.parse(value)
+        if (Array.isArray(parsed) && parsed.length === DF_SLOTS) return parsed.map(Number)
+      } catch {
+        // Rebuilt from scratch below
+      }
+    }
+    return new Array<number>(DF_SLOTS).fill(0)
+  }
+
+  private indexKey(file: IndexableFile): string {
+    return `${INDEX_VERSION}:${file.content_hash || file.file_path || file.id}`
+  }
+
+  private entryId(fileId: string): string {
+    return `simidx_${fileId}`
+  }
+
+  private statisticsId(organizationId: string): string {
+    return `simstats_${organizationId}`
+  }
+}
+
+export const similarityIndexService = SimilarityIndexService.getInstance()
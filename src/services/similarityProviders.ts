@@ -0,0 +1,472 @@
+import { perceptualHashService, type VisualFingerprint } from './perceptualHashService'
+import type { FileAnalysis } from './aiSimilarityService'
+
+export type SimilaritySignal = 'name' | 'content' | 'perceptual' | 'review'
+
+export const SIMILARITY_SIGNAL_LABELS: Record<SimilaritySignal, string> = {
+  name: 'File name',
+  content: 'Text content',
+  perceptual: 'Visual',
+  review: 'Review'
+}
+
+export type SimilarityWeights = Record<SimilaritySignal, number>
+
+export const DEFAULT_SIMILARITY_WEIGHTS: SimilarityWeights = {
+  name: 0.3,
+  content: 0.7,
+  perceptual: 0.7,
+  review: 0.5
+}
+
+/**
+ * What the providers know about a file: the upload or an indexed candidate
+ */
+export interface SimilarityDocument {
+  name: string
+  fileType?: string | null
+  // MinHash signature over word shingles, empty for files without text
+  signature: number[]
+  // Most frequent terms and their counts
+  terms: Record<string, number>
+  visual: VisualFingerprint | null
+}
+
+export interface SimilarityCandidate extends SimilarityDocument {
+  file: any
+  thumbnail?: string
+}
+
+export interface SimilarityContext {
+  // Inverse document frequency of a term across the organization
+  idf: (term: string) => number
+  analysis?: FileAnalysis
+}
+
+export interface SignalScore {
+  // 0 for unrelated up to 1 for the same document
+  score: number
+  reason: string
+  significantChange?: boolean
+}
+
+export type CandidateSignals = Partial<Record<SimilaritySignal, SignalScore>>
+
+export interface SimilarityProvider {
+  signal: SimilaritySignal
+  // 'review' providers only see the best candidates after the 'score' stage
+  stage: 'score' | 'review'
+  /**
+   * One entry per candidate, null where the signal says nothing about the
+   * pair, e.g. text similarity when one side has no text
+   */
+  score(
+    query: SimilarityDocument,
+    candidates: SimilarityCandidate[],
+    context: SimilarityContext,
+    signals: CandidateSignals[]
+  ): Promise<(SignalScore | null)[]>
+}
+
+/**
+ * Where candidates come from; the organization's similarity index by default
+ */
+export interface SimilarityCandidateSource {
+  lookup(
+    organizationId: string,
+    upload: File,
+    options: { contentHash?: string, excludeFileIds?: string[] }
+  ): Promise<{ query: SimilarityDocument, candidates: SimilarityCandidate[], idf: (term: string) => number }>
+}
+
+export interface CombinedMatch {
+  candidate: SimilarityCandidate
+  score: number
+  signals: CandidateSignals
+}
+
+// The same shape as blink.ai.generateObject, so tests can pass their own
+export type GenerateObject = (options: { prompt: string, schema: Record<string, any> }) => Promise<{ object: any }>
+
+// Words in file names that say which copy it is rather than what it is
+const NAME_NOISE = new Set([
+  'final', 'draft', 'copy', 'new', 'old', 'rev', 'revision', 'version', 'ver', 'v', 'r', 'updated', 'update',
+  'latest', 'edit', 'edited', 'wip', 'backup', 'tmp', 'temp'
+])
+
+const FILE_FAMILIES: Record<string, string[]> = {
+  pdf: ['pdf'],
+  document: ['doc', 'docx', 'odt', 'rtf', 'txt', 'md', 'markdown', 'html', 'htm'],
+  spreadsheet: ['xls', 'xlsx', 'ods', 'csv'],
+  presentation: ['ppt', 'pptx', 'odp', 'key'],
+  image: ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg', 'tif', 'tiff', 'heic'],
+  cad: ['dwg', 'dxf', 'step', 'stp', 'iges', 'igs', 'stl', 'sldprt', 'sldasm']
+}
+
+const getExtension = (fileName: string) => fileName.includes('.') ? fileName.split('.').pop()!.toLowerCase() : ''
+
+const getBaseName = (fileName: string) => fileName.replace(/\.[^.]+$/, '')
+
+/**
+ * Lower-case words of a file name without the extension, numbers and words
+ * like "final" or "v2"
+ */
+export function fileNameTokens(fileName: string): string[] {
+  const tokens = getBaseName(fileName)
+    .replace(/([a-z])([A-Z])/g, '$1 $2')
+    .toLowerCase()
+    .match(/[\p{L}\p{N}]+/gu) || []
+  return Array.from(new Set(tokens.filter(token => {
+    if (/^\d+$/.test(token) || /^[vr]\d+$/.test(token)) return false
+    const word = token.replace(/\d+$/, '')
+    return word.length > 1 && !NAME_NOISE.has(word)
+  })))
+}
+
+export const FILE_FAMILY_NAMES = Object.keys(FILE_FAMILIES)
+
+export function getFileFamily(fileName: string, fileType?: string | null): string | null {
+  const extension = getExtension(fileName)
+  const family = Object.keys(FILE_FAMILIES).find(key => FILE_FAMILIES[key].includes(extension))
+  if (family) return family
+  if (fileType?.startsWith('image/')) return 'image'
+  if (fileType === 'application/pdf') return 'pdf'
+  return null
+}
+
+/**
+ * Whether a file is of a type given as an extension ("pdf"), a family
+ * ("spreadsheet") or "*" for any file
+ */
+export function matchesFileType(type: string, fileName: string, fileType?: string | null): boolean {
+  const wanted = type.trim().toLowerCase().replace(/^\./, '')
+  if (wanted === '*') return true
+  return wanted === getExtension(fileName) || wanted === getFileFamily(fileName, fileType)
+}
+
+export function getSignalValues(signals: CandidateSignals): Partial<Record<SimilaritySignal, number>> {
+  return Object.fromEntries(Object.entries(signals).map(([signal, value]) => [signal, value.score]))
+}
+
+/**
+ * Weighted average of the signals present, so a candidate is not penalised
+ * for a signal that does not apply to it
+ */
+export function combineSignalScores(scores: Partial<Record<SimilaritySignal, number>>, weights: SimilarityWeights): number {
+  let weighted = 0
+  let total = 0
+  for (const [signal, score] of Object.entries(scores) as [SimilaritySignal, number][]) {
+    const weight = weights[signal] || 0
+    weighted += weight * score
+    total += weight
+  }
+  return total > 0 ? weighted / total : 0
+}
+
+const levenshteinDistance = (str1: string, str2: string): number => {
+  const matrix: number[][] = []
+  for (let i = 0; i <= str2.length; i++) {
+    matrix[i] = [i]
+  }
+  for (let j = 0; j <= str1.length; j++) {
+    matrix[0][j] = j
+  }
+  for (let i = 1; i <= str2.length; i++) {
+    for (let j = 1; j <= str1.length; j++) {
+      if (str2.charAt(i - 1) === str1.charAt(j - 1)) {
+        matrix[i][j] = matrix[i - 1][j - 1]
+      } else {
+        matrix[i][j] = Math.min(
+          matrix[i - 1][j - 1] + 1,
+          matrix[i][j - 1] + 1,
+          matrix[i - 1][j] + 1
+        )
+      }
+    }
+  }
+  return matrix[str2.length][str1.length]
+}
+
+export class NameSimilarityProvider implements SimilarityProvider {
+  signal = 'name' as const
+  stage = 'score' as const
+
+  async score(query: SimilarityDocument, candidates: SimilarityCandidate[]): Promise<SignalScore[]> {
+    return candidates.map(candidate => {
+      const score = this.compare(query.name, candidate.name)
+      return { score, reason: `Similar file name (${Math.round(score * 100)}% match)` }
+    })
+  }
+
+  /**
+   * Edit-distance similarity of the normalized names, or the share of
+   * common words when that is higher, e.g. "Logo" in "Company Logo"
+   */
+  compare(name1: string, name2: string): number {
+    const tokens1 = fileNameTokens(name1)
+    const tokens2 = fileNameTokens(name2)
+    const normalized1 = tokens1.join(' ') || getBaseName(name1).toLowerCase()
+    const normalized2 = tokens2.join(' ') || getBaseName(name2).toLowerCase()
+    const longer = normalized1.length > normalized2.length ? normalized1 : normalized2
+    const shorter = normalized1.length > normalized2.length ? normalized2 : normalized1
+    if (longer.length === 0) return 0
+    const editSimilarity = (longer.length - levenshteinDistance(longer, shorter)) / longer.length
+
+    const shared = tokens1.filter(token => tokens2.includes(token)).length
+    const tokenSimilarity = tokens1.length + tokens2.length > 0 ? (2 * shared) / (tokens1.length + tokens2.length) : 0
+    return Math.max(editSimilarity, tokenSimilarity)
+  }
+}
+
+export class ContentSimilarityProvider implements SimilarityProvider {
+  signal = 'content' as const
+  stage = 'score' as const
+
+  async score(query: SimilarityDocument, candidates: SimilarityCandidate[], context: SimilarityContext): Promise<(SignalScore | null)[]> {
+    if (query.signature.length === 0) return candidates.map(() => null)
+    const queryWeights = this.weigh(query.terms, context)
+
+    return candidates.map(candidate => {
+      if (candidate.signature.length !== query.signature.length) return null
+
+      let equal = 0
+      for (let i = 0; i < query.signature.length; i++) {
+        if (query.signature[i] === candidate.signature[i]) equal++
+      }
+      const jaccard = equal / query.signature.length
+
+      const candidateWeights = this.weigh(candidate.terms, context)
+      let dot = 0
+      const contributions: [string, number][] = []
+      for (const [term, weight] of queryWeights) {
+        const other = candidateWeights.get(term)
+        if (other === undefined) continue
+        dot += weight * other
+        contributions.push([term, weight * other])
+      }
+      const norm = (weights: Map<string, number>) => Math.sqrt(Array.from(weights.values()).reduce((sum, w) => sum + w * w, 0))
+      const cosine = dot > 0 ? dot / (norm(queryWeights) * norm(candidateWeights)) : 0
+
+      // Shingle overlap finds near-identical text, term overlap finds rewrites on the same subject
+      const score = Math.min(1, 0.4 * jaccard + 0.6 * cosine)
+      const sharedTerms = contributions.sort((a, b) => b[1] - a[1]).slice(0, 5).map(([term]) => term)
+      return {
+        score,
+        reason: `Content ${Math.round(score * 100)}% similar` +
+          (sharedTerms.length > 0 ? ` (common terms: ${sharedTerms.join(', ')})` : '')
+      }
+    })
+  }
+
+  private weigh(terms: Record<string, number>, context: SimilarityContext): Map<string, number> {
+    const weights = new Map<string, number>()
+    for (const [term, count] of Object.entries(terms)) {
+      weights.set(term, (1 + Math.log(count)) * context.idf(term))
+    }
+    return weights
+  }
+}
+
+export class PerceptualSimilarityProvider implements SimilarityProvider {
+  signal = 'perceptual' as const
+  stage = 'score' as const
+
+  async score(query: SimilarityDocument, candidates: SimilarityCandidate[]): Promise<(SignalScore | null)[]> {
+    return candidates.map(candidate => {
+      if (!query.visual || !candidate.visual) return null
+      const score = perceptualHashService.similarity(query.visual, candidate.visual)
+      return { score, reason: `Looks ${Math.round(score * 100)}% alike` }
+    })
+  }
+}
+
+/**
+ * Asks the LLM whether each of the best candidates is an earlier version of
+ * the upload and whether the upload would be a substantial rewrite
+ */
+export class LlmSimilarityProvider implements SimilarityProvider {
+  signal = 'review' as const
+  stage = 'review' as const
+
+  private generateObject: GenerateObject
+
+  constructor(generateObject: GenerateObject) {
+    this.generateObject = generateObject
+  }
+
+  async score(
+    query: SimilarityDocument,
+    candidates: SimilarityCandidate[],
+    context: SimilarityContext,
+    signals: CandidateSignals[]
+  ): Promise<(SignalScore | null)[]> {
+    const analysis = context.analysis
+    const { object: review } = await this.generateObject({
+      prompt: `Analyze file similarity for smart version control:
+
+        NEW FILE:
+        - Name: ${query.name}
+        - Type: ${query.fileType || 'unknown'}
+        ${analysis ? `- Content Type: ${analysis.contentType}
+        - Purpose: ${analysis.documentPurpose}
+        - Key Terms: ${analysis.keyTerms.join(', ')}` : ''}
+
+        CANDIDATE FILES (fileIndex, name, version, type, measured signals):
+        ${candidates.map((candidate, i) => `${i}. ${candidate.name} (${candidate.file.version_label}) - ${candidate.fileType || 'unknown'} - ${
+          Object.values(signals[i]).map(signal => signal?.reason).filter(Boolean).join('; ')
+        }`).join('\n')}
+
+        For each candidate file, determine:
+        1. Overall similarity (0-1): How likely is the new file the next version of this one?
+        2. Reason: Why they are similar or different
+        3. Is this likely the same document that should be versioned together?
+        4. Significant change: would the new file be a substantial rewrite of the existing one rather than a small edit?`,
+      schema: {
+        type: 'object',
+        properties: {
+          similarities: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                fileIndex: { type: 'number' },
+                overallSimilarity: { type: 'number' },
+                reason: { type: 'string' },
+                shouldVersion: { type: 'boolean' },
+                significantChange: { type: 'boolean' }
+              },
+              required: ['fileIndex', 'overallSimilarity', 'reason', 'shouldVersion', 'significantChange']
+            }
+          }
+        },
+        required: ['similarities']
+      }
+    })
+
+    // Candidates the model leaves out are ones it did not consider related
+    const scores: (SignalScore | null)[] = candidates.map(() => ({ score: 0, reason: 'AI found no relation' }))
+    for (const similarity of review?.similarities || []) {
+      if (!Number.isInteger(similarity.fileIndex) || !scores[similarity.fileIndex]) continue
+      const score = Math.min(1, Math.max(0, Number(similarity.overallSimilarity) || 0))
+      scores[similarity.fileIndex] = {
+        score: similarity.shouldVersion ? score : 0,
+        reason: similarity.reason,
+        significantChange: Boolean(similarity.significantChange)
+      }
+    }
+    return scores
+  }
+}
+
+/**
+ * Deterministic stand-in for the LLM review: repeats the strongest of the
+ * other signals, discounted when the files are not the same kind of
+ * document, so a matching type never lifts unrelated files on its own.
+ * Calls a change significant when less of the text or picture than
+ * significantChangeBelow carried over. Needs no network, so uploads behave
+ * the same on every run.
+ */
+export class OfflineSimilarityProvider implements SimilarityProvider {
+  signal = 'review' as const
+  stage = 'review' as const
+
+  private significantChangeBelow: number
+
+  constructor(significantChangeBelow = 0.5) {
+    this.significantChangeBelow = significantChangeBelow
+  }
+
+  async score(
+    query: SimilarityDocument,
+    candidates: SimilarityCandidate[],
+    _context: SimilarityContext,
+    signals: CandidateSignals[]
+  ): Promise<SignalScore[]> {
+    const queryExtension = getExtension(query.name)
+    const queryFamily = getFileFamily(query.name, query.fileType)
+
+    return candidates.map((candidate, i) => {
+      const extension = getExtension(candidate.name)
+      const family = getFileFamily(candidate.name, candidate.fileType)
+      const carriedOver = signals[i].content?.score ?? signals[i].perceptual?.score
+      const significantChange = carriedOver !== undefined ? carriedOver < this.significantChangeBelow : undefined
+      const evidence = Math.max(0, ...(['name', 'content', 'perceptual'] as const).map(signal => signals[i][signal]?.score ?? 0))
+
+      if (extension && extension === queryExtension) {
+        return { score: evidence, reason: 'Same file type', significantChange }
+      }
+      if (family && family === queryFamily) {
+        return { score: evidence * 0.8, reason: 'Same kind of document', significantChange }
+      }
+      return {
+        score: evidence * 0.2,
+        reason: `Different file type (${(queryExtension || 'none').toUpperCase()} vs ${(extension || 'none').toUpperCase()})`,
+        significantChange
+      }
+    })
+  }
+}
+
+/**
+ * Runs the providers and merges their scores as a weighted average of the
+ * signals that apply to each candidate. Review providers see only the
+ * reviewLimit best candidates after scoring.
+ */
+export class SimilarityCombiner {
+  private providers: SimilarityProvider[]
+  private weights: SimilarityWeights
+  private reviewLimit: number
+
+  constructor(providers: SimilarityProvider[], weights: SimilarityWeights = DEFAULT_SIMILARITY_WEIGHTS, reviewLimit = 5) {
+    this.providers = providers
+    this.weights = weights
+    this.reviewLimit = reviewLimit
+  }
+
+  async combine(query: SimilarityDocument, candidates: SimilarityCandidate[], context: SimilarityContext): Promise<CombinedMatch[]> {
+    const signals: CandidateSignals[] = candidates.map(() => ({}))
+    const active = this.providers.filter(provider => this.weights[provider.signal] > 0)
+
+    for (const provider of active.filter(candidate => candidate.stage === 'score')) {
+      await this.run(provider, query, candidates.map((_, i) => i), candidates, context, signals)
+    }
+
+    const ranked = () => candidates
+      .map((candidate, i) => ({ candidate, score: this.weigh(signals[i]), signals: signals[i], index: i }))
+      .sort((a, b) => b.score - a.score)
+
+    const reviewers = active.filter(provider => provider.stage === 'review')
+    if (reviewers.length > 0 && candidates.length > 0) {
+      const top = ranked().slice(0, this.reviewLimit).map(match => match.index)
+      for (const provider of reviewers) {
+        await this.run(provider, query, top, candidates, context, signals)
+      }
+    }
+
+    return ranked().map(({ candidate, score, signals: matchSignals }) => ({ candidate, score, signals: matchSignals }))
+  }
+
+  private async run(
+    provider: SimilarityProvider,
+    query: SimilarityDocument,
+    indexes: number[],
+    candidates: SimilarityCandidate[],
+    context: SimilarityContext,
+    signals: CandidateSignals[]
+  ): Promise<void> {
+    try {
+      const scores = await provider.score(query, indexes.map(i => candidates[i]), context, indexes.map(i => signals[i]))
+      indexes.forEach((candidateIndex, i) => {
+        const score = scores[i]
+        if (score) signals[candidateIndex][provider.signal] = score
+      })
+    } catch (error) {
+      // The other signals still rank the candidates
+      console.error(`Error scoring ${provider.signal} similarity:`, error)
+    }
+  }
+
+  private weigh(signals: CandidateSignals): number {
+    return combineSignalScores(getSignalValues(signals), this.weights)
+  }
+}
@@ -0,0 +1,409 @@
+import { blink } from '../blink/client'
+import { parseList } from '../lib/utils'
+import { fileLockService } from './fileLockService'
+import { lifecycleService } from './lifecycleService'
+import { similarityIndexService } from './similarityIndexService'
+import {
+  ContentSimilarityProvider,
+  DEFAULT_SIMILARITY_WEIGHTS,
+  LlmSimilarityProvider,
+  NameSimilarityProvider,
+  OfflineSimilarityProvider,
+  PerceptualSimilarityProvider,
+  SimilarityCombiner,
+  getSignalValues,
+  matchesFileType,
+  type CombinedMatch,
+  type SimilarityCandidate,
+  type SimilarityCandidateSource,
+  type SimilarityDocument,
+  type SimilarityProvider,
+  type SimilarityWeights
+} from './similarityProviders'
+import type { FileAnalysis, SimilarityResult } from './aiSimilarityService'
+
+// 'offline' replaces the LLM review with a deterministic one and never calls the AI backend
+export type SimilarityMode = 'ai' | 'offline'
+
+export interface SimilarityThresholds {
+  // Combined score a file needs before it is suggested
+  minScore: number
+  // Offline review: an upload keeping less than this share of the text or
+  // picture is flagged as a significant change
+  significantChange: number
+  maxSuggestions: number
+}
+
+/**
+ * Never suggest a file of existingType as the previous version of an upload
+ * of uploadType. Types are extensions, file families such as "spreadsheet"
+ * or "*".
+ */
+export interface SimilarityPairingRule {
+  existingType: string
+  uploadType: string
+}
+
+export interface SimilaritySettings {
+  mode: SimilarityMode
+  weights: SimilarityWeights
+  thresholds: SimilarityThresholds
+  // Files in these folders are never suggested and uploads to them get no suggestions
+  excludedFolders: string[]
+  pairingRules: SimilarityPairingRule[]
+}
+
+export const DEFAULT_SIMILARITY_THRESHOLDS: SimilarityThresholds = {
+  minScore: 0.5,
+  significantChange: 0.5,
+  maxSuggestions: 10
+}
+
+export const DEFAULT_SIMILARITY_SETTINGS: SimilaritySettings = {
+  mode: 'ai',
+  weights: DEFAULT_SIMILARITY_WEIGHTS,
+  thresholds: DEFAULT_SIMILARITY_THRESHOLDS,
+  excludedFolders: [],
+  pairingRules: []
+}
+
+export interface FindSimilarOptions {
+  contentHash?: string
+  analysis?: FileAnalysis
+  excludeFileIds?: string[]
+  // Folder the upload goes to
+  folderPath?: string
+  // The organization's settings when not given
+  settings?: SimilaritySettings
+  candidateSource?: SimilarityCandidateSource
+  providers?: SimilarityProvider[]
+}
+
+/**
+ * A past upload scored again with the saved and with proposed settings
+ */
+export interface SimilarityReplay {
+  auditId: string
+  // The new file, or the file the upload became a new version of
+  fileId: string
+  fileName: string
+  uploadedAt: string
+  outcome: 'new_file' | 'new_version'
+  current: SimilarityResult[]
+  proposed: SimilarityResult[]
+  error?: string
+}
+
+// Only this many of the best candidates are sent for review
+const REVIEW_LIMIT = 5
+const MAX_SUGGESTIONS_LIMIT = 50
+const DRY_RUN_UPLOADS = 10
+
+const normalizeFolder = (folderPath: string) => `/${folderPath.trim().replace(/^\/+|\/+$/g, '').replace(/\/{2,}/g, '/')}`
+
+const isInFolder = (folderPath: string, folder: string) =>
+  folderPath === folder || folderPath.startsWith(`${folder.replace(/\/$/, '')}/`)
+
+const parseJson = <T>(value: unknown, fallback: T): T => {
+  if (typeof value !== 'string' || value.trim() === '') return fallback
+  try {
+    return JSON.parse(value) ?? fallback
+  } catch {
+    return fallback
+  }
+}
+
+export class SimilarityService {
+  private static instance: SimilarityService
+
+  static getInstance(): SimilarityService {
+    if (!SimilarityService.instance) {
+      SimilarityService.instance = new SimilarityService()
+    }
+    return SimilarityService.instance
+  }
+
+  async getSettings(organizationId: string): Promise<SimilaritySettings> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const policy = policies[0]
+      if (!policy) return DEFAULT_SIMILARITY_SETTINGS
+
+      const rules = parseJson<unknown>(policy.similarity_pairing_rules, [])
+      return {
+        mode: policy.similarity_mode === 'offline' ? 'offline' : 'ai',
+        weights: { ...DEFAULT_SIMILARITY_WEIGHTS, ...parseJson(policy.similarity_weights, {}) },
+        thresholds: { ...DEFAULT_SIMILARITY_THRESHOLDS, ...parseJson(policy.similarity_thresholds, {}) },
+        excludedFolders: parseList(policy.similarity_excluded_folders),
+        pairingRules: Array.isArray(rules)
+          ? rules.filter(rule => typeof rule?.existingType === 'string' && typeof rule?.uploadType === 'string')
+          : []
+      }
+    } catch (error) {
+      console.error('Error loading similarity settings:', error)
+      return DEFAULT_SIMILARITY_SETTINGS
+    }
+  }
+
+  async setSettings(organizationId: string, settings: SimilaritySettings): Promise<void> {
+    const normalized = this.validate(settings)
+    const policies = await blink.db.organizationPolicies.list({
+      where: { organization_id: organizationId }
+    })
+    const now = new Date().toISOString()
+    const data = {
+      similarity_mode: normalized.mode,
+      similarity_weights: JSON.stringify(normalized.weights),
+      similarity_thresholds: JSON.stringify(normalized.thresholds),
+      similarity_excluded_folders: JSON.stringify(normalized.excludedFolders),
+      similarity_pairing_rules: JSON.stringify(normalized.pairingRules),
+      updated_at: now
+    }
+    if (policies[0]) {
+      await blink.db.organizationPolicies.update(policies[0].id, data)
+    } else {
+      await blink.db.organizationPolicies.create({
+        id: `policy_${Date.now()}`,
+        organization_id: organizationId,
+        ...data,
+        created_at: now
+      })
+    }
+  }
+
+  /**
+   * Settings with folders and types cleaned up; throws on values that would
+   * break matching
+   */
+  validate(settings: SimilaritySettings): SimilaritySettings {
+    const { thresholds, weights } = settings
+    const isShare = (value: number) => Number.isFinite(value) && value >= 0 && value <= 1
+    if (!isShare(thresholds.minScore) || !isShare(thresholds.significantChange)) {
+      throw new Error('Thresholds must be between 0 and 1.')
+    }
+    if (!Number.isInteger(thresholds.maxSuggestions) || thresholds.maxSuggestions < 1 || thresholds.maxSuggestions > MAX_SUGGESTIONS_LIMIT) {
+      throw new Error(`Show between 1 and ${MAX_SUGGESTIONS_LIMIT} suggestions.`)
+    }
+    if (Object.values(weights).some(weight => !Number.isFinite(weight) || weight < 0)) {
+      throw new Error('Weights cannot be negative.')
+    }
+    // The review only looks at candidates the other signals found
+    if (!(weights.name > 0 || weights.content > 0 || weights.perceptual > 0)) {
+      throw new Error('Give the file name, text content or visual signal a weight above 0.')
+    }
+
+    const excludedFolders = Array.from(new Set(settings.excludedFolders.map(normalizeFolder)))
+    if (excludedFolders.includes('/')) {
+      throw new Error('Excluding / would turn suggestions off for every folder.')
+    }
+    const pairingRules = settings.pairingRules.map(rule => ({
+      existingType: rule.existingType.trim().toLowerCase().replace(/^\./, ''),
+      uploadType: rule.uploadType.trim().toLowerCase().replace(/^\./, '')
+    }))
+    if (pairingRules.some(rule => !rule.existingType || !rule.uploadType)) {
+      throw new Error('Pairing rules need both file types.')
+    }
+    return { ...settings, excludedFolders, pairingRules }
+  }
+
+  createProviders(settings: SimilaritySettings): SimilarityProvider[] {
+    return [
+      new NameSimilarityProvider(),
+      new ContentSimilarityProvider(),
+      new PerceptualSimilarityProvider(),
+      settings.mode === 'offline'
+        ? new OfflineSimilarityProvider(settings.thresholds.significantChange)
+        : new LlmSimilarityProvider(options => blink.ai.generateObject(options))
+    ]
+  }
+
+  /**
+   * Existing files the upload is likely a new version of, best first
+   */
+  async findSimilarFiles(file: File, organizationId: string, options: FindSimilarOptions = {}): Promise<SimilarityResult[]> {
+    try {
+      const settings = options.settings || await this.getSettings(organizationId)
+      if (options.folderPath && this.isExcludedFolder(options.folderPath, settings)) return []
+
+      const source = options.candidateSource || similarityIndexService
+      const { query, candidates, idf } = await source.lookup(organizationId, file, {
+        contentHash: options.contentHash,
+        excludeFileIds: options.excludeFileIds
+      })
+      return await this.rank(query, candidates, idf, settings, options)
+    } catch (error) {
+      console.error('Error finding similar files:', error)
+      return []
+    }
+  }
+
+  /**
+   * Score recent uploads again with the saved settings and with proposed
+   * ones, against the files that existed when each was uploaded
+   */
+  async dryRun(organizationId: string, proposed: SimilaritySettings, limit = DRY_RUN_UPLOADS): Promise<SimilarityReplay[]> {
+    const settings = this.validate(proposed)
+    const [current, uploads] = await Promise.all([
+      this.getSettings(organizationId),
+      blink.db.fileAuditTrail.list({
+        where: {
+          organization_id: organizationId,
+          OR: [{ action: 'upload' }, { action: 'version_update' }]
+        },
+        orderBy: { created_at: 'desc' },
+        limit
+      })
+    ])
+
+    const replays: SimilarityReplay[] = []
+    for (const upload of uploads) {
+      const outcome = upload.action === 'version_update' ? 'new_version' : 'new_file'
+      const replay: SimilarityReplay = {
+        auditId: upload.id,
+        fileId: upload.file_id,
+        fileName: parseJson<{ fileName?: string }>(upload.detailed_changes, {}).fileName || upload.file_id,
+        uploadedAt: upload.created_at,
+        outcome,
+        current: [],
+        proposed: []
+      }
+      replays.push(replay)
+
+      try {
+        const [files, versions] = await Promise.all([
+          blink.db.files.list({ where: { id: upload.file_id } }),
+          blink.db.fileVersions.list({ where: { id: upload.version_id || `version_${upload.file_id}` } })
+        ])
+        const file = files[0]
+        const stored = versions[0] || file
+        if (!stored?.file_path) {
+          replay.error = 'The uploaded file is no longer stored.'
+          continue
+        }
+        const content = await similarityIndexService.download({
+          name: stored.file_name || stored.name || replay.fileName,
+          file_path: stored.file_path,
+          original_file_path: stored.original_file_path,
+          file_type: stored.file_type
+        })
+
+        // The file's own index entry holds its current content, which is this
+        // very upload once approved, so it is never a fair candidate
+        const lookup = await similarityIndexService.lookup(organizationId, content, {
+          contentHash: stored.content_hash || undefined,
+          excludeFileIds: [upload.file_id]
+        })
+        // Files uploaded later did not exist to be suggested
+        const candidates = lookup.candidates.filter(candidate => !candidate.file.created_at || candidate.file.created_at < upload.created_at)
+        if (outcome === 'new_version' && file) {
+          // A new version should be found from the revision it replaced
+          const predecessor = await this.findPredecessor(upload.file_id, stored.id, upload.created_at)
+          if (predecessor) {
+            candidates.push(await similarityIndexService.candidateFromRevision(file, predecessor))
+          }
+        }
+        const folderPath = file?.folder_path || '/'
+        const replayWith = async (replaySettings: SimilaritySettings) =>
+          this.isExcludedFolder(folderPath, replaySettings)
+            ? []
+            : this.rank(lookup.query, candidates, lookup.idf, replaySettings, {})
+
+        replay.current = await replayWith(current)
+        replay.proposed = JSON.stringify(current) === JSON.stringify(settings)
+          ? replay.current
+          : await replayWith(settings)
+      } catch (error) {
+        console.error(`Error replaying upload ${upload.id}:`, error)
+        replay.error = error instanceof Error ? error.message : 'Could not replay the upload.'
+      }
+    }
+    return replays
+  }
+
+  /**
+   * The revision that was current when a new version of the file was uploaded
+   */
+  private async findPredecessor(fileId: string, versionId: string, uploadedAt: string): Promise<any | null> {
+    const versions = await blink.db.fileVersions.list({
+      where: { file_id: fileId },
+      orderBy: { created_at: 'desc' }
+    })
+    return versions.find((version: any) =>
+      version.id !== versionId &&
+      version.created_at < uploadedAt &&
+      version.file_path &&
+      ['approved', 'effective', 'superseded'].includes(lifecycleService.getState(version))
+    ) || null
+  }
+
+  private async rank(
+    query: SimilarityDocument,
+    candidates: SimilarityCandidate[],
+    idf: (term: string) => number,
+    settings: SimilaritySettings,
+    options: FindSimilarOptions
+  ): Promise<SimilarityResult[]> {
+    const allowed = candidates.filter(candidate => this.isAllowed(query, candidate, settings))
+    if (allowed.length === 0) return []
+
+    const combiner = new SimilarityCombiner(options.providers || this.createProviders(settings), settings.weights, REVIEW_LIMIT)
+    const matches = await combiner.combine(query, allowed, { idf, analysis: options.analysis })
+    return matches
+      .filter(match => match.score >= settings.thresholds.minScore)
+      .slice(0, settings.thresholds.maxSuggestions)
+      .map(match => this.toResult(match, settings.mode))
+  }
+
+  private isExcludedFolder(folderPath: string, settings: SimilaritySettings): boolean {
+    return settings.excludedFolders.some(folder => isInFolder(folderPath, folder))
+  }
+
+  private isAllowed(query: SimilarityDocument, candidate: SimilarityCandidate, settings: SimilaritySettings): boolean {
+    if (this.isExcludedFolder(candidate.file.folder_path || '/', settings)) return false
+    return !settings.pairingRules.some(rule =>
+      matchesFileType(rule.existingType, candidate.name, candidate.fileType) &&
+      matchesFileType(rule.uploadType, query.name, query.fileType))
+  }
+
+  private toResult(match: CombinedMatch, mode: SimilarityMode): SimilarityResult {
+    const { candidate, signals } = match
+    const file = candidate.file
+    const reasons = [signals.review, signals.content, signals.perceptual, signals.name]
+      .map(signal => signal?.reason)
+      .filter(Boolean)
+
+    let analysis: string
+    if (mode === 'ai' && signals.review) {
+      analysis = signals.review.reason
+    } else if (signals.content) {
+      analysis = `The content overlaps with "${file.name}" - this might be an updated version of it`
+    } else if (signals.perceptual) {
+      analysis = `The images look alike - this might be a re-export of "${file.name}"`
+    } else {
+      analysis = `File names are similar - this might be an updated version of "${file.name}"`
+    }
+
+    return {
+      fileId: file.id,
+      fileName: file.name,
+      versionLabel: file.version_label,
+      uploadedBy: file.uploaded_by,
+      createdAt: file.created_at,
+      similarityScore: match.score,
+      similarityReason: reasons.join('; '),
+      contentSimilarity: signals.content?.score ?? 0,
+      nameSimilarity: signals.name?.score ?? 0,
+      visualSimilarity: signals.perceptual?.score,
+      signals: getSignalValues(signals),
+      thumbnail: candidate.thumbnail,
+      aiAnalysis: analysis,
+      significantChange: signals.review?.significantChange,
+      pendingVersionId: file.pending_version_id || undefined,
+      ...fileLockService.getLockHolder(file)
+    }
+  }
+}
+
+export const similarityService = SimilarityService.getInstance()
@@ -0,0 +1,717 @@
+import { unzipSync, strFromU8, type Unzipped } from 'fflate'
+import { blink } from '../blink/client'
+import { contentHashService } from './contentHashService'
+import { officeMetadataService } from './officeMetadataService'
+import { versionDiffService } from './versionDiffService'
+
+export type TextFormat = 'pdf' | 'docx' | 'xlsx' | 'pptx' | 'rtf' | 'csv' | 'html' | 'markdown' | 'text'
+
+export type TextSectionKind = 'page' | 'sheet' | 'slide' | 'section'
+
+export interface TextSection {
+  kind: TextSectionKind
+  label: string
+  text: string
+}
+
+export interface ExtractedText {
+  contentHash: string
+  // Absent when no extractor handles the file, e.g. images and archives
+  format?: TextFormat
+  text: string
+  sections: TextSection[]
+  // The stored text stops at MAX_STORED_CHARACTERS
+  truncated: boolean
+  extractedAt: string
+  // Set when the extractor failed; such results are not cached
+  error?: string
+}
+
+export const TEXT_FORMAT_LABELS: Record<TextFormat, string> = {
+  pdf: 'PDF',
+  docx: 'Word',
+  xlsx: 'Excel',
+  pptx: 'PowerPoint',
+  rtf: 'Rich text',
+  csv: 'CSV',
+  html: 'HTML',
+  markdown: 'Markdown',
+  text: 'Plain text'
+}
+
+// Bump when an extractor changes so cached text is produced again
+const EXTRACTOR_VERSION = 1
+const MAX_STORED_CHARACTERS = 500_000
+const MEMORY_CACHE_SIZE = 50
+
+const TEXT_EXTENSIONS = ['txt', 'text', 'log', 'json', 'xml', 'yml', 'yaml', 'ini', 'cfg']
+
+// Groups whose content is formatting or document properties rather than text
+const RTF_SKIPPED_DESTINATIONS = new Set([
+  'fonttbl', 'colortbl', 'stylesheet', 'listtable', 'listoverridetable', 'info', 'pict', 'object',
+  'themedata', 'colorschememapping', 'latentstyles', 'datastore', 'xmlnstbl', 'rsidtbl', 'generator',
+  'fldinst', 'mmathPr', 'header', 'headerl', 'headerr', 'headerf', 'footer', 'footerl', 'footerr', 'footerf'
+])
+
+const HTML_BLOCK_ELEMENTS = new Set([
+  'address', 'article', 'aside', 'blockquote', 'br', 'dd', 'div', 'dl', 'dt', 'figcaption', 'footer',
+  'h1', 'h2', 'h3', 'h4', 'h5', 'h6', 'header', 'hr', 'li', 'main', 'nav', 'ol', 'p', 'pre', 'section',
+  'table', 'tr', 'ul'
+])
+
+const HTML_SKIPPED_ELEMENTS = new Set(['script', 'style', 'noscript', 'template', 'head', 'svg'])
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || ''
+
+// A heading block starts a new section; the rest are appended to the current one
+interface TextBlock {
+  text: string
+  heading?: boolean
+}
+
+export class TextExtractionService {
+  private static instance: TextExtractionService
+  private memoryCache = new Map<string, ExtractedText>()
+
+  static getInstance(): TextExtractionService {
+    if (!TextExtractionService.instance) {
+      TextExtractionService.instance = new TextExtractionService()
+    }
+    return TextExtractionService.instance
+  }
+
+  getFormat(fileType: string | null | undefined, fileName: string): TextFormat | null {
+    const type = (fileType || '').toLowerCase()
+    const extension = getExtension(fileName)
+
+    if (type.includes('pdf') || extension === 'pdf') return 'pdf'
+    const officeFormat = officeMetadataService.getFormat(type, fileName)
+    if (officeFormat) return officeFormat
+    if (type.includes('rtf') || extension === 'rtf') return 'rtf'
+    if (type === 'text/csv' || type === 'text/tab-separated-values' || extension === 'csv' || extension === 'tsv') return 'csv'
+    if (type === 'text/html' || type === 'application/xhtml+xml' || ['html', 'htm', 'xhtml'].includes(extension)) return 'html'
+    if (type.includes('markdown') || extension === 'md' || extension === 'markdown') return 'markdown'
+    if (type.startsWith('text/') || type.includes('json') || type.endsWith('/xml') || TEXT_EXTENSIONS.includes(extension)) return 'text'
+    return null
+  }
+
+  /**
+   * Normalized text of a file, from the cache when the same content was
+   * extracted before. Never throws; unreadable files give empty text.
+   */
+  async extract(file: File, contentHash?: string): Promise<ExtractedText> {
+    const hash = contentHash || await contentHashService.computeContentHash(file)
+    const cached = await this.getCached(hash)
+    if (cached) return cached
+
+    const format = this.getFormat(file.type, file.name)
+    let sections: TextSection[] = []
+    let failure: string | undefined
+    if (format) {
+      try {
+        sections = await this.extractSections(file, format)
+      } catch (error) {
+        console.error(`Error extracting text from ${file.name}:`, error)
+        failure = error instanceof Error ? error.message : String(error)
+      }
+    }
+
+    const fullText = sections.map(section => section.text).filter(Boolean).join('\n\n')
+    const result: ExtractedText = {
+      contentHash: hash,
+      format: format || undefined,
+      text: fullText.slice(0, MAX_STORED_CHARACTERS),
+      sections: this.limitSections(sections),
+      truncated: fullText.length > MAX_STORED_CHARACTERS,
+      extractedAt: new Date().toISOString(),
+      error: failure
+    }
+    if (format && !failure) {
+      this.remember(result)
+      await this.store(result)
+    }
+    return result
+  }
+
+  /**
+   * Text of a stored version, skipping the download when its hash is cached.
+   * The URL must serve the bytes contentHash was computed from, i.e. the
+   * original rendition when metadata was embedded (see getSourceFilePath).
+   */
+  async extractFromUrl(url: string, fileName: string, fileType?: string | null, contentHash?: string | null): Promise<ExtractedText> {
+    if (contentHash) {
+      const cached = await this.getCached(contentHash)
+      if (cached) return cached
+    }
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to download ${fileName} (${response.status})`)
+    }
+    const blob = await response.blob()
+    return this.extract(new File([blob], fileName, { type: fileType || blob.type }), contentHash || undefined)
+  }
+
+  async getCached(contentHash: string): Promise<ExtractedText | null> {
+    const remembered = this.memoryCache.get(contentHash)
+    if (remembered) return remembered
+
+    try {
+      const row = (await blink.db.textExtractions.list({ where: { id: this.cacheId(contentHash) } }))[0]
+      if (!row || Number(row.extractor_version) !== EXTRACTOR_VERSION) return null
+      const result: ExtractedText = {
+        contentHash,
+        format: row.format || undefined,
+        text: row.text || '',
+        sections: this.parseSections(row.sections),
+        truncated: Number(row.truncated) > 0,
+        extractedAt: row.created_at
+      }
+      this.remember(result)
+      return result
+    } catch (error) {
+      console.error('Error loading cached text:', error)
+      return null
+    }
+  }
+
+  /**
+   * Ids of the files whose already extracted text contains the query.
+   * Only cached text is searched; nothing is downloaded.
+   */
+  async searchFiles(files: { id: string, content_hash?: string | null }[], query: string): Promise<string[]> {
+    const needle = query.trim().toLowerCase()
+    if (!needle) return []
+
+    const matches: string[] = []
+    const byHash = new Map<string, boolean>()
+    for (const file of files) {
+      if (!file.content_hash) continue
+      if (!byHash.has(file.content_hash)) {
+        const cached = await this.getCached(file.content_hash)
+        byHash.set(file.content_hash, Boolean(cached?.text.toLowerCase().includes(needle)))
+      }
+      if (byHash.get(file.content_hash)) matches.push(file.id)
+    }
+    return matches
+  }
+
+  normalize(text: string): string {
+    return text
+      .normalize('NFC')
+      .replace(/\r\n?/g, '\n')
+      .replace(/[\u00a0\u2007\u202f]/g, ' ')
+      // eslint-disable-next-line no-control-regex
+      .replace(/[\u0000-\u0008\u000b\u000c\u000e-\u001f\u007f\u00ad\u200b\ufeff]/g, '')
+      .replace(/ {2,}/g, ' ')
+      .replace(/[ \t]+\n/g, '\n')
+      .replace(/\n +/g, '\n')
+      .replace(/\n{3,}/g, '\n\n')
+      .trim()
+  }
+
+  private async extractSections(file: File, format: TextFormat): Promise<TextSection[]> {
+    const baseName = file.name.replace(/\.[^.]+$/, '')
+    switch (format) {
+      case 'pdf': {
+        const url = URL.createObjectURL(file)
+        try {
+          const pages = await versionDiffService.loadPdfPages(url)
+          return pages.map((page, index) => this.section('page', `Page ${index + 1}`, page))
+        } finally {
+          URL.revokeObjectURL(url)
+        }
+      }
+      case 'docx':
+        return this.extractDocx(unzipSync(new Uint8Array(await file.arrayBuffer())), baseName)
+      case 'xlsx':
+        return this.extractXlsx(unzipSync(new Uint8Array(await file.arrayBuffer())))
+      case 'pptx':
+        return this.extractPptx(unzipSync(new Uint8Array(await file.arrayBuffer())))
+      case 'rtf':
+        return [this.section('section', baseName, this.rtfToText(await file.text()))]
+      case 'csv': {
+        const delimiter = getExtension(file.name) === 'tsv' || file.type === 'text/tab-separated-values' ? '\t' : undefined
+        return [this.section('sheet', baseName, this.csvToText(await file.text(), delimiter))]
+      }
+      case 'html':
+        return this.toSections(this.htmlToBlocks(await file.text()), baseName)
+      case 'markdown':
+        return this.toSections(this.markdownToBlocks(await file.text()), baseName)
+      default:
+        return [this.section('section', baseName, await file.text())]
+    }
+  }
+
+  /**
+   * Body paragraphs and tables in document order, split at headings
+   */
+  private extractDocx(entries: Unzipped, baseName: string): TextSection[] {
+    const document = entries['word/document.xml']
+    if (!document) return []
+    const doc = this.parseXml(strFromU8(document))
+    const body = this.descendants(doc.documentElement, 'body')[0]
+    if (!body) return []
+
+    const blocks: TextBlock[] = []
+    const walk = (parent: Element) => {
+      for (const child of Array.from(parent.childNodes)) {
+        if (child.nodeType !== 1) continue
+        const element = child as Element
+        if (element.localName === 'p') {
+          const style = this.descendants(element, 'pStyle')[0]
+          const styleName = style ? this.attribute(style, 'val') : ''
+          blocks.push({ text: this.wordRunText(element), heading: /^(heading|title)/i.test(styleName) })
+        } else if (element.localName === 'tbl') {
+          const rows = this.descendants(element, 'tr').map(row =>
+            this.descendants(row, 'tc')
+              .map(cell => this.descendants(cell, 'p').map(paragraph => this.wordRunText(paragraph)).join(' '))
+              .join('\t'))
+          blocks.push({ text: rows.join('\n') })
+        } else if (['sdt', 'sdtContent', 'customXml', 'smartTag'].includes(element.localName)) {
+          // Content controls and custom markup wrap ordinary paragraphs
+          walk(element)
+        }
+      }
+    }
+    walk(body)
+    return this.toSections(blocks, baseName)
+  }
+
+  /**
+   * One section per worksheet, named as in the workbook, with cells tab separated
+   */
+  private extractXlsx(entries: Unzipped): TextSection[] {
+    const sharedStrings = entries['xl/sharedStrings.xml']
+      ? this.descendants(this.parseXml(strFromU8(entries['xl/sharedStrings.xml'])).documentElement, 'si')
+        .map(item => this.descendants(item, 't')
+          // Phonetic runs repeat the reading of the text before them
+          .filter(text => (text.parentNode as Element | null)?.localName !== 'rPh')
+          .map(text => text.textContent || '')
+          .join(''))
+      : []
+
+    const targets = this.readRelationships(entries, 'xl/_rels/workbook.xml.rels', 'xl')
+
+    const workbook = entries['xl/workbook.xml']
+    if (!workbook) return []
+    const sheets = this.descendants(this.parseXml(strFromU8(workbook)).documentElement, 'sheet')
+    return sheets.map((sheet, index) => {
+      const path = targets.get(this.attribute(sheet, 'id')) || `xl/worksheets/sheet${index + 1}.xml`
+      const label = sheet.getAttribute('name') || `Sheet ${index + 1}`
+      if (!entries[path]) return this.section('sheet', label, '')
+
+      const rows = this.descendants(this.parseXml(strFromU8(entries[path])).documentElement, 'row').map(row =>
+        this.descendants(row, 'c').map(cell => {
+          const type = cell.getAttribute('t')
+          if (type === 'inlineStr') {
+            return this.descendants(cell, 't').map(text => text.textContent || '').join('')
+          }
+          const value = this.descendants(cell, 'v')[0]?.textContent || ''
+          if (type === 's') return sharedStrings[Number(value)] || ''
+          if (type === 'b') return value === '1' ? 'TRUE' : 'FALSE'
+          return value
+        }).filter(Boolean).join('\t'))
+      return this.section('sheet', label, rows.filter(Boolean).join('\n'))
+    })
+  }
+
+  /**
+   * One section per slide in presentation order, which need not follow the part names
+   */
+  private extractPptx(entries: Unzipped): TextSection[] {
+    const targets = this.readRelationships(entries, 'ppt/_rels/presentation.xml.rels', 'ppt')
+    const ordered = entries['ppt/presentation.xml']
+      ? this.descendants(this.parseXml(strFromU8(entries['ppt/presentation.xml'])).documentElement, 'sldId')
+        .map(slide => targets.get(this.attribute(slide, 'id')) || '')
+        .filter(path => entries[path])
+      : []
+    const paths = ordered.length > 0
+      ? ordered
+      : Object.keys(entries)
+        .filter(path => /^ppt\/slides\/slide\d+\.xml$/.test(path))
+        .sort((a, b) => a.localeCompare(b, undefined, { numeric: true }))
+
+    return paths.map((path, index) => {
+      const doc = this.parseXml(strFromU8(entries[path]))
+      const paragraphs = this.descendants(doc.documentElement, 'p')
+        .map(paragraph => this.descendants(paragraph, 't').map(text => text.textContent || '').join(''))
+      return this.section('slide', `Slide ${index + 1}`, paragraphs.join('\n'))
+    })
+  }
+
+  /**
+   * Plain text of an RTF document: control words are dropped, paragraph and
+   * tab controls become whitespace and escaped characters are decoded
+   */
+  private rtfToText(rtf: string): string {
+    const decoder = new TextDecoder('windows-1252')
+    const stack: { skip: boolean, unicodeSkip: number }[] = []
+    let skip = false
+    let unicodeSkip = 1
+    // Fallback characters still to drop after a \u escape
+    let pendingSkip = 0
+    let output = ''
+    let i = 0
+
+    const emit = (text: string) => {
+      if (pendingSkip > 0) {
+        pendingSkip--
+      } else if (!skip) {
+        output += text
+      }
+    }
+
+    while (i < rtf.length) {
+      const char = rtf[i]
+      if (char === '{') {
+        stack.push({ skip, unicodeSkip })
+        pendingSkip = 0
+        i++
+      } else if (char === '}') {
+        const state = stack.pop()
+        if (state) {
+          skip = state.skip
+          unicodeSkip = state.unicodeSkip
+        }
+        pendingSkip = 0
+        i++
+      } else if (char === '\\') {
+        const next = rtf[i + 1]
+        if (next === '\\' || next === '{' || next === '}') {
+          emit(next)
+          i += 2
+        } else if (next === "'") {
+          emit(decoder.decode(Uint8Array.of(parseInt(rtf.substr(i + 2, 2), 16) || 0x3f)))
+          i += 4
+        } else if (next === '*') {
+          skip = true
+          i += 2
+        } else if (next === '~') {
+          emit(' ')
+          i += 2
+        } else if (next === '_') {
+          emit('-')
+          i += 2
+        } else {
+          const match = /^\\([a-zA-Z]+)(-?\d+)? ?/.exec(rtf.slice(i, i + 48))
+          if (!match) {
+            // Other control symbols such as \- (optional hyphen) carry no text
+            i += 2
+            continue
+          }
+          i += match[0].length
+          const word = match[1]
+          const param = match[2] !== undefined ? Number(match[2]) : undefined
+          if (RTF_SKIPPED_DESTINATIONS.has(word)) {
+            skip = true
+          } else if (word === 'par' || word === 'line' || word === 'sect' || word === 'page' || word === 'row') {
+            if (!skip) output += '\n'
+          } else if (word === 'tab' || word === 'cell') {
+            if (!skip) output += '\t'
+          } else if (word === 'uc' && param !== undefined) {
+            unicodeSkip = param
+          } else if (word === 'u' && param !== undefined) {
+            if (!skip) output += String.fromCharCode(param < 0 ? param + 65536 : param)
+            pendingSkip = unicodeSkip
+          } else if (word === 'emdash' || word === 'endash') {
+            if (!skip) output += word === 'emdash' ? '—' : '–'
+          } else if (word === 'bullet') {
+            if (!skip) output += '•'
+          } else if (word === 'lquote' || word === 'rquote') {
+            if (!skip) output += word === 'lquote' ? '‘' : '’'
+          } else if (word === 'ldblquote' || word === 'rdblquote') {
+            if (!skip) output += word === 'ldblquote' ? '“' : '”'
+          }
+        }
+      } else if (char === '\r' || char === '\n') {
+        i++
+      } else {
+        emit(char)
+        i++
+      }
+    }
+    return output
+  }
+
+  /**
+   * Rows of a CSV file with its cells tab separated; the delimiter is taken
+   * from the first line when not given
+   */
+  private csvToText(csv: string, delimiter?: string): string {
+    const content = csv.replace(/^\ufeff/, '')
+    const firstLine = content.split('\n', 1)[0]
+    const separator = delimiter || [',', ';', '\t'].reduce((best, candidate) =>
+      firstLine.split(candidate).length > firstLine.split(best).length ? candidate : best, ',')
+
+    const rows: string[][] = []
+    let row: string[] = []
+    let cell = ''
+    let quoted = false
+    for (let i = 0; i < content.length; i++) {
+      const char = content[i]
+      if (quoted) {
+        if (char === '"' && content[i + 1] === '"') {
+          cell += '"'
+          i++
+        } else if (char === '"') {
+          quoted = false
+        } else {
+          cell += char
+        }
+      } else if (char === '"' && cell === '') {
+        quoted = true
+      } else if (char === separator) {
+        row.push(cell)
+        cell = ''
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && content[i + 1] === '\n') i++
+        row.push(cell)
+        rows.push(row)
+        row = []
+        cell = ''
+      } else {
+        cell += char
+      }
+    }
+    if (cell || row.length > 0) {
+      row.push(cell)
+      rows.push(row)
+    }
+
+    // Line breaks inside a quoted cell would otherwise read as new rows
+    return rows
+      .map(cells => cells.map(value => value.replace(/\s*\n\s*/g, ' ').trim()).join('\t'))
+      .filter(line => line.trim())
+      .join('\n')
+  }
+
+  private htmlToBlocks(html: string): TextBlock[] {
+    const doc = new DOMParser().parseFromString(html, 'text/html')
+    const blocks: TextBlock[] = []
+    let current = ''
+    const flush = (heading = false) => {
+      if (current.trim()) blocks.push({ text: current, heading })
+      current = ''
+    }
+
+    const walk = (node: Node) => {
+      if (node.nodeType === 3) {
+        current += (node.textContent || '').replace(/\s+/g, ' ')
+        return
+      }
+      if (node.nodeType !== 1) return
+      const name = (node as Element).localName.toLowerCase()
+      if (HTML_SKIPPED_ELEMENTS.has(name)) return
+      const block = HTML_BLOCK_ELEMENTS.has(name)
+      if (block) flush()
+      for (const child of Array.from(node.childNodes)) {
+        walk(child)
+      }
+      if (name === 'td' || name === 'th') {
+        current += '\t'
+      } else if (block) {
+        flush(/^h[1-3]$/.test(name))
+      }
+    }
+
+    const body = doc.getElementsByTagName('body')[0] || doc.documentElement
+    if (body) walk(body)
+    flush()
+    return blocks
+  }
+
+  /**
+   * Text of a Markdown document without its syntax: headings, emphasis,
+   * links, list markers, quotes and table pipes are dropped, code is kept
+   */
+  private markdownToBlocks(markdown: string): TextBlock[] {
+    const blocks: TextBlock[] = []
+    let inCode = false
+
+    for (const rawLine of markdown.replace(/\r\n?/g, '\n').split('\n')) {
+      if (/^\s*(```|~~~)/.test(rawLine)) {
+        inCode = !inCode
+        continue
+      }
+      if (inCode) {
+        blocks.push({ text: rawLine })
+        continue
+      }
+
+      // Setext headings underline the line before them
+      const previous = blocks[blocks.length - 1]
+      if (/^\s*(=+|-+)\s*$/.test(rawLine) && previous?.text.trim() && !previous.heading) {
+        previous.heading = true
+        continue
+      }
+      if (/^\s*([-*_]\s*){3,}$/.test(rawLine) || /^\s*\[[^\]]+\]:\s+\S+/.test(rawLine) || /^\s*\|?\s*:?-{3,}:?\s*(\|\s*:?-{3,}:?\s*)*\|?\s*$/.test(rawLine)) {
+        continue
+      }
+
+      const heading = /^\s{0,3}#{1,6}\s+(.*?)\s*#*\s*$/.exec(rawLine)
+      let line = heading ? heading[1] : rawLine
+      line = line
+        .replace(/^\s*(>\s?)+/, '')
+        .replace(/^\s*([-*+]|\d+[.)])\s+(\[[ xX]\]\s+)?/, '')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1')
+        .replace(/\[([^\]]+)\]\[[^\]]*\]/g, '$1')
+        .replace(/<(https?:\/\/[^>]+)>/g, '$1')
+        .replace(/<\/?[a-zA-Z][^>]*>/g, '')
+        .replace(/`([^`]+)`/g, '$1')
+        .replace(/(\*\*|__)(.+?)\1/g, '$2')
+        .replace(/(^|[^\w*])[*_](?=\S)(.+?)(?<=\S)[*_](?![\w*])/g, '$1$2')
+        .replace(/~~(.+?)~~/g, '$1')
+      if (/^\s*\|.*\|\s*$/.test(line)) {
+        line = line.trim().replace(/^\||\|$/g, '').split('|').map(cell => cell.trim()).join('\t')
+      }
+      blocks.push({ text: line, heading: Boolean(heading) })
+    }
+    return blocks
+  }
+
+  /**
+   * Group blocks into sections that start at each heading; documents without
+   * headings become one section
+   */
+  private toSections(blocks: TextBlock[], fallbackLabel: string): TextSection[] {
+    const sections: TextSection[] = []
+    let label = fallbackLabel
+    let lines: string[] = []
+    const flush = () => {
+      const section = this.section('section', label, lines.join('\n'))
+      if (section.text) sections.push(section)
+    }
+
+    for (const block of blocks) {
+      if (block.heading && block.text.trim()) {
+        flush()
+        label = this.normalize(block.text)
+        lines = []
+      }
+      lines.push(block.text)
+    }
+    flush()
+    return sections
+  }
+
+  private section(kind: TextSectionKind, label: string, text: string): TextSection {
+    return { kind, label, text: this.normalize(text) }
+  }
+
+  /**
+   * Stored sections share the text limit, so later ones may be cut or dropped
+   */
+  private limitSections(sections: TextSection[]): TextSection[] {
+    let remaining = MAX_STORED_CHARACTERS
+    const limited: TextSection[] = []
+    for (const section of sections) {
+      if (remaining <= 0) break
+      limited.push({ ...section, text: section.text.slice(0, remaining) })
+      remaining -= section.text.length
+    }
+    return limited
+  }
+
+  private wordRunText(paragraph: Element): string {
+    let text = ''
+    const walk = (node: Element) => {
+      for (const child of Array.from(node.childNodes)) {
+        if (child.nodeType !== 1) continue
+        const element = child as Element
+        if (element.localName === 't') {
+          text += element.textContent || ''
+        } else if (element.localName === 'tab') {
+          text += '\t'
+        } else if (element.localName === 'br' || element.localName === 'cr') {
+          text += '\n'
+        } else if (element.localName !== 'delText' && element.localName !== 'instrText') {
+          walk(element)
+        }
+      }
+    }
+    walk(paragraph)
+    return text
+  }
+
+  /**
+   * Part paths by relationship id, resolved against the folder of the source part
+   */
+  private readRelationships(entries: Unzipped, relsPath: string, directory: string): Map<string, string> {
+    const targets = new Map<string, string>()
+    if (!entries[relsPath]) return targets
+    const rels = this.parseXml(strFromU8(entries[relsPath]))
+    for (const rel of this.descendants(rels.documentElement, 'Relationship')) {
+      const target = rel.getAttribute('Target') || ''
+      targets.set(rel.getAttribute('Id') || '', target.startsWith('/') ? target.slice(1) : `${directory}/${target}`)
+    }
+    return targets
+  }
+
+  private descendants(root: Element, localName: string): Element[] {
+    return Array.from(root.getElementsByTagName('*')).filter(element => element.localName === localName)
+  }
+
+  // Office attributes are namespaced (w:val, r:id) and looked up by local name;
+  // sldId carries both id and r:id, so a namespaced match wins
+  private attribute(element: Element, localName: string): string {
+    const matches = Array.from(element.attributes).filter(attribute => attribute.localName === localName)
+    return (matches.find(attribute => attribute.namespaceURI) || matches[0])?.value || ''
+  }
+
+  private parseXml(xml: string): Document {
+    const doc = new DOMParser().parseFromString(xml, 'application/xml')
+    if (doc.getElementsByTagName('parsererror').length > 0) {
+      throw new Error('Invalid XML in document part')
+    }
+    return doc
+  }
+
+  private parseSections(value: unknown): TextSection[] {
+    if (typeof value !== 'string' || !value) return []
+    try {
+      const parsed = JSON.parse(value)
+      return Array.isArray(parsed) ? parsed : []
+    } catch {
+      return []
+    }
+  }
+
+  private remember(result: ExtractedText): void {
+    // Re-inserting moves the entry to the end, so the oldest is evicted first
+    this.memoryCache.delete(result.contentHash)
+    this.memoryCache.set(result.contentHash, result)
+    if (this.memoryCache.size > MEMORY_CACHE_SIZE) {
+      this.memoryCache.delete(this.memoryCache.keys().next().value as string)
+    }
+  }
+
+  private async store(result: ExtractedText): Promise<void> {
+    const data = {
+      content_hash: result.contentHash,
+      format: result.format || null,
+      text: result.text,
+      sections: JSON.stringify(result.sections),
+      truncated: result.truncated ? 1 : 0,
+      extractor_version: EXTRACTOR_VERSION,
+      created_at: result.extractedAt
+    }
+    try {
+      const id = this.cacheId(result.contentHash)
+      const existing = await blink.db.textExtractions.list({ where: { id } })
+      if (existing.length > 0) {
+        await blink.db.textExtractions.update(id, data)
+      } else {
+        await blink.db.textExtractions.create({ id, ...data })
+      }
+    } catch (error) {
+      console.error('Error caching extracted text:', error)
+    }
+  }
+
+  private cacheId(contentHash: string): string {
+    return `text_${contentHash}`
+  }
+}
+
+export const textExtractionService = TextExtractionService.getInstance()
@@ -0,0 +1,330 @@
+import { blink } from '../blink/client'
+import { aiSimilarityService } from './aiSimilarityService'
+import { fileLockService } from './fileLockService'
+import { lifecycleService } from './lifecycleService'
+import { retentionService } from './retentionService'
+import { similarityIndexService } from './similarityIndexService'
+
+export interface TrashUser {
+  id: string
+  email?: string
+}
+
+export interface TrashableFile {
+  id: string
+  name: string
+  organization_id: string
+  file_path: string
+  deleted_at?: string | null
+  deleted_by?: string | null
+  deleted_by_name?: string | null
+  purge_after?: string | null
+}
+
+const DEFAULT_TRASH_RETENTION_DAYS = 30
+const SYSTEM_USER = 'system'
+// Columns that point at a stored blob: served file, untouched original, stamped copy and sidecar
+const RENDITION_COLUMNS = ['file_path', 'original_file_path', 'stamped_file_path', 'companion_file_path'] as const
+
+export class TrashService {
+  private static instance: TrashService
+
+  static getInstance(): TrashService {
+    if (!TrashService.instance) {
+      TrashService.instance = new TrashService()
+    }
+    return TrashService.instance
+  }
+
+  isTrashed(file: { deleted_at?: string | null }): boolean {
+    return Boolean(file.deleted_at)
+  }
+
+  async getRetentionDays(organizationId: string): Promise<number> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const days = Number(policies[0]?.trash_retention_days)
+      return days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS
+    } catch (error) {
+      console.error('Error loading trash policy:', error)
+      return DEFAULT_TRASH_RETENTION_DAYS
+    }
+  }
+
+  async setRetentionDays(organizationId: string, days: number): Promise<void> {
+    const policies = await blink.db.organizationPolicies.list({
+      where: { organization_id: organizationId }
+    })
+    const now = new Date().toISOString()
+    if (policies[0]) {
+      await blink.db.organizationPolicies.update(policies[0].id, { trash_retention_days: days, updated_at: now })
+    } else {
+      await blink.db.organizationPolicies.create({
+        id: `policy_${Date.now()}`,
+        organization_id: organizationId,
+        trash_retention_days: days,
+        created_at: now,
+        updated_at: now
+      })
+    }
+  }
+
+  async listTrash(organizationId: string): Promise<any[]> {
+    const files = await blink.db.files.list({
+      where: { organization_id: organizationId },
+      orderBy: { deleted_at: 'desc' }
+    })
+    return files.filter((file: any) => this.isTrashed(file))
+  }
+
+  /**
+   * Soft delete: hide the file and all of its versions until restored or purged
+   */
+  async moveToTrash(file: TrashableFile, user: TrashUser): Promise<void> {
+    const current = await this.reload(file)
+    if (fileLockService.isLockedByOther(current, user.id)) {
+      const lock = fileLockService.getLockState(current, user.id)
+      throw new Error(`${file.name} is checked out by ${lock.lockedByName}`)
+    }
+    await retentionService.assertAllowed(current, 'delete', user)
+
+    const now = new Date()
+    const days = await this.getRetentionDays(file.organization_id)
+    const purgeAfter = new Date(now.getTime() + days * 24 * 60 * 60 * 1000).toISOString()
+
+    await blink.db.files.update(file.id, {
+      deleted_at: now.toISOString(),
+      deleted_by: user.id,
+      deleted_by_name: user.email || user.id,
+      purge_after: purgeAfter,
+      // Indexed again from scratch if the file is restored
+      similarity_indexed_hash: null
+    })
+    await similarityIndexService.removeFile(file)
+    const versions = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+    for (const version of versions) {
+      await blink.db.fileVersions.update(version.id, { deleted_at: now.toISOString() })
+    }
+
+    await this.logTrashEvent(file, user.id, 'trash', `Moved ${file.name} to trash`, {
+      deletedBy: user.email || user.id,
+      versionCount: versions.length,
+      purgeAfter
+    })
+  }
+
+  async restoreFromTrash(file: TrashableFile, user: TrashUser): Promise<void> {
+    await blink.db.files.update(file.id, {
+      deleted_at: null,
+      deleted_by: null,
+      deleted_by_name: null,
+      purge_after: null
+    })
+    const versions = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+    for (const version of versions) {
+      await blink.db.fileVersions.update(version.id, { deleted_at: null })
+    }
+
+    await this.logTrashEvent(file, user.id, 'trash_restore', `Restored ${file.name} from trash`, {
+      restoredBy: user.email || user.id,
+      deletedBy: file.deleted_by_name,
+      deletedAt: file.deleted_at
+    })
+  }
+
+  /**
+   * Permanently remove a trashed file, its versions and any stored blobs no
+   * other record points at. Audit entries are kept as the record of the purge.
+   */
+  async purge(file: TrashableFile, user: TrashUser, isAdmin: boolean): Promise<void> {
+    if (!isAdmin) {
+      throw new Error('Only administrators can permanently delete files')
+    }
+    await retentionService.assertAllowed(file, 'delete', user)
+    await this.purgeFile(file, user.id, 'Permanently deleted by administrator')
+  }
+
+  /**
+   * Purge everything whose retention in the trash has run out
+   */
+  async purgeExpired(organizationId: string): Promise<number> {
+    try {
+      const now = Date.now()
+      const expired = (await this.listTrash(organizationId))
+        .filter(file => file.purge_after && new Date(file.purge_after).getTime() <= now)
+
+      let purged = 0
+      for (const file of expired) {
+        // Held or retained files stay in the trash until they may go
+        const check = await retentionService.checkFile(file, 'delete')
+        if (!check.allowed) continue
+        await this.purgeFile(file, SYSTEM_USER, 'Trash retention period elapsed')
+        purged++
+      }
+      return purged
+    } catch (error) {
+      console.error('Error purging expired trash:', error)
+      return 0
+    }
+  }
+
+  /**
+   * Permanently remove an old revision from the version table, and the blobs
+   * only it points at. Current revisions and drafts cannot be pruned.
+   */
+  async pruneVersion(fileId: string, versionId: string, user: TrashUser): Promise<void> {
+    const files = await blink.db.files.list({ where: { id: fileId } })
+    const file = files[0]
+    if (!file) {
+      throw new Error('File not found')
+    }
+    const versions = await blink.db.fileVersions.list({ where: { id: versionId, file_id: fileId } })
+    const version = versions[0]
+    if (!version) {
+      throw new Error('Version not found')
+    }
+
+    if (fileLockService.isLockedByOther(file, user.id)) {
+      const lock = fileLockService.getLockState(file, user.id)
+      throw new Error(`${file.name} is checked out by ${lock.lockedByName}`)
+    }
+    const state = lifecycleService.getState(version)
+    if (Number(version.is_current) > 0 || file.pending_version_id === version.id || !['superseded', 'obsolete'].includes(state)) {
+      throw new Error('Only superseded or obsolete versions can be deleted')
+    }
+    // Whoever may withdraw a revision may also delete an old one
+    const workflow = await lifecycleService.resolveWorkflow(file.organization_id, file.folder_path || '/', aiSimilarityService.getTypePrefix(file.file_type || ''))
+    if (!lifecycleService.canPerform('obsolete', user, workflow)) {
+      throw new Error('You are not allowed to delete versions in this workflow')
+    }
+    await retentionService.assertAllowed(file, 'prune', user, version.id)
+
+    // Restored copies and the file record can share a blob with this version
+    const removed = await this.removeBlobs([version], row => row.id !== version.id)
+    await blink.db.fileVersions.delete(version.id)
+
+    await this.logTrashEvent(file, user.id, 'version_prune', `Deleted version ${version.version_label} of ${file.name}`, {
+      versionId: version.id,
+      versionLabel: version.version_label,
+      lifecycleState: state,
+      deletedBy: user.email || user.id,
+      removedBlobs: removed
+    })
+  }
+
+  private async purgeFile(file: TrashableFile, userId: string, reason: string): Promise<void> {
+    const versions = await blink.db.fileVersions.list({ where: { file_id: file.id } })
+    // Linked files and exact duplicates can share a blob with this file
+    const removed = await this.removeBlobs([file, ...versions], row => row.file_id !== file.id && row.id !== file.id)
+
+    for (const version of versions) {
+      await blink.db.fileVersions.delete(version.id)
+    }
+    await blink.db.files.delete(file.id)
+    await similarityIndexService.removeFile(file)
+
+    await this.logTrashEvent(file, userId, 'purge', `Permanently deleted ${file.name}`, {
+      reason,
+      deletedBy: file.deleted_by_name,
+      deletedAt: file.deleted_at,
+      versionCount: versions.length,
+      removedBlobs: removed
+    })
+  }
+
+  /**
+   * Remove every stored rendition of the rows unless a row outside them
+   * still points at it.
+   * Returns how many blobs were removed.
+   */
+  private async removeBlobs(rows: any[], isOtherRow: (row: any) => boolean): Promise<number> {
+    const storagePaths: Record<string, string> = Object.assign({}, ...rows
+      .map((row: any) => this.parseStoragePaths(row.storage_paths)))
+    const paths = Array.from(new Set(rows.flatMap((row: any) => RENDITION_COLUMNS.map(column => row[column])).filter(Boolean)))
+
+    const removable: string[] = []
+    for (const path of paths) {
+      if (!(await this.isReferencedElsewhere(path, isOtherRow))) {
+        const storagePath = storagePaths[path] || this.getStoragePath(path)
+        if (storagePath) removable.push(storagePath)
+      }
+    }
+
+    if (removable.length > 0) {
+      try {
+        await blink.storage.remove(...removable)
+      } catch (error) {
+        console.error('Error removing stored files:', error)
+        return 0
+      }
+    }
+    return removable.length
+  }
+
+  /**
+   * Whether any other row serves or keeps the blob, in any rendition column;
+   * restored revisions carry the renditions of the revision they came from
+   */
+  private async isReferencedElsewhere(filePath: string, isOtherRow: (row: any) => boolean): Promise<boolean> {
+    const where = { OR: RENDITION_COLUMNS.map(column => ({ [column]: filePath })) }
+    const files = await blink.db.files.list({ where })
+    if (files.some(isOtherRow)) return true
+    const versions = await blink.db.fileVersions.list({ where })
+    return versions.some(isOtherRow)
+  }
+
+  private parseStoragePaths(value: unknown): Record<string, string> {
+    if (typeof value !== 'string') return {}
+    try {
+      const parsed = JSON.parse(value)
+      return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+    } catch {
+      return {}
+    }
+  }
+
+  /**
+   * Storage path guessed from the public URL, for rows uploaded before
+   * storage paths were recorded. Renditions live under organizations/<org>/files/,
+   * plain uploads under files/.
+   */
+  private getStoragePath(publicUrl: string): string | null {
+    try {
+      const path = decodeURIComponent(new URL(publicUrl).pathname)
+      const organizationIndex = path.indexOf('/organizations/')
+      if (organizationIndex >= 0) return path.slice(organizationIndex + 1)
+      const index = path.lastIndexOf('/files/')
+      return index >= 0 ? path.slice(index + 1) : null
+    } catch {
+      return null
+    }
+  }
+
+  private async reload(file: TrashableFile): Promise<any> {
+    const files = await blink.db.files.list({ where: { id: file.id } })
+    return files[0] || file
+  }
+
+  private async logTrashEvent(
+    file: TrashableFile,
+    userId: string,
+    action: 'trash' | 'trash_restore' | 'purge' | 'version_prune',
+    summary: string,
+    details: Record<string, any>
+  ): Promise<void> {
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}`,
+      file_id: file.id,
+      organization_id: file.organization_id,
+      user_id: userId,
+      action,
+      change_summary: summary,
+      detailed_changes: JSON.stringify({ fileName: file.name, ...details }),
+      created_at: new Date().toISOString()
+    })
+  }
+}
+
+export const trashService = TrashService.getInstance()
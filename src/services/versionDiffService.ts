@@ -0,0 +1,280 @@
+import * as pdfjs from 'pdfjs-dist'
+import pdfWorkerUrl from 'pdfjs-dist/build/pdf.worker.min.mjs?url'
+
+pdfjs.GlobalWorkerOptions.workerSrc = pdfWorkerUrl
+
+export type CompareMode = 'text' | 'document' | 'image' | 'pdf' | 'unsupported'
+
+export interface DiffLine {
+  type: 'added' | 'removed' | 'unchanged'
+  text: string
+  oldLineNumber?: number
+  newLineNumber?: number
+}
+
+export interface PageDiff {
+  // Position in the aligned comparison
+  pageNumber: number
+  // Missing when the page was added or removed
+  oldPageNumber?: number
+  newPageNumber?: number
+  changed: boolean
+  lines: DiffLine[]
+}
+
+export interface DiffStats {
+  added: number
+  removed: number
+  unchanged: number
+}
+
+const TEXT_EXTENSIONS = ['txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'xml', 'yml', 'yaml', 'log']
+const IMAGE_EXTENSIONS = ['png', 'jpg', 'jpeg', 'gif', 'webp', 'bmp', 'svg']
+// Compared through the text textExtractionService pulls out of them
+const DOCUMENT_EXTENSIONS = ['docx', 'xlsx', 'pptx', 'rtf', 'html', 'htm', 'xhtml']
+
+// Beyond these the walk back needs more memory than a browser tab should spend
+const MAX_DIFF_LINES = 100000
+const MAX_EDIT_DISTANCE = 3000
+
+export const DIFF_TOO_LARGE = 'These versions differ too much to compare line by line.'
+
+const getExtension = (fileName: string) => fileName.split('.').pop()?.toLowerCase() || ''
+
+export class VersionDiffService {
+  private static instance: VersionDiffService
+
+  static getInstance(): VersionDiffService {
+    if (!VersionDiffService.instance) {
+      VersionDiffService.instance = new VersionDiffService()
+    }
+    return VersionDiffService.instance
+  }
+
+  /**
+   * Decide how two versions of a file can be compared
+   */
+  getCompareMode(fileName: string, fileType?: string | null): CompareMode {
+    const type = (fileType || '').toLowerCase()
+    const extension = getExtension(fileName)
+
+    if (type.includes('pdf') || extension === 'pdf') return 'pdf'
+    if (type.startsWith('image/') || IMAGE_EXTENSIONS.includes(extension)) return 'image'
+    if (
+      DOCUMENT_EXTENSIONS.includes(extension) ||
+      type.includes('officedocument') ||
+      type.includes('rtf') ||
+      type === 'text/html'
+    ) {
+      return 'document'
+    }
+    if (
+      type.startsWith('text/') ||
+      type.includes('json') ||
+      type.includes('csv') ||
+      type.includes('markdown') ||
+      TEXT_EXTENSIONS.includes(extension)
+    ) {
+      return 'text'
+    }
+    return 'unsupported'
+  }
+
+  /**
+   * Download a version as text, pretty-printing JSON so the diff is line based
+   */
+  async loadText(url: string, fileName: string): Promise<string> {
+    const response = await fetch(url)
+    if (!response.ok) {
+      throw new Error(`Failed to download ${fileName} (${response.status})`)
+    }
+    const text = await response.text()
+
+    if (getExtension(fileName) === 'json') {
+      try {
+        return JSON.stringify(JSON.parse(text), null, 2)
+      } catch {
+        // Not valid JSON - diff the raw text
+      }
+    }
+    return text.replace(/\r\n/g, '\n')
+  }
+
+  /**
+   * Extract the text layer of each PDF page
+   */
+  async loadPdfPages(url: string): Promise<string[]> {
+    const pdf = await pdfjs.getDocument({ url }).promise
+    try {
+      const pages: string[] = []
+      for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+        const page = await pdf.getPage(pageNumber)
+        const content = await page.getTextContent()
+        let text = ''
+        for (const item of content.items) {
+          if ('str' in item) {
+            text += item.str + (item.hasEOL ? '\n' : ' ')
+          }
+        }
+        pages.push(text.replace(/[ \t]+\n/g, '\n').trim())
+      }
+      return pages
+    } finally {
+      await pdf.destroy()
+    }
+  }
+
+  /**
+   * Render one PDF page on white, scaled so its longer side is maxSize pixels
+   */
+  async renderPdfPage(data: Uint8Array, pageNumber: number, maxSize: number): Promise<HTMLCanvasElement> {
+    const pdf = await pdfjs.getDocument({ data }).promise
+    try {
+      const page = await pdf.getPage(pageNumber)
+      const unscaled = page.getViewport({ scale: 1 })
+      const viewport = page.getViewport({ scale: maxSize / Math.max(unscaled.width, unscaled.height) })
+      const canvas = document.createElement('canvas')
+      canvas.width = Math.max(1, Math.round(viewport.width))
+      canvas.height = Math.max(1, Math.round(viewport.height))
+      await page.render({ canvas, viewport, background: 'white' }).promise
+      return canvas
+    } finally {
+      await pdf.destroy()
+    }
+  }
+
+  /**
+   * Line-level diff (Myers' O(ND) algorithm)
+   */
+  diffLines(oldText: string, newText: string): DiffLine[] {
+    return this.diffSequences(oldText.split('\n'), newText.split('\n'))
+  }
+
+  /**
+   * Diff PDFs page by page so changed pages can be highlighted. Pages are
+   * aligned by their text first, so an inserted or removed page does not
+   * mark every later page as changed.
+   */
+  diffPages(oldPages: string[], newPages: string[]): PageDiff[] {
+    const keys = new Map<string, string>()
+    const keyOf = (text: string) => {
+      if (!keys.has(text)) keys.set(text, String(keys.size))
+      return keys.get(text)!
+    }
+    const alignment = this.diffSequences(oldPages.map(keyOf), newPages.map(keyOf))
+
+    const pages: PageDiff[] = []
+    const push = (oldIndex?: number, newIndex?: number) => {
+      const oldText = oldIndex === undefined ? '' : oldPages[oldIndex]
+      const newText = newIndex === undefined ? '' : newPages[newIndex]
+      const changed = oldIndex === undefined || newIndex === undefined || oldText !== newText
+      pages.push({
+        pageNumber: pages.length + 1,
+        oldPageNumber: oldIndex === undefined ? undefined : oldIndex + 1,
+        newPageNumber: newIndex === undefined ? undefined : newIndex + 1,
+        changed,
+        lines: changed ? this.diffLines(oldText, newText) : []
+      })
+    }
+
+    // Removed and added pages between two matching ones are edits of each other, in order
+    let removed: number[] = []
+    let added: number[] = []
+    const flush = () => {
+      for (let i = 0; i < Math.max(removed.length, added.length); i++) push(removed[i], added[i])
+      removed = []
+      added = []
+    }
+    for (const step of alignment) {
+      if (step.type === 'removed') {
+        removed.push(step.oldLineNumber! - 1)
+      } else if (step.type === 'added') {
+        added.push(step.newLineNumber! - 1)
+      } else {
+        flush()
+        push(step.oldLineNumber! - 1, step.newLineNumber! - 1)
+      }
+    }
+    flush()
+    return pages
+  }
+
+  /**
+   * Myers' diff over two sequences. Only the diagonals reachable at each
+   * step are kept for the walk back, so memory grows with the square of the
+   * edit distance rather than with the file size.
+   */
+  private diffSequences(a: string[], b: string[]): DiffLine[] {
+    const n = a.length
+    const m = b.length
+    if (n + m > MAX_DIFF_LINES) {
+      throw new Error(DIFF_TOO_LARGE)
+    }
+    const max = Math.min(n + m, MAX_EDIT_DISTANCE)
+    const offset = max + 1
+    const v = new Int32Array(2 * max + 3)
+    // trace[d][d + k] is v[k] before step d, for k in [-d, d]
+    const trace: Int32Array[] = []
+
+    let found = false
+    for (let d = 0; d <= max && !found; d++) {
+      trace.push(v.slice(offset - d, offset + d + 1))
+      for (let k = -d; k <= d; k += 2) {
+        let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+          ? v[offset + k + 1]
+          : v[offset + k - 1] + 1
+        let y = x - k
+        while (x < n && y < m && a[x] === b[y]) {
+          x++
+          y++
+        }
+        v[offset + k] = x
+        if (x >= n && y >= m) {
+          found = true
+          break
+        }
+      }
+    }
+    if (!found) {
+      throw new Error(DIFF_TOO_LARGE)
+    }
+
+    // Walk the trace backwards to recover the edit script
+    const lines: DiffLine[] = []
+    let x = n
+    let y = m
+    for (let d = trace.length - 1; d >= 0; d--) {
+      const vd = trace[d]
+      const k = x - y
+      const prevK = k === -d || (k !== d && vd[d + k - 1] < vd[d + k + 1]) ? k + 1 : k - 1
+      const prevX = d > 0 ? vd[d + prevK] : 0
+      const prevY = prevX - prevK
+
+      while (x > prevX && y > prevY) {
+        x--
+        y--
+        lines.push({ type: 'unchanged', text: a[x], oldLineNumber: x + 1, newLineNumber: y + 1 })
+      }
+      if (d > 0) {
+        if (x === prevX) {
+          y--
+          lines.push({ type: 'added', text: b[y], newLineNumber: y + 1 })
+        } else {
+          x--
+          lines.push({ type: 'removed', text: a[x], oldLineNumber: x + 1 })
+        }
+      }
+    }
+
+    return lines.reverse()
+  }
+
+  getStats(lines: DiffLine[]): DiffStats {
+    return lines.reduce<DiffStats>((stats, line) => {
+      stats[line.type === 'added' ? 'added' : line.type === 'removed' ? 'removed' : 'unchanged']++
+      return stats
+    }, { added: 0, removed: 0, unchanged: 0 })
+  }
+}
+
+export const versionDiffService = VersionDiffService.getInstance()
@@ -0,0 +1,464 @@
+import { blink } from '../blink/client'
+import { parseList } from '../lib/utils'
+
+export type VersionBump = 'major' | 'minor' | 'patch'
+
+export interface VersionParts {
+  prefix?: string
+  sequence?: number
+  // Digits the sequence was written with, so unpadded templates keep "003" as "003"
+  sequenceWidth?: number
+  major?: number
+  minor?: number
+  patch?: number
+  revision?: number
+  date?: string
+  documentType?: string
+}
+
+export interface VersionPolicy {
+  companyPrefix: string
+  versionFormat: string
+  // Document types (type prefix, content type or category) that always take a major bump
+  majorBumpDocumentTypes: string[]
+  // Require a major bump when the AI flags the change as significant
+  majorBumpOnSignificantChange: boolean
+}
+
+export interface BumpRequirement {
+  bump: VersionBump
+  reason?: string
+}
+
+type TokenKind = 'prefix' | 'sequence' | 'major' | 'minor' | 'patch' | 'revision' | 'date' | 'documentType'
+
+interface TemplateToken {
+  kind: TokenKind
+  width?: number
+  lowercase?: boolean
+  dateFormat?: string
+}
+
+type TemplateSegment = string | TemplateToken
+
+export const DEFAULT_VERSION_POLICY: VersionPolicy = {
+  companyPrefix: 'VT',
+  versionFormat: '{prefix}-{seq:02d}-v{major}.{minor}.{patch}',
+  majorBumpDocumentTypes: [],
+  majorBumpOnSignificantChange: false
+}
+
+const BUMP_RANK: Record<VersionBump, number> = { patch: 0, minor: 1, major: 2 }
+
+// Formats tried when a label does not match the organization's current template,
+// so files created under an older policy can still be incremented.
+const BUILT_IN_FORMATS = [
+  DEFAULT_VERSION_POLICY.versionFormat,
+  '{prefix}-v{major}.{minor}.{patch}',
+  '{prefix}-{seq} Rev {rev}',
+  '{prefix} Rev {rev}',
+  'v{major}.{minor}.{patch}',
+  'v{major}.{minor}',
+  'Rev {rev}'
+]
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+
+/**
+ * Parse a single `{...}` token. Supported tokens:
+ * {prefix}, {seq}, {seq:03d}, {XXX}, {major}, {minor}, {patch}, {rev}, {A-Z}, {a-z},
+ * {date}, {date:YYYY-MM-DD}, {type}
+ */
+const parseToken = (body: string): TemplateToken | null => {
+  const [name, option] = body.split(':')
+  switch (name) {
+    case 'prefix':
+      return { kind: 'prefix' }
+    case 'seq': {
+      const width = option?.match(/^0?(\d+)d$/)
+      return { kind: 'sequence', width: width ? Number(width[1]) : undefined }
+    }
+    case 'major':
+    case 'minor':
+    case 'patch':
+      return { kind: name }
+    case 'rev':
+    case 'A-Z':
+      return { kind: 'revision' }
+    case 'a-z':
+      return { kind: 'revision', lowercase: true }
+    case 'date':
+      return { kind: 'date', dateFormat: option || 'YYYYMMDD' }
+    case 'type':
+      return { kind: 'documentType' }
+    default:
+      // Landing page notation: {XXX} is a zero-padded sequence as wide as the X run
+      if (/^X+$/.test(body)) {
+        return { kind: 'sequence', width: body.length }
+      }
+      return null
+  }
+}
+
+const formatDate = (date: Date, format: string) =>
+  format
+    .replace('YYYY', date.getFullYear().toString())
+    .replace('YY', (date.getFullYear() % 100).toString().padStart(2, '0'))
+    .replace('MM', (date.getMonth() + 1).toString().padStart(2, '0'))
+    .replace('DD', date.getDate().toString().padStart(2, '0'))
+
+const dateFormatPattern = (format: string) =>
+  format
+    .split(/(YYYY|YY|MM|DD)/)
+    .map(part => {
+      if (part === 'YYYY') return '\\d{4}'
+      if (part === 'YY' || part === 'MM' || part === 'DD') return '\\d{2}'
+      return escapeRegExp(part)
+    })
+    .join('')
+
+export class VersionFormatService {
+  private static instance: VersionFormatService
+  private compiled = new Map<string, TemplateSegment[]>()
+
+  static getInstance(): VersionFormatService {
+    if (!VersionFormatService.instance) {
+      VersionFormatService.instance = new VersionFormatService()
+    }
+    return VersionFormatService.instance
+  }
+
+  /**
+   * Load the organization's version policy, falling back to the default format
+   */
+  async getPolicy(organizationId: string): Promise<VersionPolicy> {
+    try {
+      const policies = await blink.db.organizationPolicies.list({
+        where: { organization_id: organizationId }
+      })
+      const policy = policies[0]
+      return {
+        companyPrefix: policy?.company_prefix || DEFAULT_VERSION_POLICY.companyPrefix,
+        versionFormat: policy?.version_format || DEFAULT_VERSION_POLICY.versionFormat,
+        majorBumpDocumentTypes: parseList(policy?.major_bump_document_types),
+        majorBumpOnSignificantChange: Number(policy?.major_bump_on_significant_change) > 0
+      }
+    } catch (error) {
+      console.error('Error loading version policy:', error)
+      return DEFAULT_VERSION_POLICY
+    }
+  }
+
+  /**
+   * Save the organization's version policy; throws when the template is not usable
+   */
+  async setPolicy(organizationId: string, policy: VersionPolicy): Promise<void> {
+    const errors = this.validateTemplate(policy.versionFormat)
+    if (errors.length > 0) {
+      throw new Error(errors.join('. '))
+    }
+
+    const policies = await blink.db.organizationPolicies.list({
+      where: { organization_id: organizationId }
+    })
+    const now = new Date().toISOString()
+    const data = {
+      company_prefix: policy.companyPrefix.trim() || DEFAULT_VERSION_POLICY.companyPrefix,
+      version_format: policy.versionFormat,
+      major_bump_document_types: JSON.stringify(policy.majorBumpDocumentTypes.map(type => type.trim()).filter(Boolean)),
+      major_bump_on_significant_change: policy.majorBumpOnSignificantChange ? 1 : 0,
+      updated_at: now
+    }
+    if (policies[0]) {
+      await blink.db.organizationPolicies.update(policies[0].id, data)
+    } else {
+      await blink.db.organizationPolicies.create({
+        id: `policy_${Date.now()}`,
+        organization_id: organizationId,
+        ...data,
+        created_at: now
+      })
+    }
+  }
+
+  /**
+   * Return a list of problems with a template, empty when it is usable
+   */
+  validateTemplate(template: string): string[] {
+    const errors: string[] = []
+    for (const match of template.matchAll(/\{([^}]*)\}/g)) {
+      if (!parseToken(match[1])) {
+        errors.push(`Unknown token {${match[1]}}`)
+      }
+    }
+    const segments = this.compile(template)
+    if (!segments.some(s => typeof s !== 'string' && ['major', 'minor', 'patch', 'revision'].includes(s.kind))) {
+      errors.push('Template needs at least one of {major}, {minor}, {patch} or {rev}')
+    }
+    return errors
+  }
+
+  /**
+   * Render a label from its parts
+   */
+  format(template: string, parts: VersionParts): string {
+    return this.compile(template).map(segment => {
+      if (typeof segment === 'string') return segment
+      switch (segment.kind) {
+        case 'prefix':
+          return parts.prefix ?? ''
+        case 'sequence':
+          return (parts.sequence ?? 1).toString().padStart(segment.width ?? parts.sequenceWidth ?? 0, '0')
+        case 'major':
+          return (parts.major ?? 1).toString()
+        case 'minor':
+          return (parts.minor ?? 0).toString()
+        case 'patch':
+          return (parts.patch ?? 0).toString()
+        case 'revision': {
+          const letters = this.revisionToLetters(parts.revision ?? 1)
+          return segment.lowercase ? letters.toLowerCase() : letters
+        }
+        case 'date':
+          return parts.date ?? formatDate(new Date(), segment.dateFormat!)
+        case 'documentType':
+          return parts.documentType ?? ''
+      }
+    }).join('')
+  }
+
+  /**
+   * Parse a label back into its parts, or null when it does not follow the template
+   */
+  parse(label: string, template: string): VersionParts | null {
+    const segments = this.compile(template)
+    const kinds: TokenKind[] = []
+    const pattern = segments.map(segment => {
+      if (typeof segment === 'string') return escapeRegExp(segment)
+      kinds.push(segment.kind)
+      switch (segment.kind) {
+        case 'prefix':
+        case 'documentType':
+          return '(.+?)'
+        case 'sequence':
+        case 'major':
+        case 'minor':
+        case 'patch':
+          return '(\\d+)'
+        case 'revision':
+          return segment.lowercase ? '([a-z]+)' : '([A-Z]+)'
+        case 'date':
+          return `(${dateFormatPattern(segment.dateFormat!)})`
+      }
+    }).join('')
+
+    const match = label.trim().match(new RegExp(`^${pattern}$`))
+    if (!match) return null
+
+    const parts: VersionParts = {}
+    kinds.forEach((kind, index) => {
+      const value = match[index + 1]
+      switch (kind) {
+        case 'prefix':
+          parts.prefix = value
+          break
+        case 'documentType':
+          parts.documentType = value
+          break
+        case 'date':
+          parts.date = value
+          break
+        case 'revision':
+          parts.revision = this.lettersToRevision(value)
+          break
+        case 'sequence':
+          parts.sequence = Number(value)
+          parts.sequenceWidth = value.length
+          break
+        default:
+          parts[kind] = Number(value)
+      }
+    })
+    return parts
+  }
+
+  /**
+   * Parse a label against the preferred template first, then the built-in formats
+   */
+  parseAny(label: string, preferredTemplate?: string): { template: string, parts: VersionParts } | null {
+    const templates = preferredTemplate ? [preferredTemplate, ...BUILT_IN_FORMATS] : BUILT_IN_FORMATS
+    for (const template of templates) {
+      const parts = this.parse(label, template)
+      if (parts) return { template, parts }
+    }
+    return null
+  }
+
+  /**
+   * Smallest bump the policy allows for this upload
+   */
+  getRequiredBump(
+    policy: VersionPolicy,
+    documentTypes: string[],
+    significantChange?: boolean
+  ): BumpRequirement {
+    const wanted = documentTypes.map(type => type.toLowerCase())
+    const matchedType = policy.majorBumpDocumentTypes.find(type => wanted.includes(type.toLowerCase()))
+    if (matchedType) {
+      return { bump: 'major', reason: `Policy requires a major version for ${matchedType} documents` }
+    }
+    if (policy.majorBumpOnSignificantChange && significantChange) {
+      return { bump: 'major', reason: 'Policy requires a major version when AI flags a significant change' }
+    }
+    return { bump: 'patch' }
+  }
+
+  /**
+   * The larger of two bumps
+   */
+  maxBump(a: VersionBump, b: VersionBump): VersionBump {
+    return BUMP_RANK[a] >= BUMP_RANK[b] ? a : b
+  }
+
+  /**
+   * Bump a label while keeping whatever format it was created with
+   */
+  increment(label: string, bump: VersionBump, preferredTemplate?: string): string {
+    const parsed = this.parseAny(label, preferredTemplate)
+    if (!parsed) {
+      // Unknown scheme: bump the last number in the label, or start a sub-version
+      const trailing = label.match(/^(.*?)(\d+)(\D*)$/)
+      if (trailing) {
+        return `${trailing[1]}${Number(trailing[2]) + 1}${trailing[3]}`
+      }
+      return `${label}.1`
+    }
+
+    return this.format(parsed.template, this.bumpParts(parsed.template, parsed.parts, bump))
+  }
+
+  /**
+   * Order two labels of the same document: negative when a is older. Labels
+   * the templates cannot parse fall back to comparing their numbers.
+   */
+  compare(a: string, b: string, preferredTemplate?: string): number {
+    const partsA = this.parseAny(a, preferredTemplate)?.parts
+    const partsB = this.parseAny(b, preferredTemplate)?.parts
+    if (partsA && partsB) {
+      for (const key of ['major', 'minor', 'patch', 'revision'] as const) {
+        const difference = (partsA[key] ?? 0) - (partsB[key] ?? 0)
+        if (difference !== 0) return difference
+      }
+      return 0
+    }
+    return a.localeCompare(b, undefined, { numeric: true })
+  }
+
+  /**
+   * Apply a bump to parsed parts. When the template lacks the requested
+   * component the next available one is bumped instead, so a "Rev A" scheme
+   * moves to "Rev B" whatever bump is asked for.
+   */
+  bumpParts(template: string, parts: VersionParts, bump: VersionBump): VersionParts {
+    const present = new Set(
+      this.compile(template)
+        .filter((s): s is TemplateToken => typeof s !== 'string')
+        .map(s => s.kind)
+    )
+    const order: Record<VersionBump, TokenKind[]> = {
+      major: ['major', 'revision', 'minor', 'patch'],
+      minor: ['minor', 'revision', 'major', 'patch'],
+      patch: ['patch', 'minor', 'revision', 'major']
+    }
+    const target = order[bump].find(kind => present.has(kind))
+    const next: VersionParts = { ...parts }
+
+    switch (target) {
+      case 'major':
+        next.major = (parts.major ?? 0) + 1
+        next.minor = 0
+        next.patch = 0
+        break
+      case 'minor':
+        next.minor = (parts.minor ?? 0) + 1
+        next.patch = 0
+        break
+      case 'patch':
+        next.patch = (parts.patch ?? 0) + 1
+        break
+      case 'revision':
+        next.revision = (parts.revision ?? 0) + 1
+        break
+    }
+
+    // Dates in a label describe the revision, so they move with it
+    if (present.has('date')) {
+      next.date = undefined
+    }
+    return next
+  }
+
+  /**
+   * First label for a newly numbered document under the policy
+   */
+  createInitialLabel(policy: VersionPolicy, sequence: number, documentType?: string): string {
+    return this.format(policy.versionFormat, {
+      prefix: policy.companyPrefix,
+      sequence,
+      major: 1,
+      minor: 0,
+      patch: 0,
+      revision: 1,
+      documentType
+    })
+  }
+
+  /**
+   * 1 -> A, 26 -> Z, 27 -> AA
+   */
+  revisionToLetters(revision: number): string {
+    let n = Math.max(1, Math.floor(revision))
+    let letters = ''
+    while (n > 0) {
+      const remainder = (n - 1) % 26
+      letters = String.fromCharCode(65 + remainder) + letters
+      n = Math.floor((n - 1) / 26)
+    }
+    return letters
+  }
+
+  /**
+   * A -> 1, Z -> 26, AA -> 27
+   */
+  lettersToRevision(letters: string): number {
+    return letters
+      .toUpperCase()
+      .split('')
+      .reduce((total, char) => total * 26 + (char.charCodeAt(0) - 64), 0)
+  }
+
+  private compile(template: string): TemplateSegment[] {
+    const cached = this.compiled.get(template)
+    if (cached) return cached
+
+    const segments: TemplateSegment[] = []
+    let lastIndex = 0
+    for (const match of template.matchAll(/\{([^}]*)\}/g)) {
+      const token = parseToken(match[1])
+      if (match.index! > lastIndex) {
+        segments.push(template.slice(lastIndex, match.index))
+      }
+      // Unknown tokens are kept as literal text
+      segments.push(token ?? match[0])
+      lastIndex = match.index! + match[0].length
+    }
+    if (lastIndex < template.length) {
+      segments.push(template.slice(lastIndex))
+    }
+
+    this.compiled.set(template, segments)
+    return segments
+  }
+}
+
+export const versionFormatService = VersionFormatService.getInstance()
@@ -0,0 +1,196 @@
+import { blink } from '../blink/client'
+import { aiSimilarityService } from './aiSimilarityService'
+import { documentMetadataService, type DocumentMetadata } from './documentMetadataService'
+import { fileLockService } from './fileLockService'
+import { lifecycleService } from './lifecycleService'
+import { metadataSchemaService } from './metadataSchemaService'
+import { retentionService } from './retentionService'
+import { similarityIndexService } from './similarityIndexService'
+
+export interface RestoreUser {
+  id: string
+  email?: string
+}
+
+export interface RestoreResult {
+  versionId: string
+  versionLabel: string
+  restoredFrom: string
+}
+
+export class VersionRestoreService {
+  private static instance: VersionRestoreService
+
+  static getInstance(): VersionRestoreService {
+    if (!VersionRestoreService.instance) {
+      VersionRestoreService.instance = new VersionRestoreService()
+    }
+    return VersionRestoreService.instance
+  }
+
+  /**
+   * Copy an older revision forward as a new draft. It becomes current only
+   * when it is approved through the file's workflow, like any other upload,
+   * and existing version rows are left as they are.
+   */
+  async restoreVersion(
+    fileId: string,
+    sourceId: string,
+    organizationId: string,
+    user: RestoreUser
+  ): Promise<RestoreResult> {
+    const files = await blink.db.files.list({ where: { id: fileId } })
+    const file = files[0]
+    if (!file) {
+      throw new Error('File not found')
+    }
+
+    if (fileLockService.isLockedByOther(file, user.id)) {
+      const lock = fileLockService.getLockState(file, user.id)
+      throw new Error(`${file.name} is checked out by ${lock.lockedByName}`)
+    }
+    await retentionService.assertAllowed(file, 'restore', user)
+
+    // One draft at a time, as for uploads; the restore would orphan the pending one
+    if (file.pending_version_id) {
+      throw new Error(`${file.name} already has a draft awaiting approval`)
+    }
+
+    // History entries come from fileVersions, or from files rows for legacy revisions
+    const versionRows = await blink.db.fileVersions.list({ where: { id: sourceId } })
+    const legacyRows = versionRows.length > 0 ? [] : await blink.db.files.list({ where: { id: sourceId } })
+    const source = versionRows[0] || legacyRows[0]
+    if (!source) {
+      throw new Error('Version not found')
+    }
+
+    const sourceState = lifecycleService.getState(source)
+    if (sourceState === 'draft' || sourceState === 'in_review') {
+      throw new Error('Drafts cannot be restored; approve them instead')
+    }
+
+    await lifecycleService.ensureCurrentVersionRow(file)
+
+    // A restore is a content change worth more than a patch
+    const versionLabel = await aiSimilarityService.generateVersionLabel(organizationId, fileId, 'minor', file.file_type)
+    const now = new Date().toISOString()
+    const sourceName = source.file_name || source.name || file.name
+    const sourceType = source.file_type || file.file_type
+    const customMetadata = source.custom_metadata ?? file.custom_metadata ?? null
+    const renditions = source.embedding_method
+      ? await this.reissueRenditions(file, { ...source, file_type: sourceType, custom_metadata: customMetadata }, sourceName, versionLabel, organizationId, user)
+      // Nothing was written into the source, so the restored revision can share its blob
+      : {
+          file_path: source.file_path,
+          original_file_path: source.original_file_path || null,
+          stamped_file_path: source.stamped_file_path || null,
+          companion_file_path: source.companion_file_path || null,
+          embedding_method: null,
+          issued_hash: null,
+          stamped_hash: null,
+          storage_paths: source.storage_paths || null
+        }
+
+    const versionId = `version_${Date.now()}_restored`
+    await blink.db.fileVersions.create({
+      id: versionId,
+      file_id: fileId,
+      version_label: versionLabel,
+      file_size: Number(source.file_size) || 0,
+      file_name: sourceName,
+      file_type: sourceType,
+      uploaded_by: user.id,
+      version_notes: `Restored from ${source.version_label}`,
+      content_hash: source.content_hash,
+      custom_metadata: customMetadata,
+      ...renditions,
+      lifecycle_state: 'draft',
+      is_current: "0",
+      restored_from_version_id: source.id,
+      restored_from_label: source.version_label,
+      created_at: now
+    })
+
+    await blink.db.files.update(fileId, {
+      pending_version_id: versionId,
+      updated_at: now
+    })
+
+    await blink.db.fileAuditTrail.create({
+      id: `audit_${Date.now()}`,
+      file_id: fileId,
+      version_id: versionId,
+      organization_id: organizationId,
+      user_id: user.id,
+      action: 'restore',
+      change_summary: `Restored ${source.version_label} as draft ${versionLabel}`,
+      detailed_changes: JSON.stringify({
+        fileName: file.name,
+        previousVersion: file.version_label,
+        newVersion: versionLabel,
+        restoredFrom: source.version_label,
+        restoredFromVersionId: source.id,
+        restoredBy: user.email || user.id,
+        contentHash: source.content_hash,
+        lifecycleState: 'draft',
+        embeddingMethod: renditions.embedding_method,
+        issuedHash: renditions.issued_hash
+      }),
+      created_at: now
+    })
+
+    return { versionId, versionLabel, restoredFrom: source.version_label }
+  }
+
+  /**
+   * The source's renditions carry its own revision in their metadata and
+   * stamp, so write the new label into the untouched original again
+   */
+  private async reissueRenditions(
+    file: any,
+    source: any,
+    fileName: string,
+    versionLabel: string,
+    organizationId: string,
+    user: RestoreUser
+  ): Promise<Record<string, any>> {
+    const content = await similarityIndexService.download({
+      name: fileName,
+      file_path: source.file_path,
+      original_file_path: source.original_file_path,
+      file_type: source.file_type
+    })
+    const policy = await documentMetadataService.getEmbeddingPolicy(organizationId)
+    const metadata: DocumentMetadata = {
+      documentReference: file.document_reference || '',
+      revisionNumber: versionLabel,
+      versionLabel,
+      lastModified: new Date().toISOString(),
+      modifiedBy: user.email || user.id,
+      organizationName: 'Sample Organization',
+      changeNotes: `Restored from ${source.version_label}`,
+      customFields: metadataSchemaService.parseValues(source)
+    }
+
+    const embedding = await documentMetadataService.embedMetadataInDocument(content, metadata, organizationId, {
+      stampPosition: policy.stampPosition,
+      imageStamp: policy.imageStamp
+    })
+    if (!embedding.success) {
+      throw new Error(`Could not write ${versionLabel} into ${fileName}: ${embedding.error || 'unknown error'}`)
+    }
+
+    return {
+      file_path: embedding.modifiedFileUrl || embedding.originalFileUrl,
+      original_file_path: embedding.originalFileUrl,
+      stamped_file_path: embedding.stampedRenditionUrl || null,
+      companion_file_path: embedding.companionFileUrl || null,
+      embedding_method: embedding.embeddingMethod,
+      issued_hash: embedding.modifiedFileHash || null,
+      stamped_hash: embedding.stampedRenditionHash || null,
+      storage_paths: JSON.stringify(embedding.storagePaths || {})
+    }
+  }
+}
+
+export const versionRestoreService = VersionRestoreService.getInstance()